@@ -8,12 +8,19 @@ import EditorPage from './pages/EditorPage';
 import Spinner from './components/ui/Spinner';
 import { BrandingProvider } from './contexts/BrandingContext';
 // FIX: Import admin-related firestore functions and types.
-import { createProject, getUserApiConfig, saveUserApiConfig, getApiPoolConfig, getApiPoolKeys, ensureUserDocument, getUserProfile, getAdminSettings, updateUserTokenBalance } from './services/firestoreService';
-import { ApiConfig, AiProvider, ApiPoolConfig, ApiPoolKey, User, Project } from './types';
+import { createProject, deleteProject, applyAiChanges, updateProjectGitConfig, getUserApiConfig, saveUserApiConfig, getApiKeyVault, isApiKeyVaultUnlocked, lockApiKeyVault, getApiPoolConfig, getApiPoolKeys, ensureUserDocument, getUserProfile, getAdminSettings, updateUserTokenBalance } from './services/firestoreService';
+import { ApiConfig, AiProvider, ApiPoolConfig, ApiPoolKey, User, Project, ProjectGitConfig } from './types';
+import { openRepository, cloneRepository } from './services/gitService';
+import { EMPTY_API_CONFIG, DEFAULT_DAILY_TOKEN_REWARD } from './services/aiProviders';
+import { getAiTransport } from './services/aiService';
 import DocumentationPage from './pages/DocumentationPage';
+import VaultUnlockModal from './components/VaultUnlockModal';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { AlertProvider, useAlert } from './contexts/AlertContext';
 
+// Firestore batches hold at most 500 writes, and cloned files are written in one.
+const MAX_CLONED_FILES = 450;
+
 const AppContent: React.FC = () => {
     const { showAlert } = useAlert();
     const { user: firebaseUser, loading } = useAuth();
@@ -23,7 +30,8 @@ const AppContent: React.FC = () => {
     const [initialGenerationTask, setInitialGenerationTask] = useState<{ prompt: string; provider: AiProvider, model?: string } | null>(null);
     const [isNavigating, setIsNavigating] = useState(false); // Used for interim loading state
     
-    const [apiConfig, setApiConfig] = useState<ApiConfig>({ gemini: null, openrouter: null, groq: null, e2b: null });
+    const [apiConfig, setApiConfig] = useState<ApiConfig>(EMPTY_API_CONFIG);
+    const [isVaultLocked, setIsVaultLocked] = useState(false);
     
     const [apiPoolConfig, setApiPoolConfig] = useState<ApiPoolConfig>({ isEnabled: false });
     const [apiPoolKeys, setApiPoolKeys] = useState<ApiPoolKey[]>([]);
@@ -45,7 +53,8 @@ const AppContent: React.FC = () => {
             setApiPoolKeys(poolKeys);
         } else {
             newAppUser.isAdmin = false;
-            if(poolConfig.isEnabled) {
+            // Through the AI proxy, pooled keys stay on the server.
+            if(poolConfig.isEnabled && getAiTransport().kind === 'direct') {
                 const poolKeys = await getApiPoolKeys();
                 setApiPoolKeys(poolKeys);
             }
@@ -57,8 +66,14 @@ const AppContent: React.FC = () => {
     useEffect(() => {
         const loadUserData = async (fbUser: firebase.User) => {
             await ensureUserDocument(fbUser.uid, fbUser.email, fbUser.displayName);
-            const config = await getUserApiConfig(fbUser.uid);
-            setApiConfig(config);
+            // Vaulted keys wait for the passphrase; everything else loads as usual.
+            const vault = await getApiKeyVault(fbUser.uid);
+            if (vault && !isApiKeyVaultUnlocked(fbUser.uid)) {
+                setIsVaultLocked(true);
+            } else {
+                const config = await getUserApiConfig(fbUser.uid);
+                setApiConfig(config);
+            }
 
             const userProfile = await getUserProfile(fbUser.uid);
             const poolConfig = await getApiPoolConfig();
@@ -66,13 +81,14 @@ const AppContent: React.FC = () => {
 
             const combinedUser = { ...fbUser, ...userProfile } as User;
 
-            // Daily Token Reward Logic
+            // Daily Token Reward Logic. The AI proxy grants it itself, as the security rules that go with it stop
+            // clients writing their balance; calling providers directly, the balance is only as trustworthy as the client.
             const today = new Date().setHours(0, 0, 0, 0);
             const lastLoginDate = combinedUser.lastLogin?.toDate().setHours(0, 0, 0, 0) || 0;
 
-            if (lastLoginDate < today) {
+            if (lastLoginDate < today && getAiTransport().kind === 'direct') {
                 const adminSettings = await getAdminSettings();
-                const reward = adminSettings.dailyTokenReward || 1000000; // Default to 1M
+                const reward = adminSettings.dailyTokenReward || DEFAULT_DAILY_TOKEN_REWARD;
                 const newBalance = (combinedUser.tokenBalance || 0) + reward;
                 await updateUserTokenBalance(fbUser.uid, newBalance, true); // true to update lastLogin
                 combinedUser.tokenBalance = newBalance;
@@ -85,7 +101,7 @@ const AppContent: React.FC = () => {
                 setApiPoolKeys(poolKeys);
             } else {
                 combinedUser.isAdmin = false;
-                 if(poolConfig.isEnabled) {
+                 if(poolConfig.isEnabled && getAiTransport().kind === 'direct') {
                     const poolKeys = await getApiPoolKeys();
                     setApiPoolKeys(poolKeys);
                 }
@@ -97,13 +113,25 @@ const AppContent: React.FC = () => {
             loadUserData(firebaseUser);
         } else {
             setAppUser(null);
+            lockApiKeyVault();
+            setIsVaultLocked(false);
+            setApiConfig(EMPTY_API_CONFIG);
         }
     }, [firebaseUser]);
     
     const handleApiConfigSave = (newConfig: ApiConfig) => {
         setApiConfig(newConfig);
         if (appUser) {
-            saveUserApiConfig(appUser.uid, newConfig);
+            saveUserApiConfig(appUser.uid, newConfig).catch(err => {
+                showAlert(err instanceof Error ? err.message : "Could not save your API keys.", 'error');
+            });
+        }
+    };
+
+    const handleVaultUnlocked = async () => {
+        setIsVaultLocked(false);
+        if (appUser) {
+            setApiConfig(await getUserApiConfig(appUser.uid));
         }
     };
     
@@ -172,6 +200,38 @@ const AppContent: React.FC = () => {
     }, [appUser, showAlert]);
 
 
+    const handleCreateProjectFromGit = useCallback(async (projectName: string, remote: Omit<ProjectGitConfig, 'branch'> & { branch?: string }, provider: AiProvider, model?: string) => {
+        if (!appUser) {
+            showAlert("Please sign in to create a project.", 'info');
+            return;
+        }
+
+        setIsNavigating(true);
+        let newProjectId: string | null = null;
+        try {
+            const prompt = `Project '${projectName}' cloned from ${remote.remoteUrl} on ${new Date().toLocaleDateString()}.`;
+            newProjectId = await createProject(appUser.uid, projectName, prompt, 'React Web App', provider, undefined, model);
+
+            // The repository is keyed by project, so the clone happens once the project exists.
+            const { branch, files } = await cloneRepository(openRepository(newProjectId), remote, { token: apiConfig.git });
+            const fileCount = Object.keys(files).length;
+            if (fileCount > MAX_CLONED_FILES) throw new Error(`The repository has ${fileCount} text files; at most ${MAX_CLONED_FILES} can be imported.`);
+            if (fileCount > 0) await applyAiChanges(newProjectId, [], { create: files });
+            await updateProjectGitConfig(newProjectId, { ...remote, branch });
+
+            setInitialGenerationTask(null);
+            setSelectedProjectId(newProjectId);
+        } catch (err) {
+            if (newProjectId) {
+                await deleteProject(newProjectId).catch(cleanupError => console.warn("Failed to remove the partially cloned project:", cleanupError));
+            }
+            const errorMessage = err instanceof Error ? err.message : "Failed to clone the repository.";
+            showAlert(`Error: ${errorMessage}`, 'error');
+        } finally {
+            setIsNavigating(false);
+        }
+    }, [appUser, apiConfig.git, showAlert]);
+
     const handleSelectProject = (projectId: string) => {
         setSelectedProjectId(projectId);
     };
@@ -216,6 +276,7 @@ const AppContent: React.FC = () => {
                         onSelectProject={handleSelectProject} 
                         onStartBuilding={handleStartBuilding} 
                         onStartBuildingFromUpload={handleCreateProjectFromUpload}
+                        onStartBuildingFromGit={handleCreateProjectFromGit}
                         apiConfig={apiConfig} 
                         onApiConfigChange={handleApiConfigSave}
                         apiPoolConfig={apiPoolConfig}
@@ -230,7 +291,20 @@ const AppContent: React.FC = () => {
         return <LoginPage onShowDocs={() => setShowDocs(true)} />;
     };
 
-    return renderContent();
+    return (
+        <>
+            {renderContent()}
+            {appUser && !showDocs && (
+                <VaultUnlockModal
+                    isOpen={isVaultLocked}
+                    userId={appUser.uid}
+                    userEmail={appUser.email}
+                    onUnlocked={handleVaultUnlocked}
+                    onSkip={() => setIsVaultLocked(false)}
+                />
+            )}
+        </>
+    );
 }
 
 const App: React.FC = () => {
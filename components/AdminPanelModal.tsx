@@ -4,6 +4,9 @@ import { DeleteIcon, KeyIcon, UsersIcon, SaveIcon, CheckIcon, CodeIcon, FileIcon
 import Spinner from './ui/Spinner';
 import { formatTokens } from '../utils/formatters';
 import { useAlert } from '../contexts/AlertContext';
+import { AI_PROVIDERS } from '../services/aiProviders';
+import { apiKeyPool } from '../services/firestoreService';
+import { ApiKeyStatus } from '../utils/keyPool';
 
 interface AdminPanelModalProps {
   isOpen: boolean;
@@ -13,6 +16,7 @@ interface AdminPanelModalProps {
   onSaveConfig: (config: ApiPoolConfig) => void;
   onAddKey: (provider: AiProvider, key: string) => Promise<void>;
   onDeleteKey: (keyId: string) => void;
+  onSetKeyDisabled: (keyId: string, isDisabled: boolean) => void;
   onUpdateUserTokens: (userId: string, newBalance: number) => void;
   onSaveAdminSettings: (settings: AdminSettings) => void;
   stats: AdminStats | null;
@@ -21,7 +25,13 @@ interface AdminPanelModalProps {
   platformErrors: PlatformError[];
 }
 
-const providers: AiProvider[] = ['gemini', 'openrouter', 'groq'];
+const providers = AI_PROVIDERS.filter(p => p.supportsKeyPool);
+
+const KEY_STATUS_STYLES: Record<ApiKeyStatus, { label: string; className: string }> = {
+  healthy: { label: 'Healthy', className: 'bg-green-500/20 text-green-400' },
+  cooling: { label: 'Cooling down', className: 'bg-yellow-500/20 text-yellow-400' },
+  disabled: { label: 'Disabled', className: 'bg-red-500/20 text-red-400' },
+};
 
 const AdminPanelModal: React.FC<AdminPanelModalProps> = ({
   isOpen,
@@ -31,6 +41,7 @@ const AdminPanelModal: React.FC<AdminPanelModalProps> = ({
   onSaveConfig,
   onAddKey,
   onDeleteKey,
+  onSetKeyDisabled,
   onUpdateUserTokens,
   onSaveAdminSettings,
   stats,
@@ -174,7 +185,10 @@ const AdminPanelModal: React.FC<AdminPanelModalProps> = ({
                 <div className="bg-base-300/50 p-4 rounded-lg border border-base-300">
                     <h3 className="font-semibold text-lg mb-2">Platform Settings</h3>
                      <div className="flex items-center justify-between">
-                        <label htmlFor="daily-reward" className="text-sm text-neutral">Daily Token Reward</label>
+                        <label htmlFor="daily-reward" className="text-sm text-neutral">
+                            Daily Token Reward
+                            <span className="block text-xs text-neutral/70">In price-weighted tokens, the units AI calls are charged in</span>
+                        </label>
                         <input
                             id="daily-reward"
                             type="number"
@@ -203,7 +217,7 @@ const AdminPanelModal: React.FC<AdminPanelModalProps> = ({
                     <h3 className="font-semibold text-lg mb-2">Add New Key to Pool</h3>
                     <div className="flex flex-col sm:flex-row gap-2">
                         <select value={selectedProvider} onChange={(e) => setSelectedProvider(e.target.value as AiProvider)} className="w-full sm:w-auto bg-base-100 border border-base-300 rounded-md px-3 h-10 text-sm focus:outline-none">
-                            {providers.map(p => <option key={p} value={p}>{p.charAt(0).toUpperCase() + p.slice(1)}</option>)}
+                            {providers.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
                         </select>
                         <input
                             type="password"
@@ -224,22 +238,48 @@ const AdminPanelModal: React.FC<AdminPanelModalProps> = ({
                             <p className="text-sm text-neutral text-center py-8">No keys in the pool.</p>
                          ) : (
                             <ul className="space-y-2">
-                                {poolKeys.map(key => (
-                                    <li key={key.id} className="flex items-center justify-between bg-base-200 p-2 rounded-md">
-                                        <div className="flex items-center gap-3">
-                                            <KeyIcon className="w-5 h-5 text-neutral" />
-                                            <div>
-                                                <p className="font-mono text-sm text-base-content">
-                                                    <span className="font-bold text-primary">{key.provider}</span> - ...{key.key.slice(-4)}
-                                                </p>
-                                                <p className="text-xs text-neutral">Added on {(key.addedAt instanceof Date ? key.addedAt : key.addedAt.toDate()).toLocaleDateString()}</p>
+                                {poolKeys.map(key => {
+                                    const status = apiKeyPool.getKeyStatus(key);
+                                    const cooldownUntil = apiKeyPool.getKeyCooldownUntil(key);
+                                    const calls = (key.successCount ?? 0) + (key.failureCount ?? 0);
+                                    return (
+                                        <li key={key.id} data-testid={`godmode-pool-key-${key.id}`} className="flex items-center justify-between gap-3 bg-base-200 p-2 rounded-md">
+                                            <div className="flex items-center gap-3 min-w-0">
+                                                <KeyIcon className="w-5 h-5 text-neutral shrink-0" />
+                                                <div className="min-w-0">
+                                                    <p className="font-mono text-sm text-base-content flex items-center gap-2">
+                                                        <span><span className="font-bold text-primary">{key.provider}</span> - ...{key.key.slice(-4)}</span>
+                                                        <span className={`font-sans text-xs font-semibold px-2 py-0.5 rounded-full ${KEY_STATUS_STYLES[status].className}`}>
+                                                            {KEY_STATUS_STYLES[status].label}
+                                                            {status === 'cooling' && cooldownUntil && ` until ${cooldownUntil.toLocaleTimeString()}`}
+                                                        </span>
+                                                    </p>
+                                                    <p className="text-xs text-neutral">
+                                                        Added on {(key.addedAt instanceof Date ? key.addedAt : key.addedAt.toDate()).toLocaleDateString()}
+                                                        {' · '}{key.successCount ?? 0} ok / {key.failureCount ?? 0} failed
+                                                        {calls > 0 && ` · ${Math.round((key.totalLatencyMs ?? 0) / calls)} ms avg`}
+                                                        {' · '}{formatTokens(key.tokensUsed ?? 0)} tokens
+                                                    </p>
+                                                    {key.lastError && status !== 'healthy' && (
+                                                        <p className="text-xs text-red-400 truncate" title={key.lastError}>{key.lastError}</p>
+                                                    )}
+                                                </div>
                                             </div>
-                                        </div>
-                                        <button onClick={() => onDeleteKey(key.id)} className="p-1 hover:bg-red-500/20 rounded">
-                                            <DeleteIcon className="w-4 h-4 text-red-500"/>
-                                        </button>
-                                    </li>
-                                ))}
+                                            <div className="flex items-center gap-1 shrink-0">
+                                                <button
+                                                    data-testid={`godmode-pool-key-toggle-${key.id}`}
+                                                    onClick={() => onSetKeyDisabled(key.id, status !== 'disabled')}
+                                                    className="px-2 py-1 text-xs font-semibold rounded hover:bg-base-300"
+                                                >
+                                                    {status === 'disabled' ? 'Enable' : 'Disable'}
+                                                </button>
+                                                <button onClick={() => onDeleteKey(key.id)} className="p-1 hover:bg-red-500/20 rounded">
+                                                    <DeleteIcon className="w-4 h-4 text-red-500"/>
+                                                </button>
+                                            </div>
+                                        </li>
+                                    );
+                                })}
                             </ul>
                          )}
                     </div>
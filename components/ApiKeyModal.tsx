@@ -1,5 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { ApiConfig, AiProvider } from '../types';
+import { ApiConfig } from '../types';
+import { AI_PROVIDERS, EMPTY_API_CONFIG } from '../services/aiProviders';
+import { auth } from '../services/firebase';
+import ApiKeyVaultSettings from './ApiKeyVaultSettings';
+
+// Keys for services other than the AI providers.
+const SERVICE_KEYS: Array<{ id: keyof ApiConfig; name: string; placeholder: string; note: string }> = [
+  { id: 'e2b', name: 'E2B API Key', placeholder: 'e2b_...', note: 'Runs the terminal in a cloud Linux sandbox. Without it a limited local shell is used.' },
+  { id: 'git', name: 'Git Access Token', placeholder: 'Personal access token', note: 'Used to clone private repositories and to push and pull. Needs read and write access to repository contents.' },
+  { id: 'netlify', name: 'Netlify Access Token', placeholder: 'Personal access token', note: 'Created under User settings > Applications in Netlify. Used to deploy.' },
+  { id: 'vercel', name: 'Vercel Access Token', placeholder: 'Personal access token', note: 'Created under Account Settings > Tokens in Vercel. Used to deploy.' },
+];
 
 interface ApiKeyModalProps {
   isOpen: boolean;
@@ -8,15 +19,11 @@ interface ApiKeyModalProps {
   currentConfig: ApiConfig;
 }
 
-const providerDetails = {
-    gemini: { name: 'Gemini', placeholder: 'Enter your Gemini API Key', note: 'Get your key from Google AI Studio.' },
-    openrouter: { name: 'OpenRouter', placeholder: 'Enter your OpenRouter API Key', note: 'Get your key from openrouter.ai.'},
-    groq: { name: 'Groq', placeholder: 'Enter your Groq API Key', note: 'Get your key from groq.com.'},
-}
-
 const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, currentConfig }) => {
   // FIX: Added 'e2b: null' to satisfy the ApiConfig type.
-  const [keys, setKeys] = useState<ApiConfig>({ gemini: null, openrouter: null, groq: null, e2b: null });
+  const [keys, setKeys] = useState<ApiConfig>(EMPTY_API_CONFIG);
+  const [isVaultLocked, setIsVaultLocked] = useState(false);
+  const user = auth.currentUser;
 
   useEffect(() => {
     if (isOpen) {
@@ -32,7 +39,14 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, curr
         gemini: keys.gemini?.trim() || null,
         openrouter: keys.openrouter?.trim() || null,
         groq: keys.groq?.trim() || null,
+        anthropic: keys.anthropic?.trim() || null,
+        custom: keys.custom?.trim() || null,
+        customBaseUrl: keys.customBaseUrl?.trim() || null,
+        customModel: keys.customModel?.trim() || null,
         e2b: keys.e2b?.trim() || null,
+        git: keys.git?.trim() || null,
+        netlify: keys.netlify?.trim() || null,
+        vercel: keys.vercel?.trim() || null,
     };
     onSave(trimmedKeys);
     onClose();
@@ -44,28 +58,72 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, curr
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 transition-opacity duration-300">
-      <div className="bg-base-200 rounded-lg shadow-2xl p-8 w-full max-w-md m-4 border border-base-300">
+      <div className="bg-base-200 rounded-lg shadow-2xl p-8 w-full max-w-md m-4 border border-base-300 max-h-[90vh] overflow-y-auto">
         <h2 className="text-2xl font-bold mb-4 text-base-content">API Key Settings</h2>
         <p className="text-sm text-neutral mb-6">Your keys are stored securely in your account and are never shared.</p>
-        
+
+        {user && <ApiKeyVaultSettings userId={user.uid} email={user.email} onLockedChange={setIsVaultLocked} onUnlocked={setKeys} />}
+
+        <fieldset disabled={isVaultLocked} className="disabled:opacity-50">
+        <div className="space-y-6">
+             {AI_PROVIDERS.map((provider) => (
+                <div key={provider.id}>
+                    <label htmlFor={provider.id} className="block text-sm font-medium text-neutral mb-2">
+                        {provider.name} API Key
+                    </label>
+                    {provider.id === 'custom' && (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-2">
+                            <input
+                                type="url"
+                                id="customBaseUrl"
+                                value={keys.customBaseUrl || ''}
+                                onChange={(e) => handleKeyChange('customBaseUrl', e.target.value)}
+                                placeholder="Base URL, e.g. http://localhost:11434/v1"
+                                className="w-full bg-base-100 border border-base-300 rounded-md py-2 px-3 text-base-content focus:outline-none focus:ring-2 focus:ring-primary"
+                            />
+                            <input
+                                type="text"
+                                id="customModel"
+                                value={keys.customModel || ''}
+                                onChange={(e) => handleKeyChange('customModel', e.target.value)}
+                                placeholder="Default model, e.g. llama3.1"
+                                className="w-full bg-base-100 border border-base-300 rounded-md py-2 px-3 text-base-content focus:outline-none focus:ring-2 focus:ring-primary"
+                            />
+                        </div>
+                    )}
+                    <input
+                        type="password"
+                        id={provider.id}
+                        value={keys[provider.id] || ''}
+                        onChange={(e) => handleKeyChange(provider.id, e.target.value)}
+                        placeholder={provider.keyPlaceholder}
+                        className="w-full bg-base-100 border border-base-300 rounded-md py-2 px-3 text-base-content focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                     <p className="text-xs text-neutral/80 mt-2">{provider.keyNote}</p>
+                </div>
+            ))}
+        </div>
+
+        <h3 className="text-sm font-semibold tracking-wider uppercase text-base-content mt-8 mb-4 pb-2 border-b border-base-300">Sandbox, Git & Deployment</h3>
         <div className="space-y-6">
-             {(Object.keys(providerDetails) as (keyof typeof providerDetails)[]).map((providerKey) => (
-                <div key={providerKey}>
-                    <label htmlFor={providerKey} className="block text-sm font-medium text-neutral mb-2">
-                        {providerDetails[providerKey].name} API Key
+            {SERVICE_KEYS.map((service) => (
+                <div key={service.id}>
+                    <label htmlFor={service.id} className="block text-sm font-medium text-neutral mb-2">
+                        {service.name}
                     </label>
                     <input
                         type="password"
-                        id={providerKey}
-                        value={keys[providerKey] || ''}
-                        onChange={(e) => handleKeyChange(providerKey, e.target.value)}
-                        placeholder={providerDetails[providerKey].placeholder}
+                        id={service.id}
+                        value={keys[service.id] || ''}
+                        onChange={(e) => handleKeyChange(service.id, e.target.value)}
+                        placeholder={service.placeholder}
                         className="w-full bg-base-100 border border-base-300 rounded-md py-2 px-3 text-base-content focus:outline-none focus:ring-2 focus:ring-primary"
                     />
-                     <p className="text-xs text-neutral/80 mt-2">{providerDetails[providerKey].note}</p>
+                    <p className="text-xs text-neutral/80 mt-2">{service.note}</p>
                 </div>
             ))}
         </div>
+        </fieldset>
 
         <div className="flex justify-end space-x-4 mt-8">
           <button
@@ -76,7 +134,8 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, curr
           </button>
           <button
             onClick={handleSave}
-            className="px-4 py-2 bg-primary hover:opacity-90 rounded-md text-white font-semibold transition-colors"
+            disabled={isVaultLocked}
+            className="px-4 py-2 bg-primary hover:opacity-90 rounded-md text-white font-semibold transition-colors disabled:opacity-50"
           >
             Save
           </button>
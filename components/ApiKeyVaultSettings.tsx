@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import { ApiConfig, ApiKeyVault } from '../types';
+import { getApiKeyVault, isApiKeyVaultUnlocked, enableApiKeyVault, rotateApiKeyVault, disableApiKeyVault, getUserApiConfig } from '../services/firestoreService';
+import { useAlert } from '../contexts/AlertContext';
+import VaultUnlockForm from './VaultUnlockForm';
+import NewPassphraseFields, { getNewPassphraseError } from './ui/NewPassphraseFields';
+import RecoveryCodeNotice from './ui/RecoveryCodeNotice';
+import Spinner from './ui/Spinner';
+
+interface ApiKeyVaultSettingsProps {
+    userId: string;
+    email: string | null;
+    onLockedChange: (isLocked: boolean) => void;
+    onUnlocked: (config: ApiConfig) => void; // The decrypted keys, once a locked vault is opened
+}
+
+type VaultState = 'loading' | 'off' | 'locked' | 'unlocked';
+
+// The vault section of the API key settings: turning it on, unlocking, rotating and turning it off.
+const ApiKeyVaultSettings: React.FC<ApiKeyVaultSettingsProps> = ({ userId, email, onLockedChange, onUnlocked }) => {
+    const [vault, setVault] = useState<ApiKeyVault | null>(null);
+    const [state, setState] = useState<VaultState>('loading');
+    const [editing, setEditing] = useState<'enable' | 'rotate' | null>(null);
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const { showAlert } = useAlert();
+
+    const refresh = async () => {
+        const current = await getApiKeyVault(userId);
+        const next: VaultState = !current ? 'off' : isApiKeyVaultUnlocked(userId) ? 'unlocked' : 'locked';
+        setVault(current);
+        setState(next);
+        onLockedChange(next === 'locked');
+    };
+
+    useEffect(() => {
+        refresh().catch(err => {
+            console.error("Failed to load the API key vault:", err);
+            setState('off');
+        });
+    }, [userId]);
+
+    const resetForm = () => {
+        setEditing(null);
+        setPassphrase('');
+        setConfirmation('');
+    };
+
+    const handleSubmitPassphrase = async () => {
+        const passphraseError = getNewPassphraseError(passphrase, confirmation);
+        if (passphraseError) {
+            showAlert(passphraseError, 'error');
+            return;
+        }
+        setIsWorking(true);
+        try {
+            setRecoveryCode(editing === 'enable' ? await enableApiKeyVault(userId, passphrase) : await rotateApiKeyVault(userId, passphrase));
+            showAlert(editing === 'enable' ? "Your keys are now encrypted." : "The vault was rotated.", 'success');
+            resetForm();
+            await refresh();
+        } catch (err) {
+            showAlert(err instanceof Error ? err.message : "Could not update the vault.", 'error');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleUnlocked = async (newRecoveryCode: string | null) => {
+        setRecoveryCode(newRecoveryCode);
+        onUnlocked(await getUserApiConfig(userId));
+        await refresh();
+    };
+
+    const handleDisable = async () => {
+        if (!window.confirm("Turn off the vault? Your keys will be stored without encryption again.")) return;
+        setIsWorking(true);
+        try {
+            await disableApiKeyVault(userId);
+            showAlert("The vault is off.", 'info');
+            await refresh();
+        } catch (err) {
+            showAlert(err instanceof Error ? err.message : "Could not turn off the vault.", 'error');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const buttonClasses = "px-3 py-1.5 text-xs font-semibold rounded-md bg-base-300 hover:bg-opacity-80 disabled:opacity-50";
+
+    return (
+        <div data-testid="godmode-api-key-vault" className="bg-base-300/50 border border-base-300 rounded-lg p-4 mb-6 space-y-3">
+            <div className="flex justify-between items-center">
+                <h3 className="text-sm font-semibold text-base-content">Key Vault</h3>
+                <span className="text-xs text-neutral">
+                    {state === 'loading' ? <Spinner size="sm" /> : state === 'off' ? 'Off' : state === 'locked' ? 'Locked' : 'Unlocked'}
+                </span>
+            </div>
+            <p className="text-xs text-neutral">
+                Encrypts your keys in the browser with a passphrase before they are saved. They can't be read from the database
+                without it, including by the AI proxy, which uses the shared key pool instead.
+            </p>
+
+            {recoveryCode && <RecoveryCodeNotice recoveryCode={recoveryCode} email={email} onDone={() => setRecoveryCode(null)} />}
+
+            {state === 'locked' && <VaultUnlockForm userId={userId} onUnlocked={handleUnlocked} />}
+
+            {editing && (
+                <div className="space-y-2">
+                    <NewPassphraseFields
+                        passphrase={passphrase}
+                        confirmation={confirmation}
+                        onPassphraseChange={setPassphrase}
+                        onConfirmationChange={setConfirmation}
+                        disabled={isWorking}
+                        testIdPrefix={`godmode-vault-${editing}`}
+                    />
+                    {editing === 'rotate' && <p className="text-xs text-neutral">Rotating re-encrypts your keys under a new key. The old passphrase and recovery code stop working.</p>}
+                    <div className="flex justify-end gap-2">
+                        <button onClick={resetForm} disabled={isWorking} className={buttonClasses}>Cancel</button>
+                        <button
+                            data-testid={`godmode-vault-${editing}-button`}
+                            onClick={handleSubmitPassphrase}
+                            disabled={isWorking}
+                            className="px-3 py-1.5 text-xs font-semibold rounded-md bg-primary text-white hover:opacity-90 disabled:opacity-50 flex items-center gap-1"
+                        >
+                            {isWorking && <Spinner size="sm" />}
+                            {editing === 'enable' ? 'Encrypt my keys' : 'Rotate'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {!editing && state === 'off' && (
+                <div className="flex justify-end">
+                    <button data-testid="godmode-vault-enable-start" onClick={() => setEditing('enable')} className={buttonClasses}>Turn on</button>
+                </div>
+            )}
+            {!editing && state === 'unlocked' && (
+                <div className="flex justify-between items-center">
+                    <span className="text-xs text-neutral">Last rotated {vault && new Date(vault.rotatedAt).toLocaleDateString()}</span>
+                    <div className="flex gap-2">
+                        <button data-testid="godmode-vault-rotate-start" onClick={() => setEditing('rotate')} disabled={isWorking} className={buttonClasses}>Rotate</button>
+                        <button data-testid="godmode-vault-disable-button" onClick={handleDisable} disabled={isWorking} className={`${buttonClasses} text-red-400`}>Turn off</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ApiKeyVaultSettings;
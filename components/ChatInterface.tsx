@@ -1,14 +1,18 @@
 import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
-import { AiChatMessage, AiPlan, ChatMessageSenderInfo, FileNode, Project, ApiConfig, ApiPoolConfig, ApiPoolKey, User } from '../types';
+import { AiChatMessage, AiPlan, ChatMessageSenderInfo, FileNode, Project, ApiConfig, ApiPoolConfig, ApiPoolKey, User, ContextReport, StreamingReply } from '../types';
 import { UserIcon, AiIcon, FileIcon, DeleteIcon, RobotIcon, CodeIcon, AnalyzeIcon, BrainIcon, RocketIcon, CopyIcon, CheckIcon, UsersIcon } from './icons';
 import { generateCodeSnippet } from '../services/aiService';
+import { ProjectPermissions } from '../utils/permissions';
 import Spinner from './ui/Spinner';
+import { formatTokens } from '../utils/formatters';
+import { getModelLabel } from '../services/aiProviders';
 
 interface PlanReviewMessageProps {
     plan: AiPlan;
     status: 'pending' | 'approved' | 'rejected' | 'executing';
     onApprove: () => void;
     onReject: () => void;
+    canReview: boolean;
 }
 
 const CodeBlock: React.FC<{ language: string, code: string }> = ({ language, code }) => {
@@ -119,7 +123,7 @@ const MarkdownRenderer: React.FC<{ text: string, members: ChatMessageSenderInfo[
 };
 
 
-const PlanReviewMessage: React.FC<PlanReviewMessageProps> = ({ plan, status, onApprove, onReject }) => {
+const PlanReviewMessage: React.FC<PlanReviewMessageProps> = ({ plan, status, onApprove, onReject, canReview }) => {
     const renderFileList = (files: string[] | undefined, type: 'create' | 'update' | 'delete') => {
         if (!files || files.length === 0) return null;
         
@@ -166,7 +170,8 @@ const PlanReviewMessage: React.FC<PlanReviewMessageProps> = ({ plan, status, onA
                 {renderFileList(plan.plan.update, 'update')}
                 {renderFileList(plan.plan.delete, 'delete')}
             </div>
-             {status === 'pending' && (
+             {status === 'pending' && !canReview && <p className="text-xs text-neutral text-right italic">Waiting for an editor to review this plan.</p>}
+             {status === 'pending' && canReview && (
                 <div className="flex justify-end gap-2 mt-2">
                     <button onClick={onReject} className="px-3 py-1 bg-base-300/80 hover:bg-base-300 rounded-md text-base-content text-xs font-semibold transition-colors">Reject</button>
                     <button onClick={onApprove} className="px-3 py-1 bg-primary/80 hover:bg-primary rounded-md text-white text-xs font-semibold transition-colors flex items-center gap-1">
@@ -218,6 +223,24 @@ const AgentStatusMessage: React.FC<{ message: AiChatMessage, members: ChatMessag
     );
 };
 
+const ContextReportDetails: React.FC<{ report: ContextReport; onOpenFile: (path: string) => void }> = ({ report, onOpenFile }) => (
+    <details className="mt-3 pt-2 border-t border-base-300/50 text-xs text-neutral">
+        <summary className="cursor-pointer select-none">
+            Context: {report.includedFiles.length} file{report.includedFiles.length === 1 ? '' : 's'} in full
+            {report.omittedFiles.length > 0 && `, ${report.omittedFiles.length} by path only`}
+            {' '}(~{formatTokens(report.estimatedTokens)} of {formatTokens(report.tokenBudget)} tokens)
+        </summary>
+        <ul className="mt-1 space-y-0.5 max-h-40 overflow-y-auto">
+            {report.includedFiles.map(path => (
+                <li key={path}><button onClick={() => onOpenFile(path)} className="font-mono hover:text-base-content truncate">{path}</button></li>
+            ))}
+            {report.omittedFiles.map(path => (
+                <li key={path}><button onClick={() => onOpenFile(path)} className="font-mono opacity-60 hover:opacity-100 truncate" title="Listed by path only">{path}</button></li>
+            ))}
+        </ul>
+    </details>
+);
+
 // --- New Rich Message Components ---
 
 const FilePinMessage: React.FC<{ filePath: string; onOpenFile: (path: string) => void }> = ({ filePath, onOpenFile }) => (
@@ -261,12 +284,14 @@ interface ChatInterfaceProps {
     messages: AiChatMessage[];
     onSendMessage: (message: string, mode: 'build' | 'ask' | 'general') => void;
     isLoading: boolean;
+    streamingReply?: StreamingReply | null; // Partial AI reply, shown until the saved message arrives
     onApprovePlan: (messageId: string) => void;
     onRejectPlan: (messageId: string) => void;
     // New props for collaboration
     projectMembers: ChatMessageSenderInfo[];
     currentUser: User;
     isOwner: boolean;
+    permissions: ProjectPermissions;
     files: FileNode[];
     project: Project | null;
     apiConfig: ApiConfig;
@@ -281,7 +306,7 @@ interface ChatInterfaceProps {
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = (props) => {
-    const { messages, onSendMessage, isLoading, onApprovePlan, onRejectPlan, projectMembers, currentUser, isOwner, files, project, apiConfig, apiPoolConfig, apiPoolKeys, onSendRichMessage, onDeleteMessage, onOpenFileFromPin, onUpdateTaskStatus, chatMessageRefs } = props;
+    const { messages, onSendMessage, isLoading, streamingReply, onApprovePlan, onRejectPlan, projectMembers, currentUser, isOwner, permissions, files, project, apiConfig, apiPoolConfig, apiPoolKeys, onSendRichMessage, onDeleteMessage, onOpenFileFromPin, onUpdateTaskStatus, chatMessageRefs } = props;
     const [input, setInput] = useState('');
     const [mode, setMode] = useState<'build' | 'ask' | 'general'>('build');
     const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -293,7 +318,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = (props) => {
         messagesEndRef.current?.scrollIntoView({ behavior: "auto" });
     };
 
-    useLayoutEffect(scrollToBottom, [messages]);
+    useLayoutEffect(scrollToBottom, [messages, streamingReply]);
     
     useEffect(() => {
         if (textareaRef.current) {
@@ -305,10 +330,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = (props) => {
 
     const handleSend = (e: React.FormEvent) => {
         e.preventDefault();
-        if (input.trim() && !isLoading) {
+        if (input.trim() && !isLoading && permissions.canChat) {
             const text = input.trim();
 
-            if (text.startsWith('/snippet ')) {
+            if (text.startsWith('/snippet ') && permissions.canUseAi) {
                 const prompt = text.substring(9);
                 setInput('');
                 
@@ -343,7 +368,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = (props) => {
                 return;
             }
 
-            if (isCollaborationEnabled()) {
+            // Members who can't use the AI still talk to each other.
+            if (isCollaborationEnabled() || !permissions.canUseAi) {
                 const mentionedUsers = projectMembers.filter(m => text.includes(`@[${m.displayName}](${m.uid})`));
                 onSendRichMessage({ type: 'text', text: text, mentions: mentionedUsers.map(m => m.uid) });
             } else {
@@ -411,6 +437,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = (props) => {
                                 status={msg.planStatus}
                                 onApprove={() => onApprovePlan(msg.id)}
                                 onReject={() => onRejectPlan(msg.id)}
+                                canReview={permissions.canUseAi}
                             />
                         )}
                         {msg.isLoading && (
@@ -455,13 +482,25 @@ const ChatInterface: React.FC<ChatInterfaceProps> = (props) => {
                                    <p className="text-xs text-neutral mb-1 pr-10">{msg.senderInfo.displayName}</p>
                                )}
                                {showHeader && msg.sender === 'ai' && (
-                                   <p className="text-xs text-neutral mb-1 pl-1">ASAI</p>
+                                   <p className="text-xs text-neutral mb-1 pl-1">
+                                       ASAI
+                                       {msg.answeredBy && (
+                                           <span
+                                               data-testid="godmode-chat-answered-by"
+                                               className={msg.answeredBy.isFallback ? 'text-yellow-500' : 'text-neutral/70'}
+                                               title={msg.answeredBy.isFallback ? "The project's provider failed, so a fallback answered" : undefined}
+                                           >
+                                               {' · '}{getModelLabel(msg.answeredBy)}{msg.answeredBy.isFallback && ' (fallback)'}
+                                           </span>
+                                       )}
+                                   </p>
                                )}
 
                                 <div className={`rounded-lg text-sm shadow-md px-4 py-3 ${
                                    msg.sender === 'user' ? 'bg-primary text-white rounded-br-none' : 'bg-base-200 text-base-content rounded-bl-none'
                                 }`}>
                                    {renderMessageContent(msg)}
+                                   {msg.contextReport && <ContextReportDetails report={msg.contextReport} onOpenFile={onOpenFileFromPin} />}
                                 </div>
                                 {isOwner && msg.sender === 'user' && !msg.isDeleted && (
                                     <button onClick={() => onDeleteMessage(msg.id)} className="absolute top-0 right-0 p-1 bg-base-300 rounded-full opacity-0 group-hover:opacity-100 transition-opacity" title="Delete message">
@@ -477,7 +516,24 @@ const ChatInterface: React.FC<ChatInterfaceProps> = (props) => {
                         </div>
                     )
                 })}
-                {isLoading && messages.every(m => !m.isLoading) && (
+                {streamingReply && (
+                    <div className="flex items-start gap-3">
+                        <div className="w-8 h-8 rounded-full flex items-center justify-center shrink-0 bg-accent text-white">
+                            <AiIcon className="w-5 h-5" />
+                        </div>
+                        <div className="w-auto max-w-lg lg:max-w-xl bg-base-200 text-base-content rounded-lg px-4 py-3 text-sm shadow-md rounded-bl-none">
+                            {streamingReply.filePath ? (
+                                <>
+                                    <p className="text-xs text-neutral mb-2">Writing <span className="font-mono">{streamingReply.filePath}</span>...</p>
+                                    <CodeBlock language={streamingReply.filePath.split('.').pop() || ''} code={streamingReply.text} />
+                                </>
+                            ) : (
+                                <MarkdownRenderer text={streamingReply.text} members={projectMembers} />
+                            )}
+                        </div>
+                    </div>
+                )}
+                {isLoading && !streamingReply && messages.every(m => !m.isLoading) && (
                     <div className="flex items-start gap-3">
                         <div className="w-8 h-8 rounded-full flex items-center justify-center shrink-0 bg-accent text-white">
                             <AiIcon className="w-5 h-5" />
@@ -490,7 +546,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = (props) => {
                  <div ref={messagesEndRef} />
             </div>
             <form onSubmit={handleSend} className="p-2 border-t border-base-300">
-                 {!isCollaborationEnabled() && (
+                 {!isCollaborationEnabled() && permissions.canUseAi && (
                     <div className="flex items-center gap-2 mb-2 px-1">
                         <button type="button" data-testid="godmode-chat-build-button" onClick={() => setMode('build')} className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-colors ${mode === 'build' ? 'bg-primary text-white' : 'bg-base-200 text-neutral hover:bg-base-300'}`}>Build</button>
                         <button type="button" data-testid="godmode-chat-ask-button" onClick={() => setMode('ask')} className={`px-2.5 py-1 text-xs font-semibold rounded-md transition-colors ${mode === 'ask' ? 'bg-primary text-white' : 'bg-base-200 text-neutral hover:bg-base-300'}`}>Ask Project</button>
@@ -522,9 +578,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = (props) => {
                                 handleSend(e);
                             }
                         }}
-                        placeholder={isCollaborationEnabled() ? "Type a message, @mention, /snippet, or /task..." : placeholders[mode]}
+                        placeholder={!permissions.canChat ? "Viewers can read the chat but not send messages." : !permissions.canUseAi ? "Type a message, @mention, or /task..." : isCollaborationEnabled() ? "Type a message, @mention, /snippet, or /task..." : placeholders[mode]}
                         className="w-full bg-base-200 border border-base-300/80 rounded-md py-2 pl-3 pr-10 text-base-content focus:outline-none focus:ring-2 focus:ring-primary resize-none max-h-40"
-                        disabled={isLoading}
+                        disabled={isLoading || !permissions.canChat}
                     />
                     <button type="submit" data-testid="godmode-chat-send-button" disabled={isLoading || !input.trim()} className="absolute bottom-2 right-0 flex items-center justify-center px-3 text-primary hover:opacity-80 disabled:text-neutral/50 disabled:cursor-not-allowed">
                         <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20"><path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z"></path></svg>
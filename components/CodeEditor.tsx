@@ -1,125 +1,375 @@
-import React, { useRef, useEffect } from 'react';
-import { SaveIcon, ArrowLeftIcon } from './icons';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { CollaboratorPresence, EditorRevealRequest, FileNode } from '../types';
+import { EditorPane } from '../hooks/useEditorTabs';
+import { COLLABORATOR_COLORS } from '../hooks/useCollaboration';
+import { useTheme } from '../contexts/ThemeContext';
+import { getOrCreateModel, modelPath, isSyncingModel, syncModelContent, ensureRemoteCursorStyles } from '../utils/monaco';
+import { SaveIcon, ArrowLeftIcon, SearchIcon, ArrowRightIcon, ViewColumnsIcon, XMarkIcon } from './icons';
+import Spinner from './ui/Spinner';
 
 interface CodeEditorProps {
+    monaco: any; // Loaded by useLanguageService, which also owns the models of the project's script files.
+    loadError: string | null;
+    files: FileNode[];
+    panes: EditorPane[];
+    focusedPane: number;
+    dirtyFiles: Set<string>;
+    savingFile: string | null;
+    reveal: EditorRevealRequest | null; // Moves the focused pane's cursor, e.g. to a problem or a definition.
+    collaborators: CollaboratorPresence[]; // Their cursors and selections are drawn in the files they have open.
+    readOnly: boolean; // For members whose role doesn't allow editing files.
+    onChange: (filePath: string, newContent: string) => void;
+    onSelectionChange: (filePath: string, anchor: number, head: number) => void;
+    onSave: (filePath: string) => void;
+    onSelectTab: (paneIndex: number, filePath: string) => void;
+    onCloseTab: (paneIndex: number, filePath: string) => void;
+    onFocusPane: (paneIndex: number) => void;
+    onSplit: () => void;
+    onClosePane: (paneIndex: number) => void;
+}
+
+interface MobileCodeEditorProps {
     filePath: string;
     content: string;
     onChange: (newContent: string) => void;
     onSave: (filePath: string) => void;
     isDirty: boolean;
     isSavingFile: boolean;
-    isMobile?: boolean;
-    onBack?: () => void;
+    readOnly: boolean;
+    onBack: () => void;
 }
 
-// Basic syntax highlighting function
-const highlightSyntax = (code: string): string => {
-    if (!code) return '';
-    return code
-        .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;') // HTML escape
-        .replace(/\b(import|from|export|default|const|let|var|return|function|async|await|if|else|new|class|extends|=>|of|in)\b/g, '<span class="text-purple-400">$1</span>') // Keywords
-        .replace(/(\/\*[\s\S]*?\*\/)|(\/\/.*)/g, '<span class="text-green-500/70 italic">$1</span>') // Comments
-        .replace(/(['"`])(.*?)\1/g, '<span class="text-green-400">$1$2$1</span>'); // Strings
+// Tab labels are file names, with the parent folder added where two open files share a name.
+const tabLabels = (tabs: string[]) => {
+    const names = tabs.map(path => path.split('/').pop() || path);
+    return tabs.map((path, i) => {
+        if (names.filter(n => n === names[i]).length === 1) return names[i];
+        const parent = path.split('/').slice(-2, -1)[0];
+        return parent ? `${names[i]} — ${parent}` : names[i];
+    });
 };
 
+interface PaneProps {
+    monaco: any;
+    pane: EditorPane;
+    paneIndex: number;
+    paneCount: number;
+    isFocused: boolean;
+    reveal: EditorRevealRequest | null;
+    content: string;
+    collaborators: CollaboratorPresence[];
+    readOnly: boolean;
+    dirtyFiles: Set<string>;
+    savingFile: string | null;
+    onChange: (filePath: string, newContent: string) => void;
+    onSelectionChange: (filePath: string, anchor: number, head: number) => void;
+    onSave: (filePath: string) => void;
+    onSelectTab: (paneIndex: number, filePath: string) => void;
+    onCloseTab: (paneIndex: number, filePath: string) => void;
+    onFocusPane: (paneIndex: number) => void;
+    onSplit: () => void;
+    onClosePane: (paneIndex: number) => void;
+}
 
-const CodeEditor: React.FC<CodeEditorProps> = ({ filePath, content, onChange, onSave, isDirty, isSavingFile, isMobile, onBack }) => {
-    const textAreaRef = useRef<HTMLTextAreaElement>(null);
-    const preRef = useRef<HTMLElement>(null);
-    const lineNumbersRef = useRef<HTMLDivElement>(null);
+const Pane: React.FC<PaneProps> = ({
+    monaco, pane, paneIndex, paneCount, isFocused, reveal, content, collaborators, readOnly, dirtyFiles, savingFile,
+    onChange, onSelectionChange, onSave, onSelectTab, onCloseTab, onFocusPane, onSplit, onClosePane,
+}) => {
+    const hostRef = useRef<HTMLDivElement>(null);
+    const editorRef = useRef<any>(null);
+    const viewStatesRef = useRef<Map<string, any>>(new Map());
+    const callbacksRef = useRef({ onChange, onSelectionChange, onSave, onFocus: () => onFocusPane(paneIndex) });
+    callbacksRef.current = { onChange, onSelectionChange, onSave, onFocus: () => onFocusPane(paneIndex) };
+    const remoteDecorationsRef = useRef<any>(null);
+    const [editorReady, setEditorReady] = useState(false);
 
-    const syncScroll = () => {
-        if (textAreaRef.current && preRef.current && lineNumbersRef.current) {
-            preRef.current.scrollTop = textAreaRef.current.scrollTop;
-            preRef.current.scrollLeft = textAreaRef.current.scrollLeft;
-            lineNumbersRef.current.scrollTop = textAreaRef.current.scrollTop;
+    useEffect(() => {
+        if (!hostRef.current) return;
+        const editor = monaco.editor.create(hostRef.current, {
+            model: null,
+            automaticLayout: true,
+            fontSize: 13,
+            tabSize: 2,
+            scrollBeyondLastLine: false,
+            matchBrackets: 'always',
+            bracketPairColorization: { enabled: true },
+            autoIndent: 'full',
+            renderWhitespace: 'selection',
+        });
+        editor.addAction({
+            id: 'asai.saveFile',
+            label: 'Save File',
+            keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS],
+            run: () => {
+                const model = editor.getModel();
+                if (model) callbacksRef.current.onSave(modelPath(model));
+            },
+        });
+        const subscriptions = [
+            editor.onDidChangeModelContent(() => {
+                const model = editor.getModel();
+                if (!model || isSyncingModel(model)) return;
+                callbacksRef.current.onChange(modelPath(model), model.getValue());
+            }),
+            editor.onDidFocusEditorWidget(() => callbacksRef.current.onFocus()),
+            editor.onDidChangeCursorSelection((e: any) => {
+                const model = editor.getModel();
+                // Both panes move their selection when a shared model changes; only the one being typed in reports.
+                if (!model || !editor.hasTextFocus()) return;
+                const anchor = model.getOffsetAt({ lineNumber: e.selection.selectionStartLineNumber, column: e.selection.selectionStartColumn });
+                const head = model.getOffsetAt({ lineNumber: e.selection.positionLineNumber, column: e.selection.positionColumn });
+                callbacksRef.current.onSelectionChange(modelPath(model), anchor, head);
+            }),
+        ];
+        remoteDecorationsRef.current = editor.createDecorationsCollection();
+        editorRef.current = editor;
+        setEditorReady(true);
+        return () => {
+            subscriptions.forEach(s => s.dispose());
+            editor.dispose();
+            editorRef.current = null;
+        };
+    }, [monaco]);
+
+    useEffect(() => {
+        editorRef.current?.updateOptions({ readOnly });
+    }, [readOnly, editorReady]);
+
+    // Shows the active tab's model, keeping each tab's cursor and scroll position, and catches it up with
+    // changes made outside this editor.
+    useEffect(() => {
+        const editor = editorRef.current;
+        if (!editor) return;
+        if (!pane.activePath) {
+            editor.setModel(null);
+            return;
         }
-    };
+        const model = getOrCreateModel(monaco, pane.activePath, content);
+        const current = editor.getModel();
+        if (current !== model) {
+            if (current) viewStatesRef.current.set(modelPath(current), editor.saveViewState());
+            editor.setModel(model);
+            const viewState = viewStatesRef.current.get(pane.activePath);
+            if (viewState) editor.restoreViewState(viewState);
+        }
+        syncModelContent(model, content);
+    }, [monaco, editorReady, pane.activePath, content]);
+
+    // Collaborators' offsets are into their copy of the document, which can be an edit or two ahead or behind, so
+    // they are clamped to this one.
+    useEffect(() => {
+        const editor = editorRef.current;
+        const model = editor?.getModel();
+        if (!editor || !remoteDecorationsRef.current) return;
+        if (!model) {
+            remoteDecorationsRef.current.clear();
+            return;
+        }
+        const length = model.getValueLength();
+        const decorations = collaborators.filter(c => c.filePath === pane.activePath && c.selection).map(c => {
+            const anchor = Math.min(c.selection!.anchor, length);
+            const head = Math.min(c.selection!.head, length);
+            const start = model.getPositionAt(Math.min(anchor, head));
+            const end = model.getPositionAt(Math.max(anchor, head));
+            const colorIndex = c.colorIndex % COLLABORATOR_COLORS.length;
+            const cursorClass = `asai-remote-cursor-${colorIndex}`;
+            return {
+                range: { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column },
+                options: {
+                    className: `asai-remote-selection-${colorIndex}`,
+                    ...(head < anchor ? { beforeContentClassName: cursorClass } : { afterContentClassName: cursorClass }),
+                    hoverMessage: { value: c.displayName || 'Collaborator' },
+                    stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges,
+                },
+            };
+        });
+        remoteDecorationsRef.current.set(decorations);
+    }, [monaco, editorReady, collaborators, pane.activePath, content]);
 
-    useEffect(syncScroll, [content]);
+    const handledRevealRef = useRef<number | null>(null);
+    useEffect(() => {
+        const editor = editorRef.current;
+        if (!editor || !reveal || reveal.path !== pane.activePath || handledRevealRef.current === reveal.id) return;
+        handledRevealRef.current = reveal.id;
+        editor.setPosition({ lineNumber: reveal.line, column: reveal.column });
+        editor.revealLineInCenter(reveal.line);
+        editor.focus();
+    }, [editorReady, reveal, pane.activePath]);
 
-    const lineCount = content.split('\n').length;
+    useEffect(() => {
+        const open = new Set(pane.tabs);
+        [...viewStatesRef.current.keys()].forEach(path => { if (!open.has(path)) viewStatesRef.current.delete(path); });
+    }, [pane.tabs]);
 
-    if (isMobile) {
-        return (
-            <div className="h-full bg-base-100 flex flex-col font-mono text-sm">
-                <div className="bg-base-200 text-base-content px-4 py-2 border-b border-base-300 flex justify-between items-center shrink-0">
-                    <button onClick={onBack} className="flex items-center gap-1.5 text-sm text-neutral hover:text-base-content">
-                        <ArrowLeftIcon className="w-4 h-4" />
-                        <span>Back</span>
-                    </button>
-                    <span className="text-accent text-sm truncate">{filePath}</span>
-                    <button
-                        onClick={() => onSave(filePath)}
-                        disabled={!isDirty || isSavingFile}
-                        className="flex items-center gap-1.5 text-sm text-base-content disabled:text-neutral hover:text-white transition-colors"
-                    >
-                        {isSavingFile ? '...' : <SaveIcon className="w-4 h-4" />}
-                        <span>Save</span>
-                    </button>
-                </div>
-                <div className="flex-grow relative">
-                    <textarea
-                        value={content}
-                        onChange={(e) => onChange(e.target.value)}
-                        spellCheck="false"
-                        autoCapitalize="off"
-                        autoComplete="off"
-                        autoCorrect="off"
-                        className="absolute inset-0 w-full h-full p-2 bg-base-100 text-base-content resize-none leading-6 tracking-wide focus:outline-none"
-                    />
-                </div>
-            </div>
-        );
-    }
+    const runAction = (id: string) => {
+        editorRef.current?.focus();
+        editorRef.current?.getAction(id)?.run();
+    };
+
+    const labels = tabLabels(pane.tabs);
+    const activePath = pane.activePath;
+    const iconButtonClasses = "p-1 rounded-md text-neutral hover:text-base-content hover:bg-base-300 disabled:opacity-40 disabled:hover:bg-transparent";
 
     return (
-        <div className="h-full bg-base-100 flex flex-col font-mono text-sm">
-            <div className="bg-base-200 text-base-content px-4 py-2 border-b border-base-300 flex justify-between items-center shrink-0">
-                <span className="text-accent">{filePath}</span>
-                <div className='flex items-center gap-4'>
-                    <span className={`text-xs text-yellow-400 transition-opacity duration-300 ${isSavingFile ? 'opacity-100' : 'opacity-0'}`}>
+        <div className={`flex-1 min-w-0 h-full flex flex-col ${paneIndex > 0 ? 'border-l border-base-300' : ''}`} onMouseDown={() => onFocusPane(paneIndex)}>
+            <div className="bg-base-200 border-b border-base-300 flex items-stretch shrink-0">
+                <div className="flex-grow flex overflow-x-auto min-w-0" role="tablist">
+                    {pane.tabs.map((path, i) => {
+                        const isActive = path === activePath;
+                        const isDirty = dirtyFiles.has(path);
+                        return (
+                            <div
+                                key={path}
+                                data-testid="godmode-editor-tab"
+                                role="tab"
+                                aria-selected={isActive}
+                                title={path}
+                                onClick={() => onSelectTab(paneIndex, path)}
+                                onAuxClick={e => { if (e.button === 1) onCloseTab(paneIndex, path); }}
+                                className={`group flex items-center gap-2 pl-3 pr-1.5 py-1.5 text-xs whitespace-nowrap cursor-pointer border-r border-base-300 ${isActive ? `bg-base-100 text-base-content ${isFocused ? 'shadow-[inset_0_1px_0_var(--color-primary)]' : ''}` : 'text-neutral hover:bg-base-300/50'}`}
+                            >
+                                <span className={isDirty ? 'italic' : ''}>{labels[i]}</span>
+                                <button
+                                    onClick={e => { e.stopPropagation(); onCloseTab(paneIndex, path); }}
+                                    className="w-4 h-4 flex items-center justify-center rounded hover:bg-base-300"
+                                    title={isDirty ? 'Unsaved changes — close tab (changes are kept)' : 'Close tab'}
+                                >
+                                    {isDirty ? (
+                                        <>
+                                            <span className="w-2 h-2 rounded-full bg-yellow-400 group-hover:hidden" />
+                                            <XMarkIcon className="w-3 h-3 hidden group-hover:block" />
+                                        </>
+                                    ) : (
+                                        <XMarkIcon className={`w-3 h-3 ${isActive ? '' : 'opacity-0 group-hover:opacity-100'}`} />
+                                    )}
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+                <div className="flex items-center gap-1 px-2 shrink-0">
+                    <span className={`text-xs text-yellow-400 transition-opacity duration-300 mr-1 ${activePath && savingFile === activePath ? 'opacity-100' : 'opacity-0'}`}>
                         Saving...
                     </span>
+                    <button onClick={() => runAction('actions.find')} disabled={!activePath} className={iconButtonClasses} title="Find and replace (Ctrl+F / Ctrl+H)">
+                        <SearchIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => runAction('editor.action.gotoLine')} disabled={!activePath} className={iconButtonClasses} title="Go to line (Ctrl+G)">
+                        <ArrowRightIcon className="w-4 h-4" />
+                    </button>
                     <button
-                        onClick={() => onSave(filePath)}
-                        disabled={!isDirty || isSavingFile}
-                        className="flex items-center gap-1.5 text-sm text-base-content disabled:text-neutral hover:text-white transition-colors"
+                        data-testid="godmode-editor-save-button"
+                        onClick={() => activePath && onSave(activePath)}
+                        disabled={!activePath || !dirtyFiles.has(activePath) || savingFile === activePath}
+                        className={iconButtonClasses}
+                        title="Save (Ctrl+S)"
                     >
                         <SaveIcon className="w-4 h-4" />
-                        <span>Save</span>
                     </button>
+                    {paneCount > 1 ? (
+                        <button onClick={() => onClosePane(paneIndex)} className={iconButtonClasses} title="Close this pane">
+                            <XMarkIcon className="w-4 h-4" />
+                        </button>
+                    ) : (
+                        <button data-testid="godmode-editor-split-button" onClick={onSplit} disabled={!activePath} className={iconButtonClasses} title="Split editor right">
+                            <ViewColumnsIcon className="w-4 h-4" />
+                        </button>
+                    )}
                 </div>
             </div>
-            <div className="flex-grow flex relative overflow-hidden">
-                <div ref={lineNumbersRef} className="w-12 text-right pr-4 text-neutral pt-4 bg-base-100 select-none overflow-y-hidden shrink-0">
-                    {Array.from({ length: lineCount }, (_, i) => (
-                        <div key={i} className="leading-6 h-6">{i + 1}</div>
-                    ))}
-                </div>
-                <div className="flex-grow h-full relative">
-                    <textarea
-                        ref={textAreaRef}
-                        value={content}
-                        onChange={(e) => onChange(e.target.value)}
-                        onScroll={syncScroll}
-                        spellCheck="false"
-                        autoCapitalize="off"
-                        autoComplete="off"
-                        autoCorrect="off"
-                        className="absolute inset-0 w-full h-full p-4 bg-transparent text-transparent caret-white resize-none z-10 leading-6 tracking-wide focus:outline-none"
-                    />
-                    <pre
-                        ref={preRef as any}
-                        aria-hidden="true"
-                        className="absolute inset-0 w-full h-full p-4 pointer-events-none overflow-auto"
-                    >
-                        <code dangerouslySetInnerHTML={{ __html: highlightSyntax(content) + '\n' }} className="leading-6 tracking-wide" />
-                    </pre>
-                </div>
+            <div className="flex-grow relative">
+                <div ref={hostRef} className="absolute inset-0" />
+                {!activePath && (
+                    <div className="absolute inset-0 flex items-center justify-center text-sm text-neutral bg-base-100">
+                        Open a file from the explorer.
+                    </div>
+                )}
             </div>
         </div>
     );
 };
 
-export default CodeEditor;
\ No newline at end of file
+const CodeEditor: React.FC<CodeEditorProps> = ({ monaco, loadError, files, panes, focusedPane, dirtyFiles, savingFile, reveal, collaborators, readOnly, onChange, onSelectionChange, onSave, onSelectTab, onCloseTab, onFocusPane, onSplit, onClosePane }) => {
+    const { theme } = useTheme();
+
+    useEffect(() => {
+        monaco?.editor.setTheme(theme === 'dark' ? 'vs-dark' : 'vs');
+    }, [monaco, theme]);
+
+    useEffect(() => {
+        if (collaborators.length > 0) ensureRemoteCursorStyles(COLLABORATOR_COLORS);
+    }, [collaborators.length]);
+
+    const contentByPath = useMemo(() => new Map(files.map(f => [f.path, f.content || ''])), [files]);
+
+    if (loadError) {
+        return <div className="h-full flex items-center justify-center p-4 text-sm text-red-400 bg-base-100">Could not load the code editor: {loadError}</div>;
+    }
+    if (!monaco) {
+        return <div className="h-full flex items-center justify-center bg-base-100"><Spinner /></div>;
+    }
+
+    return (
+        <div className="h-full bg-base-100 flex text-sm">
+            {panes.map((pane, i) => (
+                <Pane
+                    key={i}
+                    monaco={monaco}
+                    pane={pane}
+                    paneIndex={i}
+                    paneCount={panes.length}
+                    isFocused={i === focusedPane}
+                    reveal={i === focusedPane ? reveal : null}
+                    content={pane.activePath ? contentByPath.get(pane.activePath) ?? '' : ''}
+                    collaborators={collaborators}
+                    readOnly={readOnly}
+                    dirtyFiles={dirtyFiles}
+                    savingFile={savingFile}
+                    onChange={onChange}
+                    onSelectionChange={onSelectionChange}
+                    onSave={onSave}
+                    onSelectTab={onSelectTab}
+                    onCloseTab={onCloseTab}
+                    onFocusPane={onFocusPane}
+                    onSplit={onSplit}
+                    onClosePane={onClosePane}
+                />
+            ))}
+        </div>
+    );
+};
+
+// Touch keyboards don't get along with Monaco, so phones edit one file at a time in a plain text area.
+export const MobileCodeEditor: React.FC<MobileCodeEditorProps> = ({ filePath, content, onChange, onSave, isDirty, isSavingFile, readOnly, onBack }) => (
+    <div className="h-full bg-base-100 flex flex-col font-mono text-sm">
+        <div className="bg-base-200 text-base-content px-4 py-2 border-b border-base-300 flex justify-between items-center shrink-0">
+            <button onClick={onBack} className="flex items-center gap-1.5 text-sm text-neutral hover:text-base-content">
+                <ArrowLeftIcon className="w-4 h-4" />
+                <span>Back</span>
+            </button>
+            <span className="text-accent text-sm truncate">{filePath}</span>
+            <button
+                onClick={() => onSave(filePath)}
+                disabled={!isDirty || isSavingFile || readOnly}
+                className="flex items-center gap-1.5 text-sm text-base-content disabled:text-neutral hover:text-white transition-colors"
+            >
+                {isSavingFile ? '...' : <SaveIcon className="w-4 h-4" />}
+                <span>Save</span>
+            </button>
+        </div>
+        <div className="flex-grow relative">
+            <textarea
+                value={content}
+                onChange={(e) => onChange(e.target.value)}
+                readOnly={readOnly}
+                spellCheck="false"
+                autoCapitalize="off"
+                autoComplete="off"
+                autoCorrect="off"
+                className="absolute inset-0 w-full h-full p-2 bg-base-100 text-base-content resize-none leading-6 tracking-wide focus:outline-none"
+            />
+        </div>
+    </div>
+);
+
+export default CodeEditor;
@@ -5,6 +5,74 @@ import Spinner from './ui/Spinner';
 import { ExclamationTriangleIcon, CopyIcon, CheckIcon } from './icons';
 import { useAlert } from '../contexts/AlertContext';
 
+// Enforces each member's role from the project document: owners and editors write files, commenters can also
+// write to the chat, and viewers only read. Editors can also change the project fields their work updates (the
+// deployment, icon, Git settings and fallback chain), while everything else on the project is the owner's. Roles are read from the project as it is before the write, so a write
+// can't grant itself access, and nobody can take over a project by changing its owner. Only while a project is
+// being created does a write check the project as it will be, so the first connection can copy a project together
+// with its files in one batch.
+const ROLE_BASED_RULES = `rules_version = '2';
+service cloud.firestore {
+  match /databases/{database}/documents {
+    function roleIn(project) {
+      return request.auth == null ? null
+        : request.auth.uid == project.ownerId ? 'owner'
+        : request.auth.uid in project.members ? project.get('roles', {}).get(request.auth.uid, 'editor')
+        : null;
+    }
+    function projectPath(projectId) {
+      return /databases/$(database)/documents/projects/$(projectId);
+    }
+    function canRead(projectId) {
+      return roleIn(get(projectPath(projectId)).data) != null;
+    }
+    function canWrite(projectId, roles) {
+      return exists(projectPath(projectId))
+        ? roleIn(get(projectPath(projectId)).data) in roles
+        : roleIn(getAfter(projectPath(projectId)).data) == 'owner';
+    }
+    function onlyEditorFieldsChange() {
+      return request.resource.data.diff(resource.data).affectedKeys().hasOnly(['deployment', 'iconSvg', 'git', 'fallbackChain']);
+    }
+
+    // Read by the app to check that it can reach the server.
+    match /asai-connection-test/{document} {
+      allow read: if true;
+    }
+
+    match /projects/{projectId} {
+      allow read: if canRead(projectId);
+      allow create: if request.auth != null && request.resource.data.ownerId == request.auth.uid;
+      allow update: if request.resource.data.ownerId == resource.data.ownerId
+        && (roleIn(resource.data) == 'owner' || (roleIn(resource.data) == 'editor' && onlyEditorFieldsChange()));
+      allow delete: if roleIn(resource.data) == 'owner';
+
+      match /chatHistory/{messageId} {
+        allow read: if canRead(projectId);
+        allow write: if canWrite(projectId, ['owner', 'editor', 'commenter']);
+      }
+      match /presence/{clientId} {
+        allow read, write: if canRead(projectId);
+      }
+      match /{document=**} {
+        allow read: if canRead(projectId);
+        allow write: if canWrite(projectId, ['owner', 'editor']);
+      }
+    }
+  }
+}`;
+
+const OPEN_RULES = `rules_version = '2';
+service cloud.firestore {
+  match /databases/{database}/documents {
+    // WARNING: These rules are insecure and allow open access to your database.
+    // Use this for development or trusted environments only.
+    match /{document=**} {
+      allow read, write: if true;
+    }
+  }
+}`;
+
 interface CollaborationSettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -24,6 +92,7 @@ const CollaborationSettingsModal: React.FC<CollaborationSettingsModalProps> = ({
   const [isSaving, setIsSaving] = useState(false);
   const [showRules, setShowRules] = useState(false);
   const [rulesCopied, setRulesCopied] = useState(false);
+  const [rulesKind, setRulesKind] = useState<'roles' | 'open'>('roles');
   const [currentHostname, setCurrentHostname] = useState('');
   const { showAlert } = useAlert();
 
@@ -65,16 +134,7 @@ const CollaborationSettingsModal: React.FC<CollaborationSettingsModalProps> = ({
     setConfig(prev => ({ ...prev, [name]: value }));
   };
 
-const firestoreRules = `rules_version = '2';
-service cloud.firestore {
-  match /databases/{database}/documents {
-    // WARNING: These rules are insecure and allow open access to your database.
-    // Use this for development or trusted environments only.
-    match /{document=**} {
-      allow read, write: if true;
-    }
-  }
-}`;
+    const firestoreRules = rulesKind === 'roles' ? ROLE_BASED_RULES : OPEN_RULES;
 
     const handleCopyRules = () => {
         navigator.clipboard.writeText(firestoreRules);
@@ -130,19 +190,26 @@ service cloud.firestore {
                                 </div>
                             </li>
                             <li>
-                                <strong>Open Firestore Security Rules:</strong> For the simplest setup, your Firestore database needs to be freely accessible. <a href="https://console.firebase.google.com/" target="_blank" rel="noopener noreferrer" className="text-yellow-200 hover:underline font-semibold">Go to Firestore Database &gt; Rules</a> and replace the existing rules with the ones provided below. <strong>This will make your database public.</strong>
+                                <strong>Set Firestore Security Rules:</strong> <a href="https://console.firebase.google.com/" target="_blank" rel="noopener noreferrer" className="text-yellow-200 hover:underline font-semibold">Go to Firestore Database &gt; Rules</a> and replace the existing rules with the ones provided below.
+                                <span className="block mt-1">The <strong>role-based</strong> rules give each member the access of their project role. They identify members by their sign-in on your Firebase project, so members need accounts there with the same user IDs. The <strong>open</strong> rules work without that, but <strong>make your database public</strong> and leave roles to the app alone.</span>
                             </li>
                         </ol>
                         <button onClick={() => setShowRules(!showRules)} className="text-yellow-200 hover:underline font-semibold mt-4 text-sm">
                             {showRules ? 'Hide' : 'Show'} Required Security Rules
                         </button>
                         {showRules && (
+                            <>
+                            <div className="mt-2 flex gap-2 text-xs">
+                                <button data-testid="godmode-rules-roles-button" onClick={() => setRulesKind('roles')} className={`px-2 py-1 rounded ${rulesKind === 'roles' ? 'bg-yellow-500/30 text-yellow-100 font-semibold' : 'text-yellow-300/80 hover:underline'}`}>Role-based</button>
+                                <button data-testid="godmode-rules-open-button" onClick={() => setRulesKind('open')} className={`px-2 py-1 rounded ${rulesKind === 'open' ? 'bg-yellow-500/30 text-yellow-100 font-semibold' : 'text-yellow-300/80 hover:underline'}`}>Open</button>
+                            </div>
                             <div className="mt-2 bg-base-100/50 p-3 rounded-md relative">
                                 <button onClick={handleCopyRules} className="absolute top-2 right-2 px-2 py-1 text-xs bg-base-300 rounded hover:bg-base-100 flex items-center gap-1 text-neutral hover:text-base-content">
                                     {rulesCopied ? <><CheckIcon className="w-3 h-3 text-green-400" /> Copied</> : <><CopyIcon className="w-3 h-3" /> Copy</>}
                                 </button>
                                 <pre className="text-xs text-slate-300 overflow-x-auto"><code>{firestoreRules}</code></pre>
                             </div>
+                            </>
                         )}
                     </div>
                 </div>
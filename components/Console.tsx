@@ -1,12 +1,16 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { ConsoleMessage } from '../types';
-import { CommandLineIcon, InformationCircleIcon, ExclamationTriangleIcon, XCircleIcon, ChevronRightIcon, DeleteIcon } from './icons';
+import { CommandLineIcon, InformationCircleIcon, ExclamationTriangleIcon, XCircleIcon, ChevronRightIcon, DeleteIcon, WrenchScrewdriverIcon } from './icons';
+import { formatConsoleArgs } from '../utils/formatters';
 
 interface ConsoleProps {
   messages: ConsoleMessage[];
   onClear: () => void;
+  onSendErrorToAi?: (message: ConsoleMessage) => void;
 }
 
+const LEVELS: ConsoleMessage['method'][] = ['log', 'info', 'warn', 'error'];
+
 const getIconForMethod = (method: ConsoleMessage['method']) => {
   switch (method) {
     case 'error':
@@ -20,22 +24,20 @@ const getIconForMethod = (method: ConsoleMessage['method']) => {
   }
 };
 
-const formatArg = (arg: any): string => {
-  if (typeof arg === 'object' && arg !== null) {
-    try {
-      // Special handling for error objects from the sandbox
-      if (arg.message && arg.name) {
-         return `${arg.name}: ${arg.message}\n${arg.stack || ''}`;
-      }
-      return JSON.stringify(arg, null, 2);
-    } catch (e) {
-      return '[Unserializable Object]';
-    }
-  }
-  return String(arg);
-};
+const Console: React.FC<ConsoleProps> = ({ messages, onClear, onSendErrorToAi }) => {
+  const [hiddenLevels, setHiddenLevels] = useState<Set<ConsoleMessage['method']>>(new Set());
+
+  const toggleLevel = (level: ConsoleMessage['method']) => {
+    setHiddenLevels(prev => {
+      const next = new Set(prev);
+      if (next.has(level)) next.delete(level);
+      else next.add(level);
+      return next;
+    });
+  };
+
+  const visibleMessages = messages.filter(msg => !hiddenLevels.has(msg.method));
 
-const Console: React.FC<ConsoleProps> = ({ messages, onClear }) => {
   return (
     <div className="h-full bg-base-100 flex flex-col font-mono text-sm">
       <div className="bg-base-200 text-base-content px-4 py-2 border-b border-t border-base-300 flex justify-between items-center shrink-0">
@@ -43,18 +45,38 @@ const Console: React.FC<ConsoleProps> = ({ messages, onClear }) => {
           <CommandLineIcon className="w-5 h-5 text-neutral" />
           <span>Console</span>
         </div>
-        <button onClick={onClear} className="p-1 rounded-md hover:bg-base-300 transition-colors" title="Clear console">
-          <DeleteIcon className="w-5 h-5 text-neutral" />
-        </button>
+        <div className="flex items-center gap-1">
+          {LEVELS.map(level => {
+            const count = messages.filter(msg => msg.method === level).length;
+            const isShown = !hiddenLevels.has(level);
+            return (
+              <button
+                key={level}
+                data-testid={`godmode-console-filter-${level}`}
+                onClick={() => toggleLevel(level)}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded-md text-xs transition-colors ${isShown ? 'bg-base-300 text-base-content' : 'text-neutral/60 hover:bg-base-300'}`}
+                title={isShown ? `Hide ${level} messages` : `Show ${level} messages`}
+              >
+                {getIconForMethod(level)}
+                <span>{count}</span>
+              </button>
+            );
+          })}
+          <button onClick={onClear} className="p-1 ml-1 rounded-md hover:bg-base-300 transition-colors" title="Clear console">
+            <DeleteIcon className="w-5 h-5 text-neutral" />
+          </button>
+        </div>
       </div>
       <div className="flex-grow p-2 overflow-y-auto text-base-content">
         {messages.length === 0 ? (
           <div className="text-neutral italic h-full flex items-center justify-center">Console is empty. Logs from your app will appear here.</div>
+        ) : visibleMessages.length === 0 ? (
+          <div className="text-neutral italic h-full flex items-center justify-center">All messages are hidden by the level filters.</div>
         ) : (
-          messages.map((msg) => (
+          visibleMessages.map((msg) => (
             <div
               key={msg.id}
-              className={`flex items-start gap-2 p-1.5 border-b border-base-300/50 ${
+              className={`group flex items-start gap-2 p-1.5 border-b border-base-300/50 ${
                 msg.method === 'error' ? 'bg-red-500/10 text-red-300' : msg.method === 'warn' ? 'bg-yellow-500/10 text-yellow-300' : ''
               }`}
             >
@@ -63,8 +85,18 @@ const Console: React.FC<ConsoleProps> = ({ messages, onClear }) => {
                 {getIconForMethod(msg.method)}
               </div>
               <pre className="whitespace-pre-wrap break-words flex-grow">
-                <code>{msg.args.map(formatArg).join(' ')}</code>
+                <code>{formatConsoleArgs(msg.args)}</code>
               </pre>
+              {msg.method === 'error' && onSendErrorToAi && (
+                <button
+                  onClick={() => onSendErrorToAi(msg)}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-sans font-semibold text-yellow-400 hover:bg-yellow-500/20 transition-colors shrink-0 opacity-70 group-hover:opacity-100"
+                  title="Ask the AI to propose a fix for this error"
+                >
+                  <WrenchScrewdriverIcon className="w-4 h-4" />
+                  <span>Fix with AI</span>
+                </button>
+              )}
             </div>
           ))
         )}
@@ -11,6 +11,7 @@ interface DebugRefactorModalProps {
   isLoading: boolean;
   proposedChanges: AiChanges | null;
   selectedFile: FileNode | undefined;
+  initialDescription?: string; // Pre-fills the form, e.g. with an error sent from the console
 }
 
 const DebugRefactorModal: React.FC<DebugRefactorModalProps> = ({
@@ -20,18 +21,25 @@ const DebugRefactorModal: React.FC<DebugRefactorModalProps> = ({
   onApplyFixes,
   isLoading,
   proposedChanges,
-  selectedFile
+  selectedFile,
+  initialDescription
 }) => {
   const [description, setDescription] = useState('');
   const [scope, setScope] = useState<'file' | 'project'>('file');
 
   useEffect(() => {
-    if (selectedFile) {
+    if (selectedFile && !initialDescription) {
         setScope('file');
     } else {
         setScope('project');
     }
-  }, [selectedFile, isOpen]);
+  }, [selectedFile, isOpen, initialDescription]);
+
+  useEffect(() => {
+    if (isOpen && initialDescription) {
+        setDescription(initialDescription);
+    }
+  }, [isOpen, initialDescription]);
 
   if (!isOpen) return null;
 
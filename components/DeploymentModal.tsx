@@ -1,20 +1,38 @@
 import React from 'react';
-import { RocketIcon } from './icons';
+import { DeploymentRecord, DeploymentTarget, Project } from '../types';
+import { DEPLOYMENT_PROVIDERS, getDeploymentProvider } from '../services/deploymentProviders';
+import { DeploymentPhase } from '../services/deploymentService';
+import { RocketIcon, DownloadIcon, ExternalLinkIcon, RefreshIcon, UndoIcon } from './icons';
 import Spinner from './ui/Spinner';
 
 interface DeploymentModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onDeployCodeSandbox: () => void;
-  isDeploying: boolean;
+  project: Project | null;
+  deployments: DeploymentRecord[];
+  progress: { target: DeploymentTarget; phase: DeploymentPhase } | null;
+  isTargetConfigured: (target: DeploymentTarget) => boolean;
+  onDeploy: (target: DeploymentTarget) => void;
+  onRedeploy: (record: DeploymentRecord) => void;
+  onOpenApiKeys: () => void;
 }
 
-const DeploymentModal: React.FC<DeploymentModalProps> = ({ isOpen, onClose, onDeployCodeSandbox, isDeploying }) => {
+const PHASE_LABELS: Record<DeploymentPhase, string> = {
+  building: 'Building...',
+  uploading: 'Uploading...',
+  processing: 'Publishing...',
+};
+
+const DeploymentModal: React.FC<DeploymentModalProps> = ({ isOpen, onClose, project, deployments, progress, isTargetConfigured, onDeploy, onRedeploy, onOpenApiKeys }) => {
   if (!isOpen) return null;
 
+  const isDeploying = progress !== null;
+  // The newest successful deploy per target is what's live; redeploying an older one rolls the site back to it.
+  const latestReadyIds = new Set(DEPLOYMENT_PROVIDERS.map(p => deployments.find(d => d.target === p.id && d.status === 'ready')?.id).filter(Boolean));
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 transition-opacity duration-300">
-      <div className="bg-base-200 rounded-lg shadow-2xl p-8 w-full max-w-lg m-4 border border-base-300">
+      <div className="bg-base-200 rounded-lg shadow-2xl p-8 w-full max-w-lg m-4 border border-base-300 max-h-[90vh] overflow-y-auto">
         <div className="flex items-center gap-3 mb-4">
           <RocketIcon className="w-6 h-6 text-green-400" />
           <h2 className="text-2xl font-bold text-base-content">Deploy Project</h2>
@@ -23,35 +41,87 @@ const DeploymentModal: React.FC<DeploymentModalProps> = ({ isOpen, onClose, onDe
           Publish your project to a live environment. Select a provider below.
         </p>
 
+        {project?.deployment && (
+            <div className="mb-6 p-3 bg-green-500/10 border border-green-500/30 rounded-lg text-sm">
+                <p className="text-neutral">Live on {getDeploymentProvider(project.deployment.provider).name}</p>
+                <a href={project.deployment.url} target="_blank" rel="noopener noreferrer" className="text-green-400 font-semibold break-all hover:underline">
+                    {project.deployment.url}
+                </a>
+            </div>
+        )}
+
         <div className="space-y-4">
-            <button
-                onClick={onDeployCodeSandbox}
-                disabled={isDeploying}
-                className="w-full flex items-center justify-between p-4 bg-base-300 hover:bg-primary/10 rounded-lg border border-base-100 hover:border-primary transition-colors"
-            >
-                <div className="flex items-center gap-4">
-                    <img src="https://codesandbox.io/favicon.ico" alt="CodeSandbox Logo" className="w-8 h-8"/>
-                    <div>
-                        <p className="font-semibold text-base-content">CodeSandbox</p>
-                        <p className="text-xs text-neutral">Opens your project in a new CodeSandbox instance.</p>
-                    </div>
-                </div>
-                {isDeploying ? <Spinner size="sm" /> : <span>&rarr;</span>}
-            </button>
+            {DEPLOYMENT_PROVIDERS.map(provider => {
+                const isConfigured = isTargetConfigured(provider.id);
+                const isActive = progress?.target === provider.id;
+                return (
+                    <button
+                        key={provider.id}
+                        data-testid={`godmode-deploy-${provider.id}-button`}
+                        onClick={() => isConfigured ? onDeploy(provider.id) : onOpenApiKeys()}
+                        disabled={isDeploying}
+                        className="w-full flex items-center justify-between p-4 bg-base-300 hover:bg-primary/10 rounded-lg border border-base-100 hover:border-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-base-300 disabled:hover:border-base-100"
+                    >
+                        <div className="flex items-center gap-4 text-left">
+                            {provider.logoUrl
+                                ? <img src={provider.logoUrl} alt={`${provider.name} Logo`} className="w-8 h-8"/>
+                                : <DownloadIcon className="w-8 h-8 text-neutral" />}
+                            <div>
+                                <p className="font-semibold text-base-content">{provider.name}</p>
+                                <p className="text-xs text-neutral">{provider.description}</p>
+                            </div>
+                        </div>
+                        {isActive ? (
+                            <span className="flex items-center gap-2 text-xs text-neutral shrink-0"><Spinner size="sm" />{PHASE_LABELS[progress.phase]}</span>
+                        ) : isConfigured ? (
+                            <span>&rarr;</span>
+                        ) : (
+                            <span className="text-xs font-bold bg-secondary/20 text-secondary px-2 py-1 rounded-full shrink-0">Add token</span>
+                        )}
+                    </button>
+                );
+            })}
+        </div>
 
-            <div
-                className="w-full flex items-center justify-between p-4 bg-base-300 rounded-lg border border-base-100 opacity-50 cursor-not-allowed"
-            >
-                <div className="flex items-center gap-4">
-                    <img src="https://www.netlify.com/v3/img/components/logomark.png" alt="Netlify Logo" className="w-8 h-8"/>
-                    <div>
-                        <p className="font-semibold text-base-content">Netlify</p>
-                        <p className="text-xs text-neutral">Deploy globally with one click.</p>
-                    </div>
-                </div>
-                <span className="text-xs font-bold bg-secondary/20 text-secondary px-2 py-1 rounded-full">Coming Soon</span>
+        <h3 className="text-sm font-semibold tracking-wider uppercase text-base-content mt-8 mb-2 pb-2 border-b border-base-300">Deployment History</h3>
+        {deployments.length === 0 ? (
+            <p className="text-sm text-neutral italic py-2">No deployments yet.</p>
+        ) : (
+            <div className="max-h-64 overflow-y-auto pr-1 space-y-1">
+                {deployments.map(record => {
+                    const isLive = latestReadyIds.has(record.id);
+                    return (
+                        <div key={record.id} className="p-2 rounded-md hover:bg-base-300/50 group flex items-start justify-between gap-2">
+                            <div className="min-w-0">
+                                <p className="text-xs text-base-content font-semibold flex items-center gap-2">
+                                    {getDeploymentProvider(record.target).name}
+                                    {record.status === 'error'
+                                        ? <span className="font-bold bg-red-500/20 text-red-400 px-1.5 py-0.5 rounded-full">Failed</span>
+                                        : isLive && record.target !== 'static' && <span className="font-bold bg-green-500/20 text-green-400 px-1.5 py-0.5 rounded-full">Live</span>}
+                                    {record.redeployOf && <span className="text-neutral/80 font-normal">Redeploy</span>}
+                                </p>
+                                <p className="text-xs text-neutral/80 mt-1">{record.createdAt?.toDate().toLocaleString()}</p>
+                                {record.url && (
+                                    <a href={record.url} target="_blank" rel="noopener noreferrer" className="text-xs text-primary hover:underline flex items-center gap-1 truncate">
+                                        <ExternalLinkIcon className="w-3 h-3 shrink-0" />
+                                        <span className="truncate">{record.url}</span>
+                                    </a>
+                                )}
+                                {record.error && <p className="text-xs text-red-300 mt-1 break-words">{record.error}</p>}
+                            </div>
+                            <button
+                                onClick={() => onRedeploy(record)}
+                                disabled={isDeploying}
+                                className="p-1 rounded-full hover:bg-primary/10 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity disabled:opacity-30"
+                                title={isLive || record.status === 'error' ? 'Deploy these files again' : 'Roll back to this version'}
+                            >
+                                {isLive || record.status === 'error' ? <RefreshIcon className="w-4 h-4 text-primary" /> : <UndoIcon className="w-4 h-4 text-primary" />}
+                            </button>
+                        </div>
+                    );
+                })}
             </div>
-        </div>
+        )}
 
         <div className="flex justify-end mt-8">
           <button
@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { AiProvider, ProjectGitConfig } from '../types';
+import { GitBranchIcon } from './icons';
+import Spinner from './ui/Spinner';
+import { AI_PROVIDERS, getProvider } from '../services/aiProviders';
+
+interface GitCloneBuilderProps {
+  onStartBuilding: (projectName: string, remote: Omit<ProjectGitConfig, 'branch'> & { branch?: string }, provider: AiProvider, model?: string) => void;
+  isLoading: boolean;
+  hasToken: boolean;
+}
+
+// "https://github.com/owner/my-app.git" -> "my-app"
+const nameFromUrl = (url: string) => url.trim().replace(/\/+$/, '').split('/').pop()?.replace(/\.git$/, '') || '';
+
+const GitCloneBuilder: React.FC<GitCloneBuilderProps> = ({ onStartBuilding, isLoading, hasToken }) => {
+    const [remoteUrl, setRemoteUrl] = useState('');
+    const [projectName, setProjectName] = useState('');
+    const [branch, setBranch] = useState('');
+    const [corsProxy, setCorsProxy] = useState('');
+    const [provider, setProvider] = useState<AiProvider>('gemini');
+    const [model, setModel] = useState('');
+
+    const models = getProvider(provider).models;
+
+    useEffect(() => {
+        const providerModels = getProvider(provider).models;
+        setModel(providerModels.length > 1 ? providerModels[0].id : '');
+    }, [provider]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = projectName.trim() || nameFromUrl(remoteUrl);
+        if (!remoteUrl.trim() || !name) return;
+        onStartBuilding(name, {
+            remoteUrl: remoteUrl.trim(),
+            ...(branch.trim() && { branch: branch.trim() }),
+            ...(corsProxy.trim() && { corsProxy: corsProxy.trim() }),
+        }, provider, model);
+    };
+
+    const inputClasses = "w-full bg-base-300 border border-base-300/50 rounded-md py-3 px-4 text-base-content placeholder-neutral focus:outline-none focus:ring-2 focus:ring-primary transition";
+
+    return (
+        <div>
+            <h2 className="text-xl font-bold mb-4 text-base-content">Clone a Git Repository</h2>
+            <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+                <input
+                    type="url"
+                    value={remoteUrl}
+                    onChange={e => setRemoteUrl(e.target.value)}
+                    placeholder="https://github.com/owner/repo.git"
+                    className={inputClasses}
+                    required
+                    disabled={isLoading}
+                />
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <input value={projectName} onChange={e => setProjectName(e.target.value)} placeholder={nameFromUrl(remoteUrl) || 'Project name'} className={inputClasses} disabled={isLoading} />
+                    <input value={branch} onChange={e => setBranch(e.target.value)} placeholder="Branch (default: remote's)" className={inputClasses} disabled={isLoading} />
+                </div>
+                <input type="url" value={corsProxy} onChange={e => setCorsProxy(e.target.value)} placeholder="CORS proxy (needed for GitHub), e.g. https://cors.isomorphic-git.org" className={inputClasses} disabled={isLoading} />
+                <p className="text-xs text-neutral">
+                    {hasToken ? 'Your Git access token from API Key Settings is used for private repositories.' : 'Only public repositories can be cloned until you add a Git access token in API Key Settings.'}
+                    {' '}Binary files such as images are not imported.
+                </p>
+
+                <div className="flex flex-col sm:flex-row items-start gap-4">
+                    <select value={provider} onChange={e => setProvider(e.target.value as AiProvider)} className="w-full sm:w-auto h-11 bg-base-200 border border-base-300 rounded-md px-3 text-base-content text-sm" disabled={isLoading}>
+                        {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.id === 'gemini' ? `${p.name} (for AI features)` : p.name}</option>)}
+                    </select>
+
+                    {models.length > 1 && (
+                        <select value={model} onChange={e => setModel(e.target.value)} className="w-full sm:w-auto h-11 bg-base-200 border border-base-300 rounded-md px-3 text-base-content text-sm" disabled={isLoading}>
+                            {models.map(opt => <option key={opt.id} value={opt.id}>{opt.name}</option>)}
+                        </select>
+                    )}
+                    {models.length === 0 && (
+                        <input type="text" value={model} onChange={e => setModel(e.target.value)} placeholder="Model (blank for your default)" className="w-full sm:w-auto h-11 bg-base-200 border border-base-300 rounded-md px-3 text-base-content text-sm" disabled={isLoading} />
+                    )}
+
+                    <button type="submit" disabled={isLoading || !remoteUrl.trim()} className="w-full sm:w-auto px-6 py-2 h-11 bg-primary hover:bg-primary/90 text-white font-semibold rounded-md transition-all flex items-center justify-center gap-2 shrink-0 disabled:bg-primary/50 disabled:cursor-not-allowed sm:ml-auto btn-shine">
+                        {isLoading ? <Spinner size="sm"/> : <><GitBranchIcon className="w-5 h-5" /> Clone</>}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default GitCloneBuilder;
@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import { GitCommitInfo, GitFileStatus, ProjectGitConfig } from '../types';
+import { GitAction } from '../hooks/useGitRepository';
+import { GitBranchIcon, RefreshIcon, AiIcon, ArrowRightIcon, DownloadIcon } from './icons';
+import Spinner from './ui/Spinner';
+
+interface GitModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  config: ProjectGitConfig | null | undefined;
+  status: GitFileStatus[];
+  lastCommit: GitCommitInfo | null;
+  busyAction: GitAction | null;
+  error: string | null;
+  hasToken: boolean;
+  hasUnsavedFiles: boolean;
+  onConnect: (config: Omit<ProjectGitConfig, 'branch'> & { branch?: string }) => void;
+  onRefresh: () => void;
+  onCommit: (message: string) => Promise<boolean>;
+  onGenerateMessage: () => Promise<string | null>;
+  onPush: () => void;
+  onPull: () => void;
+  onOpenApiKeys: () => void;
+}
+
+const STATUS_STYLES: Record<GitFileStatus['status'], { label: string; className: string }> = {
+  added: { label: 'A', className: 'text-green-400' },
+  modified: { label: 'M', className: 'text-yellow-400' },
+  deleted: { label: 'D', className: 'text-red-400' },
+};
+
+const inputClasses = "w-full bg-base-100 border border-base-300 rounded-md py-2 px-3 text-sm text-base-content focus:outline-none focus:ring-2 focus:ring-primary";
+
+const GitModal: React.FC<GitModalProps> = ({
+  isOpen, onClose, config, status, lastCommit, busyAction, error, hasToken, hasUnsavedFiles,
+  onConnect, onRefresh, onCommit, onGenerateMessage, onPush, onPull, onOpenApiKeys,
+}) => {
+  const [isEditingRemote, setIsEditingRemote] = useState(false);
+  const [remoteUrl, setRemoteUrl] = useState('');
+  const [branch, setBranch] = useState('');
+  const [username, setUsername] = useState('');
+  const [corsProxy, setCorsProxy] = useState('');
+  const [message, setMessage] = useState('');
+  const [isGeneratingMessage, setIsGeneratingMessage] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setRemoteUrl(config?.remoteUrl || '');
+    setBranch(config?.branch || '');
+    setUsername(config?.username || '');
+    setCorsProxy(config?.corsProxy || '');
+    setIsEditingRemote(!config);
+  }, [isOpen, config]);
+
+  if (!isOpen) return null;
+
+  const isBusy = busyAction !== null || isGeneratingMessage;
+
+  const handleConnect = () => {
+    if (!remoteUrl.trim()) return;
+    onConnect({
+      remoteUrl: remoteUrl.trim(),
+      ...(branch.trim() && { branch: branch.trim() }),
+      ...(username.trim() && { username: username.trim() }),
+      ...(corsProxy.trim() && { corsProxy: corsProxy.trim() }),
+    });
+  };
+
+  const handleCommit = async () => {
+    if (!message.trim()) return;
+    if (await onCommit(message.trim())) setMessage('');
+  };
+
+  const handleGenerateMessage = async () => {
+    setIsGeneratingMessage(true);
+    try {
+      const generated = await onGenerateMessage();
+      if (generated) setMessage(generated);
+    } finally {
+      setIsGeneratingMessage(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 transition-opacity duration-300">
+      <div className="bg-base-200 rounded-lg shadow-2xl p-8 w-full max-w-lg m-4 border border-base-300 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center gap-3 mb-4">
+          <GitBranchIcon className="w-6 h-6 text-primary" />
+          <h2 className="text-2xl font-bold text-base-content">Source Control</h2>
+        </div>
+
+        {!hasToken && (
+            <p className="text-xs text-neutral mb-4">
+                No Git access token is set, so only public repositories can be read and pushing will fail.{' '}
+                <button onClick={onOpenApiKeys} className="text-primary font-semibold hover:underline">Add a token</button>
+            </p>
+        )}
+
+        {isEditingRemote ? (
+            <div className="space-y-3 mb-6">
+                <input data-testid="godmode-git-remote-url" type="url" value={remoteUrl} onChange={e => setRemoteUrl(e.target.value)} placeholder="https://github.com/owner/repo.git" className={inputClasses} />
+                <div className="grid grid-cols-2 gap-2">
+                    <input type="text" value={branch} onChange={e => setBranch(e.target.value)} placeholder="Branch (default: remote's)" className={inputClasses} />
+                    <input type="text" value={username} onChange={e => setUsername(e.target.value)} placeholder="Username (optional)" className={inputClasses} />
+                </div>
+                <input type="url" value={corsProxy} onChange={e => setCorsProxy(e.target.value)} placeholder="CORS proxy, e.g. https://cors.isomorphic-git.org" className={inputClasses} />
+                <p className="text-xs text-neutral/80">Hosts like GitHub don't allow browser requests directly, so they need a CORS proxy.</p>
+                <div className="flex justify-end gap-2">
+                    {config && (
+                        <button onClick={() => setIsEditingRemote(false)} className="px-3 py-1.5 bg-base-300 hover:bg-opacity-80 rounded-md text-sm font-semibold">Cancel</button>
+                    )}
+                    <button
+                        data-testid="godmode-git-connect-button"
+                        onClick={handleConnect}
+                        disabled={isBusy || !remoteUrl.trim()}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-primary hover:opacity-90 rounded-md text-white text-sm font-semibold disabled:opacity-50"
+                    >
+                        {busyAction === 'connect' && <Spinner size="sm" />}
+                        Connect
+                    </button>
+                </div>
+            </div>
+        ) : config && (
+            <div className="mb-6 p-3 bg-base-300/50 rounded-lg text-sm flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                    <p className="text-base-content font-semibold truncate">{config.remoteUrl}</p>
+                    <p className="text-xs text-neutral mt-1">Branch <span className="font-mono">{config.branch}</span></p>
+                    {lastCommit && (
+                        <p className="text-xs text-neutral/80 mt-1 truncate" title={lastCommit.message}>
+                            <span className="font-mono">{lastCommit.oid.slice(0, 7)}</span> {lastCommit.message.split('\n')[0]} &middot; {lastCommit.author}
+                        </p>
+                    )}
+                </div>
+                <button onClick={() => setIsEditingRemote(true)} disabled={isBusy} className="text-xs text-primary font-semibold hover:underline shrink-0">Change</button>
+            </div>
+        )}
+
+        {error && <pre className="text-xs bg-base-300 p-2 rounded-md text-red-300 whitespace-pre-wrap break-words mb-4">{error}</pre>}
+
+        {config && !isEditingRemote && (
+            <>
+                <div className="flex items-center justify-between mb-2 pb-2 border-b border-base-300">
+                    <h3 className="text-sm font-semibold tracking-wider uppercase text-base-content">Changes ({status.length})</h3>
+                    <button onClick={onRefresh} disabled={isBusy} className="p-1 rounded-md hover:bg-base-300" title="Refresh status">
+                        {busyAction === 'status' ? <Spinner size="sm" /> : <RefreshIcon className="w-4 h-4 text-neutral" />}
+                    </button>
+                </div>
+                {status.length === 0 ? (
+                    <p className="text-sm text-neutral italic py-2">Working tree clean.</p>
+                ) : (
+                    <div className="max-h-48 overflow-y-auto font-mono text-xs space-y-0.5 mb-2">
+                        {status.map(file => (
+                            <div key={file.path} className="flex items-center gap-2 px-1 py-0.5">
+                                <span className={`w-4 font-bold ${STATUS_STYLES[file.status].className}`}>{STATUS_STYLES[file.status].label}</span>
+                                <span className="text-base-content truncate">{file.path}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {hasUnsavedFiles && <p className="text-xs text-yellow-400 mt-2">Save your open files first: unsaved edits are included in the status but can't be committed.</p>}
+
+                <div className="mt-4 space-y-2">
+                    <textarea
+                        data-testid="godmode-git-commit-message"
+                        value={message}
+                        onChange={e => setMessage(e.target.value)}
+                        placeholder="Commit message"
+                        rows={3}
+                        className={`${inputClasses} resize-none`}
+                    />
+                    <div className="flex items-center justify-between gap-2">
+                        <button
+                            onClick={handleGenerateMessage}
+                            disabled={isBusy || status.length === 0}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md hover:bg-base-300 text-sm font-semibold text-primary disabled:opacity-50"
+                            title="Write a commit message from the changes with AI"
+                        >
+                            {isGeneratingMessage ? <Spinner size="sm" /> : <AiIcon className="w-4 h-4" />}
+                            Write with AI
+                        </button>
+                        <button
+                            data-testid="godmode-git-commit-button"
+                            onClick={handleCommit}
+                            disabled={isBusy || status.length === 0 || !message.trim() || hasUnsavedFiles}
+                            className="flex items-center gap-2 px-3 py-1.5 bg-primary hover:opacity-90 rounded-md text-white text-sm font-semibold disabled:opacity-50"
+                        >
+                            {busyAction === 'commit' && <Spinner size="sm" />}
+                            Commit
+                        </button>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2 mt-6">
+                    <button
+                        data-testid="godmode-git-pull-button"
+                        onClick={onPull}
+                        disabled={isBusy || hasUnsavedFiles}
+                        className="flex items-center justify-center gap-2 px-3 py-2 bg-base-300 hover:bg-opacity-80 rounded-md text-sm font-semibold disabled:opacity-50"
+                    >
+                        {busyAction === 'pull' ? <Spinner size="sm" /> : <DownloadIcon className="w-4 h-4" />}
+                        Pull
+                    </button>
+                    <button
+                        data-testid="godmode-git-push-button"
+                        onClick={onPush}
+                        disabled={isBusy || !lastCommit}
+                        className="flex items-center justify-center gap-2 px-3 py-2 bg-base-300 hover:bg-opacity-80 rounded-md text-sm font-semibold disabled:opacity-50"
+                    >
+                        {busyAction === 'push' ? <Spinner size="sm" /> : <ArrowRightIcon className="w-4 h-4" />}
+                        Push
+                    </button>
+                </div>
+            </>
+        )}
+
+        <div className="flex justify-end mt-8">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-base-300 hover:bg-opacity-80 rounded-md text-base-content font-semibold transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GitModal;
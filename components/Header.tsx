@@ -1,9 +1,11 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { DownloadIcon, KeyIcon, CodeIcon, SettingsIcon, UndoIcon, RedoIcon, AnalyzeIcon, AiIcon, RobotIcon, WrenchScrewdriverIcon, ArrowLeftIcon, UserIcon, ShareIcon, CommandLineIcon, RocketIcon, ExternalLinkIcon, PaintBrushIcon, CrownIcon, ComputerDesktopIcon } from './icons';
-import { User } from '../types';
+import { DownloadIcon, KeyIcon, CodeIcon, SettingsIcon, UndoIcon, RedoIcon, AnalyzeIcon, AiIcon, RobotIcon, WrenchScrewdriverIcon, ArrowLeftIcon, UserIcon, ShareIcon, CommandLineIcon, RocketIcon, ExternalLinkIcon, PaintBrushIcon, CrownIcon, ComputerDesktopIcon, GitBranchIcon } from './icons';
+import { User, CollaboratorPresence } from '../types';
 import { auth } from '../services/firebase';
 import { useBranding } from '../contexts/BrandingContext';
 import { AiTypingIndicator } from './ui/Spinner';
+import { COLLABORATOR_COLORS } from '../hooks/useCollaboration';
+import { ProjectPermissions } from '../utils/permissions';
 
 interface HeaderProps {
     user: User | null;
@@ -15,6 +17,8 @@ interface HeaderProps {
     onRedo: () => void;
     canUndo: boolean;
     canRedo: boolean;
+    undoLabel?: string;
+    redoLabel?: string;
     onAnalyzeClick: () => void;
     onBuildClick: () => void;
     onAutoDevClick: () => void;
@@ -27,19 +31,55 @@ interface HeaderProps {
     onProfileClick: () => void;
     onShareClick: () => void;
     onDeployClick: () => void;
+    onGitClick: () => void;
     onDesignClick: () => void;
     isAiLoading: boolean;
     isMobile: boolean;
+    collaborators?: CollaboratorPresence[]; // Other open sessions of a collaborative project.
+    permissions: ProjectPermissions; // Actions the user's role doesn't allow are left out.
 }
 
+const MAX_SHOWN_COLLABORATORS = 4;
+
+// Who else has the project open, one avatar per person, ringed in the color of their cursor.
+const PresenceList: React.FC<{ collaborators: CollaboratorPresence[] }> = ({ collaborators }) => {
+  const people = collaborators.filter((c, i) => collaborators.findIndex(other => other.uid === c.uid) === i);
+  if (people.length === 0) return null;
+  const shown = people.slice(0, MAX_SHOWN_COLLABORATORS);
+  const hidden = people.slice(MAX_SHOWN_COLLABORATORS);
+  const describe = (c: CollaboratorPresence) => `${c.displayName || 'Collaborator'} — ${c.filePath ? `editing ${c.filePath}` : 'online'}`;
+
+  return (
+    <div data-testid="godmode-presence-list" className="flex items-center -space-x-2 pl-2">
+      {shown.map(c => (
+        <div
+          key={c.uid}
+          title={describe(c)}
+          className="w-7 h-7 rounded-full border-2 bg-base-300 flex items-center justify-center overflow-hidden text-xs font-semibold text-base-content"
+          style={{ borderColor: COLLABORATOR_COLORS[c.colorIndex % COLLABORATOR_COLORS.length] }}
+        >
+          {c.photoURL ? <img src={c.photoURL} alt="" className="w-full h-full object-cover" /> : (c.displayName || '?').charAt(0).toUpperCase()}
+        </div>
+      ))}
+      {hidden.length > 0 && (
+        <div title={hidden.map(describe).join('\n')} className="w-7 h-7 rounded-full border-2 border-base-200 bg-base-300 flex items-center justify-center text-xs text-neutral">
+          +{hidden.length}
+        </div>
+      )}
+    </div>
+  );
+};
+
 const Header: React.FC<HeaderProps> = ({ 
     user, project, onDownload, onApiKeyClick, onSettingsClick, 
-    onUndo, onRedo, canUndo, canRedo, onAnalyzeClick, onBuildClick, 
+    onUndo, onRedo, canUndo, canRedo, undoLabel, redoLabel, onAnalyzeClick, onBuildClick, 
     onAutoDevClick, onGodModeClick, onDebugRefactorClick, onBackToDashboard,
     onTogglePreview, onToggleFullScreenPreview, onToggleBottomPanel, 
-    onProfileClick, onShareClick, onDeployClick, onDesignClick,
+    onProfileClick, onShareClick, onDeployClick, onGitClick, onDesignClick,
     isAiLoading,
-    isMobile
+    isMobile,
+    collaborators = [],
+    permissions
 }) => {
   const { brand } = useBranding();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
@@ -72,6 +112,7 @@ const Header: React.FC<HeaderProps> = ({
 
   const DesktopHeader = () => (
      <div className="flex items-center space-x-1 sm:space-x-2">
+      {permissions.canUseAi && (<>
        <button onClick={onGodModeClick} className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-yellow-600 hover:bg-yellow-500 text-white transition-colors" title="God Mode">
         <CrownIcon className="w-5 h-5" />
         <span className="text-sm font-semibold hidden sm:inline">God Mode</span>
@@ -85,13 +126,16 @@ const Header: React.FC<HeaderProps> = ({
         <span className="text-sm font-semibold hidden sm:inline">Build</span>
       </button>
       <div className="h-6 w-px bg-base-300 mx-1"></div>
-      <button onClick={onUndo} disabled={!canUndo} className="p-2 rounded-md hover:bg-base-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors" title="Undo">
+      </>)}
+      {permissions.canEditFiles && (<>
+      <button onClick={onUndo} disabled={!canUndo} className="p-2 rounded-md hover:bg-base-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors" title={undoLabel ? `Undo: ${undoLabel}` : "Undo"}>
         <UndoIcon className="w-5 h-5 text-neutral" />
       </button>
-      <button onClick={onRedo} disabled={!canRedo} className="p-2 rounded-md hover:bg-base-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors" title="Redo">
+      <button onClick={onRedo} disabled={!canRedo} className="p-2 rounded-md hover:bg-base-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors" title={redoLabel ? `Redo: ${redoLabel}` : "Redo"}>
         <RedoIcon className="w-5 h-5 text-neutral" />
       </button>
       <div className="h-6 w-px bg-base-300 mx-1"></div>
+      </>)}
       <button onClick={onToggleBottomPanel} className="p-2 rounded-md hover:bg-base-300 transition-colors" title="Toggle Console/Terminal Panel">
         <CommandLineIcon className="w-5 h-5 text-neutral" />
       </button>
@@ -101,12 +145,20 @@ const Header: React.FC<HeaderProps> = ({
       <button onClick={onToggleFullScreenPreview} className="p-2 rounded-md hover:bg-base-300 transition-colors" title="Full Screen Preview">
         <ExternalLinkIcon className="w-5 h-5 text-neutral" />
       </button>
+      {permissions.canEditFiles && (<>
+      <button onClick={onGitClick} className="p-2 rounded-md hover:bg-base-300 transition-colors" title="Source Control">
+          <GitBranchIcon className="w-5 h-5 text-neutral" />
+      </button>
       <button onClick={onDeployClick} className="p-2 rounded-md hover:bg-base-300 transition-colors" title="Deploy Project">
           <RocketIcon className="w-5 h-5 text-green-400" />
       </button>
+      </>)}
+      {permissions.canManageProject && (
       <button onClick={onShareClick} className="p-2 rounded-md hover:bg-base-300 transition-colors" title="Share Project">
           <ShareIcon className="w-5 h-5 text-neutral" />
       </button>
+      )}
+      {permissions.canUseAi && (<>
        <button onClick={onDesignClick} className="p-2 rounded-md hover:bg-base-300 transition-colors" title="AI Design Studio">
         <PaintBrushIcon className="w-5 h-5 text-accent" />
       </button>
@@ -116,6 +168,7 @@ const Header: React.FC<HeaderProps> = ({
       <button onClick={onDebugRefactorClick} className="p-2 rounded-md hover:bg-base-300 transition-colors" title="Debug & Refactor with AI">
         <WrenchScrewdriverIcon className="w-5 h-5 text-yellow-500" />
       </button>
+      </>)}
       <div className="h-6 w-px bg-base-300 mx-1"></div>
       <button data-testid="godmode-open-settings-modal" onClick={onSettingsClick} className="p-2 rounded-md hover:bg-base-300 transition-colors" title="Project Settings">
         <SettingsIcon className="w-5 h-5 text-neutral" />
@@ -153,19 +206,26 @@ const Header: React.FC<HeaderProps> = ({
 
     return (
       <div ref={menuRef} className="absolute top-full right-2 mt-2 w-64 bg-base-200 border border-base-300 rounded-lg shadow-xl z-50 py-2">
+        {permissions.canUseAi && (<>
         <MenuItem icon={<CrownIcon className="w-5 h-5 text-yellow-500" />} text="God Mode" onClick={onGodModeClick} />
         <MenuItem icon={<RobotIcon className="w-5 h-5 text-secondary" />} text="Autonomous Mode" onClick={onAutoDevClick} />
         <MenuItem icon={<AiIcon className="w-5 h-5 text-primary" />} text="Build Mode" onClick={onBuildClick} />
         <div className="h-px bg-base-300 my-1 mx-2"></div>
         <MenuItem icon={<PaintBrushIcon className="w-5 h-5 text-accent" />} text="AI Design Studio" onClick={onDesignClick} />
+        </>)}
         <MenuItem icon={<ComputerDesktopIcon className="w-5 h-5 text-neutral" />} text="Full Screen Preview" onClick={onToggleFullScreenPreview} />
         <MenuItem icon={<CommandLineIcon className="w-5 h-5 text-neutral" />} text="Toggle Console" onClick={onToggleBottomPanel} />
+        {permissions.canUseAi && (<>
         <div className="h-px bg-base-300 my-1 mx-2"></div>
         <MenuItem icon={<AnalyzeIcon className="w-5 h-5 text-neutral" />} text="Analyze Project" onClick={onAnalyzeClick} />
         <MenuItem icon={<WrenchScrewdriverIcon className="w-5 h-5 text-yellow-500" />} text="Debug & Refactor" onClick={onDebugRefactorClick} />
+        </>)}
         <div className="h-px bg-base-300 my-1 mx-2"></div>
+        {permissions.canEditFiles && (<>
+        <MenuItem icon={<GitBranchIcon className="w-5 h-5 text-neutral" />} text="Source Control" onClick={onGitClick} />
         <MenuItem icon={<RocketIcon className="w-5 h-5 text-green-400" />} text="Deploy Project" onClick={onDeployClick} />
-        <MenuItem icon={<ShareIcon className="w-5 h-5 text-neutral" />} text="Share Project" onClick={onShareClick} />
+        </>)}
+        {permissions.canManageProject && <MenuItem icon={<ShareIcon className="w-5 h-5 text-neutral" />} text="Share Project" onClick={onShareClick} />}
         <MenuItem icon={<DownloadIcon className="w-5 h-5 text-neutral" />} text="Download Project" onClick={onDownload} />
         <div className="h-px bg-base-300 my-1 mx-2"></div>
         <MenuItem icon={<SettingsIcon className="w-5 h-5 text-neutral" />} text="Project Settings" onClick={onSettingsClick} />
@@ -188,6 +248,7 @@ const Header: React.FC<HeaderProps> = ({
             <h1 className="text-lg font-bold text-base-content tracking-wider hidden sm:block">ASAI</h1>
             <p className="text-sm text-neutral truncate max-w-[150px] sm:max-w-none">{project?.name || 'Editor'}</p>
         </div>
+        <PresenceList collaborators={collaborators} />
       </div>
       
       <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2">
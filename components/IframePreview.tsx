@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileNode } from '../types';
+import { buildPreview, PreviewBuild, PreviewModule, PreviewTranspileCache } from '../utils/previewEngine';
+
+interface IframePreviewProps {
+  files: FileNode[];
+  onReady: () => void;
+  onError: (errorMsg: string) => void;
+}
+
+const UPDATE_DELAY_MS = 300;
+
+// Runs the project in a sandboxed iframe with no VM. Edits are rebuilt per file and pushed into the running page;
+// the page only reloads when its shell changes (index.html, or a package that isn't in the import map yet).
+const IframePreview: React.FC<IframePreviewProps> = ({ files, onReady, onError }) => {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const cacheRef = useRef<PreviewTranspileCache>(new Map());
+  const buildRef = useRef<PreviewBuild | null>(null);
+  // What the running page currently has. Null until the runtime has reported it's ready.
+  const sentModulesRef = useRef<Record<string, PreviewModule> | null>(null);
+  const sentErrorsRef = useRef('');
+  const [shellHtml, setShellHtml] = useState<string | null>(null);
+
+  const postToRuntime = (message: object) => {
+    iframeRef.current?.contentWindow?.postMessage({ source: 'asai-preview-host', ...message }, '*');
+  };
+
+  const sendBuild = (build: PreviewBuild) => {
+    const sent = sentModulesRef.current;
+    const errors = JSON.stringify(build.errors);
+    if (!sent) {
+      postToRuntime({ type: 'load', entry: build.entry, modules: build.modules, removed: [], externals: build.externals, errors: build.errors });
+    } else {
+      // Unchanged files keep the same module object in the transpile cache, so identity is enough to diff.
+      const changed = Object.fromEntries(Object.entries(build.modules).filter(([path, module]) => sent[path] !== module));
+      const removed = Object.keys(sent).filter(path => !build.modules[path]);
+      if (Object.keys(changed).length === 0 && removed.length === 0 && errors === sentErrorsRef.current) return;
+      postToRuntime({ type: 'update', entry: build.entry, modules: changed, removed, externals: build.externals, errors: build.errors });
+    }
+    sentModulesRef.current = build.modules;
+    sentErrorsRef.current = errors;
+  };
+
+  useEffect(() => {
+    const handler = setTimeout(() => {
+      let build: PreviewBuild;
+      try {
+        build = buildPreview(files, cacheRef.current);
+      } catch (error) {
+        onError(typeof (window as any).Babel === 'undefined'
+          ? 'The Babel compiler could not be loaded, so the offline preview is unavailable.'
+          : error instanceof Error ? error.message : 'An unknown error occurred while building the preview.');
+        return;
+      }
+      buildRef.current = build;
+      if (build.shellHtml !== shellHtml) {
+        sentModulesRef.current = null;
+        setShellHtml(build.shellHtml);
+      } else if (sentModulesRef.current) {
+        sendBuild(build);
+      }
+    }, shellHtml === null ? 0 : UPDATE_DELAY_MS);
+
+    return () => clearTimeout(handler);
+  }, [files, shellHtml]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow || event.data?.source !== 'asai-preview-runtime') return;
+      if (event.data.type === 'ready' && buildRef.current) {
+        sentModulesRef.current = null;
+        sendBuild(buildRef.current);
+        onReady();
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [onReady]);
+
+  if (shellHtml === null) return null;
+
+  return (
+    <iframe
+      ref={iframeRef}
+      title="Live Preview"
+      srcDoc={shellHtml}
+      // No allow-same-origin: the app must not be able to reach the editor's storage or API keys.
+      sandbox="allow-scripts allow-forms allow-modals allow-popups"
+      className="w-full h-full border-0 bg-white"
+    />
+  );
+};
+
+export default IframePreview;
@@ -0,0 +1,164 @@
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { FileConflict } from '../types';
+import { useTheme } from '../contexts/ThemeContext';
+import { modelUri } from '../utils/monaco';
+import { mergeThreeWay, countConflicts, CONFLICT_START } from '../utils/merge';
+import { ExclamationTriangleIcon, ArrowRightIcon, SaveIcon, XMarkIcon } from './icons';
+import Spinner from './ui/Spinner';
+
+interface MergeConflictViewProps {
+    monaco: any;
+    conflict: FileConflict;
+    isSaving: boolean;
+    onResolve: (content: string) => void;
+    onCancel: () => void; // Goes back to the editor with the local edits still unsaved.
+}
+
+const SIDES = [
+    { key: 'base', label: 'Base', hint: 'The file when you started editing' },
+    { key: 'local', label: 'Yours', hint: 'Your unsaved edits' },
+    { key: 'remote', label: 'Theirs', hint: 'The file as it was saved meanwhile' },
+] as const;
+
+// The merge view's models live outside the `file` scheme, so the language service doesn't take them for project
+// files, but keep the file's path so they are parsed the same way.
+const ReadOnlyEditor: React.FC<{ monaco: any; path: string; content: string; language: string }> = ({ monaco, path, content, language }) => {
+    const hostRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!hostRef.current) return;
+        const model = monaco.editor.createModel(content, language, monaco.Uri.from({ scheme: 'merge', path }));
+        const editor = monaco.editor.create(hostRef.current, {
+            model,
+            readOnly: true,
+            automaticLayout: true,
+            fontSize: 12,
+            minimap: { enabled: false },
+            scrollBeyondLastLine: false,
+            lineNumbersMinChars: 3,
+        });
+        return () => {
+            editor.dispose();
+            model.dispose();
+        };
+    }, [monaco, path, content, language]);
+
+    return <div ref={hostRef} className="absolute inset-0" />;
+};
+
+// Shows the base, local and remote versions of a file above an editable result, which starts as their automatic
+// merge. Lines both sides changed are left as conflict blocks to resolve by hand.
+const MergeConflictView: React.FC<MergeConflictViewProps> = ({ monaco, conflict, isSaving, onResolve, onCancel }) => {
+    const { theme } = useTheme();
+    const hostRef = useRef<HTMLDivElement>(null);
+    const editorRef = useRef<any>(null);
+    const merged = useMemo(() => mergeThreeWay(conflict.base, conflict.local, conflict.remote), [conflict]);
+    const [conflictsLeft, setConflictsLeft] = useState(merged.conflicts);
+    const language = useMemo(() => monaco.editor.getModel(modelUri(monaco, conflict.path))?.getLanguageId() ?? 'plaintext', [monaco, conflict.path]);
+
+    useEffect(() => {
+        monaco.editor.setTheme(theme === 'dark' ? 'vs-dark' : 'vs');
+    }, [monaco, theme]);
+
+    useEffect(() => {
+        if (!hostRef.current) return;
+        const model = monaco.editor.createModel(merged.content, language, monaco.Uri.from({ scheme: 'merge', path: `/result/${conflict.path}` }));
+        const editor = monaco.editor.create(hostRef.current, {
+            model,
+            automaticLayout: true,
+            fontSize: 13,
+            tabSize: 2,
+            scrollBeyondLastLine: false,
+        });
+        const subscription = editor.onDidChangeModelContent(() => setConflictsLeft(countConflicts(model.getValue())));
+        editorRef.current = editor;
+        setConflictsLeft(merged.conflicts);
+        return () => {
+            subscription.dispose();
+            editor.dispose();
+            model.dispose();
+            editorRef.current = null;
+        };
+    }, [monaco, merged, language, conflict.path]);
+
+    const setResult = (content: string) => {
+        const model = editorRef.current?.getModel();
+        if (model) model.pushEditOperations([], [{ range: model.getFullModelRange(), text: content }], () => null);
+    };
+
+    const revealNextConflict = () => {
+        const editor = editorRef.current;
+        const model = editor?.getModel();
+        if (!model) return;
+        const lines: string[] = model.getLinesContent();
+        const from = editor.getPosition()?.lineNumber ?? 0;
+        const index = lines.findIndex((line, i) => i + 1 > from && line.startsWith(CONFLICT_START));
+        const wrapped = index === -1 ? lines.findIndex(line => line.startsWith(CONFLICT_START)) : index;
+        if (wrapped === -1) return;
+        editor.setPosition({ lineNumber: wrapped + 1, column: 1 });
+        editor.revealLineInCenter(wrapped + 1);
+        editor.focus();
+    };
+
+    const handleSave = () => {
+        const content = editorRef.current?.getModel()?.getValue() ?? merged.content;
+        if (conflictsLeft > 0 && !window.confirm(`${conflictsLeft} conflict(s) are still marked in the result. Save it anyway?`)) return;
+        onResolve(content);
+    };
+
+    const buttonClasses = "flex items-center gap-1 px-2 py-1 rounded-md text-xs font-semibold hover:bg-base-300 disabled:opacity-40 disabled:hover:bg-transparent";
+
+    return (
+        <div data-testid="godmode-merge-conflict-view" className="h-full flex flex-col bg-base-100 text-sm">
+            <div className="bg-base-200 border-b border-base-300 px-3 py-2 flex items-center gap-3 shrink-0">
+                <ExclamationTriangleIcon className="w-5 h-5 text-yellow-500 shrink-0" />
+                <div className="min-w-0 flex-grow">
+                    <p className="font-semibold truncate">{conflict.path} was changed while you were editing it</p>
+                    <p className="text-xs text-neutral">
+                        {conflictsLeft > 0 ? `${conflictsLeft} conflict(s) left to resolve in the result below.` : 'No conflicts left. Review the result and save it.'}
+                    </p>
+                </div>
+                <button onClick={revealNextConflict} disabled={conflictsLeft === 0} className={buttonClasses} title="Go to the next conflict">
+                    <ArrowRightIcon className="w-4 h-4" />
+                    <span>Next conflict</span>
+                </button>
+                <button onClick={() => setResult(conflict.local)} className={buttonClasses}>Use yours</button>
+                <button onClick={() => setResult(conflict.remote)} className={buttonClasses}>Use theirs</button>
+                <button
+                    data-testid="godmode-merge-save-button"
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    className="flex items-center gap-1 px-3 py-1 rounded-md text-xs font-semibold bg-primary text-white hover:opacity-90 disabled:opacity-50"
+                >
+                    {isSaving ? <Spinner size="sm" /> : <SaveIcon className="w-4 h-4" />}
+                    <span>Save merged</span>
+                </button>
+                <button onClick={onCancel} disabled={isSaving} className="p-1 rounded-md text-neutral hover:text-base-content hover:bg-base-300" title="Back to your unsaved edits">
+                    <XMarkIcon className="w-4 h-4" />
+                </button>
+            </div>
+            <div className="h-2/5 flex border-b border-base-300 shrink-0">
+                {SIDES.map(side => (
+                    <div key={side.key} className="flex-1 min-w-0 flex flex-col border-r border-base-300 last:border-r-0">
+                        <div className="px-3 py-1 text-xs bg-base-200 border-b border-base-300" title={side.hint}>
+                            <span className="font-semibold">{side.label}</span>
+                            <span className="text-neutral"> — {side.hint}</span>
+                        </div>
+                        <div className="flex-grow relative">
+                            <ReadOnlyEditor monaco={monaco} path={`/${side.key}/${conflict.path}`} content={conflict[side.key]} language={language} />
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <div className="px-3 py-1 text-xs bg-base-200 border-b border-base-300 shrink-0">
+                <span className="font-semibold">Result</span>
+                <span className="text-neutral"> — saved over the current file</span>
+            </div>
+            <div className="flex-grow relative">
+                <div ref={hostRef} className="absolute inset-0" />
+            </div>
+        </div>
+    );
+};
+
+export default MergeConflictView;
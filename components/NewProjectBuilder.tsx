@@ -2,38 +2,23 @@ import React, { useState, useEffect } from 'react';
 import { AiProvider } from '../types';
 import { RocketIcon } from './icons';
 import Spinner from './ui/Spinner';
+import { AI_PROVIDERS, getProvider } from '../services/aiProviders';
 
 interface NewProjectBuilderProps {
   onStartBuilding: (prompt: string, provider: AiProvider, model: string) => void;
   isLoading: boolean;
 }
 
-const modelOptions = {
-    openrouter: [
-        { id: 'mistralai/mistral-7b-instruct', name: 'Mistral 7B Instruct (Free)' },
-        { id: 'google/gemma-7b-it', name: 'Gemma 7B (Free)' },
-        { id: 'huggingfaceh4/zephyr-7b-beta', name: 'Zephyr 7B (Free)' },
-        { id: 'openai/gpt-3.5-turbo', name: 'OpenAI GPT-3.5 Turbo' },
-    ],
-    groq: [
-        { id: 'llama-3.1-8b-instant', name: 'LLaMA 3.1 8B (Fastest)' },
-        { id: 'llama-3.1-70b-versatile', name: 'LLaMA 3.1 70B (Powerful)' },
-        { id: 'gemma2-9b-it', name: 'Gemma 2 9B' },
-        { id: 'mixtral-8x7b-32768', name: 'Mixtral 8x7B' },
-        { id: 'llama3-70b-8192', name: 'LLaMA 3 70B' },
-        { id: 'llama3-8b-8192', name: 'LLaMA 3 8B' },
-    ]
-};
-
 const NewProjectBuilder: React.FC<NewProjectBuilderProps> = ({ onStartBuilding, isLoading }) => {
     const [prompt, setPrompt] = useState('');
     const [provider, setProvider] = useState<AiProvider>('gemini');
     const [model, setModel] = useState('');
 
+    const models = getProvider(provider).models;
+
     useEffect(() => {
-        if (provider === 'groq') setModel(modelOptions.groq[0].id);
-        else if (provider === 'openrouter') setModel(modelOptions.openrouter[0].id);
-        else setModel('');
+        const providerModels = getProvider(provider).models;
+        setModel(providerModels.length > 1 ? providerModels[0].id : '');
     }, [provider]);
 
     const handleSubmit = (e: React.FormEvent) => {
@@ -63,12 +48,10 @@ const NewProjectBuilder: React.FC<NewProjectBuilderProps> = ({ onStartBuilding,
                         className="w-full sm:w-auto h-11 bg-base-200 border border-base-300 rounded-md px-3 text-base-content text-sm focus:outline-none focus:ring-2 focus:ring-primary transition-colors hover:bg-base-300 shrink-0"
                         disabled={isLoading}
                     >
-                        <option value="gemini">Gemini</option>
-                        <option value="openrouter">OpenRouter</option>
-                        <option value="groq">Groq</option>
+                        {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
                     </select>
 
-                    {(provider === 'openrouter' || provider === 'groq') && (
+                    {models.length > 1 && (
                         <select
                             value={model}
                             data-testid="godmode-dashboard-model-select"
@@ -76,9 +59,20 @@ const NewProjectBuilder: React.FC<NewProjectBuilderProps> = ({ onStartBuilding,
                             className="w-full sm:w-auto h-11 bg-base-200 border border-base-300 rounded-md px-3 text-base-content text-sm focus:outline-none focus:ring-2 focus:ring-primary transition-colors hover:bg-base-300 shrink-0"
                             disabled={isLoading}
                         >
-                            {modelOptions[provider].map(opt => <option key={opt.id} value={opt.id}>{opt.name}</option>)}
+                            {models.map(opt => <option key={opt.id} value={opt.id}>{opt.name}</option>)}
                         </select>
                     )}
+                    {models.length === 0 && (
+                        <input
+                            type="text"
+                            value={model}
+                            data-testid="godmode-dashboard-model-input"
+                            onChange={e => setModel(e.target.value)}
+                            placeholder="Model (blank for your default)"
+                            className="w-full sm:w-auto h-11 bg-base-200 border border-base-300 rounded-md px-3 text-base-content text-sm focus:outline-none focus:ring-2 focus:ring-primary transition-colors hover:bg-base-300 shrink-0"
+                            disabled={isLoading}
+                        />
+                    )}
 
                     <button 
                         type="submit" 
@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { ProjectProblem } from '../types';
+import { ExclamationTriangleIcon, XCircleIcon, InformationCircleIcon, WrenchScrewdriverIcon } from './icons';
+import Spinner from './ui/Spinner';
+
+interface ProblemsPanelProps {
+  problems: ProjectProblem[];
+  isReady: boolean; // False until the language service has loaded.
+  isFixing: boolean;
+  onOpenProblem: (problem: ProjectProblem) => void;
+  onFixAllWithAi: () => void;
+}
+
+const getIconForSeverity = (severity: ProjectProblem['severity']) => {
+  switch (severity) {
+    case 'error':
+      return <XCircleIcon className="w-4 h-4 text-red-500 shrink-0" />;
+    case 'warning':
+      return <ExclamationTriangleIcon className="w-4 h-4 text-yellow-500 shrink-0" />;
+    default:
+      return <InformationCircleIcon className="w-4 h-4 text-blue-400 shrink-0" />;
+  }
+};
+
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ problems, isReady, isFixing, onOpenProblem, onFixAllWithAi }) => {
+  const byFile = useMemo(() => {
+    const groups = new Map<string, ProjectProblem[]>();
+    problems.forEach(problem => groups.set(problem.path, [...(groups.get(problem.path) || []), problem]));
+    return [...groups.entries()];
+  }, [problems]);
+
+  const errorCount = problems.filter(p => p.severity === 'error').length;
+  const warningCount = problems.filter(p => p.severity === 'warning').length;
+
+  return (
+    <div className="h-full bg-base-100 flex flex-col font-mono text-sm">
+      <div className="bg-base-200 text-base-content px-4 py-2 border-b border-t border-base-300 flex justify-between items-center shrink-0">
+        <div className="flex items-center gap-3">
+          <span>Problems</span>
+          <span className="flex items-center gap-1 text-xs text-neutral">{getIconForSeverity('error')}{errorCount}</span>
+          <span className="flex items-center gap-1 text-xs text-neutral">{getIconForSeverity('warning')}{warningCount}</span>
+        </div>
+        <button
+          data-testid="godmode-problems-fix-all-button"
+          onClick={onFixAllWithAi}
+          disabled={isFixing || errorCount + warningCount === 0}
+          className="flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-sans font-semibold text-yellow-400 hover:bg-yellow-500/20 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+          title="Ask the AI to propose fixes for every error and warning"
+        >
+          {isFixing ? <Spinner size="sm" /> : <WrenchScrewdriverIcon className="w-4 h-4" />}
+          <span>Fix all with AI</span>
+        </button>
+      </div>
+      <div className="flex-grow p-2 overflow-y-auto text-base-content">
+        {!isReady ? (
+          <div className="text-neutral italic h-full flex items-center justify-center">Starting the TypeScript language service...</div>
+        ) : problems.length === 0 ? (
+          <div className="text-neutral italic h-full flex items-center justify-center">No problems have been detected in the project.</div>
+        ) : (
+          byFile.map(([path, fileProblems]) => (
+            <div key={path} className="mb-1">
+              <div className="flex items-center gap-2 px-1.5 py-1 text-xs font-sans font-semibold">
+                <span className="truncate">{path}</span>
+                <span className="px-1.5 rounded-full bg-base-300 text-neutral">{fileProblems.length}</span>
+              </div>
+              {fileProblems.map((problem, i) => (
+                <button
+                  key={`${problem.line}:${problem.column}:${i}`}
+                  onClick={() => onOpenProblem(problem)}
+                  className="w-full text-left flex items-start gap-2 pl-5 pr-1.5 py-1 rounded hover:bg-base-300/50"
+                >
+                  <span className="pt-0.5">{getIconForSeverity(problem.severity)}</span>
+                  <span className="flex-grow whitespace-pre-wrap break-words">{problem.message}</span>
+                  <span className="text-neutral/60 text-xs shrink-0 pt-0.5">
+                    {problem.code && `ts(${problem.code}) `}[Ln {problem.line}, Col {problem.column}]
+                  </span>
+                </button>
+              ))}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProblemsPanel;
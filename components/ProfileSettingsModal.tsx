@@ -1,6 +1,8 @@
-import React, { useState, useRef } from 'react';
-import { User } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { User, UsageLedgerEntry } from '../types';
 import { auth, storage } from '../services/firebase';
+import { getUsageLedger } from '../services/firestoreService';
+import { formatTokens } from '../utils/formatters';
 import Spinner from './ui/Spinner';
 import { UserIcon } from './icons';
 
@@ -11,6 +13,8 @@ interface ProfileSettingsModalProps {
   onUpdateSuccess?: () => void;
 }
 
+const USAGE_HISTORY_LIMIT = 50;
+
 const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOpen, onClose, user, onUpdateSuccess }) => {
   const [displayName, setDisplayName] = useState(user.displayName || '');
   const [photoFile, setPhotoFile] = useState<File | null>(null);
@@ -18,6 +22,18 @@ const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOpen, onC
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [usageHistory, setUsageHistory] = useState<UsageLedgerEntry[] | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setUsageHistory(null);
+    getUsageLedger(user.uid, USAGE_HISTORY_LIMIT)
+      .then(setUsageHistory)
+      .catch(err => {
+        console.error("Failed to load usage history:", err);
+        setUsageHistory([]);
+      });
+  }, [isOpen, user.uid]);
 
   if (!isOpen) return null;
 
@@ -71,7 +87,7 @@ const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOpen, onC
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 transition-opacity duration-300">
-      <div className="bg-base-200 rounded-lg shadow-2xl p-8 w-full max-w-md m-4 border border-base-300">
+      <div className="bg-base-200 rounded-lg shadow-2xl p-8 w-full max-w-lg m-4 max-h-[90vh] overflow-y-auto border border-base-300">
         <h2 className="text-2xl font-bold mb-6 text-base-content">Profile Settings</h2>
         
         {error && <p className="bg-red-500/20 text-red-400 text-sm p-3 rounded-md mb-4 border border-red-500/30">{error}</p>}
@@ -108,6 +124,46 @@ const ProfileSettingsModal: React.FC<ProfileSettingsModalProps> = ({ isOpen, onC
           />
         </div>
 
+        <div data-testid="godmode-profile-usage-history">
+          <div className="flex justify-between items-baseline mb-2">
+            <h3 className="text-sm font-medium text-neutral">Usage History</h3>
+            {user.tokenBalance !== undefined && <span className="text-xs text-neutral">Balance: {formatTokens(user.tokenBalance)}</span>}
+          </div>
+          {usageHistory === null ? (
+            <div className="flex justify-center py-4"><Spinner size="sm" /></div>
+          ) : usageHistory.length === 0 ? (
+            <p className="text-xs text-neutral py-2">No AI usage yet.</p>
+          ) : (
+            <div className="max-h-60 overflow-y-auto border border-base-300 rounded-md">
+              <table className="w-full text-xs">
+                <thead className="bg-base-300 text-neutral sticky top-0">
+                  <tr>
+                    <th className="p-2 text-left font-medium">When</th>
+                    <th className="p-2 text-left font-medium">Call</th>
+                    <th className="p-2 text-right font-medium">In / Out</th>
+                    <th className="p-2 text-right font-medium">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usageHistory.map(entry => (
+                    <tr key={entry.id} className="border-t border-base-300">
+                      <td className="p-2 whitespace-nowrap text-neutral">{entry.createdAt?.toDate().toLocaleString()}</td>
+                      <td className="p-2">
+                        <p className="font-semibold text-base-content">{entry.functionName}</p>
+                        <p className="text-neutral truncate max-w-[10rem]" title={`${entry.provider} · ${entry.model}`}>{entry.provider} · {entry.model}</p>
+                      </td>
+                      <td className="p-2 text-right whitespace-nowrap" title={entry.isEstimated ? 'The provider did not report usage, so these counts are estimated.' : undefined}>
+                        {formatTokens(entry.inputTokens)} / {formatTokens(entry.outputTokens)}{entry.isEstimated && ' (est.)'}
+                      </td>
+                      <td className="p-2 text-right whitespace-nowrap font-semibold">{formatTokens(entry.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
         <div className="flex justify-between items-center mt-8">
             <button
                 onClick={handleSignOut}
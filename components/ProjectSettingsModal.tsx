@@ -1,52 +1,45 @@
 import React, { useState, useEffect } from 'react';
-import { Project, AiProvider, ChatMessageSenderInfo, User } from '../types';
+import { Project, AiProvider, AiModelChoice, ChatMessageSenderInfo, User, SnapshotRetentionPolicy, ProjectRole } from '../types';
+import { DEFAULT_SNAPSHOT_RETENTION } from '../services/firestoreService';
+import { AI_PROVIDERS, getProvider } from '../services/aiProviders';
 import CollaborationSettingsModal from './CollaborationSettingsModal';
 import { useAuth } from '../hooks/useAuth';
 import Spinner from './ui/Spinner';
+import AccessGrantFields, { DEFAULT_EXPIRY_DAYS } from './ui/AccessGrantFields';
+import FallbackChainFields from './ui/FallbackChainFields';
+import { GRANTABLE_ROLES, ROLE_LABELS, getProjectRole } from '../utils/permissions';
 import { UserIcon, TrashIcon, CopyIcon, CheckIcon } from './icons';
 
 interface ProjectSettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (name: string, prompt: string, model?: string, sandboxType?: 'iframe' | 'stackblitz', provider?: AiProvider) => void;
+  onSave: (name: string, prompt: string, model?: string, sandboxType?: 'iframe' | 'stackblitz', provider?: AiProvider, snapshotRetention?: SnapshotRetentionPolicy, fallbackChain?: AiModelChoice[]) => void;
   project: Project;
   isSaving?: boolean;
   members: ChatMessageSenderInfo[];
   onRemoveMember: (memberUid: string) => Promise<void>;
-  onCreateInvite: (email: string) => Promise<string>;
+  onChangeMemberRole: (memberUid: string, role: ProjectRole) => Promise<void>;
+  onCreateInvite: (email: string, role: ProjectRole, expiresInDays: number | null) => Promise<string>;
   onUpdateSuccess?: () => void;
 }
 
-const modelOptions = {
-    openrouter: [
-        { id: 'mistralai/mistral-7b-instruct', name: 'Mistral 7B Instruct (Free)' },
-        { id: 'google/gemma-7b-it', name: 'Gemma 7B (Free)' },
-        { id: 'huggingfaceh4/zephyr-7b-beta', name: 'Zephyr 7B (Free)' },
-        { id: 'openai/gpt-3.5-turbo', name: 'OpenAI GPT-3.5 Turbo' },
-    ],
-    groq: [
-        { id: 'llama-3.1-8b-instant', name: 'LLaMA 3.1 8B (Fastest)' },
-        { id: 'llama-3.1-70b-versatile', name: 'LLaMA 3.1 70B (Powerful)' },
-        { id: 'gemma2-9b-it', name: 'Gemma 2 9B' },
-        { id: 'mixtral-8x7b-32768', name: 'Mixtral 8x7B' },
-        { id: 'llama3-70b-8192', name: 'LLaMA 3 70B' },
-        { id: 'llama3-8b-8192', name: 'LLaMA 3 8B' },
-    ]
-};
-
-const ProjectSettingsModal: React.FC<ProjectSettingsModalProps> = ({ isOpen, onClose, onSave, project, isSaving, members, onRemoveMember, onCreateInvite, onUpdateSuccess }) => {
+const ProjectSettingsModal: React.FC<ProjectSettingsModalProps> = ({ isOpen, onClose, onSave, project, isSaving, members, onRemoveMember, onChangeMemberRole, onCreateInvite, onUpdateSuccess }) => {
   const { user } = useAuth();
   const [name, setName] = useState(project.name);
   const [prompt, setPrompt] = useState(project.prompt || '');
   const [provider, setProvider] = useState(project.provider);
   const [model, setModel] = useState(project.model || '');
+  const [fallbackChain, setFallbackChain] = useState<AiModelChoice[]>(project.fallbackChain || []);
   const [sandboxType, setSandboxType] = useState(project.sandboxType || 'stackblitz');
+  const [snapshotRetention, setSnapshotRetention] = useState<SnapshotRetentionPolicy>(project.snapshotRetention || DEFAULT_SNAPSHOT_RETENTION);
   const [isCollabModalOpen, setIsCollabModalOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<'general' | 'members'>('general');
 
   const [inviteEmail, setInviteEmail] = useState('');
   const [inviteCode, setInviteCode] = useState<string | null>(null);
   const [isInviting, setIsInviting] = useState(false);
+  const [inviteRole, setInviteRole] = useState<ProjectRole>('editor');
+  const [inviteExpiry, setInviteExpiry] = useState<number | null>(DEFAULT_EXPIRY_DAYS);
   const [copied, setCopied] = useState(false);
   
   const isOwner = user?.uid === project.ownerId;
@@ -55,27 +48,37 @@ const ProjectSettingsModal: React.FC<ProjectSettingsModalProps> = ({ isOpen, onC
     setName(project.name);
     setPrompt(project.prompt || '');
     setProvider(project.provider);
-    setModel(project.model || (project.provider === 'groq' ? modelOptions.groq[0].id : project.provider === 'openrouter' ? modelOptions.openrouter[0].id : ''));
+    const projectModels = getProvider(project.provider).models;
+    setModel(project.model || (projectModels.length > 1 ? projectModels[0].id : ''));
     setSandboxType(project.sandboxType || 'stackblitz');
+    setFallbackChain(project.fallbackChain || []);
+    setSnapshotRetention(project.snapshotRetention || DEFAULT_SNAPSHOT_RETENTION);
     setActiveTab('general');
     setInviteCode(null);
     setInviteEmail('');
   }, [project, isOpen]);
   
+  const models = getProvider(provider).models;
+
   useEffect(() => {
-    if (provider === 'gemini') {
+    const providerModels = getProvider(provider).models;
+    if (providerModels.length === 1) {
         setModel('');
-    } else if (provider === 'groq' && !modelOptions.groq.some(m => m.id === model)) {
-        setModel(modelOptions.groq[0].id);
-    } else if (provider === 'openrouter' && !modelOptions.openrouter.some(m => m.id === model)) {
-        setModel(modelOptions.openrouter[0].id);
+    } else if (providerModels.length > 1 && !providerModels.some(m => m.id === model)) {
+        setModel(providerModels[0].id);
     }
   }, [provider, model]);
 
+  const handleProviderChange = (newProvider: AiProvider) => {
+    setProvider(newProvider);
+    // A free-text model from another provider's catalogue would never be valid for a custom endpoint.
+    if (getProvider(newProvider).models.length === 0) setModel('');
+  };
+
   if (!isOpen) return null;
 
   const handleSave = () => {
-    onSave(name, prompt, model, sandboxType, provider);
+    onSave(name, prompt, model, sandboxType, provider, isOwner ? snapshotRetention : undefined, fallbackChain);
   };
   
   const handleGenerateInvite = async () => {
@@ -83,7 +86,7 @@ const ProjectSettingsModal: React.FC<ProjectSettingsModalProps> = ({ isOpen, onC
     setIsInviting(true);
     setInviteCode(null);
     try {
-        const code = await onCreateInvite(inviteEmail);
+        const code = await onCreateInvite(inviteEmail, inviteRole, inviteExpiry);
         setInviteCode(code);
     } catch (error) {
         alert(error instanceof Error ? error.message : "Failed to create invite");
@@ -161,15 +164,13 @@ const ProjectSettingsModal: React.FC<ProjectSettingsModalProps> = ({ isOpen, onC
                                 id="provider"
                                 data-testid="godmode-provider-select"
                                 value={provider}
-                                onChange={e => setProvider(e.target.value as AiProvider)}
+                                onChange={e => handleProviderChange(e.target.value as AiProvider)}
                                 className="w-full h-[42px] bg-base-100 border border-base-300 rounded-md px-3 text-base-content text-sm focus:outline-none focus:ring-2 focus:ring-primary"
                             >
-                                <option value="gemini">Gemini</option>
-                                <option value="openrouter">OpenRouter</option>
-                                <option value="groq">Groq</option>
+                                {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
                             </select>
                         </div>
-                        {(provider === 'openrouter' || provider === 'groq') && (
+                        {models.length > 1 && (
                             <div>
                                 <label htmlFor="model" className="block text-sm font-medium text-neutral mb-2">
                                     AI Model
@@ -181,10 +182,31 @@ const ProjectSettingsModal: React.FC<ProjectSettingsModalProps> = ({ isOpen, onC
                                     onChange={e => setModel(e.target.value)}
                                     className="w-full h-[42px] bg-base-100 border border-base-300 rounded-md px-3 text-base-content text-sm focus:outline-none focus:ring-2 focus:ring-primary"
                                 >
-                                    {modelOptions[provider].map(opt => <option key={opt.id} value={opt.id}>{opt.name}</option>)}
+                                    {models.map(opt => <option key={opt.id} value={opt.id}>{opt.name}</option>)}
                                 </select>
                             </div>
                         )}
+                        {models.length === 0 && (
+                            <div>
+                                <label htmlFor="model" className="block text-sm font-medium text-neutral mb-2">
+                                    AI Model
+                                </label>
+                                <input
+                                    id="model"
+                                    type="text"
+                                    data-testid="godmode-model-input"
+                                    value={model}
+                                    onChange={e => setModel(e.target.value)}
+                                    placeholder="Blank uses your default model"
+                                    className="w-full h-[42px] bg-base-100 border border-base-300 rounded-md px-3 text-base-content text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                                />
+                            </div>
+                        )}
+                    </div>
+                    <div className="mb-6">
+                        <h3 className="text-sm font-semibold text-base-content mb-1">Fallback Providers</h3>
+                        <p className="text-xs text-neutral/80 mb-3">When the provider above keeps failing, these are tried in order. Auth and quota errors move on at once; other errors are retried a few times first. Each reply shows which model answered.</p>
+                        <FallbackChainFields chain={fallbackChain} onChange={setFallbackChain} />
                     </div>
                     <div className="mb-6">
                       <label htmlFor="projectPrompt" className="block text-sm font-medium text-neutral mb-2">
@@ -201,6 +223,38 @@ const ProjectSettingsModal: React.FC<ProjectSettingsModalProps> = ({ isOpen, onC
                         />
                       <p className="text-xs text-neutral/80 mt-2">This is the original prompt used to generate the project. Modifying it can help the AI understand future requests better.</p>
                     </div>
+                    {isOwner && (
+                        <div className="mb-6">
+                            <h3 className="text-sm font-semibold text-base-content mb-1">Automatic Snapshots</h3>
+                            <p className="text-xs text-neutral/80 mb-3">A snapshot is taken before every AI change. Older automatic snapshots are cleaned up using these limits (0 means no limit). Manual snapshots are always kept.</p>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="snapshotMaxCount" className="block text-sm font-medium text-neutral mb-2">Keep Last</label>
+                                    <input
+                                        type="number"
+                                        id="snapshotMaxCount"
+                                        data-testid="godmode-snapshot-max-count-input"
+                                        min={0}
+                                        value={snapshotRetention.maxCount}
+                                        onChange={(e) => setSnapshotRetention(prev => ({ ...prev, maxCount: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                                        className="w-full bg-base-100 border border-base-300 rounded-md py-2 px-3 text-base-content focus:outline-none focus:ring-2 focus:ring-primary"
+                                    />
+                                </div>
+                                <div>
+                                    <label htmlFor="snapshotMaxAge" className="block text-sm font-medium text-neutral mb-2">Max Age (days)</label>
+                                    <input
+                                        type="number"
+                                        id="snapshotMaxAge"
+                                        data-testid="godmode-snapshot-max-age-input"
+                                        min={0}
+                                        value={snapshotRetention.maxAgeDays}
+                                        onChange={(e) => setSnapshotRetention(prev => ({ ...prev, maxAgeDays: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                                        className="w-full bg-base-100 border border-base-300 rounded-md py-2 px-3 text-base-content focus:outline-none focus:ring-2 focus:ring-primary"
+                                    />
+                                </div>
+                            </div>
+                        </div>
+                    )}
                 </div>
             )}
             {activeTab === 'members' && isOwner && (
@@ -226,10 +280,21 @@ const ProjectSettingsModal: React.FC<ProjectSettingsModalProps> = ({ isOpen, onC
                                         </div>
                                         <span className="text-sm font-medium">{member.displayName} {member.uid === project.ownerId && '(Owner)'}</span>
                                     </div>
-                                    {isOwner && user.uid !== member.uid && (
-                                        <button onClick={() => onRemoveMember(member.uid)} className="p-1.5 hover:bg-red-500/10 rounded-full" title="Remove member">
-                                            <TrashIcon className="w-4 h-4 text-red-400"/>
-                                        </button>
+                                    {isOwner && user.uid !== member.uid && member.uid !== project.ownerId && (
+                                        <div className="flex items-center gap-1">
+                                            <select
+                                                data-testid="godmode-member-role-select"
+                                                value={getProjectRole(project, member.uid) || 'editor'}
+                                                onChange={(e) => onChangeMemberRole(member.uid, e.target.value as ProjectRole)}
+                                                className="bg-base-100 border border-base-300 rounded-md py-1 px-2 text-xs"
+                                                aria-label={`Role of ${member.displayName || 'member'}`}
+                                            >
+                                                {GRANTABLE_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                                            </select>
+                                            <button onClick={() => onRemoveMember(member.uid)} className="p-1.5 hover:bg-red-500/10 rounded-full" title="Remove member">
+                                                <TrashIcon className="w-4 h-4 text-red-400"/>
+                                            </button>
+                                        </div>
                                     )}
                                 </div>
                             ))}
@@ -249,6 +314,8 @@ const ProjectSettingsModal: React.FC<ProjectSettingsModalProps> = ({ isOpen, onC
                                  <button onClick={() => setInviteCode(null)} className="text-xs text-primary hover:underline mt-2">Generate another invite</button>
                              </div>
                          ) : (
+                             <div className="space-y-2">
+                             <AccessGrantFields role={inviteRole} onRoleChange={setInviteRole} expiresInDays={inviteExpiry} onExpiryChange={setInviteExpiry} disabled={isInviting} testIdPrefix="godmode-settings-invite" />
                              <div className="flex flex-col sm:flex-row items-center gap-2">
                                 <input
                                    type="email"
@@ -262,6 +329,7 @@ const ProjectSettingsModal: React.FC<ProjectSettingsModalProps> = ({ isOpen, onC
                                    {isInviting ? <Spinner size="sm" /> : 'Generate Invite Code'}
                                 </button>
                              </div>
+                             </div>
                          )}
                     </div>
                 </div>
@@ -3,6 +3,7 @@ import { AiProvider } from '../types';
 import { UploadIcon, FileIcon, FolderIcon } from './icons';
 import Spinner from './ui/Spinner';
 import { useAlert } from '../contexts/AlertContext';
+import { AI_PROVIDERS, getProvider } from '../services/aiProviders';
 
 declare const JSZip: any;
 
@@ -11,23 +12,6 @@ interface ProjectUploadBuilderProps {
   isLoading: boolean;
 }
 
-const modelOptions = {
-    openrouter: [
-        { id: 'mistralai/mistral-7b-instruct', name: 'Mistral 7B Instruct (Free)' },
-        { id: 'google/gemma-7b-it', name: 'Gemma 7B (Free)' },
-        { id: 'huggingfaceh4/zephyr-7b-beta', name: 'Zephyr 7B (Free)' },
-        { id: 'openai/gpt-3.5-turbo', name: 'OpenAI GPT-3.5 Turbo' },
-    ],
-    groq: [
-        { id: 'llama-3.1-8b-instant', name: 'LLaMA 3.1 8B (Fastest)' },
-        { id: 'llama-3.1-70b-versatile', name: 'LLaMA 3.1 70B (Powerful)' },
-        { id: 'gemma2-9b-it', name: 'Gemma 2 9B' },
-        { id: 'mixtral-8x7b-32768', name: 'Mixtral 8x7B' },
-        { id: 'llama3-70b-8192', name: 'LLaMA 3 70B' },
-        { id: 'llama3-8b-8192', name: 'LLaMA 3 8B' },
-    ]
-};
-
 const ProjectUploadBuilder: React.FC<ProjectUploadBuilderProps> = ({ onStartBuilding, isLoading }) => {
     const [projectName, setProjectName] = useState('');
     const [files, setFiles] = useState<Record<string, string | null>>({});
@@ -40,10 +24,11 @@ const ProjectUploadBuilder: React.FC<ProjectUploadBuilderProps> = ({ onStartBuil
     const folderInputRef = useRef<HTMLInputElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    const models = getProvider(provider).models;
+
     useEffect(() => {
-        if (provider === 'groq') setModel(modelOptions.groq[0].id);
-        else if (provider === 'openrouter') setModel(modelOptions.openrouter[0].id);
-        else setModel('');
+        const providerModels = getProvider(provider).models;
+        setModel(providerModels.length > 1 ? providerModels[0].id : '');
     }, [provider]);
 
     const processFileList = useCallback(async (fileList: FileList) => {
@@ -189,16 +174,17 @@ const ProjectUploadBuilder: React.FC<ProjectUploadBuilderProps> = ({ onStartBuil
                 
                 <div className="flex flex-col sm:flex-row items-start gap-4">
                     <select value={provider} onChange={e => setProvider(e.target.value as AiProvider)} className="w-full sm:w-auto h-11 bg-base-200 border border-base-300 rounded-md px-3 text-base-content text-sm" disabled={isLoading}>
-                        <option value="gemini">Gemini (for AI features)</option>
-                        <option value="openrouter">OpenRouter</option>
-                        <option value="groq">Groq</option>
+                        {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.id === 'gemini' ? `${p.name} (for AI features)` : p.name}</option>)}
                     </select>
 
-                    {(provider === 'openrouter' || provider === 'groq') && (
+                    {models.length > 1 && (
                         <select value={model} onChange={e => setModel(e.target.value)} className="w-full sm:w-auto h-11 bg-base-200 border border-base-300 rounded-md px-3 text-base-content text-sm" disabled={isLoading}>
-                            {modelOptions[provider].map(opt => <option key={opt.id} value={opt.id}>{opt.name}</option>)}
+                            {models.map(opt => <option key={opt.id} value={opt.id}>{opt.name}</option>)}
                         </select>
                     )}
+                    {models.length === 0 && (
+                        <input type="text" value={model} onChange={e => setModel(e.target.value)} placeholder="Model (blank for your default)" className="w-full sm:w-auto h-11 bg-base-200 border border-base-300 rounded-md px-3 text-base-content text-sm" disabled={isLoading} />
+                    )}
 
                     <button type="submit" disabled={isLoading || isProcessing || !projectName.trim() || !hasFiles} className="w-full sm:w-auto px-6 py-2 h-11 bg-primary hover:bg-primary/90 text-white font-semibold rounded-md transition-all flex items-center justify-center gap-2 shrink-0 disabled:bg-primary/50 disabled:cursor-not-allowed sm:ml-auto btn-shine">
                         {isLoading ? <Spinner size="sm"/> : <>Create Project</>}
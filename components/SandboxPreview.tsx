@@ -1,15 +1,19 @@
 import React, { useEffect, useRef, useState, memo } from 'react';
 import sdk from '@stackblitz/sdk';
-import { FileNode } from '../types';
+import { FileNode, ConsoleMessage } from '../types';
 import Spinner from './ui/Spinner';
+import IframePreview from './IframePreview';
 import { RefreshIcon, XCircleIcon } from './icons';
+import { debuggerScriptContent, consoleBridgeScriptContent, scrollKeeperScriptContent } from '../utils/previewScripts';
 
 interface SandboxPreviewProps {
   files: FileNode[];
   projectType: string;
+  sandboxType?: 'iframe' | 'stackblitz';
   isFullScreen?: boolean;
   onCloseFullScreen?: () => void;
   isMobile?: boolean;
+  onConsoleMessage?: (message: ConsoleMessage) => void;
 }
 
 // Default files for a Vite + React + TS + Tailwind project
@@ -52,100 +56,18 @@ const indexCssContent = `
 @tailwind utilities;
 `;
 
-const debuggerScriptContent = `
-<script>
-  (() => {
-    console.log('ASAI Visual Debugger Initialized.');
-    let highlightEl = null;
-    let styleSheet = null;
-
-    const actionStyles = {
-      CLICK_ELEMENT: {
-          borderColor: 'rgba(59, 130, 246, 0.9)', // blue-500
-          label: 'Clicking'
-      },
-      TYPE_IN_INPUT: {
-          borderColor: 'rgba(16, 185, 129, 0.9)', // emerald-500
-          label: 'Typing'
-      },
-    };
-
-    const injectStylesheet = (actionType) => {
-        if (styleSheet) styleSheet.remove();
-        const style = actionStyles[actionType] || actionStyles.CLICK_ELEMENT;
-        styleSheet = document.createElement("style");
-        styleSheet.type = "text/css";
-        styleSheet.innerText = \`
-            @keyframes asai-pulse {
-                0% { box-shadow: 0 0 0 0 \${style.borderColor}; }
-                70% { box-shadow: 0 0 0 10px rgba(129, 140, 248, 0); }
-                100% { box-shadow: 0 0 0 0 rgba(129, 140, 248, 0); }
-            }
-        \`;
-        document.head.appendChild(styleSheet);
-    }
-
-    const clearHighlight = () => {
-        if (highlightEl) {
-            highlightEl.remove();
-            highlightEl = null;
-        }
-    };
-
-    const showHighlight = ({ selector, actionType }) => {
-        clearHighlight();
-        const targetEl = document.querySelector(\`[data-testid="\${selector}"]\`);
-        if (!targetEl) {
-            console.warn(\`ASAI Debugger: Could not find element with selector [\${selector}]\`);
-            return;
-        }
+const CONSOLE_METHODS: ConsoleMessage['method'][] = ['log', 'info', 'warn', 'error'];
 
-        injectStylesheet(actionType);
-        const rect = targetEl.getBoundingClientRect();
-        const style = actionStyles[actionType] || actionStyles.CLICK_ELEMENT;
-
-        highlightEl = document.createElement('div');
-        highlightEl.style.position = 'fixed';
-        highlightEl.style.top = \`\${rect.top}px\`;
-        highlightEl.style.left = \`\${rect.left}px\`;
-        highlightEl.style.width = \`\${rect.width}px\`;
-        highlightEl.style.height = \`\${rect.height}px\`;
-        highlightEl.style.border = \`3px solid \${style.borderColor}\`;
-        highlightEl.style.borderRadius = '4px';
-        highlightEl.style.backgroundColor = 'rgba(129, 140, 248, 0.2)';
-        highlightEl.style.zIndex = '99999';
-        highlightEl.style.pointerEvents = 'none';
-        highlightEl.style.transition = 'all 0.2s ease-out';
-        highlightEl.style.animation = 'asai-pulse 1.5s infinite';
-        
-        const labelEl = document.createElement('div');
-        labelEl.innerText = style.label;
-        labelEl.style.position = 'absolute';
-        labelEl.style.top = '-24px';
-        labelEl.style.left = '0';
-        labelEl.style.backgroundColor = style.borderColor;
-        labelEl.style.color = 'white';
-        labelEl.style.padding = '2px 6px';
-        labelEl.style.borderRadius = '4px';
-        labelEl.style.fontSize = '12px';
-        labelEl.style.fontWeight = 'bold';
-        
-        highlightEl.appendChild(labelEl);
-        document.body.appendChild(highlightEl);
-    };
-    
-    window.addEventListener('message', (event) => {
-        if (event.data?.source === 'asai-god-mode-debugger') {
-            if (event.data.type === 'HIGHLIGHT') {
-                showHighlight(event.data.payload);
-            } else if (event.data.type === 'CLEAR') {
-                clearHighlight();
-            }
-        }
-    });
-  })();
-</script>
-`;
+// The app may be nested several frames deep, so walk up from the sender until we reach the preview's iframe.
+const isFromFrame = (source: MessageEventSource | null, frame: Window): boolean => {
+    let current = source as Window | null;
+    for (let depth = 0; current && depth < 5; depth++) {
+        if (current === frame) return true;
+        if (current === current.parent) return false;
+        current = current.parent;
+    }
+    return false;
+};
 
 const transformFilesForSdk = (fileNodes: FileNode[]): Record<string, string> => {
     const sdkFiles: Record<string, string> = {};
@@ -157,14 +79,98 @@ const transformFilesForSdk = (fileNodes: FileNode[]): Record<string, string> =>
     return sdkFiles;
 };
 
+const ENTRY_CANDIDATES = ['src/index.tsx', 'src/main.tsx', 'src/index.jsx', 'src/main.jsx'];
+const UPDATE_DELAY_MS = 500;
+const RESTORE_PATH_ATTEMPTS = 30;
+
+// Adds everything the StackBlitz Vite template needs around the project's own files. The result is deterministic,
+// so two calls can be diffed to find exactly which files the running VM needs to receive.
+const prepareProjectFiles = (files: FileNode[]) => {
+    const projectFiles = transformFilesForSdk(files);
+
+    if (!projectFiles['index.html']) {
+        const entryPoint = ENTRY_CANDIDATES.find(p => projectFiles[p]);
+        projectFiles['index.html'] = `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8" /><meta name="viewport" content="width=device-width, initial-scale=1.0" /><title>ASAI Live Preview</title></head><body><div id="root"></div>${entryPoint ? `<script type="module" src="/${entryPoint}"></script>` : `<div>Error: Main entry file (e.g., src/index.tsx) not found.</div>`}</body></html>`;
+    }
+
+    // The console bridge goes first in <head> so it sees errors thrown while the app boots.
+    const headScripts = `${consoleBridgeScriptContent}${scrollKeeperScriptContent}`;
+    if (/<head[^>]*>/i.test(projectFiles['index.html'])) {
+        projectFiles['index.html'] = projectFiles['index.html'].replace(/<head[^>]*>/i, match => `${match}${headScripts}`);
+    } else {
+        projectFiles['index.html'] = headScripts + projectFiles['index.html'];
+    }
+    if (projectFiles['index.html'].includes('</body>')) {
+        projectFiles['index.html'] = projectFiles['index.html'].replace('</body>', `${debuggerScriptContent}</body>`);
+    } else {
+        projectFiles['index.html'] += debuggerScriptContent;
+    }
+
+    if (!projectFiles['vite.config.ts']) projectFiles['vite.config.ts'] = viteConfigContent;
+    if (!projectFiles['tailwind.config.js']) projectFiles['tailwind.config.js'] = tailwindConfigContent;
+    if (!projectFiles['postcss.config.js']) projectFiles['postcss.config.js'] = postcssConfigContent;
+
+    const cssEntryPoint = 'src/index.css';
+    if (!projectFiles[cssEntryPoint]) {
+         projectFiles[cssEntryPoint] = indexCssContent;
+    }
+
+    const mainJsEntryPoint = ENTRY_CANDIDATES.find(p => projectFiles[p]);
+    if (mainJsEntryPoint && projectFiles[mainJsEntryPoint] && !projectFiles[mainJsEntryPoint].includes('index.css')) {
+        projectFiles[mainJsEntryPoint] = `import './index.css';\n${projectFiles[mainJsEntryPoint]}`;
+    }
+
+    let packageJson;
+    try {
+        packageJson = projectFiles['package.json'] ? JSON.parse(projectFiles['package.json']) : {};
+    } catch (e) {
+        console.warn("Invalid package.json, creating a new one.");
+        packageJson = {};
+    }
+
+    packageJson.dependencies = packageJson.dependencies || {};
+    packageJson.devDependencies = packageJson.devDependencies || {};
+
+    const requiredDependencies = {"react": "^18.2.0", "react-dom": "^18.2.0"};
+    const requiredDevDependencies = {"@types/react": "^18.2.0", "@types/react-dom": "^18.2.0", "@vitejs/plugin-react": "^4.2.0", "autoprefixer": "^10.4.10", "postcss": "^8.4.30", "tailwindcss": "^3.4.0", "typescript": "^5.2.0", "vite": "^5.0.0"};
+
+    packageJson.dependencies = { ...requiredDependencies, ...packageJson.dependencies };
+    packageJson.devDependencies = { ...requiredDevDependencies, ...packageJson.devDependencies };
+
+    projectFiles['package.json'] = JSON.stringify({ name: 'asai-sandbox-project', private: true, version: '0.0.0', type: 'module', scripts: { "dev": "vite", "build": "vite build", "preview": "vite preview" }, ...packageJson }, null, 2);
+
+    return { projectFiles, dependencies: packageJson.dependencies as Record<string, string>, openFile: mainJsEntryPoint || 'src/index.tsx' };
+};
+
+// Installed packages only change on a cold boot, so this is what decides between a file diff and a reboot.
+// Returns null while package.json doesn't parse, so a half-typed edit doesn't reboot the VM.
+const dependencySignature = (files: FileNode[]): string | null => {
+    const content = files.find(f => f.path === 'package.json')?.content;
+    if (!content) return '';
+    try {
+        const pkg = JSON.parse(content);
+        return JSON.stringify([pkg.dependencies || {}, pkg.devDependencies || {}]);
+    } catch {
+        return null;
+    }
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 const VmEmbed: React.FC<{
   files: FileNode[];
   projectType: string;
+  initialPath?: string;
   onVmReady: () => void;
   onError: (errorMsg: string) => void;
-}> = memo(({ files, projectType, onVmReady, onError }) => {
+  onRebootRequired: (currentPath?: string) => void;
+}> = memo(({ files, projectType, initialPath, onVmReady, onError, onRebootRequired }) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const vmRef = useRef<any>(null);
+    // The files the VM has right now, as prepared for the SDK.
+    const sentFilesRef = useRef<Record<string, string>>({});
+    const bootSignatureRef = useRef<string | null>(null);
+    const [isBooted, setIsBooted] = useState(false);
 
     useEffect(() => {
         let isMounted = true;
@@ -172,53 +178,9 @@ const VmEmbed: React.FC<{
             if (!containerRef.current) return;
             
             try {
-                const projectFiles = transformFilesForSdk(files);
-
-                if (!projectFiles['index.html']) {
-                    const entryPoint = ['src/index.tsx', 'src/main.tsx', 'src/index.jsx', 'src/main.jsx'].find(p => projectFiles[p]);
-                    projectFiles['index.html'] = `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8" /><meta name="viewport" content="width=device-width, initial-scale=1.0" /><title>ASAI Live Preview</title></head><body><div id="root"></div>${entryPoint ? `<script type="module" src="/${entryPoint}"></script>` : `<div>Error: Main entry file (e.g., src/index.tsx) not found.</div>`}</body></html>`;
-                }
-
-                if (projectFiles['index.html']) {
-                    if (projectFiles['index.html'].includes('</body>')) {
-                        projectFiles['index.html'] = projectFiles['index.html'].replace('</body>', `${debuggerScriptContent}</body>`);
-                    } else {
-                        projectFiles['index.html'] += debuggerScriptContent;
-                    }
-                }
-                
-                if (!projectFiles['vite.config.ts']) projectFiles['vite.config.ts'] = viteConfigContent;
-                if (!projectFiles['tailwind.config.js']) projectFiles['tailwind.config.js'] = tailwindConfigContent;
-                if (!projectFiles['postcss.config.js']) projectFiles['postcss.config.js'] = postcssConfigContent;
-                
-                const cssEntryPoint = 'src/index.css';
-                if (!projectFiles[cssEntryPoint]) {
-                     projectFiles[cssEntryPoint] = indexCssContent;
-                }
-
-                const mainJsEntryPoint = ['src/index.tsx', 'src/main.tsx', 'src/index.jsx', 'src/main.jsx'].find(p => projectFiles[p]);
-                if (mainJsEntryPoint && projectFiles[mainJsEntryPoint] && !projectFiles[mainJsEntryPoint].includes('index.css')) {
-                    projectFiles[mainJsEntryPoint] = `import './index.css';\n${projectFiles[mainJsEntryPoint]}`;
-                }
-
-                let packageJson;
-                try {
-                    packageJson = projectFiles['package.json'] ? JSON.parse(projectFiles['package.json']) : {};
-                } catch (e) {
-                    console.warn("Invalid package.json, creating a new one.");
-                    packageJson = {};
-                }
-
-                packageJson.dependencies = packageJson.dependencies || {};
-                packageJson.devDependencies = packageJson.devDependencies || {};
-                
-                const requiredDependencies = {"react": "^18.2.0", "react-dom": "^18.2.0"};
-                const requiredDevDependencies = {"@types/react": "^18.2.0", "@types/react-dom": "^18.2.0", "@vitejs/plugin-react": "^4.2.0", "autoprefixer": "^10.4.10", "postcss": "^8.4.30", "tailwindcss": "^3.4.0", "typescript": "^5.2.0", "vite": "^5.0.0"};
-
-                packageJson.dependencies = { ...requiredDependencies, ...packageJson.dependencies };
-                packageJson.devDependencies = { ...requiredDevDependencies, ...packageJson.devDependencies };
-                
-                projectFiles['package.json'] = JSON.stringify({ name: 'asai-sandbox-project', private: true, version: '0.0.0', type: 'module', scripts: { "dev": "vite", "build": "vite build", "preview": "vite preview" }, ...packageJson }, null, 2);
+                const { projectFiles, dependencies, openFile } = prepareProjectFiles(files);
+                sentFilesRef.current = projectFiles;
+                bootSignatureRef.current = dependencySignature(files);
                 
                 if (!isMounted) return;
 
@@ -229,10 +191,10 @@ const VmEmbed: React.FC<{
                         description: 'A live preview of the generated application.',
                         template: 'node',
                         files: projectFiles,
-                        dependencies: packageJson.dependencies,
+                        dependencies,
                     },
                     {
-                        openFile: mainJsEntryPoint || 'src/index.tsx',
+                        openFile,
                         view: 'preview',
                         hideExplorer: true,
                         showSidebar: false,
@@ -242,7 +204,20 @@ const VmEmbed: React.FC<{
                     }
                 );
                 vmRef.current = vm;
-                if (isMounted) onVmReady();
+                if (!isMounted) return;
+                setIsBooted(true);
+                onVmReady();
+
+                if (initialPath) {
+                    // The dev server starts some time after the embed resolves, and setUrl is ignored until it's up.
+                    for (let attempt = 0; attempt < RESTORE_PATH_ATTEMPTS && isMounted; attempt++) {
+                        if (await vm.preview.getUrl()) {
+                            await vm.preview.setUrl(initialPath);
+                            break;
+                        }
+                        await wait(1000);
+                    }
+                }
 
             } catch (error) {
                 console.error("StackBlitz SDK Error:", error);
@@ -258,37 +233,102 @@ const VmEmbed: React.FC<{
         };
     }, []); // Empty dependency array ensures this runs only once per mount.
 
+    // After the first boot, edits are written into the running VM and Vite's HMR picks them up, so the app keeps
+    // its route and state. Only a dependency change needs a new VM, since packages are installed at boot.
+    useEffect(() => {
+        if (!isBooted) return;
+        const handler = setTimeout(async () => {
+            const vm = vmRef.current;
+            if (!vm) return;
+
+            const signature = dependencySignature(files);
+            if (signature !== null && signature !== bootSignatureRef.current) {
+                let currentPath: string | undefined;
+                try {
+                    const url = await vm.preview.getUrl();
+                    if (url) {
+                        const parsed = new URL(url);
+                        currentPath = `${parsed.pathname}${parsed.search}${parsed.hash}`;
+                    }
+                } catch (e) {
+                    console.warn("Could not read the preview URL before rebooting:", e);
+                }
+                onRebootRequired(currentPath);
+                return;
+            }
+
+            const { projectFiles } = prepareProjectFiles(files);
+            const previous = sentFilesRef.current;
+            const create = Object.fromEntries(Object.entries(projectFiles).filter(([path, content]) => previous[path] !== content));
+            const destroy = Object.keys(previous).filter(path => !(path in projectFiles));
+            if (Object.keys(create).length === 0 && destroy.length === 0) return;
+
+            sentFilesRef.current = projectFiles;
+            try {
+                await vm.applyFsDiff({ create, destroy });
+            } catch (error) {
+                console.error("StackBlitz SDK Error:", error);
+                sentFilesRef.current = previous;
+                onError(error instanceof Error ? error.message : "An unknown error occurred while updating the preview.");
+            }
+        }, UPDATE_DELAY_MS);
+
+        return () => clearTimeout(handler);
+    }, [files, isBooted]);
+
     return <div ref={containerRef} className="w-full h-full" />;
 });
 
 
-const SandboxPreview: React.FC<SandboxPreviewProps> = ({ files, projectType, isFullScreen, onCloseFullScreen, isMobile }) => {
+const SandboxPreview: React.FC<SandboxPreviewProps> = ({ files, projectType, sandboxType, isFullScreen, onCloseFullScreen, isMobile, onConsoleMessage }) => {
+  const isIframe = sandboxType === 'iframe';
   const [embedKey, setEmbedKey] = useState(0);
+  const [resumePath, setResumePath] = useState<string | undefined>();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+      if (!onConsoleMessage) return;
+      const handleMessage = (event: MessageEvent) => {
+          const data = event.data;
+          if (data?.source !== 'asai-console-bridge' || !CONSOLE_METHODS.includes(data.method)) return;
+          // Several previews can be mounted at once (e.g. full screen), so only take messages from our own iframe.
+          const frame = containerRef.current?.querySelector('iframe')?.contentWindow;
+          if (!frame || !isFromFrame(event.source, frame)) return;
+          onConsoleMessage({
+              id: crypto.randomUUID(),
+              method: data.method,
+              timestamp: new Date().toLocaleTimeString(),
+              args: Array.isArray(data.args) ? data.args : [],
+          });
+      };
+      window.addEventListener('message', handleMessage);
+      return () => window.removeEventListener('message', handleMessage);
+  }, [onConsoleMessage]);
 
   const forceRefresh = () => {
       setIsLoading(true);
       setError(null);
+      setResumePath(undefined);
       setEmbedKey(k => k + 1);
   };
-  
+
+  // Only used when dependencies change: a fresh VM is booted and sent back to the page the user was on.
+  const rebootVm = (currentPath?: string) => {
+      setIsLoading(true);
+      setError(null);
+      setResumePath(currentPath);
+      setEmbedKey(k => k + 1);
+  };
+
+  // Both engines apply file changes to the running preview themselves, so the loading state only resets when
+  // a preview is (re)mounted: the first files arrive, or the project switches engines.
+  const hasFiles = files.length > 0;
   useEffect(() => {
-      if (files.length === 0 && embedKey === 0) {
-          setIsLoading(false);
-          return;
-      }
-      
-      const handler = setTimeout(() => {
-          setIsLoading(true);
-          setError(null);
-          setEmbedKey(k => k + 1);
-      }, 1000);
-
-      return () => {
-          clearTimeout(handler);
-      };
-  }, [files, projectType]);
+      setIsLoading(hasFiles);
+      setError(null);
+  }, [hasFiles, isIframe]);
   
   const wrapperClasses = isFullScreen
     ? 'fixed inset-0 bg-base-100 z-50 flex flex-col'
@@ -298,7 +338,7 @@ const SandboxPreview: React.FC<SandboxPreviewProps> = ({ files, projectType, isF
   return (
     <div className={wrapperClasses}>
       <div className="bg-base-200 text-base-content px-4 py-2 text-sm border-b border-base-300 flex justify-between items-center shrink-0">
-        <span>Live Preview (StackBlitz)</span>
+        <span>Live Preview ({isIframe ? 'Offline' : 'StackBlitz'})</span>
         <div className="flex items-center gap-2">
             <button onClick={forceRefresh} className="flex items-center gap-1.5 px-3 py-1.5 rounded-md hover:bg-base-300 transition-colors text-sm font-semibold" title="Force Refresh Preview">
                 <RefreshIcon className="w-5 h-5" />
@@ -311,7 +351,7 @@ const SandboxPreview: React.FC<SandboxPreviewProps> = ({ files, projectType, isF
             )}
         </div>
       </div>
-      <div id="sandbox-container" className="w-full h-full border-0 bg-base-100 relative">
+      <div id="sandbox-container" ref={containerRef} className="w-full h-full border-0 bg-base-100 relative">
         {isLoading && (
             <div className="absolute inset-0 flex flex-col items-center justify-center bg-base-100/80 z-10">
                 <Spinner size="lg" />
@@ -332,16 +372,30 @@ const SandboxPreview: React.FC<SandboxPreviewProps> = ({ files, projectType, isF
         )}
         {files.length > 0 && (
           <div className={`w-full h-full ${isLoading || error ? 'invisible' : 'visible'}`}>
-             <VmEmbed
-                key={embedKey}
-                files={files}
-                projectType={projectType}
-                onVmReady={() => setIsLoading(false)}
-                onError={(err) => {
-                    setError(err);
-                    setIsLoading(false);
-                }}
-             />
+             {isIframe ? (
+                <IframePreview
+                    key={embedKey}
+                    files={files}
+                    onReady={() => setIsLoading(false)}
+                    onError={(err) => {
+                        setError(err);
+                        setIsLoading(false);
+                    }}
+                />
+             ) : (
+                <VmEmbed
+                    key={embedKey}
+                    files={files}
+                    projectType={projectType}
+                    initialPath={resumePath}
+                    onVmReady={() => setIsLoading(false)}
+                    onError={(err) => {
+                        setError(err);
+                        setIsLoading(false);
+                    }}
+                    onRebootRequired={rebootVm}
+                />
+             )}
           </div>
         )}
         {files.length === 0 && !isLoading && !error && (
@@ -0,0 +1,288 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { FileNode } from '../types';
+import { searchFiles, replaceInFiles, SearchOptions, FileSearchResult, MAX_SEARCH_MATCHES } from '../utils/search';
+import { findSymbolReferences, applySymbolRename, SymbolReference } from '../services/languageService';
+import { SearchIcon, ChevronRightIcon, ChevronDownIcon } from './icons';
+import Spinner from './ui/Spinner';
+
+interface SearchPanelProps {
+  files: FileNode[];
+  monaco: any; // Null until the language service loads; symbol renames need it.
+  onOpenMatch: (path: string, line: number, column: number) => void;
+  onReplace: (updates: Record<string, string>, label: string) => Promise<void>;
+}
+
+type Mode = 'text' | 'symbol';
+
+type ResultLine = { line: number; column: number; length: number; preview: string };
+
+const SEARCH_DELAY_MS = 250;
+const PREVIEW_CONTEXT = 40;
+
+const inputClasses = "w-full bg-base-100 border border-base-300 rounded-md py-1.5 px-2 text-sm text-base-content placeholder-neutral focus:outline-none focus:ring-1 focus:ring-primary";
+
+const ToggleButton: React.FC<{ isOn: boolean; onClick: () => void; title: string; children: React.ReactNode }> = ({ isOn, onClick, title, children }) => (
+  <button
+    onClick={onClick}
+    title={title}
+    aria-pressed={isOn}
+    className={`px-1.5 py-0.5 rounded text-xs font-mono transition-colors ${isOn ? 'bg-primary/20 text-primary' : 'text-neutral hover:bg-base-300'}`}
+  >
+    {children}
+  </button>
+);
+
+// Shows the matched text in context, trimming long lines around the match.
+const MatchPreview: React.FC<{ match: ResultLine }> = ({ match }) => {
+  const start = match.column - 1;
+  const from = Math.max(0, start - PREVIEW_CONTEXT);
+  const before = match.preview.slice(from, start).trimStart();
+  const text = match.preview.slice(start, start + match.length);
+  const after = match.preview.slice(start + match.length, start + match.length + PREVIEW_CONTEXT * 2);
+  return (
+    <span className="truncate">
+      {from > 0 && '…'}{before}<span className="bg-yellow-400/30 text-base-content rounded-sm">{text}</span>{after}
+    </span>
+  );
+};
+
+const ResultList: React.FC<{ results: FileSearchResult[]; onOpenMatch: SearchPanelProps['onOpenMatch'] }> = ({ results, onOpenMatch }) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggle = (path: string) => setCollapsed(prev => {
+    const next = new Set(prev);
+    if (next.has(path)) next.delete(path);
+    else next.add(path);
+    return next;
+  });
+
+  return (
+    <div className="flex-grow overflow-y-auto pr-1 text-xs">
+      {results.map(result => {
+        const isCollapsed = collapsed.has(result.path);
+        const name = result.path.split('/').pop();
+        const folder = result.path.split('/').slice(0, -1).join('/');
+        return (
+          <div key={result.path}>
+            <button onClick={() => toggle(result.path)} className="w-full flex items-center gap-1 px-1 py-1 rounded hover:bg-base-300/50 text-left" title={result.path}>
+              {isCollapsed ? <ChevronRightIcon className="w-3 h-3 shrink-0" /> : <ChevronDownIcon className="w-3 h-3 shrink-0" />}
+              <span className="font-semibold text-base-content truncate">{name}</span>
+              <span className="text-neutral/70 truncate">{folder}</span>
+              <span className="ml-auto px-1.5 rounded-full bg-base-300 text-neutral shrink-0">{result.matches.length}</span>
+            </button>
+            {!isCollapsed && result.matches.map((match, i) => (
+              <button
+                key={`${match.line}:${match.column}:${i}`}
+                data-testid="godmode-search-result"
+                onClick={() => onOpenMatch(result.path, match.line, match.column)}
+                className="w-full flex items-center gap-2 pl-5 pr-1 py-0.5 rounded hover:bg-base-300/50 text-left font-mono text-neutral"
+              >
+                <span className="text-neutral/60 shrink-0 w-8 text-right">{match.line}</span>
+                <MatchPreview match={match} />
+              </button>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const groupReferences = (references: SymbolReference[]): FileSearchResult[] => {
+  const groups = new Map<string, ResultLine[]>();
+  references.forEach(ref => groups.set(ref.path, [...(groups.get(ref.path) || []), ref]));
+  return [...groups.entries()].map(([path, matches]) => ({ path, matches: [...matches].sort((a, b) => a.line - b.line || a.column - b.column) }));
+};
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ files, monaco, onOpenMatch, onReplace }) => {
+  const [mode, setMode] = useState<Mode>('text');
+  const [options, setOptions] = useState<SearchOptions>({ query: '', isRegex: false, isCaseSensitive: false, isWholeWord: false, include: '', exclude: '' });
+  const [replacement, setReplacement] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [search, setSearch] = useState<{ results: FileSearchResult[]; isTruncated: boolean; error: string | null }>({ results: [], isTruncated: false, error: null });
+  const [symbol, setSymbol] = useState('');
+  const [newName, setNewName] = useState('');
+  const [references, setReferences] = useState<SymbolReference[] | null>(null);
+  const [symbolError, setSymbolError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (mode !== 'text') return;
+    const timer = setTimeout(() => {
+      try {
+        setSearch({ ...searchFiles(files, options), error: null });
+      } catch (err) {
+        setSearch({ results: [], isTruncated: false, error: err instanceof Error ? err.message : String(err) });
+      }
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [files, options, mode]);
+
+  // References go stale as soon as files change, since their offsets may no longer line up.
+  useEffect(() => { setReferences(null); }, [files, symbol]);
+
+  const matchCount = search.results.reduce((sum, r) => sum + r.matches.length, 0);
+  const referenceResults = useMemo(() => references ? groupReferences(references) : [], [references]);
+
+  const updateOptions = (patch: Partial<SearchOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const handleReplaceAll = async () => {
+    const paths = search.results.map(r => r.path);
+    const updates = replaceInFiles(files, paths, options, replacement);
+    const fileCount = Object.keys(updates).length;
+    if (fileCount === 0) return;
+    if (!window.confirm(`Replace ${matchCount} occurrence(s) of "${options.query}" in ${fileCount} file(s)?`)) return;
+    setIsBusy(true);
+    try {
+      await onReplace(updates, `Replace "${options.query}" with "${replacement}"`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFindReferences = async () => {
+    if (!monaco || !symbol.trim()) return;
+    setIsBusy(true);
+    setSymbolError(null);
+    try {
+      const found = await findSymbolReferences(monaco, files, symbol.trim());
+      setReferences(found);
+    } catch (err) {
+      setReferences(null);
+      setSymbolError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRenameSymbol = async () => {
+    if (!references || references.length === 0 || !newName.trim()) return;
+    setIsBusy(true);
+    setSymbolError(null);
+    try {
+      const updates = applySymbolRename(files, references, newName.trim());
+      await onReplace(updates, `Rename ${symbol.trim()} to ${newName.trim()}`);
+      setSymbol(newName.trim());
+      setNewName('');
+    } catch (err) {
+      setSymbolError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const modeClasses = (m: Mode) => `flex-1 py-1 rounded text-xs font-semibold transition-colors ${mode === m ? 'bg-base-100 text-base-content shadow-sm' : 'text-neutral hover:text-base-content'}`;
+
+  return (
+    <div className="h-full flex flex-col p-2 gap-2 text-sm">
+      <div className="flex bg-base-300 rounded-md p-0.5">
+        <button onClick={() => setMode('text')} className={modeClasses('text')}>Search &amp; Replace</button>
+        <button onClick={() => setMode('symbol')} className={modeClasses('symbol')} title="Rename a variable, function, type or component across the project">Rename Symbol</button>
+      </div>
+
+      {mode === 'text' ? (
+        <>
+          <div className="relative">
+            <input
+              data-testid="godmode-search-input"
+              value={options.query}
+              onChange={e => updateOptions({ query: e.target.value })}
+              placeholder="Search"
+              className={`${inputClasses} pr-24`}
+              autoFocus
+            />
+            <div className="absolute right-1 top-1/2 -translate-y-1/2 flex items-center gap-0.5">
+              <ToggleButton isOn={options.isCaseSensitive} onClick={() => updateOptions({ isCaseSensitive: !options.isCaseSensitive })} title="Match case">Aa</ToggleButton>
+              <ToggleButton isOn={options.isWholeWord} onClick={() => updateOptions({ isWholeWord: !options.isWholeWord })} title="Match whole word"><span className="underline">ab</span></ToggleButton>
+              <ToggleButton isOn={options.isRegex} onClick={() => updateOptions({ isRegex: !options.isRegex })} title="Use regular expression">.*</ToggleButton>
+            </div>
+          </div>
+          <div className="flex gap-1">
+            <input
+              data-testid="godmode-replace-input"
+              value={replacement}
+              onChange={e => setReplacement(e.target.value)}
+              placeholder={options.isRegex ? 'Replace ($1 for groups)' : 'Replace'}
+              className={inputClasses}
+            />
+            <button
+              data-testid="godmode-replace-all-button"
+              onClick={handleReplaceAll}
+              disabled={isBusy || matchCount === 0 || search.isTruncated}
+              className="px-2 rounded-md bg-base-300 hover:bg-primary/20 text-xs font-semibold whitespace-nowrap disabled:opacity-50 disabled:hover:bg-base-300"
+              title={search.isTruncated ? 'Narrow the search to replace: too many results' : 'Replace all results'}
+            >
+              {isBusy ? <Spinner size="sm" /> : 'Replace all'}
+            </button>
+          </div>
+          <button onClick={() => setShowFilters(!showFilters)} className="self-start text-xs text-neutral hover:text-base-content flex items-center gap-1">
+            {showFilters ? <ChevronDownIcon className="w-3 h-3" /> : <ChevronRightIcon className="w-3 h-3" />}
+            Files to include / exclude
+          </button>
+          {showFilters && (
+            <div className="space-y-1">
+              <input value={options.include} onChange={e => updateOptions({ include: e.target.value })} placeholder="Include, e.g. src/**/*.tsx, *.css" className={inputClasses} />
+              <input value={options.exclude} onChange={e => updateOptions({ exclude: e.target.value })} placeholder="Exclude, e.g. *.test.ts, dist" className={inputClasses} />
+            </div>
+          )}
+
+          {search.error ? (
+            <p className="text-xs text-red-400 break-words">{search.error}</p>
+          ) : options.query && (
+            <p className="text-xs text-neutral">
+              {matchCount === 0 ? 'No results found.' : `${matchCount} result(s) in ${search.results.length} file(s)`}
+              {search.isTruncated && ` — showing the first ${MAX_SEARCH_MATCHES}. Narrow the search to see the rest.`}
+            </p>
+          )}
+          <ResultList results={search.results} onOpenMatch={onOpenMatch} />
+        </>
+      ) : (
+        <>
+          {!monaco ? (
+            <div className="flex-grow flex items-center justify-center text-center text-neutral p-4">
+              <div>
+                <SearchIcon className="w-12 h-12 text-base-300 mx-auto mb-4" />
+                <p>Symbol renames use the TypeScript language service, which is still loading.</p>
+              </div>
+            </div>
+          ) : (
+            <>
+              <p className="text-xs text-neutral">Renames every reference the TypeScript compiler links to the symbol, including imports and exports, and leaves unrelated text with the same name alone.</p>
+              <div className="flex gap-1">
+                <input
+                  data-testid="godmode-symbol-input"
+                  value={symbol}
+                  onChange={e => setSymbol(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') handleFindReferences(); }}
+                  placeholder="Symbol, e.g. UserCard"
+                  className={`${inputClasses} font-mono`}
+                />
+                <button onClick={handleFindReferences} disabled={isBusy || !symbol.trim()} className="px-2 rounded-md bg-base-300 hover:bg-primary/20 text-xs font-semibold whitespace-nowrap disabled:opacity-50">
+                  Find
+                </button>
+              </div>
+              <div className="flex gap-1">
+                <input value={newName} onChange={e => setNewName(e.target.value)} placeholder="New name" className={`${inputClasses} font-mono`} disabled={!references} />
+                <button
+                  data-testid="godmode-rename-symbol-button"
+                  onClick={handleRenameSymbol}
+                  disabled={isBusy || !references || references.length === 0 || !newName.trim()}
+                  className="px-2 rounded-md bg-primary text-white text-xs font-semibold whitespace-nowrap disabled:opacity-50"
+                >
+                  {isBusy ? <Spinner size="sm" /> : 'Rename'}
+                </button>
+              </div>
+              {symbolError && <p className="text-xs text-red-400 break-words">{symbolError}</p>}
+              {references && (
+                <p className="text-xs text-neutral">{references.length} reference(s) in {referenceResults.length} file(s)</p>
+              )}
+              <ResultList results={referenceResults} onOpenMatch={onOpenMatch} />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SearchPanel;
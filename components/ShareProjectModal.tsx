@@ -1,13 +1,15 @@
 import React, { useState } from 'react';
 import Spinner from './ui/Spinner';
 import { CopyIcon, CheckIcon, ShareIcon, UsersIcon } from './icons';
+import AccessGrantFields, { DEFAULT_EXPIRY_DAYS } from './ui/AccessGrantFields';
 import { createInvite } from '../services/firestoreService';
+import { ProjectRole } from '../types';
 
 interface ShareProjectModalProps {
   isOpen: boolean;
   onClose: () => void;
   projectId: string;
-  onGenerateKey: (projectId: string) => Promise<string>;
+  onGenerateKey: (projectId: string, role: ProjectRole, expiresInDays: number | null) => Promise<string>;
   isCollaborationEnabled: boolean;
   ownerUid: string;
 }
@@ -21,6 +23,10 @@ const ShareProjectModal: React.FC<ShareProjectModalProps> = ({ isOpen, onClose,
   const [inviteEmail, setInviteEmail] = useState('');
   const [inviteCode, setInviteCode] = useState<string | null>(null);
   const [isInviting, setIsInviting] = useState(false);
+  const [inviteRole, setInviteRole] = useState<ProjectRole>('editor');
+  const [inviteExpiry, setInviteExpiry] = useState<number | null>(DEFAULT_EXPIRY_DAYS);
+  const [keyRole, setKeyRole] = useState<ProjectRole>('editor');
+  const [keyExpiry, setKeyExpiry] = useState<number | null>(DEFAULT_EXPIRY_DAYS);
 
   if (!isOpen) return null;
 
@@ -29,7 +35,7 @@ const ShareProjectModal: React.FC<ShareProjectModalProps> = ({ isOpen, onClose,
     setError('');
     setShareKey(null);
     try {
-      const key = await onGenerateKey(projectId);
+      const key = await onGenerateKey(projectId, keyRole, keyExpiry);
       setShareKey(key);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to generate key.');
@@ -44,7 +50,7 @@ const ShareProjectModal: React.FC<ShareProjectModalProps> = ({ isOpen, onClose,
     setError('');
     setInviteCode(null);
     try {
-      const code = await createInvite(projectId, ownerUid, inviteEmail);
+      const code = await createInvite(projectId, ownerUid, inviteEmail, inviteRole, inviteExpiry);
       setInviteCode(code);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create invite.');
@@ -101,12 +107,15 @@ const ShareProjectModal: React.FC<ShareProjectModalProps> = ({ isOpen, onClose,
                             </div>
                          </div>
                      ) : (
+                        <div className="space-y-2">
+                        <AccessGrantFields role={inviteRole} onRoleChange={setInviteRole} expiresInDays={inviteExpiry} onExpiryChange={setInviteExpiry} disabled={isInviting} testIdPrefix="godmode-share-invite" />
                         <div className="flex items-center gap-2">
                            <input type="email" value={inviteEmail} onChange={(e) => setInviteEmail(e.target.value)} placeholder=" collaborator@email.com" className="flex-grow bg-base-100 border border-base-300 rounded-md py-2 px-3 text-sm" disabled={isInviting} />
                            <button onClick={handleInvite} disabled={isInviting || !inviteEmail.trim()} className="px-4 py-2 bg-secondary text-white font-semibold rounded-md text-sm w-36 flex justify-center items-center">
                                {isInviting ? <Spinner size="sm" /> : 'Get Invite Code'}
                            </button>
                         </div>
+                        </div>
                      )}
                 </div>
             ) : (
@@ -119,7 +128,7 @@ const ShareProjectModal: React.FC<ShareProjectModalProps> = ({ isOpen, onClose,
         {/* Simple Share Key Section */}
         <div className="p-4 rounded-lg border border-base-300 bg-base-300/30">
              <h3 className="font-semibold text-base-content mb-2">Generate Simple Share Key</h3>
-             <p className="text-xs text-neutral mb-3">Generate a single-use key to let another user join and edit this project (non-real-time).</p>
+             <p className="text-xs text-neutral mb-3">Generate a single-use key to let another user join this project with the role you choose (non-real-time).</p>
             {shareKey ? (
                 <div className="space-y-2">
                     <p className="text-sm text-neutral">Share this key:</p>
@@ -131,6 +140,8 @@ const ShareProjectModal: React.FC<ShareProjectModalProps> = ({ isOpen, onClose,
                     </div>
                 </div>
             ) : (
+                <div className="space-y-2">
+                 <AccessGrantFields role={keyRole} onRoleChange={setKeyRole} expiresInDays={keyExpiry} onExpiryChange={setKeyExpiry} disabled={isLoading} testIdPrefix="godmode-share-key" />
                  <button
                     onClick={handleGenerate}
                     disabled={isLoading}
@@ -138,6 +149,7 @@ const ShareProjectModal: React.FC<ShareProjectModalProps> = ({ isOpen, onClose,
                  >
                     {isLoading ? <Spinner size="sm" /> : 'Generate Share Key'}
                 </button>
+                </div>
             )}
         </div>
 
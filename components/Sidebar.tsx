@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
 import FileExplorer from './FileExplorer';
-import { CodeIcon, ChatBubbleIcon, SaveIcon, TrashIcon, ChecklistIcon } from './icons';
-import { FileNode, AiChatMessage, User, Project, ApiConfig, ApiPoolConfig, ApiPoolKey, ChatMessageSenderInfo, Snapshot } from '../types';
+import { CodeIcon, ChatBubbleIcon, SaveIcon, TrashIcon, ChecklistIcon, RefreshIcon, SearchIcon } from './icons';
+import { FileNode, AiChatMessage, User, Project, ApiConfig, ApiPoolConfig, ApiPoolKey, ChatMessageSenderInfo, Snapshot, StreamingReply } from '../types';
 import Spinner from './ui/Spinner';
 import ChatInterface from './ChatInterface';
 import TodoListPanel from './TodoListPanel';
+import SearchPanel from './SearchPanel';
+import { ProjectPermissions } from '../utils/permissions';
 
 interface SidebarProps {
   files: FileNode[];
@@ -13,14 +15,20 @@ interface SidebarProps {
   onFileDelete: (id:string) => void;
   onFileAdd: (parentId: string, type: 'file' | 'folder') => void;
   onFileUpload: (file: File, parentPath: string) => void;
-  activeTab: 'files' | 'chat' | 'snapshots' | 'todo';
-  onTabChange: (tab: 'files' | 'chat' | 'snapshots' | 'todo') => void;
+  activeTab: 'files' | 'search' | 'chat' | 'snapshots' | 'todo';
+  onTabChange: (tab: 'files' | 'search' | 'chat' | 'snapshots' | 'todo') => void;
   onContextMenuRequest: (path: string, x: number, y: number) => void;
   isCollaborationEnabled: boolean;
   projectId: string;
+
+  // Search Props
+  monaco: any;
+  onOpenSearchMatch: (path: string, line: number, column: number) => void;
+  onReplaceInFiles: (updates: Record<string, string>, label: string) => Promise<void>;
   
   // Chat Props
   messages: AiChatMessage[];
+  streamingReply?: StreamingReply | null;
   onSendMessage: (message: string, mode: 'build' | 'ask' | 'general') => void;
   isLoading: boolean;
   onApprovePlan: (messageId: string) => void;
@@ -28,6 +36,7 @@ interface SidebarProps {
   projectMembers: ChatMessageSenderInfo[];
   currentUser: User;
   isOwner: boolean;
+  permissions: ProjectPermissions;
   project: Project | null;
   apiConfig: ApiConfig;
   apiPoolConfig: ApiPoolConfig;
@@ -44,17 +53,19 @@ interface SidebarProps {
   snapshots: Snapshot[];
   onCreateSnapshot: () => void;
   onDeleteSnapshot: (snapshotId: string) => void;
+  onRestoreSnapshot: (snapshot: Snapshot) => void;
 }
 
-type Tab = 'files' | 'chat' | 'snapshots' | 'todo';
+type Tab = 'files' | 'search' | 'chat' | 'snapshots' | 'todo';
 
 const SnapshotsPanel: React.FC<{
   isCollaborationEnabled: boolean;
   snapshots: Snapshot[];
   onCreateSnapshot: () => void;
   onDeleteSnapshot: (snapshotId: string) => void;
+  onRestoreSnapshot: (snapshot: Snapshot) => void;
   isOwner: boolean;
-}> = ({ isCollaborationEnabled, snapshots, onCreateSnapshot, onDeleteSnapshot, isOwner }) => {
+}> = ({ isCollaborationEnabled, snapshots, onCreateSnapshot, onDeleteSnapshot, onRestoreSnapshot, isOwner }) => {
     return (
         <div className="p-2 text-sm text-neutral h-full flex flex-col">
             <h3 className="text-sm font-semibold tracking-wider uppercase text-base-content mb-2 p-2 border-b border-base-300">Project Snapshots</h3>
@@ -86,16 +97,29 @@ const SnapshotsPanel: React.FC<{
                                     <div className="flex justify-between items-start">
                                         <p className="text-xs text-base-content font-semibold flex-grow pr-2">{snap.triggeringPrompt}</p>
                                         {isOwner && (
-                                            <button 
-                                                onClick={() => onDeleteSnapshot(snap.id)}
-                                                className="p-1 rounded-full hover:bg-red-500/10 opacity-0 group-hover:opacity-100 transition-opacity"
-                                                title="Delete snapshot"
-                                            >
-                                                <TrashIcon className="w-4 h-4 text-red-400" />
-                                            </button>
+                                            <div className="flex items-center shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                                                <button
+                                                    data-testid="godmode-restore-snapshot-button"
+                                                    onClick={() => onRestoreSnapshot(snap)}
+                                                    className="p-1 rounded-full hover:bg-primary/10"
+                                                    title="Restore snapshot"
+                                                >
+                                                    <RefreshIcon className="w-4 h-4 text-primary" />
+                                                </button>
+                                                <button 
+                                                    onClick={() => onDeleteSnapshot(snap.id)}
+                                                    className="p-1 rounded-full hover:bg-red-500/10"
+                                                    title="Delete snapshot"
+                                                >
+                                                    <TrashIcon className="w-4 h-4 text-red-400" />
+                                                </button>
+                                            </div>
                                         )}
                                     </div>
-                                    <p className="text-xs text-neutral/80 mt-1">
+                                    <p className="text-xs text-neutral/80 mt-1 flex items-center gap-2">
+                                        {snap.source === 'auto' && (
+                                            <span className="font-bold bg-accent/20 text-accent px-1.5 py-0.5 rounded-full" title={snap.planId ? `Taken before AI plan ${snap.planId}` : 'Taken before an AI change'}>Auto</span>
+                                        )}
                                         {snap.createdAt?.toDate().toLocaleString()}
                                     </p>
                                 </div>
@@ -110,7 +134,7 @@ const SnapshotsPanel: React.FC<{
 
 
 const Sidebar: React.FC<SidebarProps> = (props) => {
-  const { activeTab, onTabChange, isCollaborationEnabled, snapshots, onCreateSnapshot, onDeleteSnapshot, isOwner, projectId } = props;
+  const { activeTab, onTabChange, isCollaborationEnabled, snapshots, onCreateSnapshot, onDeleteSnapshot, onRestoreSnapshot, isOwner, projectId } = props;
 
   const tabClasses = (tab: Tab, disabled: boolean = false) => `flex-1 py-2 px-4 text-sm font-medium text-center cursor-pointer flex items-center justify-center gap-2 border-b-2 transition-colors ${
     disabled
@@ -126,6 +150,9 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
         <button data-testid="godmode-sidebar-files-tab" onClick={() => onTabChange('files')} className={tabClasses('files')}>
           <CodeIcon /> Files
         </button>
+        <button data-testid="godmode-sidebar-search-tab" onClick={() => onTabChange('search')} className={tabClasses('search')} title="Search and replace across the project">
+          <SearchIcon />
+        </button>
         <button data-testid="godmode-sidebar-chat-tab" onClick={() => onTabChange('chat')} className={tabClasses('chat')}>
           <ChatBubbleIcon /> {isCollaborationEnabled ? "Team Chat" : "AI Chat"}
         </button>
@@ -155,9 +182,18 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
                 projectId={projectId}
             />
         )}
+        {activeTab === 'search' && (
+            <SearchPanel
+                files={props.files}
+                monaco={props.monaco}
+                onOpenMatch={props.onOpenSearchMatch}
+                onReplace={props.onReplaceInFiles}
+            />
+        )}
         {activeTab === 'chat' && (
              <ChatInterface 
                 messages={props.messages}
+                streamingReply={props.streamingReply}
                 onSendMessage={props.onSendMessage}
                 isLoading={props.isLoading}
                 onApprovePlan={props.onApprovePlan}
@@ -165,6 +201,7 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
                 projectMembers={props.projectMembers}
                 currentUser={props.currentUser}
                 isOwner={props.isOwner}
+                permissions={props.permissions}
                 files={props.files}
                 project={props.project}
                 apiConfig={props.apiConfig}
@@ -191,6 +228,7 @@ const Sidebar: React.FC<SidebarProps> = (props) => {
                 snapshots={snapshots}
                 onCreateSnapshot={onCreateSnapshot}
                 onDeleteSnapshot={onDeleteSnapshot}
+                onRestoreSnapshot={onRestoreSnapshot}
                 isOwner={isOwner}
             />
         )}
@@ -0,0 +1,141 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { FileNode, Snapshot } from '../types';
+import { diffFileSets, FileDiff } from '../utils/diff';
+import { RefreshIcon, ChevronRightIcon, ChevronDownIcon } from './icons';
+import Spinner from './ui/Spinner';
+
+interface SnapshotRestoreModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  snapshot: Snapshot | null;
+  snapshotFiles: FileNode[];
+  currentFiles: FileNode[];
+  onRestore: (diffs: FileDiff[], selectedPaths: Set<string>) => void;
+  isRestoring: boolean;
+}
+
+const statusStyles: Record<FileDiff['status'], { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-500/20 text-green-400' },
+  removed: { label: 'Removed', className: 'bg-red-500/20 text-red-400' },
+  changed: { label: 'Changed', className: 'bg-yellow-500/20 text-yellow-400' },
+};
+
+const FileDiffView: React.FC<{ diff: FileDiff }> = ({ diff }) => (
+  <pre className="bg-base-100 text-xs overflow-x-auto border-t border-base-300 max-h-80 overflow-y-auto">
+    {diff.lines.map((line, index) => (
+      <div
+        key={index}
+        className={`flex ${line.type === 'add' ? 'bg-green-500/10 text-green-400' : line.type === 'remove' ? 'bg-red-500/10 text-red-400' : 'text-neutral'}`}
+      >
+        <span className="w-10 shrink-0 text-right pr-2 text-neutral/50 select-none">{line.oldLine ?? ''}</span>
+        <span className="w-10 shrink-0 text-right pr-2 text-neutral/50 select-none">{line.newLine ?? ''}</span>
+        <span className="w-4 shrink-0 select-none">{line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}</span>
+        <code className="whitespace-pre">{line.text}</code>
+      </div>
+    ))}
+  </pre>
+);
+
+const SnapshotRestoreModal: React.FC<SnapshotRestoreModalProps> = ({ isOpen, onClose, snapshot, snapshotFiles, currentFiles, onRestore, isRestoring }) => {
+  const diffs = useMemo(() => diffFileSets(currentFiles, snapshotFiles), [currentFiles, snapshotFiles]);
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  const [expandedPath, setExpandedPath] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedPaths(new Set(diffs.map(d => d.path)));
+      setExpandedPath(null);
+    }
+    // Only reset the selection when the modal opens or a different snapshot is chosen.
+  }, [isOpen, snapshot?.id]);
+
+  if (!isOpen || !snapshot) return null;
+
+  const allSelected = diffs.length > 0 && diffs.every(d => selectedPaths.has(d.path));
+
+  const toggleAll = () => {
+    setSelectedPaths(allSelected ? new Set() : new Set(diffs.map(d => d.path)));
+  };
+
+  const togglePath = (path: string) => {
+    setSelectedPaths(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 transition-opacity duration-300 p-4">
+      <div className="bg-base-200 rounded-lg shadow-2xl p-6 sm:p-8 w-full max-w-md sm:max-w-4xl border border-base-300 flex flex-col h-[90vh]">
+        <div className="flex items-center gap-3 mb-4">
+          <RefreshIcon className="w-8 h-8 text-accent" />
+          <div>
+            <h2 className="text-2xl font-bold text-base-content">Restore Snapshot</h2>
+            <p className="text-sm text-neutral">
+              "{snapshot.triggeringPrompt}" &middot; {snapshot.createdAt?.toDate().toLocaleString()}
+            </p>
+          </div>
+        </div>
+
+        {diffs.length === 0 ? (
+          <div className="flex-grow flex items-center justify-center text-center bg-base-100 rounded-lg p-4 border border-base-300">
+            <p className="text-neutral">The current files already match this snapshot.</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-2 px-1">
+              <label className="flex items-center gap-2 text-sm text-base-content cursor-pointer">
+                <input type="checkbox" checked={allSelected} onChange={toggleAll} className="h-4 w-4 rounded text-primary focus:ring-primary" />
+                Select all ({selectedPaths.size}/{diffs.length} files)
+              </label>
+            </div>
+            <div className="flex-grow overflow-y-auto bg-base-100 rounded-lg border border-base-300 divide-y divide-base-300">
+              {diffs.map(diff => (
+                <div key={diff.path}>
+                  <div className="flex items-center gap-3 p-2 hover:bg-base-300/50">
+                    <input
+                      type="checkbox"
+                      checked={selectedPaths.has(diff.path)}
+                      onChange={() => togglePath(diff.path)}
+                      className="h-4 w-4 rounded text-primary focus:ring-primary shrink-0 cursor-pointer"
+                    />
+                    <button onClick={() => setExpandedPath(expandedPath === diff.path ? null : diff.path)} className="flex-grow flex items-center gap-2 text-left min-w-0">
+                      {expandedPath === diff.path ? <ChevronDownIcon className="w-4 h-4 shrink-0" /> : <ChevronRightIcon className="w-4 h-4 shrink-0" />}
+                      <span className="font-mono text-sm text-base-content truncate">{diff.path}</span>
+                    </button>
+                    <span className="text-xs font-mono text-green-400">+{diff.additions}</span>
+                    <span className="text-xs font-mono text-red-400">-{diff.deletions}</span>
+                    <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${statusStyles[diff.status].className}`}>
+                      {statusStyles[diff.status].label}
+                    </span>
+                  </div>
+                  {expandedPath === diff.path && <FileDiffView diff={diff} />}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end space-x-4 mt-6">
+          <button onClick={onClose} disabled={isRestoring} className="px-4 py-2 bg-base-300 hover:bg-opacity-80 rounded-md text-base-content font-semibold transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => onRestore(diffs, selectedPaths)}
+            disabled={isRestoring || selectedPaths.size === 0}
+            className="px-6 py-2 bg-primary hover:opacity-90 rounded-md text-white font-semibold transition-colors flex items-center justify-center disabled:bg-opacity-50 w-48"
+          >
+            {isRestoring ? <Spinner size="sm" /> : `Restore ${selectedPaths.size} File${selectedPaths.size === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotRestoreModal;
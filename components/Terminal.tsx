@@ -8,6 +8,13 @@ interface TerminalProps {
   isReady: boolean;
 }
 
+const lineClassName: Record<NonNullable<TerminalOutput['stream']>, string> = {
+  stdout: '',
+  stderr: 'text-red-400',
+  command: 'text-white',
+  system: 'text-neutral italic',
+};
+
 const Terminal: React.FC<TerminalProps> = ({ output, onCommand, isReady }) => {
   const [input, setInput] = useState('');
   const [history, setHistory] = useState<string[]>([]);
@@ -54,7 +61,10 @@ const Terminal: React.FC<TerminalProps> = ({ output, onCommand, isReady }) => {
     <div className="h-full bg-black flex flex-col font-mono text-sm text-green-400 p-2" onClick={() => inputRef.current?.focus()}>
       <div className="flex-grow overflow-y-auto pr-2">
         {output.map((line) => (
-            <pre key={line.id} className="whitespace-pre-wrap break-words">{line.data}</pre>
+            <pre key={line.id} className={`whitespace-pre-wrap break-words ${lineClassName[line.stream || 'stdout']}`}>
+              {line.stream === 'command' && <span className="text-blue-400">~/project $ </span>}
+              {line.data.replace(/\n$/, '')}
+            </pre>
         ))}
         <div ref={outputEndRef} />
       </div>
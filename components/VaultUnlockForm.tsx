@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { unlockApiKeyVault, rotateApiKeyVault } from '../services/firestoreService';
+import NewPassphraseFields, { getNewPassphraseError } from './ui/NewPassphraseFields';
+import Spinner from './ui/Spinner';
+
+interface VaultUnlockFormProps {
+    userId: string;
+    // Called with the new recovery code when the vault was opened with the old one, and had to be rotated.
+    onUnlocked: (newRecoveryCode: string | null) => void;
+}
+
+// Unlocks the vault for this session. A recovery code also works, but since it's been used, the vault is then
+// rotated under a new passphrase and recovery code.
+const VaultUnlockForm: React.FC<VaultUnlockFormProps> = ({ userId, onUnlocked }) => {
+    const [mode, setMode] = useState<'passphrase' | 'recovery'>('passphrase');
+    const [passphrase, setPassphrase] = useState('');
+    const [recoveryCode, setRecoveryCode] = useState('');
+    const [newPassphrase, setNewPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        if (mode === 'recovery') {
+            const passphraseError = getNewPassphraseError(newPassphrase, confirmation);
+            if (passphraseError) {
+                setError(passphraseError);
+                return;
+            }
+        }
+        setIsWorking(true);
+        try {
+            if (mode === 'passphrase') {
+                await unlockApiKeyVault(userId, { passphrase });
+                onUnlocked(null);
+            } else {
+                await unlockApiKeyVault(userId, { recoveryCode });
+                onUnlocked(await rotateApiKeyVault(userId, newPassphrase));
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Could not unlock the vault.");
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const switchMode = () => {
+        setMode(mode === 'passphrase' ? 'recovery' : 'passphrase');
+        setError('');
+    };
+
+    const inputClasses = "w-full bg-base-100 border border-base-300 rounded-md py-2 px-3 text-sm text-base-content focus:outline-none focus:ring-2 focus:ring-primary";
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-2">
+            {mode === 'passphrase' ? (
+                <input
+                    data-testid="godmode-vault-unlock-input"
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder="Vault passphrase"
+                    autoComplete="current-password"
+                    autoFocus
+                    className={inputClasses}
+                />
+            ) : (
+                <>
+                    <input
+                        data-testid="godmode-vault-recovery-input"
+                        type="text"
+                        value={recoveryCode}
+                        onChange={(e) => setRecoveryCode(e.target.value)}
+                        placeholder="Recovery code, e.g. ABCDE-FGHJK-..."
+                        autoComplete="off"
+                        autoFocus
+                        className={`${inputClasses} font-mono`}
+                    />
+                    <p className="text-xs text-neutral">Choose a new passphrase. You'll get a new recovery code too.</p>
+                    <NewPassphraseFields
+                        passphrase={newPassphrase}
+                        confirmation={confirmation}
+                        onPassphraseChange={setNewPassphrase}
+                        onConfirmationChange={setConfirmation}
+                        testIdPrefix="godmode-vault-recovery"
+                    />
+                </>
+            )}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            <div className="flex justify-between items-center">
+                <button type="button" onClick={switchMode} className="text-xs text-primary hover:underline">
+                    {mode === 'passphrase' ? 'Forgot your passphrase?' : 'Use the passphrase instead'}
+                </button>
+                <button
+                    data-testid="godmode-vault-unlock-button"
+                    type="submit"
+                    disabled={isWorking || (mode === 'passphrase' ? !passphrase : !recoveryCode.trim())}
+                    className="px-4 py-2 bg-primary hover:opacity-90 rounded-md text-white text-sm font-semibold transition-colors disabled:opacity-50 flex items-center justify-center w-24"
+                >
+                    {isWorking ? <Spinner size="sm" /> : 'Unlock'}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default VaultUnlockForm;
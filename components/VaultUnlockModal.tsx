@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import VaultUnlockForm from './VaultUnlockForm';
+import RecoveryCodeNotice from './ui/RecoveryCodeNotice';
+
+interface VaultUnlockModalProps {
+    isOpen: boolean;
+    userId: string;
+    userEmail: string | null;
+    onUnlocked: () => void;
+    onSkip: () => void;
+}
+
+// Asked for once per session, when the user's keys are in a vault. Skipping leaves them locked, so only the
+// shared key pool is used until they're unlocked from the API key settings.
+const VaultUnlockModal: React.FC<VaultUnlockModalProps> = ({ isOpen, userId, userEmail, onUnlocked, onSkip }) => {
+    const [newRecoveryCode, setNewRecoveryCode] = useState<string | null>(null);
+
+    if (!isOpen) return null;
+
+    const handleUnlocked = (recoveryCode: string | null) => {
+        if (recoveryCode) {
+            setNewRecoveryCode(recoveryCode);
+        } else {
+            onUnlocked();
+        }
+    };
+
+    const handleRecoverySaved = () => {
+        setNewRecoveryCode(null);
+        onUnlocked();
+    };
+
+    return (
+        <div data-testid="godmode-vault-unlock-modal" className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
+            <div className="bg-base-200 rounded-lg shadow-2xl p-8 w-full max-w-md m-4 border border-base-300">
+                <h2 className="text-2xl font-bold mb-2 text-base-content">Unlock your API keys</h2>
+                {newRecoveryCode ? (
+                    <RecoveryCodeNotice recoveryCode={newRecoveryCode} email={userEmail} onDone={handleRecoverySaved} />
+                ) : (
+                    <>
+                        <p className="text-sm text-neutral mb-6">Your keys are encrypted. Enter your vault passphrase to use them in this session.</p>
+                        <VaultUnlockForm userId={userId} onUnlocked={handleUnlocked} />
+                        <div className="flex justify-center mt-4">
+                            <button data-testid="godmode-vault-skip-button" onClick={onSkip} className="text-xs text-neutral hover:underline">Not now</button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default VaultUnlockModal;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { ProjectRole } from '../../types';
+import { GRANTABLE_ROLES, ROLE_LABELS, ROLE_DESCRIPTIONS } from '../../utils/permissions';
+
+const EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+    { days: 1, label: 'Expires in 1 day' },
+    { days: 7, label: 'Expires in 7 days' },
+    { days: 30, label: 'Expires in 30 days' },
+    { days: null, label: 'Never expires' },
+];
+
+export const DEFAULT_EXPIRY_DAYS = 7;
+
+interface AccessGrantFieldsProps {
+    role: ProjectRole;
+    onRoleChange: (role: ProjectRole) => void;
+    expiresInDays: number | null;
+    onExpiryChange: (days: number | null) => void;
+    disabled?: boolean;
+    testIdPrefix: string;
+}
+
+// The role and expiry that a share key or invite grants.
+const AccessGrantFields: React.FC<AccessGrantFieldsProps> = ({ role, onRoleChange, expiresInDays, onExpiryChange, disabled, testIdPrefix }) => {
+    const selectClasses = "flex-1 bg-base-100 border border-base-300 rounded-md py-1.5 px-2 text-sm disabled:opacity-50";
+    return (
+        <div>
+            <div className="flex items-center gap-2">
+                <select
+                    data-testid={`${testIdPrefix}-role-select`}
+                    value={role}
+                    onChange={(e) => onRoleChange(e.target.value as ProjectRole)}
+                    disabled={disabled}
+                    className={selectClasses}
+                    aria-label="Role"
+                >
+                    {GRANTABLE_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+                <select
+                    data-testid={`${testIdPrefix}-expiry-select`}
+                    value={expiresInDays ?? ''}
+                    onChange={(e) => onExpiryChange(e.target.value ? Number(e.target.value) : null)}
+                    disabled={disabled}
+                    className={selectClasses}
+                    aria-label="Expiry"
+                >
+                    {EXPIRY_OPTIONS.map(o => <option key={o.label} value={o.days ?? ''}>{o.label}</option>)}
+                </select>
+            </div>
+            <p className="text-xs text-neutral mt-1">{ROLE_DESCRIPTIONS[role]}</p>
+        </div>
+    );
+};
+
+export default AccessGrantFields;
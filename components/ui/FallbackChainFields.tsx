@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { AiModelChoice, AiProvider } from '../../types';
+import { AI_PROVIDERS, getProvider, getModelLabel } from '../../services/aiProviders';
+import { TrashIcon } from '../icons';
+
+interface FallbackChainFieldsProps {
+    chain: AiModelChoice[];
+    onChange: (chain: AiModelChoice[]) => void;
+}
+
+const defaultModelFor = (provider: AiProvider) => getProvider(provider).models[0]?.id ?? '';
+
+// The providers tried, in order, when the project's own provider keeps failing.
+const FallbackChainFields: React.FC<FallbackChainFieldsProps> = ({ chain, onChange }) => {
+    const [provider, setProvider] = useState<AiProvider>('gemini');
+    const [model, setModel] = useState(defaultModelFor('gemini'));
+    const models = getProvider(provider).models;
+
+    const handleProviderChange = (newProvider: AiProvider) => {
+        setProvider(newProvider);
+        setModel(defaultModelFor(newProvider));
+    };
+
+    const handleAdd = () => {
+        const choice: AiModelChoice = model.trim() ? { provider, model: model.trim() } : { provider };
+        if (chain.some(c => c.provider === choice.provider && c.model === choice.model)) return;
+        onChange([...chain, choice]);
+    };
+
+    const handleMoveUp = (index: number) => {
+        const next = [...chain];
+        [next[index - 1], next[index]] = [next[index], next[index - 1]];
+        onChange(next);
+    };
+
+    const selectClasses = "h-[38px] bg-base-100 border border-base-300 rounded-md px-2 text-base-content text-sm focus:outline-none focus:ring-2 focus:ring-primary";
+
+    return (
+        <div data-testid="godmode-fallback-chain">
+            {chain.length > 0 ? (
+                <ol className="space-y-1 mb-3">
+                    {chain.map((choice, index) => (
+                        <li key={`${choice.provider}-${choice.model || ''}`} className="flex items-center gap-2 bg-base-100 border border-base-300 rounded-md px-3 py-1.5 text-sm">
+                            <span className="text-neutral w-5">{index + 1}.</span>
+                            <span className="flex-grow text-base-content truncate">{getModelLabel(choice)}</span>
+                            <button
+                                onClick={() => handleMoveUp(index)}
+                                disabled={index === 0}
+                                className="px-1 text-neutral hover:text-base-content disabled:opacity-30"
+                                title="Try earlier"
+                            >
+                                ↑
+                            </button>
+                            <button
+                                data-testid={`godmode-fallback-remove-${index}`}
+                                onClick={() => onChange(chain.filter((_, i) => i !== index))}
+                                className="p-1 text-neutral hover:text-red-400"
+                                title="Remove"
+                            >
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+            ) : (
+                <p className="text-xs text-neutral/80 mb-3">No fallbacks. Calls fail once the project's provider has been retried.</p>
+            )}
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    data-testid="godmode-fallback-provider-select"
+                    value={provider}
+                    onChange={e => handleProviderChange(e.target.value as AiProvider)}
+                    className={selectClasses}
+                    aria-label="Fallback provider"
+                >
+                    {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                {models.length > 1 && (
+                    <select
+                        data-testid="godmode-fallback-model-select"
+                        value={model}
+                        onChange={e => setModel(e.target.value)}
+                        className={`${selectClasses} flex-1 min-w-0`}
+                        aria-label="Fallback model"
+                    >
+                        {models.map(opt => <option key={opt.id} value={opt.id}>{opt.name}</option>)}
+                    </select>
+                )}
+                {models.length === 0 && (
+                    <input
+                        type="text"
+                        data-testid="godmode-fallback-model-input"
+                        value={model}
+                        onChange={e => setModel(e.target.value)}
+                        placeholder="Blank uses your default model"
+                        className={`${selectClasses} flex-1 min-w-0`}
+                        aria-label="Fallback model"
+                    />
+                )}
+                <button
+                    data-testid="godmode-fallback-add-button"
+                    onClick={handleAdd}
+                    className="px-3 h-[38px] bg-base-300 hover:bg-opacity-80 rounded-md text-base-content text-sm font-semibold transition-colors"
+                >
+                    Add
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default FallbackChainFields;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { MIN_PASSPHRASE_LENGTH } from '../../utils/vault';
+
+interface NewPassphraseFieldsProps {
+    passphrase: string;
+    confirmation: string;
+    onPassphraseChange: (value: string) => void;
+    onConfirmationChange: (value: string) => void;
+    disabled?: boolean;
+    testIdPrefix: string;
+}
+
+// Why a new passphrase can't be used yet, or null when it can.
+export const getNewPassphraseError = (passphrase: string, confirmation: string): string | null => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) return `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+    if (passphrase !== confirmation) return "The passphrases don't match.";
+    return null;
+};
+
+const NewPassphraseFields: React.FC<NewPassphraseFieldsProps> = ({ passphrase, confirmation, onPassphraseChange, onConfirmationChange, disabled, testIdPrefix }) => {
+    const inputClasses = "w-full bg-base-100 border border-base-300 rounded-md py-2 px-3 text-sm text-base-content focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50";
+    return (
+        <div className="space-y-2">
+            <input
+                data-testid={`${testIdPrefix}-passphrase-input`}
+                type="password"
+                value={passphrase}
+                onChange={(e) => onPassphraseChange(e.target.value)}
+                placeholder={`New passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+                autoComplete="new-password"
+                disabled={disabled}
+                className={inputClasses}
+            />
+            <input
+                data-testid={`${testIdPrefix}-confirm-input`}
+                type="password"
+                value={confirmation}
+                onChange={(e) => onConfirmationChange(e.target.value)}
+                placeholder="Repeat the passphrase"
+                autoComplete="new-password"
+                disabled={disabled}
+                className={inputClasses}
+            />
+        </div>
+    );
+};
+
+export default NewPassphraseFields;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { useAlert } from '../../contexts/AlertContext';
+
+interface RecoveryCodeNoticeProps {
+    recoveryCode: string;
+    email: string | null;
+    onDone: () => void;
+}
+
+// Shown once, right after a vault gets a new recovery code. The code isn't stored anywhere, so this is the only
+// chance to keep it.
+const RecoveryCodeNotice: React.FC<RecoveryCodeNoticeProps> = ({ recoveryCode, email, onDone }) => {
+    const { showAlert } = useAlert();
+
+    const handleDownload = () => {
+        const kit = [
+            'ASAI API key vault recovery kit',
+            `Account: ${email || 'unknown'}`,
+            `Created: ${new Date().toISOString()}`,
+            '',
+            `Recovery code: ${recoveryCode}`,
+            '',
+            'Use this code with "Forgot your passphrase?" when unlocking the vault. Rotating the vault replaces it.',
+        ].join('\n');
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(new Blob([kit], { type: 'text/plain' }));
+        link.download = 'asai-key-vault-recovery.txt';
+        link.click();
+        URL.revokeObjectURL(link.href);
+    };
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(recoveryCode);
+            showAlert("Recovery code copied.", 'success');
+        } catch {
+            showAlert("Could not copy the recovery code. Please write it down instead.", 'error');
+        }
+    };
+
+    return (
+        <div data-testid="godmode-vault-recovery-notice" className="bg-yellow-500/10 border border-yellow-500/30 rounded-md p-3 space-y-2">
+            <p className="text-sm font-semibold text-base-content">Save your recovery code</p>
+            <p className="text-xs text-neutral">It unlocks your vault if you forget the passphrase. It won't be shown again.</p>
+            <p data-testid="godmode-vault-recovery-code" className="font-mono text-center text-base-content bg-base-100 rounded-md py-2 select-all">{recoveryCode}</p>
+            <div className="flex justify-end gap-2">
+                <button onClick={handleCopy} className="px-3 py-1 text-xs font-semibold rounded-md bg-base-300 hover:bg-opacity-80">Copy</button>
+                <button onClick={handleDownload} className="px-3 py-1 text-xs font-semibold rounded-md bg-base-300 hover:bg-opacity-80">Download recovery kit</button>
+                <button onClick={onDone} className="px-3 py-1 text-xs font-semibold rounded-md bg-primary text-white hover:opacity-90">I've saved it</button>
+            </div>
+        </div>
+    );
+};
+
+export default RecoveryCodeNotice;
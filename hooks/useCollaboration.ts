@@ -0,0 +1,283 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import firebase from '../services/firebase';
+import { CollaboratorPresence, FileNode, FileOperationRecord, User } from '../types';
+import { getOrCreateModel, isSyncingModel, syncModelContent, applyModelOperation } from '../utils/monaco';
+import { TextOperation, applyOperation, composeOperations, transformOperations, operationFromChanges, isNoop } from '../utils/ot';
+import {
+  INITIAL_EPOCH, submitFileOperation, streamFileOperations, saveFileCheckpoint, updatePresence, removePresence, streamPresence,
+} from '../services/firestoreService';
+
+export const COLLABORATOR_COLORS = ['#f97316', '#22c55e', '#3b82f6', '#ec4899', '#a855f7', '#eab308', '#14b8a6', '#ef4444'];
+
+const HEARTBEAT_MS = 20000;
+const PRESENCE_STALE_MS = 60000;
+const SELECTION_THROTTLE_MS = 150;
+const SEND_RETRY_MS = 2000;
+const SAVE_SYNC_TIMEOUT_MS = 10000;
+
+// A live session for one open file. It follows the client side of the usual OT protocol: at most one operation
+// is waiting for its place in the log, and edits made meanwhile are buffered into the next one.
+type FileSession = {
+  id: string; // Written as the operations' clientId, so the session recognises its own operations in the log.
+  path: string;
+  fileId: string;
+  epoch: string;
+  model: any;
+  revision: number;
+  confirmed: string; // The document at `revision`.
+  outstanding: TextOperation | null;
+  buffer: TextOperation | null;
+  sendingRevision: number | null;
+  idleWaiters: Array<() => void>;
+  isDisposed: boolean;
+  dispose: () => void;
+};
+
+const fileEpoch = (file: FileNode) => file.epoch || INITIAL_EPOCH;
+
+const colorIndexFor = (uid: string) => [...uid].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 0) % COLLABORATOR_COLORS.length;
+
+// Live co-editing for collaborative projects. Every open file is edited through an operation log in the project's
+// Firestore, so concurrent edits merge character by character, and saving stores the merged document instead of
+// one person's copy. Files that aren't open keep their saved content until someone saves.
+//
+// The project's file stream must be passed through `withLiveContent`, which keeps open files at their live
+// content rather than the last save.
+export const useCollaboration = (
+  projectId: string,
+  db: firebase.firestore.Firestore,
+  user: User,
+  monaco: any,
+  files: FileNode[],
+  openPaths: string[],
+  activePath: string | null,
+  onRemoteContent: (path: string, content: string) => void,
+  isEnabled: boolean
+) => {
+  const [clientId] = useState(() => crypto.randomUUID());
+  const [collaborators, setCollaborators] = useState<CollaboratorPresence[]>([]);
+  const [resetCount, setResetCount] = useState(0);
+  const sessionsRef = useRef<Map<string, FileSession>>(new Map());
+  const savedFilesRef = useRef<Map<string, FileNode>>(new Map());
+  const selectionRef = useRef<{ path: string; anchor: number; head: number } | null>(null);
+  const activePathRef = useRef(activePath);
+  activePathRef.current = activePath;
+  const onRemoteContentRef = useRef(onRemoteContent);
+  onRemoteContentRef.current = onRemoteContent;
+  const isLive = isEnabled && !!monaco;
+
+  const stopSession = useCallback((path: string) => {
+    const session = sessionsRef.current.get(path);
+    if (!session) return;
+    sessionsRef.current.delete(path);
+    session.isDisposed = true;
+    session.dispose();
+    session.idleWaiters.splice(0).forEach(resolve => resolve());
+  }, []);
+
+  // A session whose state no longer adds up is dropped and restarted from the saved content and the log.
+  const resetSession = useCallback((session: FileSession, error: unknown) => {
+    console.error(`Live editing of ${session.path} lost track of the document and is restarting:`, error);
+    stopSession(session.path);
+    setResetCount(count => count + 1);
+  }, [stopSession]);
+
+  const send = useCallback((session: FileSession) => {
+    if (!session.outstanding || session.sendingRevision !== null || session.isDisposed) return;
+    const revision = session.revision + 1;
+    const record: FileOperationRecord = { revision, operation: session.outstanding, clientId: session.id, uid: user.uid };
+    session.sendingRevision = revision;
+    submitFileOperation(projectId, session.fileId, session.epoch, record, db)
+      .then(isAccepted => {
+        if (session.sendingRevision !== revision) return; // Already acknowledged by the stream.
+        session.sendingRevision = null;
+        // Another client took the revision. Its operation arrives on the stream, which transforms ours and
+        // sends it again; if it already has, send now.
+        if (!isAccepted && session.revision >= revision) send(session);
+      })
+      .catch(err => {
+        console.error(`Failed to send an edit to ${session.path}:`, err);
+        if (session.sendingRevision !== revision) return;
+        session.sendingRevision = null;
+        setTimeout(() => send(session), SEND_RETRY_MS);
+      });
+  }, [projectId, db, user.uid]);
+
+  const receive = useCallback((session: FileSession, records: FileOperationRecord[]) => {
+    if (session.isDisposed) return;
+    let hasRemoteEdits = false;
+    try {
+      records.forEach(record => {
+        if (record.revision !== session.revision + 1) return;
+        if (record.clientId === session.id && session.outstanding) {
+          session.confirmed = applyOperation(session.confirmed, session.outstanding);
+          session.revision = record.revision;
+          if (session.sendingRevision === record.revision) session.sendingRevision = null;
+          session.outstanding = session.buffer;
+          session.buffer = null;
+          return;
+        }
+        let operation = record.operation;
+        session.confirmed = applyOperation(session.confirmed, operation);
+        if (session.outstanding) [session.outstanding, operation] = transformOperations(session.outstanding, operation);
+        if (session.buffer) [session.buffer, operation] = transformOperations(session.buffer, operation);
+        session.revision = record.revision;
+        applyModelOperation(session.model, operation);
+        hasRemoteEdits = true;
+      });
+    } catch (err) {
+      resetSession(session, err);
+      return;
+    }
+    if (hasRemoteEdits) onRemoteContentRef.current(session.path, session.model.getValue());
+    if (session.outstanding) send(session);
+    else session.idleWaiters.splice(0).forEach(resolve => resolve());
+  }, [send, resetSession]);
+
+  const startSession = useCallback((file: FileNode) => {
+    const saved = savedFilesRef.current.get(file.id);
+    const start = saved && saved.path === file.path && fileEpoch(saved) === fileEpoch(file) ? saved : file;
+    const content = start.content || '';
+    const model = getOrCreateModel(monaco, file.path, content);
+    syncModelContent(model, content);
+    if (file.content !== content) onRemoteContentRef.current(file.path, content);
+
+    const session: FileSession = {
+      id: crypto.randomUUID(),
+      path: file.path,
+      fileId: file.id,
+      epoch: fileEpoch(file),
+      model,
+      revision: start.revision || 0,
+      confirmed: content,
+      outstanding: null,
+      buffer: null,
+      sendingRevision: null,
+      idleWaiters: [],
+      isDisposed: false,
+      dispose: () => {},
+    };
+
+    const subscriptions = [
+      model.onDidChangeContent((e: any) => {
+        // Remote edits and content replaced from outside the editor aren't the user's edits.
+        if (isSyncingModel(model) || session.isDisposed) return;
+        const lengthBefore = model.getValueLength() - e.changes.reduce((sum: number, c: any) => sum + c.text.length - c.rangeLength, 0);
+        const operation = operationFromChanges(lengthBefore, e.changes);
+        if (isNoop(operation)) return;
+        try {
+          if (session.outstanding) {
+            session.buffer = session.buffer ? composeOperations(session.buffer, operation) : operation;
+          } else {
+            session.outstanding = operation;
+            send(session);
+          }
+        } catch (err) {
+          resetSession(session, err);
+        }
+      }),
+      model.onWillDispose(() => stopSession(session.path)),
+    ];
+    const unsubscribe = streamFileOperations(projectId, file.id, session.epoch, session.revision, records => receive(session, records), db);
+    session.dispose = () => {
+      unsubscribe();
+      subscriptions.forEach(s => s.dispose());
+    };
+    sessionsRef.current.set(file.path, session);
+  }, [monaco, projectId, db, send, receive, stopSession, resetSession]);
+
+  // Open files get a session; closed, deleted, moved and replaced files lose theirs.
+  useEffect(() => {
+    if (!isLive) return;
+    const sessions = sessionsRef.current;
+    const open = new Set(openPaths);
+    [...sessions.values()].forEach(session => {
+      const file = files.find(f => f.path === session.path);
+      if (!open.has(session.path) || !file || file.id !== session.fileId || fileEpoch(file) !== session.epoch) stopSession(session.path);
+    });
+    openPaths.forEach(path => {
+      const file = files.find(f => f.path === path && f.type === 'file');
+      if (file && !sessions.has(path)) startSession(file);
+    });
+  }, [isLive, files, openPaths, resetCount, startSession, stopSession]);
+
+  useEffect(() => {
+    if (!isLive) return;
+    const sessions = sessionsRef.current;
+    return () => [...sessions.keys()].forEach(stopSession);
+  }, [isLive, stopSession]);
+
+  // Files in the stream carry their saved content; open files are shown at their live content instead.
+  const withLiveContent = useCallback((streamed: FileNode[]): FileNode[] => {
+    savedFilesRef.current = new Map(streamed.map(f => [f.id, f]));
+    return streamed.map(file => {
+      const session = sessionsRef.current.get(file.path);
+      if (!session || session.fileId !== file.id || session.epoch !== fileEpoch(file)) return file;
+      return { ...file, content: session.model.getValue() };
+    });
+  }, []);
+
+  // Saves the merged document once the user's own edits are in the log. Returns the saved content, or null if the
+  // file has no live session and should be saved the usual way.
+  const saveFile = useCallback(async (path: string): Promise<string | null> => {
+    const session = sessionsRef.current.get(path);
+    if (!session) return null;
+    if (session.outstanding) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('Your latest edits have not reached the server yet. Check your connection and try again.')), SAVE_SYNC_TIMEOUT_MS);
+        session.idleWaiters.push(() => { clearTimeout(timer); resolve(); });
+      });
+    }
+    if (session.isDisposed) throw new Error('The file was changed elsewhere while saving.');
+    await saveFileCheckpoint(projectId, session.fileId, session.epoch, session.revision, session.confirmed, db);
+    return session.confirmed;
+  }, [projectId, db]);
+
+  const publishPresence = useCallback(() => {
+    const selection = selectionRef.current && selectionRef.current.path === activePathRef.current ? selectionRef.current : null;
+    updatePresence(projectId, {
+      clientId,
+      uid: user.uid,
+      displayName: user.displayName || user.email,
+      photoURL: user.photoURL,
+      colorIndex: colorIndexFor(user.uid),
+      filePath: activePathRef.current,
+      selection: selection && { anchor: selection.anchor, head: selection.head },
+    }, db).catch(err => console.error("Failed to update presence:", err));
+  }, [projectId, db, clientId, user.uid, user.displayName, user.email, user.photoURL]);
+
+  useEffect(() => {
+    if (!isEnabled) {
+      setCollaborators([]);
+      return;
+    }
+    const unsubscribe = streamPresence(projectId, PRESENCE_STALE_MS, presence => setCollaborators(presence.filter(p => p.clientId !== clientId)), db);
+    const heartbeat = setInterval(publishPresence, HEARTBEAT_MS);
+    const leave = () => { removePresence(projectId, clientId, db).catch(() => {}); };
+    window.addEventListener('beforeunload', leave);
+    return () => {
+      unsubscribe();
+      clearInterval(heartbeat);
+      window.removeEventListener('beforeunload', leave);
+      leave();
+    };
+  }, [isEnabled, projectId, db, clientId, publishPresence]);
+
+  useEffect(() => {
+    if (isEnabled) publishPresence();
+  }, [isEnabled, activePath, publishPresence]);
+
+  const selectionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const updateSelection = useCallback((path: string, anchor: number, head: number) => {
+    selectionRef.current = { path, anchor, head };
+    if (!isEnabled || selectionTimerRef.current) return;
+    selectionTimerRef.current = setTimeout(() => {
+      selectionTimerRef.current = null;
+      publishPresence();
+    }, SELECTION_THROTTLE_MS);
+  }, [isEnabled, publishPresence]);
+
+  useEffect(() => () => { if (selectionTimerRef.current) clearTimeout(selectionTimerRef.current); }, []);
+
+  return { collaborators, withLiveContent, saveFile, updateSelection };
+};
@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react';
+import { FileNode } from '../types';
+
+export type EditorPane = {
+  tabs: string[];
+  activePath: string | null;
+};
+
+type TabsState = {
+  panes: EditorPane[]; // One pane, or two when the editor is split side by side.
+  focusedPane: number;
+};
+
+const MAX_PANES = 2;
+
+const withoutTab = (pane: EditorPane, path: string): EditorPane => {
+  const index = pane.tabs.indexOf(path);
+  if (index === -1) return pane;
+  const tabs = pane.tabs.filter(p => p !== path);
+  // Closing the active tab activates its neighbour, as most editors do.
+  const activePath = pane.activePath === path ? tabs[Math.min(index, tabs.length - 1)] ?? null : pane.activePath;
+  return { tabs, activePath };
+};
+
+// Drops panes left without tabs, keeping at least one, and keeps the focus on a pane that still exists.
+const normalize = (panes: EditorPane[], focusedPane: number): TabsState => {
+  const remaining = panes.filter(p => p.tabs.length > 0);
+  if (remaining.length === 0) return { panes: [{ tabs: [], activePath: null }], focusedPane: 0 };
+  const focused = panes[focusedPane];
+  const index = focused ? remaining.indexOf(focused) : -1;
+  return { panes: remaining, focusedPane: index === -1 ? remaining.length - 1 : index };
+};
+
+// Maps a path through a rename of `from` to `to`, which may be a folder containing it.
+const renamedPath = (path: string, from: string, to: string) => {
+  if (path === from) return to;
+  return path.startsWith(`${from}/`) ? `${to}${path.slice(from.length)}` : path;
+};
+
+// Open editor tabs and split panes. The focused pane's active tab is the "selected file" the rest of the
+// editor works with. Tabs for files that no longer exist (deleted locally, by the AI or by a collaborator)
+// are closed automatically.
+export const useEditorTabs = (files: FileNode[]) => {
+  const [state, setState] = useState<TabsState>({ panes: [{ tabs: [], activePath: null }], focusedPane: 0 });
+
+  const open = useCallback((path: string, paneIndex?: number) => {
+    setState(prev => {
+      const target = paneIndex ?? prev.focusedPane;
+      const panes = prev.panes.map((pane, i) => i !== target ? pane : {
+        tabs: pane.tabs.includes(path) ? pane.tabs : [...pane.tabs, path],
+        activePath: path,
+      });
+      return { panes, focusedPane: target };
+    });
+  }, []);
+
+  const close = useCallback((path: string, paneIndex: number) => {
+    setState(prev => normalize(prev.panes.map((pane, i) => i === paneIndex ? withoutTab(pane, path) : pane), prev.focusedPane));
+  }, []);
+
+  const focus = useCallback((paneIndex: number) => {
+    setState(prev => prev.focusedPane === paneIndex ? prev : { ...prev, focusedPane: paneIndex });
+  }, []);
+
+  // Opens the focused pane's file in a new pane to its right.
+  const split = useCallback(() => {
+    setState(prev => {
+      const activePath = prev.panes[prev.focusedPane]?.activePath;
+      if (prev.panes.length >= MAX_PANES || !activePath) return prev;
+      return { panes: [...prev.panes, { tabs: [activePath], activePath }], focusedPane: prev.panes.length };
+    });
+  }, []);
+
+  const closePane = useCallback((paneIndex: number) => {
+    setState(prev => normalize(prev.panes.filter((_, i) => i !== paneIndex), Math.max(0, prev.focusedPane - (prev.focusedPane >= paneIndex ? 1 : 0))));
+  }, []);
+
+  const rename = useCallback((from: string, to: string) => {
+    setState(prev => ({
+      ...prev,
+      panes: prev.panes.map(pane => ({
+        tabs: pane.tabs.map(p => renamedPath(p, from, to)),
+        activePath: pane.activePath && renamedPath(pane.activePath, from, to),
+      })),
+    }));
+  }, []);
+
+  useEffect(() => {
+    const existing = new Set(files.filter(f => f.type === 'file').map(f => f.path));
+    setState(prev => {
+      const stale = prev.panes.some(pane => pane.tabs.some(p => !existing.has(p)));
+      if (!stale) return prev;
+      const panes = prev.panes.map(pane => pane.tabs.filter(p => !existing.has(p)).reduce(withoutTab, pane));
+      return normalize(panes, prev.focusedPane);
+    });
+  }, [files]);
+
+  const activePath = state.panes[state.focusedPane]?.activePath ?? null;
+
+  return { panes: state.panes, focusedPane: state.focusedPane, activePath, open, close, focus, split, closePane, rename };
+};
@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AiChanges, FileNode, GitCommitInfo, GitFileStatus, ProjectGitConfig } from '../types';
+import {
+  openRepository, resetRepository, isRepositoryInitialized, connectRepository, getWorkingTreeStatus,
+  getLastCommit, commitChanges, pushToRemote, pullFromRemote, GitAuth, GitAuthor,
+} from '../services/gitService';
+
+export type GitAction = 'connect' | 'status' | 'commit' | 'push' | 'pull';
+
+// Status rewrites the whole working tree, so edits refresh it once typing pauses rather than on every keystroke.
+const STATUS_REFRESH_DELAY_MS = 750;
+
+// Git state for the open project. Status is only computed while `isActive` (the Git panel is open), since it
+// rewrites the repository's working tree. A project whose repository isn't in this browser yet, e.g. one
+// cloned on another machine, is fetched from its remote on first use.
+export const useGitRepository = (projectId: string, config: ProjectGitConfig | null | undefined, files: FileNode[], auth: GitAuth, author: GitAuthor, isActive: boolean) => {
+  const [status, setStatus] = useState<GitFileStatus[]>([]);
+  const [lastCommit, setLastCommit] = useState<GitCommitInfo | null>(null);
+  const [busyAction, setBusyAction] = useState<GitAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const filesRef = useRef(files);
+  filesRef.current = files;
+  // Every operation works on the same working tree, so they run one at a time, in the order they were asked for.
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  const run = useCallback(<T,>(action: GitAction, task: () => Promise<T>): Promise<T> => {
+    const result = queueRef.current.then(async () => {
+      setBusyAction(action);
+      setError(null);
+      try {
+        return await task();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+        throw err;
+      } finally {
+        setBusyAction(null);
+      }
+    });
+    queueRef.current = result.catch(() => undefined);
+    return result;
+  }, []);
+
+  const ensureRepository = useCallback(async () => {
+    if (!config) throw new Error('This project is not connected to a Git remote.');
+    const repo = openRepository(projectId);
+    if (!(await isRepositoryInitialized(repo))) await connectRepository(repo, config, auth);
+    return repo;
+  }, [projectId, config, auth]);
+
+  const refresh = useCallback(() => run('status', async () => {
+    const repo = await ensureRepository();
+    setStatus(await getWorkingTreeStatus(repo, filesRef.current));
+    setLastCommit(await getLastCommit(repo));
+  }), [run, ensureRepository]);
+
+  // Returns the config to save on the project, with the branch resolved to the remote's default if none was given.
+  const connect = useCallback((next: Omit<ProjectGitConfig, 'branch'> & { branch?: string }) => run('connect', async () => {
+    const repo = config && config.remoteUrl === next.remoteUrl ? openRepository(projectId) : resetRepository(projectId);
+    const branch = await connectRepository(repo, next, auth);
+    setStatus(await getWorkingTreeStatus(repo, filesRef.current));
+    setLastCommit(await getLastCommit(repo));
+    return { ...next, branch } as ProjectGitConfig;
+  }), [run, projectId, config, auth]);
+
+  const commit = useCallback((message: string) => run('commit', async () => {
+    const repo = await ensureRepository();
+    const oid = await commitChanges(repo, filesRef.current, message, author);
+    setStatus(await getWorkingTreeStatus(repo, filesRef.current));
+    setLastCommit(await getLastCommit(repo));
+    return oid;
+  }), [run, ensureRepository, author]);
+
+  const push = useCallback(() => run('push', async () => {
+    const repo = await ensureRepository();
+    await pushToRemote(repo, config!, auth);
+  }), [run, ensureRepository, config, auth]);
+
+  // Returns the changes the caller should write to the project's files.
+  const pull = useCallback(() => run('pull', async (): Promise<AiChanges> => {
+    const repo = await ensureRepository();
+    const changes = await pullFromRemote(repo, config!, filesRef.current, auth, author);
+    setLastCommit(await getLastCommit(repo));
+    return changes;
+  }), [run, ensureRepository, config, auth, author]);
+
+  useEffect(() => {
+    if (!isActive || !config) return;
+    const timer = setTimeout(() => {
+      refresh().catch(() => { /* Surfaced through `error`. */ });
+    }, STATUS_REFRESH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isActive, config, files, refresh]);
+
+  return { status, lastCommit, busyAction, error, refresh, connect, commit, push, pull };
+};
@@ -0,0 +1,78 @@
+import { useState, useEffect, useRef } from 'react';
+import { FileNode, ProjectProblem } from '../types';
+import { loadMonaco } from '../utils/monaco';
+import {
+  configureTypeScript, applyCompilerOptions, applyDependencyDeclarations, syncProjectModels, collectProblems,
+} from '../services/languageService';
+
+// Loads Monaco and keeps the TypeScript worker in step with the project's files. Returns the Monaco instance the
+// editor renders with and the project's current problems. Definitions in other project files are opened through
+// `onOpenLocation`, since the standalone editor can't switch files by itself.
+export const useLanguageService = (
+  files: FileNode[],
+  openPaths: string[],
+  onOpenLocation: (path: string, line: number, column: number) => void,
+  isEnabled: boolean
+) => {
+  const [monaco, setMonaco] = useState<any>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [typedPackages, setTypedPackages] = useState<Set<string>>(new Set());
+  const [problems, setProblems] = useState<ProjectProblem[]>([]);
+  const syncedRef = useRef<Map<string, string>>(new Map());
+  const onOpenLocationRef = useRef(onOpenLocation);
+  onOpenLocationRef.current = onOpenLocation;
+
+  useEffect(() => {
+    if (!isEnabled) return;
+    let isMounted = true;
+    loadMonaco()
+      .then(m => {
+        if (!isMounted) return;
+        setMonaco(m);
+        configureTypeScript(m).then(typed => { if (isMounted) setTypedPackages(typed); });
+      })
+      .catch(err => { if (isMounted) setLoadError(err instanceof Error ? err.message : String(err)); });
+    return () => { isMounted = false; };
+  }, [isEnabled]);
+
+  useEffect(() => {
+    if (!monaco) return;
+    applyCompilerOptions(monaco, files);
+    applyDependencyDeclarations(monaco, files, typedPackages);
+    syncProjectModels(monaco, files, new Set(openPaths), syncedRef.current);
+  }, [monaco, files, openPaths, typedPackages]);
+
+  useEffect(() => {
+    if (!monaco) return;
+    setProblems(collectProblems(monaco));
+    const subscription = monaco.editor.onDidChangeMarkers(() => setProblems(collectProblems(monaco)));
+    return () => subscription.dispose();
+  }, [monaco]);
+
+  useEffect(() => {
+    if (!monaco) return;
+    const opener = monaco.editor.registerEditorOpener({
+      openCodeEditor: (_source: any, resource: any, selectionOrPosition?: any) => {
+        const path: string = resource.path.slice(1);
+        if (path.startsWith('node_modules/')) return false;
+        const line = selectionOrPosition?.startLineNumber ?? selectionOrPosition?.lineNumber ?? 1;
+        const column = selectionOrPosition?.startColumn ?? selectionOrPosition?.column ?? 1;
+        onOpenLocationRef.current(path, line, column);
+        return true;
+      },
+    });
+    return () => opener.dispose();
+  }, [monaco]);
+
+  // Models outlive the editor, so they are cleared when the project closes.
+  useEffect(() => {
+    if (!monaco) return;
+    const synced = syncedRef.current;
+    return () => {
+      monaco.editor.getModels().forEach((model: any) => model.dispose());
+      synced.clear();
+    };
+  }, [monaco]);
+
+  return { monaco, loadError, problems };
+};
@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback } from 'react';
+import { HistoryEntry } from '../types';
+import { mergeHistoryEntries, isStateEqual } from '../utils/history';
+
+const MAX_HISTORY_ENTRIES = 100;
+
+type HistoryChange = Pick<HistoryEntry, 'before' | 'after'>;
+
+// An undoable unit being built up, such as an AI run. Only changes recorded through it join it, so the user's own
+// edits made while it's open stay separate entries.
+export type HistoryGroup = {
+  record: (change: HistoryChange) => void;
+  end: () => void;
+};
+
+type HistoryState = {
+  storageKey: string;
+  entries: HistoryEntry[];
+  index: number; // Number of entries currently applied; entries at or after this index can be redone.
+};
+
+const loadHistory = (storageKey: string): HistoryState => {
+  try {
+    const saved = sessionStorage.getItem(storageKey);
+    if (saved) {
+      const { entries, index } = JSON.parse(saved);
+      return { storageKey, entries, index };
+    }
+  } catch (e) {
+    console.warn("Could not read undo history from sessionStorage", e);
+  }
+  return { storageKey, entries: [], index: 0 };
+};
+
+const saveHistory = (storageKey: string, state: HistoryState) => {
+  let entries = state.entries;
+  let index = state.index;
+  // Drop the oldest entries until the log fits in sessionStorage.
+  while (entries.length > 0) {
+    try {
+      sessionStorage.setItem(storageKey, JSON.stringify({ entries, index }));
+      return;
+    } catch (e) {
+      entries = entries.slice(1);
+      index = Math.max(0, index - 1);
+    }
+  }
+  sessionStorage.removeItem(storageKey);
+};
+
+// Removes paths whose state did not change, so no-op operations never reach the log.
+const withoutUnchangedPaths = (entry: HistoryEntry): HistoryEntry => {
+  const before: HistoryEntry['before'] = {};
+  const after: HistoryEntry['after'] = {};
+  Object.keys(entry.after).forEach(path => {
+    const previous = entry.before[path] ?? null;
+    if (!isStateEqual(previous, entry.after[path])) {
+      before[path] = previous;
+      after[path] = entry.after[path];
+    }
+  });
+  return { ...entry, before, after };
+};
+
+// A project-level operation log kept in sessionStorage, so it survives a reload within the same browser session.
+export const useProjectHistory = (projectId: string) => {
+  const storageKey = `asai_history_${projectId}`;
+  const [state, setState] = useState<HistoryState>(() => loadHistory(storageKey));
+
+  if (state.storageKey !== storageKey) {
+    // Switched projects: swap in the other project's log before anything is saved under the new key.
+    setState(loadHistory(storageKey));
+  }
+
+  useEffect(() => {
+    if (state.storageKey === storageKey) {
+      saveHistory(storageKey, state);
+    }
+  }, [storageKey, state]);
+
+  // Entries only go into the log of the project they were made in, even if the user has switched since.
+  const push = useCallback((entryStorageKey: string, entry: HistoryEntry) => {
+    const cleaned = withoutUnchangedPaths(entry);
+    if (Object.keys(cleaned.after).length === 0) return;
+    setState(prev => {
+      if (prev.storageKey !== entryStorageKey) return prev;
+      const entries = [...prev.entries.slice(0, prev.index), cleaned].slice(-MAX_HISTORY_ENTRIES);
+      return { ...prev, entries, index: entries.length };
+    });
+  }, []);
+
+  const record = useCallback((label: string, source: HistoryEntry['source'], change: HistoryChange) => {
+    push(storageKey, { id: crypto.randomUUID(), label, source, timestamp: Date.now(), ...change });
+  }, [push, storageKey]);
+
+  // Everything recorded through the returned group becomes one undoable unit once it ends. A change that lands
+  // after that, such as a step finishing after the run was stopped, gets an entry of its own.
+  const beginGroup = useCallback((label: string, source: HistoryEntry['source'] = 'ai'): HistoryGroup => {
+    let entry: HistoryEntry | null = { id: crypto.randomUUID(), label, source, timestamp: Date.now(), before: {}, after: {} };
+    return {
+      record: change => {
+        if (entry) {
+          entry = mergeHistoryEntries(entry, change);
+        } else {
+          push(storageKey, { id: crypto.randomUUID(), label, source, timestamp: Date.now(), ...change });
+        }
+      },
+      end: () => {
+        if (entry) push(storageKey, entry);
+        entry = null;
+      },
+    };
+  }, [push, storageKey]);
+
+  const markUndone = useCallback(() => {
+    setState(prev => ({ ...prev, index: Math.max(0, prev.index - 1) }));
+  }, []);
+
+  const markRedone = useCallback(() => {
+    setState(prev => ({ ...prev, index: Math.min(prev.entries.length, prev.index + 1) }));
+  }, []);
+
+  return {
+    undoEntry: state.index > 0 ? state.entries[state.index - 1] : null,
+    redoEntry: state.index < state.entries.length ? state.entries[state.index] : null,
+    record,
+    beginGroup,
+    markUndone,
+    markRedone,
+  };
+};
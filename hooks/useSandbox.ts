@@ -0,0 +1,141 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { FileNode, ApiConfig, TerminalOutput } from '../types';
+import { startSandbox, projectFilesForSandbox, SandboxSession } from '../services/sandboxService';
+
+const MAX_OUTPUT_ENTRIES = 1000;
+
+export type SandboxStatus = 'idle' | 'starting' | 'ready' | 'error';
+
+// Owns the sandbox behind the terminal. The sandbox is only started once `isActive` is first true, so
+// opening a project doesn't spend E2B time, and saved file changes are copied into it while it runs. Files
+// deleted, renamed or moved in the project are removed from their old paths too.
+// Paths in `unsavedPaths` are held back until they are saved, so typing doesn't upload on every keystroke.
+export const useSandbox = (files: FileNode[], unsavedPaths: Set<string>, apiConfig: ApiConfig, isActive: boolean) => {
+  const [status, setStatus] = useState<SandboxStatus>('idle');
+  const [output, setOutput] = useState<TerminalOutput[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const sessionRef = useRef<SandboxSession | null>(null);
+  const syncedContentRef = useRef<Map<string, string>>(new Map());
+  const filesRef = useRef(files);
+  filesRef.current = files;
+
+  const appendOutput = useCallback((stream: NonNullable<TerminalOutput['stream']>, data: string) => {
+    if (!data) return;
+    setOutput(prev => {
+      const last = prev[prev.length - 1];
+      // Consecutive chunks from the same stream are joined, so lines split across chunks render intact.
+      if (last && last.stream === stream && (stream === 'stdout' || stream === 'stderr')) {
+        return [...prev.slice(0, -1), { ...last, data: last.data + data }];
+      }
+      return [...prev, { id: crypto.randomUUID(), timestamp: Date.now(), data, stream }].slice(-MAX_OUTPUT_ENTRIES);
+    });
+  }, []);
+
+  // Bumped whenever the current session is discarded, so a start that finishes afterwards knows it is stale.
+  const generationRef = useRef(0);
+  const e2bKey = apiConfig.e2b;
+
+  useEffect(() => {
+    if (!isActive || status !== 'idle') return;
+    const generation = ++generationRef.current;
+    setStatus('starting');
+    appendOutput('system', e2bKey ? 'Starting E2B sandbox...\n' : 'Starting local sandbox. Add an E2B key in your API key settings for a full Linux environment.\n');
+
+    startSandbox(filesRef.current, apiConfig)
+      .then(session => {
+        if (generation !== generationRef.current) {
+          session.stop().catch(() => {});
+          return;
+        }
+        sessionRef.current = session;
+        syncedContentRef.current = new Map(projectFilesForSandbox(filesRef.current).map(f => [f.path, f.content]));
+        setStatus('ready');
+        appendOutput('system', 'Sandbox ready. Project files are in the working directory. Type "help" to get started.\n');
+      })
+      .catch(error => {
+        if (generation !== generationRef.current) return;
+        setStatus('error');
+        appendOutput('stderr', `Failed to start the sandbox: ${error instanceof Error ? error.message : String(error)}\n`);
+      });
+  }, [isActive, status, e2bKey, apiConfig, appendOutput]);
+
+  const stopSession = useCallback(() => {
+    generationRef.current++;
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    session?.stop().catch(error => console.warn('Could not stop the sandbox.', error));
+  }, []);
+
+  // A different E2B key means a different sandbox.
+  const previousKeyRef = useRef(e2bKey);
+  useEffect(() => {
+    if (previousKeyRef.current === e2bKey) return;
+    previousKeyRef.current = e2bKey;
+    stopSession();
+    setStatus('idle');
+  }, [e2bKey, stopSession]);
+
+  useEffect(() => stopSession, [stopSession]);
+
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (status !== 'ready' || !session) return;
+    const current = projectFilesForSandbox(files);
+    const currentPaths = new Set(current.map(f => f.path));
+    const removed = [...syncedContentRef.current].filter(([path]) => !currentPaths.has(path));
+    const changed = current.filter(f => !unsavedPaths.has(f.path) && syncedContentRef.current.get(f.path) !== f.content);
+
+    if (removed.length > 0) {
+      removed.forEach(([path]) => syncedContentRef.current.delete(path));
+      session.removeFiles(removed.map(([path]) => path)).catch(error => {
+        // Tried again on the next sync, unless the file has come back since.
+        removed.forEach(([path, content]) => {
+          if (!syncedContentRef.current.has(path)) syncedContentRef.current.set(path, content);
+        });
+        appendOutput('stderr', `Could not remove deleted files from the sandbox: ${error instanceof Error ? error.message : String(error)}\n`);
+      });
+    }
+    if (changed.length === 0) return;
+    changed.forEach(f => syncedContentRef.current.set(f.path, f.content));
+    session.writeFiles(changed).catch(error => {
+      changed.forEach(f => syncedContentRef.current.delete(f.path));
+      appendOutput('stderr', `Could not copy file changes into the sandbox: ${error instanceof Error ? error.message : String(error)}\n`);
+    });
+  }, [files, unsavedPaths, status, appendOutput]);
+
+  const runCommand = useCallback(async (command: string) => {
+    if (command === 'clear') {
+      setOutput([]);
+      return;
+    }
+    const session = sessionRef.current;
+    if (!session) return;
+    appendOutput('command', command);
+    setIsRunning(true);
+    try {
+      const { exitCode } = await session.exec(command, {
+        onStdout: data => appendOutput('stdout', data),
+        onStderr: data => appendOutput('stderr', data),
+      });
+      if (exitCode !== 0) appendOutput('system', `Exited with code ${exitCode}\n`);
+    } catch (error) {
+      appendOutput('stderr', `${error instanceof Error ? error.message : String(error)}\n`);
+    } finally {
+      setIsRunning(false);
+    }
+  }, [appendOutput]);
+
+  const restart = useCallback(() => {
+    stopSession();
+    setOutput([]);
+    setStatus('idle');
+  }, [stopSession]);
+
+  return {
+    status,
+    output,
+    isReady: status === 'ready' && !isRunning,
+    runCommand,
+    restart,
+  };
+};
@@ -1,20 +1,22 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 // FIX: Import admin-related types to support the new feature.
-import { User, Project, ApiConfig, AiProvider, ApiPoolConfig, ApiPoolKey, AdminUser, UserUsageStats, AdminSettings, AdminStats, PlatformError } from '../types';
+import { User, Project, ApiConfig, AiProvider, ProjectGitConfig, ApiPoolConfig, ApiPoolKey, AdminUser, UserUsageStats, AdminSettings, AdminStats, PlatformError } from '../types';
 // FIX: Import firestore functions for admin panel and usage stats.
-import { getUserProjects, saveApiPoolConfig, addApiPoolKey, deleteApiPoolKey, joinProjectByShareKey, getCollectionCount, getAllUsers, getUserFileStats, updateUserTokenBalance, getAdminSettings, saveAdminSettings, getPlatformErrors, acceptInvite } from '../services/firestoreService';
+import { getUserProjects, saveApiPoolConfig, addApiPoolKey, deleteApiPoolKey, setApiPoolKeyDisabled, getApiPoolKeys, apiKeyPool, joinProjectByShareKey, getCollectionCount, getAllUsers, getUserFileStats, updateUserTokenBalance, getAdminSettings, saveAdminSettings, getPlatformErrors, acceptInvite } from '../services/firestoreService';
 import Spinner, { AiTypingIndicator } from '../components/ui/Spinner';
-import { CodeIcon, KeyIcon, RocketIcon, UserIcon, SettingsIcon, UsersIcon, ReactIcon, FileIcon, DatabaseIcon, InformationCircleIcon, TokenIcon, UploadIcon } from '../components/icons';
+import { CodeIcon, KeyIcon, RocketIcon, UserIcon, SettingsIcon, UsersIcon, ReactIcon, FileIcon, DatabaseIcon, InformationCircleIcon, TokenIcon, UploadIcon, GitBranchIcon } from '../components/icons';
 import ApiKeyModal from '../components/ApiKeyModal';
 import ProfileSettingsModal from '../components/ProfileSettingsModal';
 // FIX: Import the new AdminPanelModal.
 import AdminPanelModal from '../components/AdminPanelModal';
 import { auth } from '../services/firebase';
 import { formatTokens } from '../utils/formatters';
+import { DEFAULT_DAILY_TOKEN_REWARD } from '../services/aiProviders';
 import ThemeToggle from '../components/ThemeToggle';
 import { useAlert } from '../contexts/AlertContext';
 import NewProjectBuilder from '../components/NewProjectBuilder';
 import ProjectUploadBuilder from '../components/ProjectUploadBuilder';
+import GitCloneBuilder from '../components/GitCloneBuilder';
 
 
 interface DashboardProps {
@@ -22,6 +24,7 @@ interface DashboardProps {
     onSelectProject: (projectId: string) => void;
     onStartBuilding: (prompt: string, provider?: AiProvider, model?: string) => void;
     onStartBuildingFromUpload: (projectName: string, files: Record<string, string | null>, provider: AiProvider, model?: string) => void;
+    onStartBuildingFromGit: (projectName: string, remote: Omit<ProjectGitConfig, 'branch'> & { branch?: string }, provider: AiProvider, model?: string) => void;
     apiConfig: ApiConfig;
     onApiConfigChange: (config: ApiConfig) => void;
     // FIX: Add props for admin functionality.
@@ -75,6 +78,7 @@ const DashboardPage: React.FC<DashboardProps> = ({
     onSelectProject, 
     onStartBuilding, 
     onStartBuildingFromUpload,
+    onStartBuildingFromGit,
     apiConfig, 
     onApiConfigChange,
     apiPoolConfig,
@@ -93,11 +97,11 @@ const DashboardPage: React.FC<DashboardProps> = ({
     const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
     const [adminStats, setAdminStats] = useState<AdminStats | null>(null);
     const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
-    const [adminSettings, setAdminSettings] = useState<AdminSettings>({ dailyTokenReward: 1000000 });
+    const [adminSettings, setAdminSettings] = useState<AdminSettings>({ dailyTokenReward: DEFAULT_DAILY_TOKEN_REWARD });
     const [platformErrors, setPlatformErrors] = useState<PlatformError[]>([]);
     const [usageStats, setUsageStats] = useState<UserUsageStats | null>(null);
     const [apiCallCount, setApiCallCount] = useState<number>(0);
-    const [creationMode, setCreationMode] = useState<'ai' | 'upload'>('ai');
+    const [creationMode, setCreationMode] = useState<'ai' | 'upload' | 'git'>('ai');
     const { showAlert } = useAlert();
     
     const userMenuRef = useRef<HTMLDivElement>(null);
@@ -149,6 +153,11 @@ const DashboardPage: React.FC<DashboardProps> = ({
         onStartBuildingFromUpload(projectName, files, provider, model);
     };
 
+    const handleClone = async (projectName: string, remote: Omit<ProjectGitConfig, 'branch'> & { branch?: string }, provider: AiProvider, model?: string) => {
+        setIsCreating(true);
+        onStartBuildingFromGit(projectName, remote, provider, model);
+    };
+
     const handleJoinProject = async (key: string) => {
         try {
             // First, try to join as a real-time collaborator via invite code
@@ -174,13 +183,15 @@ const DashboardPage: React.FC<DashboardProps> = ({
       setAdminStats(null);
       setPlatformErrors([]);
       try {
-        const [userCount, projectCount, users, settings, errors] = await Promise.all([
+        const [userCount, projectCount, users, settings, errors, poolKeys] = await Promise.all([
           getCollectionCount('users'),
           getCollectionCount('projects'),
           getAllUsers(),
           getAdminSettings(),
           getPlatformErrors(),
+          getApiPoolKeys(), // Fresh health and usage numbers for the pooled keys
         ]);
+        setApiPoolKeys(poolKeys);
         setAdminStats({ userCount, projectCount, totalFiles: 0, totalDataStored: 0 }); // Placeholder for global file stats
         setAdminUsers(users);
         setAdminSettings(settings);
@@ -205,6 +216,16 @@ const DashboardPage: React.FC<DashboardProps> = ({
         setApiPoolKeys(apiPoolKeys.filter(k => k.id !== keyId));
     };
 
+    const handleSetPoolKeyDisabled = async (keyId: string, isDisabled: boolean) => {
+        try {
+            await setApiPoolKeyDisabled(keyId, isDisabled);
+            apiKeyPool.resetKeyHealth(keyId);
+            setApiPoolKeys(await getApiPoolKeys());
+        } catch (error) {
+            showAlert(`Failed to update key: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+        }
+    };
+
     const handleUpdateUserTokens = async (userId: string, newBalance: number) => {
         await updateUserTokenBalance(userId, newBalance);
         // Refresh the user list in the admin panel to show the new balance
@@ -253,7 +274,7 @@ const DashboardPage: React.FC<DashboardProps> = ({
         return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
     }
 
-    const tabClasses = (tab: 'ai' | 'upload') => 
+    const tabClasses = (tab: 'ai' | 'upload' | 'git') => 
         `px-4 py-2 text-sm font-semibold transition-colors border-b-2 flex items-center gap-2 ${
         creationMode === tab 
         ? 'border-primary text-primary' 
@@ -341,11 +362,14 @@ const DashboardPage: React.FC<DashboardProps> = ({
                             <div className="flex border-b border-base-300 mb-6">
                                 <button onClick={() => setCreationMode('ai')} className={tabClasses('ai')}><RocketIcon className="w-5 h-5" /> Create with AI</button>
                                 <button onClick={() => setCreationMode('upload')} className={tabClasses('upload')}><UploadIcon className="w-5 h-5" /> Upload Project</button>
+                                <button onClick={() => setCreationMode('git')} className={tabClasses('git')}><GitBranchIcon className="w-5 h-5" /> Clone from Git</button>
                             </div>
                             {creationMode === 'ai' ? (
                                 <NewProjectBuilder onStartBuilding={handleStart} isLoading={isCreating} />
-                            ) : (
+                            ) : creationMode === 'upload' ? (
                                 <ProjectUploadBuilder onStartBuilding={handleUpload} isLoading={isCreating} />
+                            ) : (
+                                <GitCloneBuilder onStartBuilding={handleClone} isLoading={isCreating} hasToken={!!apiConfig.git} />
                             )}
                         </div>
 
@@ -434,6 +458,7 @@ const DashboardPage: React.FC<DashboardProps> = ({
                     onSaveConfig={handleSavePoolConfig}
                     onAddKey={handleAddPoolKey as any}
                     onDeleteKey={handleDeletePoolKey}
+                    onSetKeyDisabled={handleSetPoolKeyDisabled}
                     stats={adminStats}
                     users={adminUsers}
                     adminSettings={adminSettings}
@@ -105,6 +105,8 @@ const DocumentationPage: React.FC<DocumentationPageProps> = ({ onBack, onSignInC
                         <ul>
                             <li><KeyIcon className="w-4 h-4 inline-block mr-2"/><strong>Gemini:</strong> For general development tasks and rebranding. Get a key from Google AI Studio.</li>
                             <li><KeyIcon className="w-4 h-4 inline-block mr-2"/><strong>OpenRouter/Groq:</strong> For access to a wide variety of open-source models, including high-speed options from Groq.</li>
+                            <li><KeyIcon className="w-4 h-4 inline-block mr-2"/><strong>Anthropic:</strong> For Claude models. Get a key from the Anthropic Console.</li>
+                            <li><KeyIcon className="w-4 h-4 inline-block mr-2"/><strong>Custom (OpenAI-compatible):</strong> Point ASAI at any server with a <code>/chat/completions</code> endpoint, such as a local Ollama or llama.cpp server, by entering its base URL and a default model. A key is only needed if your server requires one.</li>
                         </ul>
                         <p>If the administrator has enabled the <strong>API Key Pool</strong>, you may be able to use the platform without your own keys.</p>
                         
@@ -1,8 +1,8 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { FileNode, AiChatMessage, ApiConfig, User, Project, AgentState, AiChanges, AiProvider, AiPlan, ApiPoolConfig, ApiPoolKey, ConsoleMessage, TerminalOutput, ChatMessageSenderInfo, Snapshot, AiGodModeAction } from '../types';
+import { FileNode, AiChatMessage, ApiConfig, User, Project, AgentState, AiChanges, AiProvider, AiPlan, ApiPoolConfig, ApiPoolKey, ConsoleMessage, TerminalOutput, ChatMessageSenderInfo, Snapshot, AiGodModeAction, SnapshotMetadata, SnapshotRetentionPolicy, ContextReport, AiAnsweredBy, AiModelChoice, StreamingReply, DeploymentRecord, DeploymentTarget, ProjectGitConfig, ProjectProblem, EditorRevealRequest, FileConflict, ProjectRole } from '../types';
 import Header from '../components/Header';
 import Sidebar from '../components/Sidebar';
-import CodeEditor from '../components/CodeEditor';
+import CodeEditor, { MobileCodeEditor } from '../components/CodeEditor';
 import SandboxPreview from '../components/SandboxPreview';
 import ApiKeyModal from '../components/ApiKeyModal';
 import ProjectSettingsModal from '../components/ProjectSettingsModal';
@@ -14,21 +14,24 @@ import {
     addChatMessage, addFileOrFolder, deleteFileByPath, applyAiChanges, 
     getProjectDetails, updateProjectDetails, updateChatMessage, deleteProject, 
     copyProject, clearChatHistory, createShareKey, renameOrMovePath, 
-    getUserProfile, updateFileContent, streamProjectDetails, streamProjectFiles, 
-    streamChatHistory, getUsersProfiles, deleteChatMessage, getProjectFiles, getChatHistory, removeProjectMember, createInvite,
-    streamSnapshots, createSnapshot, deleteSnapshot,
+    getUserProfile, updateFileContent, saveFileContent, saveFileContents, streamProjectDetails, streamProjectFiles, 
+    streamChatHistory, getUsersProfiles, deleteChatMessage, getProjectFiles, getChatHistory, removeProjectMember, setProjectMemberRole, createInvite,
+    streamSnapshots, createSnapshot, deleteSnapshot, createPreChangeSnapshot, updateSnapshotRetention, updateProjectFallbackChain,
     // FIX: Add clearAgentMemory to imports
-    clearAgentMemory
+    clearAgentMemory, applyFileStates, recordDeployment, setProjectDeployment, streamDeployments, updateProjectGitConfig
 } from '../services/firestoreService';
 import { firestore, getSecondaryFirebaseApp } from '../services/firebase';
-import { CodeIcon, PlayIcon, CommandLineIcon, ChevronRightIcon, ExternalLinkIcon, PaperClipIcon, PencilIcon, ArrowRightIcon, DeleteIcon, TrashIcon, DocumentDuplicateIcon } from '../components/icons';
+import { CodeIcon, PlayIcon, CommandLineIcon, ChevronRightIcon, ExternalLinkIcon, PaperClipIcon, PencilIcon, ArrowRightIcon, DeleteIcon, TrashIcon, DocumentDuplicateIcon, RefreshIcon } from '../components/icons';
 import DebugRefactorModal from '../components/DebugRefactorModal';
 import ProfileSettingsModal from '../components/ProfileSettingsModal';
 import ShareProjectModal from '../components/ShareProjectModal';
 import Console from '../components/Console';
 import Terminal from '../components/Terminal';
+import ProblemsPanel from '../components/ProblemsPanel';
+import MergeConflictView from '../components/MergeConflictView';
 import ContextMenu, { ContextMenuItem } from '../components/ui/ContextMenu';
 import DeploymentModal from '../components/DeploymentModal';
+import GitModal from '../components/GitModal';
 import ChatInterface from '../components/ChatInterface';
 import MobileNavBar from '../components/MobileNavBar';
 import FileExplorer from '../components/FileExplorer';
@@ -37,11 +40,37 @@ import TodoListPanel from '../components/TodoListPanel';
 // FIX: Import GodModeModal to be used in the component.
 import GodModeModal from '../components/GodModeModal';
 import GodModeStatus from '../components/GodModeStatus';
+import SnapshotRestoreModal from '../components/SnapshotRestoreModal';
+import { FileDiff, fileDiffsToChanges } from '../utils/diff';
+import { captureFileStates, renameFileStates, aiChangesFileStates, isStateEqual } from '../utils/history';
+import { rewriteImportsForMove } from '../utils/imports';
+import { mergeThreeWay } from '../utils/merge';
+import { ProjectPermissions, getProjectRole, getRolePermissions, ROLE_LABELS } from '../utils/permissions';
+import { useProjectHistory, HistoryGroup } from '../hooks/useProjectHistory';
+import { useSandbox } from '../hooks/useSandbox';
+import { useGitRepository } from '../hooks/useGitRepository';
+import { useEditorTabs } from '../hooks/useEditorTabs';
+import { useLanguageService } from '../hooks/useLanguageService';
+import { useCollaboration } from '../hooks/useCollaboration';
+import { runDeployment, findDeploymentSiteId, compressDeploymentFiles, readDeploymentFiles, DeploymentPhase } from '../services/deploymentService';
+import { getDeploymentProvider } from '../services/deploymentProviders';
+import { getProvider, isProviderConfigured } from '../services/aiProviders';
 import { useAlert } from '../contexts/AlertContext';
+import { formatConsoleArgs, formatProblems, toCommitMessage } from '../utils/formatters';
 
 declare const JSZip: any;
 declare const LZString: any;
 
+const MAX_CONSOLE_MESSAGES = 500;
+
+// Streamed files replace the local ones, except that files with unsaved edits keep their edited content. The
+// stream still updates their revision, which is how a later save notices the remote change.
+const keepUnsavedEdits = (streamed: FileNode[], local: FileNode[], unsavedPaths: Set<string>): FileNode[] => {
+    if (unsavedPaths.size === 0) return streamed;
+    const localContent = new Map(local.filter(f => unsavedPaths.has(f.path)).map(f => [f.path, f.content]));
+    return streamed.map(f => localContent.has(f.path) ? { ...f, content: localContent.get(f.path) } : f);
+};
+
 const useMediaQuery = (query: string) => {
     const [matches, setMatches] = useState(false);
     useEffect(() => {
@@ -74,7 +103,6 @@ type MobileView = 'files' | 'chat' | 'todo' | 'editor' | 'preview';
 const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, user, apiConfig, onApiConfigChange, initialGenerationTask, onTaskConsumed, apiPoolConfig, apiPoolKeys, refreshUserProfile }) => {
     const [project, setProject] = useState<Project | null>(null);
     const [files, setFiles] = useState<FileNode[]>([]);
-    const [selectedFilePath, setSelectedFilePath] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [isAiLoading, setIsAiLoading] = useState(false);
     const [chatMessages, setChatMessages] = useState<AiChatMessage[]>([]);
@@ -86,19 +114,25 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
     const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
     const [isShareModalOpen, setIsShareModalOpen] = useState(false);
     const [isDeploymentModalOpen, setIsDeploymentModalOpen] = useState(false);
+    const [isGitModalOpen, setIsGitModalOpen] = useState(false);
     const [isSvgDesignModalOpen, setIsSvgDesignModalOpen] = useState(false);
     const [isGodModeModalOpen, setIsGodModeModalOpen] = useState(false);
-    const [isDeploying, setIsDeploying] = useState(false);
+    const [deployProgress, setDeployProgress] = useState<{ target: DeploymentTarget; phase: DeploymentPhase } | null>(null);
+    const [deployments, setDeployments] = useState<DeploymentRecord[]>([]);
     const [isFixing, setIsFixing] = useState(false);
     const [proposedFixes, setProposedFixes] = useState<AiChanges | null>(null);
     const [isPreviewPaneOpen, setIsPreviewPaneOpen] = useState(true);
     const [isFullScreenPreview, setIsFullScreenPreview] = useState(false);
     const [isBottomPanelOpen, setIsBottomPanelOpen] = useState(false);
-    const [activeBottomTab, setActiveBottomTab] = useState<'console' | 'terminal'>('console');
+    const [activeBottomTab, setActiveBottomTab] = useState<'console' | 'problems' | 'terminal'>('console');
     const [consoleMessages, setConsoleMessages] = useState<ConsoleMessage[]>([]);
+    const [debugPrefill, setDebugPrefill] = useState<string | undefined>(undefined);
     const [agentState, setAgentState] = useState<AgentState>({ status: 'idle', objective: '', plan: [], currentTaskIndex: -1, logs: [] });
-    const [sidebarTab, setSidebarTab] = useState<'files' | 'chat' | 'snapshots' | 'todo'>('files');
+    const [sidebarTab, setSidebarTab] = useState<'files' | 'search' | 'chat' | 'snapshots' | 'todo'>('files');
     const [dirtyFiles, setDirtyFiles] = useState<Set<string>>(new Set());
+    // Files waiting for the merge view, which shows the first. A batch write can leave several at once.
+    const [mergeConflicts, setMergeConflicts] = useState<FileConflict[]>([]);
+    const mergeConflict = mergeConflicts[0] ?? null;
     const [savingFile, setSavingFile] = useState<string | null>(null);
     const [contextMenu, setContextMenu] = useState<{ x: number, y: number, path: string } | null>(null);
     const [isCollaborationEnabled, setIsCollaborationEnabled] = useState(false);
@@ -106,17 +140,57 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
     const [projectMembers, setProjectMembers] = useState<ChatMessageSenderInfo[]>([]);
     const [migrationStatus, setMigrationStatus] = useState<string>('');
     const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+    const [snapshotToRestore, setSnapshotToRestore] = useState<{ snapshot: Snapshot; files: FileNode[] } | null>(null);
+    const [isRestoringSnapshot, setIsRestoringSnapshot] = useState(false);
     
     const [godModeActionQueue, setGodModeActionQueue] = useState<AiGodModeAction[]>([]);
     const [currentGodModeAction, setCurrentGodModeAction] = useState<AiGodModeAction | null>(null);
     const [isGodModeActive, setIsGodModeActive] = useState(false);
+    const godModeRunRef = useRef<{ objective: string; runId: string; historyGroup: HistoryGroup } | null>(null);
+    const history = useProjectHistory(projectId);
+    const [streamingReply, setStreamingReply] = useState<StreamingReply | null>(null);
+    const [isApplyingHistory, setIsApplyingHistory] = useState(false);
+    const sandbox = useSandbox(files, dirtyFiles, apiConfig, isBottomPanelOpen && activeBottomTab === 'terminal');
+    const gitAuth = useMemo(() => ({ token: apiConfig.git }), [apiConfig.git]);
+    const gitAuthor = useMemo(() => ({ name: user.displayName || user.email || 'ASAI user', email: user.email || `${user.uid}@users.noreply.asai.app` }), [user.displayName, user.email, user.uid]);
+    const git = useGitRepository(projectId, project?.git, files, gitAuth, gitAuthor, isGitModalOpen);
+    const editorTabs = useEditorTabs(files);
+    const selectedFilePath = editorTabs.activePath;
+    const hasOpenedEntryFileRef = useRef(false);
+    // Each dirty file as it was before the first unsaved edit, so a save can be recorded as one undoable step and
+    // can tell whether someone else saved the file meanwhile.
+    const savedContentRef = useRef<Map<string, { content: string; revision: number }>>(new Map());
+    const dirtyFilesRef = useRef(dirtyFiles);
+    dirtyFilesRef.current = dirtyFiles;
     const { showAlert } = useAlert();
     
     const chatMessageRefs = useRef<Map<string, HTMLDivElement | null>>(new Map());
 
     const isOwner = user?.uid === project?.ownerId;
+    const role = getProjectRole(project, user?.uid);
+    const permissions = getRolePermissions(role);
+    // The UI leaves out what the user's role doesn't allow; this stops whatever is still reachable.
+    const isAllowed = (permission: keyof ProjectPermissions) => {
+        if (permissions[permission]) return true;
+        showAlert(`Your role in this project (${role ? ROLE_LABELS[role] : 'none'}) doesn't allow this.`, 'info');
+        return false;
+    };
     const isMobile = useMediaQuery('(max-width: 1023px)');
     const [mobileView, setMobileView] = useState<MobileView>('files');
+    const [revealRequest, setRevealRequest] = useState<EditorRevealRequest | null>(null);
+    const handleOpenLocation = useCallback((path: string, line: number, column: number) => {
+        editorTabs.open(path);
+        setRevealRequest(prev => ({ id: (prev?.id ?? 0) + 1, path, line, column }));
+    }, [editorTabs.open]);
+    const openEditorPaths = useMemo(() => editorTabs.panes.flatMap(pane => pane.tabs), [editorTabs.panes]);
+    const languageService = useLanguageService(files, openEditorPaths, handleOpenLocation, !isMobile);
+    const handleRemoteContent = useCallback((path: string, content: string) => {
+        setFiles(prev => prev.map(f => f.path === path ? { ...f, content } : f));
+    }, []);
+    const collaboration = useCollaboration(projectId, dbInstance, user, languageService.monaco, files, openEditorPaths, selectedFilePath, handleRemoteContent, isCollaborationEnabled);
+    // The file stream is subscribed once per project, so it reads the current overlay through a ref.
+    const withLiveContentRef = useRef(collaboration.withLiveContent);
+    withLiveContentRef.current = collaboration.withLiveContent;
 
     const [sidebarWidth, setSidebarWidth] = useState(() => {
         const savedWidth = localStorage.getItem('sidebarWidth');
@@ -171,6 +245,15 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
     };
 
 
+    // Every AI-driven write goes through here first so it can be rolled back from the Snapshots tab.
+    const snapshotBeforeAiChange = useCallback(async (triggeringPrompt: string, metadata: Omit<SnapshotMetadata, 'source'> = {}) => {
+        await createPreChangeSnapshot(projectId, files, triggeringPrompt, metadata, project?.snapshotRetention, dbInstance);
+    }, [projectId, files, project?.snapshotRetention, dbInstance]);
+
+    const recordAiChanges = useCallback((label: string, filesBefore: FileNode[], changes: AiChanges) => {
+        history.record(label, 'ai', aiChangesFileStates(filesBefore, changes));
+    }, [history.record]);
+
     useEffect(() => {
         let isMounted = true;
         const unsubscribers: (() => void)[] = [];
@@ -228,6 +311,12 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                             await batch.commit();
                             if (isMounted) setMigrationStatus("Project data successfully copied. Finalizing connection...");
                             console.log("Migration complete.");
+                        } else if (initialProjectDetails.ownerId === user.uid) {
+                            // Members join through the primary database; the server's security rules read them from its own copy.
+                            await projectDocOnSecondary.ref.update({
+                                members: initialProjectDetails.members,
+                                roles: initialProjectDetails.roles || {},
+                            });
                         }
                         
                         finalDb = secondaryDb;
@@ -245,9 +334,12 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                 setIsCollaborationEnabled(collabEnabled);
                 
                 unsubscribers.push(streamProjectDetails(projectId, (proj) => { if (isMounted) setProject(proj); }, finalDb));
-                unsubscribers.push(streamProjectFiles(projectId, (files) => { if (isMounted) setFiles(files); }, finalDb));
+                unsubscribers.push(streamProjectFiles(projectId, (files) => {
+                    if (isMounted) setFiles(prev => keepUnsavedEdits(withLiveContentRef.current(files), prev, dirtyFilesRef.current));
+                }, finalDb));
                 unsubscribers.push(streamChatHistory(projectId, (messages) => { if (isMounted) setChatMessages(messages); }, finalDb));
                 unsubscribers.push(streamSnapshots(projectId, (snapshots) => { if (isMounted) setSnapshots(snapshots); }, finalDb));
+                unsubscribers.push(streamDeployments(projectId, (deployments) => { if (isMounted) setDeployments(deployments); }, finalDb));
     
             } catch (error) {
                 console.error("Failed to load project:", error);
@@ -269,14 +361,15 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
     }, [projectId, user, showAlert]);
 
     useEffect(() => {
-        // Auto-select first file if none is selected and files are loaded
-        if (!selectedFilePath && files.length > 0) {
-            const entryFile = files.find(f => f.path.match(/app.tsx|index.tsx|index.html/i)) || files.find(f => f.type === 'file');
+        // Open the entry file once the project's files first load; after that, closing every tab is allowed.
+        if (!hasOpenedEntryFileRef.current && files.length > 0) {
+            const entryFile = files.find(f => f.type === 'file' && f.path.match(/app.tsx|index.tsx|index.html/i)) || files.find(f => f.type === 'file');
             if (entryFile) {
-                setSelectedFilePath(entryFile.path);
+                hasOpenedEntryFileRef.current = true;
+                editorTabs.open(entryFile.path);
             }
         }
-    }, [files, selectedFilePath]);
+    }, [files, editorTabs.open]);
 
      useEffect(() => {
         const fetchMemberProfiles = async () => {
@@ -313,12 +406,12 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
             };
     
             const onFileCreated = async (file: { path: string, content: string }) => {
+                setStreamingReply(null);
                 await addFileOrFolder(projectId, file.path, 'file', file.content, dbInstance);
             };
     
             try {
-                const key = apiConfig[provider];
-                if (!key && !apiPoolConfig.isEnabled) throw new Error(`API key for ${provider} is not configured.`);
+                if (!isProviderConfigured(provider, apiConfig, apiPoolConfig.isEnabled)) throw new Error(`API key for ${getProvider(provider).name} is not configured.`);
                 
                 await runStreamingInitialProjectAgent(
                     prompt,
@@ -329,13 +422,15 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                     addAndParseAiMessage,
                     user.uid,
                     apiPoolConfig,
-                    apiPoolKeys
+                    apiPoolKeys,
+                    file => setStreamingReply({ text: file.content, filePath: file.path })
                 );
     
             } catch (err) {
                 const message = err instanceof Error ? err.message : "An unknown error occurred during project generation.";
                 await addAndParseAiMessage({ sender: 'ai', text: `Sorry, I ran into a problem: ${message}` });
             } finally {
+                setStreamingReply(null);
                 setIsAiLoading(false);
                 if(isMobile) {
                     setMobileView('files');
@@ -350,44 +445,58 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
 
 
     const handleFileSelect = (path: string) => {
-        setSelectedFilePath(path);
-        if (isMobile) {
-            const file = files.find(f => f.path === path);
-            if (file?.type === 'file') {
+        const file = files.find(f => f.path === path);
+        if (file?.type === 'file') {
+            editorTabs.open(path);
+            if (isMobile) {
                 setMobileView('editor');
             }
         }
     };
     
     const handleFileAdd = async (parentPath: string, type: 'file' | 'folder') => {
+        if (!isAllowed('canEditFiles')) return;
         const name = prompt(`Enter the name for the new ${type}:`);
         if (name) {
             const newPath = parentPath ? `${parentPath}/${name}` : name;
             await addFileOrFolder(projectId, newPath, type, type === 'file' ? '' : undefined, dbInstance);
+            history.record(`Add ${newPath}`, 'file', {
+                before: captureFileStates(files, [newPath]),
+                after: { [newPath]: type === 'file' ? { type, content: '' } : { type } },
+            });
         }
     };
 
     const handleFileDelete = async (path: string) => {
-        if (window.confirm(`Are you sure you want to delete ${path}? This cannot be undone.`)) {
+        if (!isAllowed('canEditFiles')) return;
+        if (window.confirm(`Are you sure you want to delete ${path}?`)) {
+            const before = captureFileStates(files, [path]);
             await deleteFileByPath(projectId, path, dbInstance);
-            if (selectedFilePath === path) {
-                setSelectedFilePath(null);
-            }
+            history.record(`Delete ${path}`, 'file', {
+                before,
+                after: Object.fromEntries(Object.keys(before).map(p => [p, null])),
+            });
         }
     };
     
     const handleFileUpload = async (file: File, parentPath: string) => {
+        if (!isAllowed('canEditFiles')) return;
         const reader = new FileReader();
         reader.onload = async (e) => {
             const content = e.target?.result as string;
             const newPath = parentPath ? `${parentPath}/${file.name}` : file.name;
             await addFileOrFolder(projectId, newPath, 'file', content, dbInstance);
-            setSelectedFilePath(newPath);
+            history.record(`Upload ${newPath}`, 'file', {
+                before: captureFileStates(files, [newPath]),
+                after: { [newPath]: { type: 'file', content } },
+            });
+            editorTabs.open(newPath);
         };
         reader.readAsText(file);
     };
 
     const handleSendMessage = async (message: string, mode: 'build' | 'ask' | 'general') => {
+        if (!isAllowed('canUseAi')) return;
         if (!project) return;
         setIsAiLoading(true);
         setSidebarTab('chat');
@@ -398,15 +507,19 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
     
         // --- CONTEXT BUILDING ---
         let contextHeader = '';
+        const pinnedPaths: string[] = [];
         if (mode === 'build' || mode === 'ask') {
             const recentMessages = currentChatMessages.slice(-15);
     
-            // 1. Pinned File Context
+            // 1. Pinned File Context. Pinned files are always sent in full with the project files.
             const lastPinnedFileMessage = [...recentMessages].reverse().find(m => m.type === 'file_pin' && m.filePath);
+            recentMessages
+                .filter(m => m.type === 'file_pin' && m.filePath && (m.sender === 'user' || m === lastPinnedFileMessage))
+                .forEach(m => pinnedPaths.push(m.filePath!));
             if (lastPinnedFileMessage && lastPinnedFileMessage.filePath) {
                 const file = files.find(f => f.path === lastPinnedFileMessage.filePath);
                 if (file && file.content !== undefined) {
-                    contextHeader += `CONTEXT: The user has recently pinned the file \`${file.path}\`. Its content is provided below. Prioritize this file when considering changes.\n\n--- CONTENT OF ${file.path} ---\n${file.content}\n--- END OF CONTENT ---\n\n`;
+                    contextHeader += `CONTEXT: The user has recently pinned the file \`${file.path}\`. Prioritize this file when considering changes.\n\n`;
                 }
             }
     
@@ -430,17 +543,21 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
             : message;
     
         try {
-            const key = apiConfig[project.provider];
-            if (!key && !apiPoolConfig.isEnabled) throw new Error(`API key for ${project.provider} is not configured.`);
+            if (!isProviderConfigured(project.provider, apiConfig, apiPoolConfig.isEnabled)) throw new Error(`API key for ${getProvider(project.provider).name} is not configured.`);
     
             if (mode === 'general') {
-                const answer = await askGeneralQuestion(message, project.provider, project.model, apiConfig, user.uid, apiPoolConfig, apiPoolKeys);
-                await addAndParseAiMessage({ sender: 'ai', text: answer });
+                let answeredBy: AiAnsweredBy | undefined;
+                const answer = await askGeneralQuestion(message, project.provider, project.model, apiConfig, user.uid, apiPoolConfig, apiPoolKeys, (_, text) => setStreamingReply({ text }), project.fallbackChain, reply => { answeredBy = reply; });
+                await addAndParseAiMessage({ sender: 'ai', text: answer, ...(answeredBy && { answeredBy }) });
             } else if (mode === 'ask') {
-                const answer = await answerProjectQuestion(promptWithContext, files, project, apiConfig, user.uid, apiPoolConfig, apiPoolKeys);
-                await addAndParseAiMessage({ sender: 'ai', text: answer });
+                let contextReport: ContextReport | undefined;
+                let answeredBy: AiAnsweredBy | undefined;
+                const answer = await answerProjectQuestion(promptWithContext, files, project, apiConfig, user.uid, apiPoolConfig, apiPoolKeys, pinnedPaths, report => { contextReport = report; }, (_, text) => setStreamingReply({ text }), reply => { answeredBy = reply; });
+                await addAndParseAiMessage({ sender: 'ai', text: answer, ...(contextReport && { contextReport }), ...(answeredBy && { answeredBy }) });
             } else { // build mode
-                const plan = await generateModificationPlan(promptWithContext, files, project, apiConfig, user.uid, apiPoolConfig, apiPoolKeys);
+                let contextReport: ContextReport | undefined;
+                let answeredBy: AiAnsweredBy | undefined;
+                const plan = await generateModificationPlan(promptWithContext, files, project, apiConfig, user.uid, apiPoolConfig, apiPoolKeys, pinnedPaths, report => { contextReport = report; }, reply => { answeredBy = reply; });
                 if (plan?.plan?.special_action) {
                     const { action, payload, confirmation_prompt } = plan.plan.special_action;
                     if (window.confirm(confirmation_prompt || `Are you sure you want to perform the action: ${action}?`)) {
@@ -465,18 +582,20 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                         }
                     }
                 } else {
-                    await addChatMessage(projectId, { sender: 'ai', text: 'Here is the plan I came up with:', plan, planStatus: 'pending' }, dbInstance);
+                    await addChatMessage(projectId, { sender: 'ai', text: 'Here is the plan I came up with:', plan, planStatus: 'pending', ...(contextReport && { contextReport }), ...(answeredBy && { answeredBy }) }, dbInstance);
                 }
             }
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
             await addAndParseAiMessage({ sender: 'ai', text: `Sorry, I ran into a problem: ${errorMessage}` });
         } finally {
+            setStreamingReply(null);
             setIsAiLoading(false);
         }
     };
     
     const handleSendRichMessage = async (messageData: Partial<Omit<AiChatMessage, 'id' | 'timestamp' | 'sender'>>) => {
+        if (!isAllowed('canChat')) return;
         const senderInfo: ChatMessageSenderInfo = {
             uid: user.uid,
             displayName: user.displayName || user.email || null,
@@ -492,15 +611,24 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
     };
 
     const handleApprovePlan = async (messageId: string) => {
+        if (!isAllowed('canUseAi')) return;
         const message = chatMessages.find(m => m.id === messageId);
         if (!message || !message.plan || !project) return;
 
         setIsAiLoading(true);
         await updateChatMessage(projectId, messageId, { planStatus: 'executing' }, dbInstance);
+        const historyGroup = history.beginGroup(`AI plan: ${message.plan.reasoning}`);
 
         try {
-            const changes = await executeModificationPlan(message.text, message.plan, files, project, apiConfig, user.uid, apiPoolConfig, apiPoolKeys);
+            let contextReport: ContextReport | undefined;
+            let answeredBy: AiAnsweredBy | undefined;
+            const changes = await executeModificationPlan(message.text, message.plan, files, project, apiConfig, user.uid, apiPoolConfig, apiPoolKeys, undefined, report => { contextReport = report; }, reply => { answeredBy = reply; });
+
+            const planIndex = chatMessages.findIndex(m => m.id === messageId);
+            const triggeringMessage = chatMessages.slice(0, planIndex).reverse().find(m => m.sender === 'user' && (!m.type || m.type === 'text'));
+            await snapshotBeforeAiChange(triggeringMessage?.text || message.plan.reasoning, { planId: message.plan.id || messageId, chatMessageId: messageId });
             await applyAiChanges(projectId, files, changes, dbInstance);
+            historyGroup.record(aiChangesFileStates(files, changes));
             
             const summary = await summarizeChangesForMemory(message.text, message.plan, changes, project, apiConfig, user.uid, apiPoolConfig, apiPoolKeys);
             const memoryFile = files.find(f => f.path === ".asai/memory.md");
@@ -510,28 +638,33 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                 const fileToUpdate = files.find(f => f.path === ".asai/memory.md");
                 if(fileToUpdate) {
                     await updateFileContent(projectId, fileToUpdate.id, newMemoryContent, dbInstance);
+                    historyGroup.record(aiChangesFileStates(files, { update: { [fileToUpdate.path]: newMemoryContent } }));
                 }
             } else {
                 await addFileOrFolder(projectId, ".asai/memory.md", 'file', `### Initial Memory\n\n${summary}`, dbInstance);
+                historyGroup.record(aiChangesFileStates(files, { create: { ".asai/memory.md": `### Initial Memory\n\n${summary}` } }));
             }
             
             await updateChatMessage(projectId, messageId, { planStatus: 'approved' }, dbInstance);
-            await addAndParseAiMessage({ sender: 'ai', text: "I have successfully applied the changes." });
+            await addAndParseAiMessage({ sender: 'ai', text: "I have successfully applied the changes.", ...(contextReport && { contextReport }), ...(answeredBy && { answeredBy }) });
 
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : "An unknown error occurred during execution.";
             await updateChatMessage(projectId, messageId, { planStatus: 'pending' }, dbInstance); // Revert status
             await addAndParseAiMessage({ sender: 'ai', text: `I encountered an error while applying the changes: ${errorMessage}` });
         } finally {
+            historyGroup.end();
             setIsAiLoading(false);
         }
     };
     
     const handleRejectPlan = async (messageId: string) => {
+        if (!isAllowed('canUseAi')) return;
         await updateChatMessage(projectId, messageId, { planStatus: 'rejected' }, dbInstance);
     };
     
     const handleUpdateTaskStatus = async (messageId: string, isComplete: boolean) => {
+        if (!isAllowed('canChat')) return;
         if (!project) return;
         try {
             await updateChatMessage(projectId, messageId, { isComplete }, dbInstance);
@@ -580,11 +713,161 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
         link.click();
     };
 
-    const handleSaveSettings = async (name: string, prompt: string, model?: string, sandboxType?: 'iframe' | 'stackblitz', provider?: AiProvider) => {
+    const isDeployTargetConfigured = (target: DeploymentTarget) => {
+        const tokenKey = getDeploymentProvider(target).tokenKey;
+        return !tokenKey || !!apiConfig[tokenKey];
+    };
+
+    // Deploys the current files, or the files of an earlier deploy when redeploying or rolling back to it.
+    const handleDeploy = async (target: DeploymentTarget, from?: DeploymentRecord) => {
+        if (!isAllowed('canEditFiles')) return;
+        if (!project || deployProgress) return;
+        const provider = getDeploymentProvider(target);
+        if (!isDeployTargetConfigured(target)) {
+            showAlert(`Add a ${provider.name} access token in your API key settings to deploy.`, 'info');
+            setIsApiKeyModalOpen(true);
+            return;
+        }
+
+        let deployFiles: FileNode[];
+        try {
+            deployFiles = from ? readDeploymentFiles(from) : files;
+        } catch (error) {
+            showAlert(`Error: ${error instanceof Error ? error.message : "Could not read the deployment's files."}`, 'error');
+            return;
+        }
+
+        setDeployProgress({ target, phase: 'building' });
+        const record: Omit<DeploymentRecord, 'id' | 'createdAt'> = {
+            target,
+            status: 'ready',
+            deployedBy: user.uid,
+            fileData: compressDeploymentFiles(deployFiles),
+            redeployOf: from?.id,
+        };
+        try {
+            const result = await runDeployment(
+                target,
+                deployFiles,
+                { projectName: project.name, apiConfig, siteId: findDeploymentSiteId(deployments, target) },
+                phase => setDeployProgress({ target, phase })
+            );
+            await recordDeployment(projectId, { ...record, url: result.url, siteId: result.siteId, providerDeployId: result.deployId }, dbInstance);
+
+            if (result.archive) {
+                const link = document.createElement("a");
+                link.href = URL.createObjectURL(result.archive);
+                link.download = `${project.name.replace(/ /g, '_')}_static.zip`;
+                link.click();
+                showAlert("Static build downloaded.", 'success');
+            } else if (result.url && target !== 'static') {
+                await setProjectDeployment(projectId, target, result.url, dbInstance);
+                showAlert(`Deployed to ${provider.name}: ${result.url}`, 'success');
+            }
+        } catch (error) {
+            console.error(`Deployment to ${provider.name} failed:`, error);
+            const message = error instanceof Error ? error.message : `Could not deploy to ${provider.name}.`;
+            showAlert(`Error: ${message}`, 'error');
+            try {
+                await recordDeployment(projectId, { ...record, status: 'error', error: message }, dbInstance);
+            } catch (recordError) {
+                console.warn("Failed to record the failed deployment:", recordError);
+            }
+        } finally {
+            setDeployProgress(null);
+        }
+    };
+
+    const handleGitConnect = async (config: Omit<ProjectGitConfig, 'branch'> & { branch?: string }) => {
+        if (!isAllowed('canEditFiles')) return;
+        try {
+            const connected = await git.connect(config);
+            await updateProjectGitConfig(projectId, connected, dbInstance);
+            showAlert(`Connected to ${connected.remoteUrl} (${connected.branch}).`, 'success');
+        } catch (error) {
+            console.error("Failed to connect the Git remote:", error);
+        }
+    };
+
+    const handleGitCommit = async (message: string): Promise<boolean> => {
+        if (!isAllowed('canEditFiles')) return false;
+        if (dirtyFiles.size > 0) {
+            showAlert("Save your open files before committing.", 'info');
+            return false;
+        }
+        try {
+            const oid = await git.commit(message);
+            showAlert(`Committed ${oid.slice(0, 7)}.`, 'success');
+            return true;
+        } catch (error) {
+            console.error("Git commit failed:", error);
+            return false;
+        }
+    };
+
+    // Reuses the memory summary prompt with the working-tree changes standing in for an AI plan's changes.
+    const handleGenerateCommitMessage = async (): Promise<string | null> => {
+        if (!project) return null;
+        const contents = new Map(files.map(f => [f.path, f.content || '']));
+        const changes: AiChanges = {
+            create: Object.fromEntries(git.status.filter(f => f.status === 'added').map(f => [f.path, contents.get(f.path) || ''])),
+            update: Object.fromEntries(git.status.filter(f => f.status === 'modified').map(f => [f.path, contents.get(f.path) || ''])),
+            delete: git.status.filter(f => f.status === 'deleted').map(f => f.path),
+        };
+        const plan: AiPlan = { reasoning: 'Describe these changes as a Git commit message: what changed and why, in the imperative mood.', plan: {} };
+        try {
+            const summary = await summarizeChangesForMemory('Commit the pending changes to Git.', plan, changes, project, apiConfig, user.uid, apiPoolConfig, apiPoolKeys);
+            return toCommitMessage(summary);
+        } catch (error) {
+            console.error("Failed to write a commit message:", error);
+            showAlert(`Error: ${error instanceof Error ? error.message : "Could not write a commit message."}`, 'error');
+            return null;
+        }
+    };
+
+    const handleGitPush = async () => {
+        if (!isAllowed('canEditFiles')) return;
+        try {
+            await git.push();
+            showAlert(`Pushed to ${project?.git?.branch}.`, 'success');
+        } catch (error) {
+            console.error("Git push failed:", error);
+        }
+    };
+
+    const handleGitPull = async () => {
+        if (!isAllowed('canEditFiles')) return;
+        if (dirtyFiles.size > 0) {
+            showAlert("Save your open files before pulling.", 'info');
+            return;
+        }
+        try {
+            const changes = await git.pull();
+            const changedCount = Object.keys(changes.create || {}).length + Object.keys(changes.update || {}).length + (changes.delete?.length || 0);
+            if (changedCount === 0) {
+                showAlert("Already up to date.", 'info');
+                return;
+            }
+            await applyAiChanges(projectId, files, changes, dbInstance);
+            history.record(`Pull from ${project?.git?.branch}`, 'file', aiChangesFileStates(files, changes));
+            showAlert(`Pulled ${changedCount} changed file(s).`, 'success');
+        } catch (error) {
+            console.error("Git pull failed:", error);
+        }
+    };
+
+    const handleSaveSettings = async (name: string, prompt: string, model?: string, sandboxType?: 'iframe' | 'stackblitz', provider?: AiProvider, snapshotRetention?: SnapshotRetentionPolicy, fallbackChain?: AiModelChoice[]) => {
+        if (!isAllowed('canEditFiles')) return;
         if (!project) return;
         setIsAiLoading(true);
         try {
             await updateProjectDetails(projectId, name, prompt, model, sandboxType, provider, dbInstance);
+            if (fallbackChain) {
+                await updateProjectFallbackChain(projectId, fallbackChain, dbInstance);
+            }
+            if (snapshotRetention && isOwner) {
+                await updateSnapshotRetention(projectId, snapshotRetention, dbInstance);
+            }
             setIsSettingsModalOpen(false);
         } catch (error) {
             console.error("Failed to save project settings:", error);
@@ -595,14 +878,16 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
     };
 
     const handleAnalyzeCode = async () => {
+        if (!isAllowed('canUseAi')) return;
         if (!project) return;
         setIsAiLoading(true);
         setSidebarTab('chat');
         const userMessage: Omit<AiChatMessage, 'id' | 'timestamp'> = { sender: 'user', text: "Please analyze the entire project for bugs, improvements, and best practices." };
         await addChatMessage(projectId, userMessage, dbInstance);
         try {
-            const analysis = await analyzeCode(files, project, apiConfig, user.uid, apiPoolConfig, apiPoolKeys);
-            await addAndParseAiMessage({ sender: 'ai', text: analysis });
+            let answeredBy: AiAnsweredBy | undefined;
+            const analysis = await analyzeCode(files, project, apiConfig, user.uid, apiPoolConfig, apiPoolKeys, reply => { answeredBy = reply; });
+            await addAndParseAiMessage({ sender: 'ai', text: analysis, ...(answeredBy && { answeredBy }) });
         } catch(err) {
             const errorMessage = err instanceof Error ? err.message : "An unknown error occurred during analysis.";
             await addAndParseAiMessage({ sender: 'ai', text: `Sorry, I ran into a problem during analysis: ${errorMessage}` });
@@ -611,18 +896,22 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
         }
     }
     
-    const handleProposeFixes = async (description: string, scope: 'file' | 'project') => {
+    const handleConsoleMessage = useCallback((message: ConsoleMessage) => {
+        setConsoleMessages(prev => [...prev, message].slice(-MAX_CONSOLE_MESSAGES));
+    }, []);
+
+    const handleSendErrorToAi = (message: ConsoleMessage) => {
+        if (!isAllowed('canUseAi')) return;
+        setProposedFixes(null);
+        setDebugPrefill(`The live preview logged this error:\n\n${formatConsoleArgs(message.args)}\n\nFind the cause and fix it.`);
+        setIsDebugRefactorModalOpen(true);
+    };
+
+    const requestFixes = async (description: string, filesToFix: { path: string; content: string }[]) => {
         if (!project) return;
         setIsFixing(true);
         setProposedFixes(null);
         try {
-            let filesToFix: { path: string; content: string }[] = [];
-            if (scope === 'file' && selectedFilePath) {
-                const file = files.find(f => f.path === selectedFilePath);
-                if (file) filesToFix.push({ path: file.path, content: file.content || '' });
-            } else { // project scope
-                filesToFix = files.filter(f => f.type === 'file').map(f => ({ path: f.path, content: f.content || '' }));
-            }
             if (filesToFix.length === 0) throw new Error("No files selected or found for the chosen scope.");
             const fixes = await proposeFixes(description, filesToFix, project, apiConfig, user.uid, apiPoolConfig, apiPoolKeys);
             setProposedFixes(fixes);
@@ -634,11 +923,70 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
         }
     };
 
+    const handleProposeFixes = (description: string, scope: 'file' | 'project') => {
+        if (!isAllowed('canUseAi')) return;
+        let filesToFix: { path: string; content: string }[] = [];
+        if (scope === 'file' && selectedFilePath) {
+            const file = files.find(f => f.path === selectedFilePath);
+            if (file) filesToFix.push({ path: file.path, content: file.content || '' });
+        } else { // project scope
+            filesToFix = files.filter(f => f.type === 'file').map(f => ({ path: f.path, content: f.content || '' }));
+        }
+        return requestFixes(description, filesToFix);
+    };
+
+    // Sends every error and warning to the AI along with the files they are in, and shows the proposed fixes for review.
+    const handleFixProblemsWithAi = () => {
+        if (!isAllowed('canUseAi')) return;
+        const problems = languageService.problems.filter(p => p.severity !== 'info');
+        if (problems.length === 0) return;
+        const paths = new Set(problems.map(p => p.path));
+        const description = `The TypeScript compiler reports these problems:\n\n${formatProblems(problems)}\n\nFix all of them without changing the app's behavior.`;
+        setDebugPrefill(description);
+        setIsDebugRefactorModalOpen(true);
+        requestFixes(description, files.filter(f => f.type === 'file' && paths.has(f.path)).map(f => ({ path: f.path, content: f.content || '' })));
+    };
+
+    // Where each file's unsaved edits started from, or the file as it is when it has none.
+    const getEditBase = (file: FileNode) => savedContentRef.current.get(file.path) ?? { content: file.content || '', revision: file.revision || 0 };
+
+    // Writes search-and-replace and symbol-rename results in one transaction. Unsaved edits in those files were part
+    // of what was searched, so they are saved along with the replacements. A file changed by someone else since
+    // isn't written; it opens in the merge view instead.
+    const handleReplaceInFiles = async (updates: Record<string, string>, label: string) => {
+        if (!isAllowed('canEditFiles')) return;
+        const targets = files.filter(f => f.path in updates);
+        try {
+            const changed = await saveFileContents(projectId, targets.map(f => ({ id: f.id, content: updates[f.path], baseRevision: getEditBase(f).revision })), dbInstance);
+            const settled = await Promise.all(targets.map(f => {
+                const remote = changed.find(c => c.id === f.id);
+                return !remote || handleRemoteChange(f, updates[f.path], getEditBase(f), remote);
+            }));
+            const updated = targets.filter((_, i) => settled[i]);
+            const updatedPaths = new Set(updated.map(f => f.path));
+            history.record(label, 'file', aiChangesFileStates(files, { update: Object.fromEntries(updated.map(f => [f.path, updates[f.path]])) }));
+            updatedPaths.forEach(path => savedContentRef.current.delete(path));
+            setDirtyFiles(prev => new Set([...prev].filter(path => !updatedPaths.has(path))));
+            const toMerge = targets.length - updatedPaths.size;
+            showAlert(toMerge > 0
+                ? `Updated ${updatedPaths.size} file(s). ${toMerge} changed in the meantime and need merging.`
+                : `Updated ${updatedPaths.size} file(s).`, toMerge > 0 ? 'info' : 'success');
+        } catch (error) {
+            console.error("Replace failed:", error);
+            showAlert(`Error: ${error instanceof Error ? error.message : "Could not write the replacements."}`, 'error');
+        }
+    };
+
+    const handleOpenProblem = (problem: ProjectProblem) => handleOpenLocation(problem.path, problem.line, problem.column);
+
     const handleApplyFixes = async () => {
+        if (!isAllowed('canUseAi')) return;
         if (!proposedFixes || !project) return;
         setIsFixing(true);
         try {
+            await snapshotBeforeAiChange('AI Debug & Refactor fixes');
             await applyAiChanges(projectId, files, proposedFixes, dbInstance);
+            recordAiChanges('AI Debug & Refactor fixes', files, proposedFixes);
             setProposedFixes(null);
             setIsDebugRefactorModalOpen(false);
             showAlert("Fixes applied successfully!", 'success');
@@ -651,6 +999,7 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
     };
     
     const handleStartAutoDev = async (objective: string) => {
+        if (!isAllowed('canUseAi')) return;
         if (!project) return;
         setIsAiLoading(true);
         setSidebarTab('chat');
@@ -671,6 +1020,7 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
             });
         };
         
+        const historyGroup = history.beginGroup(`Auto Dev: ${objective}`);
         try {
             // FIX: Corrected arguments passed to runAutonomousAgent and removed redundant logic.
             // The agent now handles its own state and file updates via streaming.
@@ -686,18 +1036,21 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                 dbInstance,
                 undefined, // For resumeState
                 apiPoolConfig,
-                apiPoolKeys
+                apiPoolKeys,
+                (filesBefore, changes) => historyGroup.record(aiChangesFileStates(filesBefore, changes))
             );
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
              await addAndParseAiMessage({ sender: 'ai', text: `Agent stopped due to an error: ${errorMessage}` });
         } finally {
+            historyGroup.end();
             setIsAiLoading(false);
         }
     };
 
     // FIX: Add handler for resuming auto dev
     const handleResumeAutoDev = async (stateToResume: AgentState) => {
+        if (!isAllowed('canUseAi')) return;
         if (!project) return;
         setIsAiLoading(true);
         setSidebarTab('chat');
@@ -718,6 +1071,7 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
             });
         };
 
+        const historyGroup = history.beginGroup(`Auto Dev: ${stateToResume.objective}`);
         try {
             await runAutonomousAgent(
                 stateToResume.objective,
@@ -731,12 +1085,14 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                 dbInstance,
                 stateToResume, // Pass the resume state here
                 apiPoolConfig,
-                apiPoolKeys
+                apiPoolKeys,
+                (filesBefore, changes) => historyGroup.record(aiChangesFileStates(filesBefore, changes))
             );
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
             await addAndParseAiMessage({ sender: 'ai', text: `Agent stopped due to an error: ${errorMessage}` });
         } finally {
+            historyGroup.end();
             setIsAiLoading(false);
         }
     };
@@ -766,7 +1122,7 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
         await new Promise(resolve => setTimeout(resolve, 500));
 
         try {
-            if (action.selector && (action.type === 'CLICK_ELEMENT' || action.type === 'TYPE_IN_INPUT')) {
+            if (action.selector && (action.type === 'CLICK_ELEMENT' || action.type === 'TYPE_IN_INPUT' || action.type === 'SELECT_OPTION')) {
                 postToSandbox({ 
                     source: 'asai-god-mode-debugger',
                     type: 'HIGHLIGHT',
@@ -796,6 +1152,17 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                         }
                     }
                     break;
+                case 'SELECT_OPTION':
+                    if (action.selector && typeof action.payload === 'string') {
+                        const el = document.querySelector(`[data-testid="${action.selector}"]`) as HTMLSelectElement;
+                        if (el) {
+                            el.value = action.payload;
+                            el.dispatchEvent(new Event('change', { bubbles: true }));
+                        } else {
+                            throw new Error(`Select with selector [${action.selector}] not found.`);
+                        }
+                    }
+                    break;
                 case 'MODIFY_FILES':
                     if (action.payload) {
                         let changes: AiChanges;
@@ -811,7 +1178,14 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                         } else {
                             throw new Error('Invalid payload type for MODIFY_FILES. Expected a JSON string or an object.');
                         }
+                        const run = godModeRunRef.current;
+                        await snapshotBeforeAiChange(run ? `God Mode: ${run.objective}` : 'God Mode file changes', { planId: run?.runId });
                         await applyAiChanges(projectId, files, changes, dbInstance);
+                        if (run) {
+                            run.historyGroup.record(aiChangesFileStates(files, changes));
+                        } else {
+                            recordAiChanges('God Mode file changes', files, changes);
+                        }
                     }
                     break;
                 case 'ASK_USER':
@@ -838,7 +1212,12 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
         
         await new Promise(resolve => setTimeout(resolve, 200));
         setCurrentGodModeAction(null);
-    }, [projectId, files, dbInstance, showAlert]);
+    }, [projectId, files, dbInstance, showAlert, snapshotBeforeAiChange, recordAiChanges]);
+
+    // The whole run undoes as one step, however it ends.
+    useEffect(() => {
+        if (!isGodModeActive) godModeRunRef.current?.historyGroup.end();
+    }, [isGodModeActive]);
 
     useEffect(() => {
         if (isGodModeActive && currentGodModeAction === null && godModeActionQueue.length > 0) {
@@ -869,10 +1248,13 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
     };
 
     const handleStartGodMode = async (objective: string) => {
+        if (!isAllowed('canUseAi')) return;
         if (!project) return;
         setIsAiLoading(true);
         setIsGodModeActive(true);
         setCurrentGodModeAction({ type: 'CLICK_ELEMENT', reasoning: 'Starting God Mode and planning the steps...', selector: '' });
+        godModeRunRef.current?.historyGroup.end();
+        godModeRunRef.current = { objective, runId: crypto.randomUUID(), historyGroup: history.beginGroup(`God Mode: ${objective}`) };
 
         try {
             const uiContext = generateUiContext();
@@ -900,8 +1282,9 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
         showAlert("God Mode stopped by user.", 'info');
     };
 
-    const handleGenerateShareKey = async (pid: string) => {
-        return createShareKey(pid);
+    const handleGenerateShareKey = async (pid: string, role: ProjectRole, expiresInDays: number | null) => {
+        if (!permissions.canManageProject) throw new Error("Only the project owner can share the project.");
+        return createShareKey(pid, role, expiresInDays);
     };
 
     const handleRemoveMember = async (memberUid: string) => {
@@ -913,6 +1296,8 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
         if (window.confirm("Are you sure you want to remove this member from the project? Their access will be revoked immediately.")) {
             try {
                 await removeProjectMember(projectId, memberUid);
+                // A collaboration server keeps its own copy of the project, which its security rules read roles from.
+                if (dbInstance !== firestore) await removeProjectMember(projectId, memberUid, dbInstance);
             } catch (error) {
                 console.error("Failed to remove member:", error);
                 showAlert("Error: Could not remove member.", 'error');
@@ -920,12 +1305,23 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
         }
     };
 
-    const handleCreateInvite = async (email: string): Promise<string> => {
+    const handleChangeMemberRole = async (memberUid: string, newRole: ProjectRole) => {
+        if (!project || !isOwner) return;
+        try {
+            await setProjectMemberRole(projectId, memberUid, newRole);
+            if (dbInstance !== firestore) await setProjectMemberRole(projectId, memberUid, newRole, dbInstance);
+        } catch (error) {
+            console.error("Failed to change member role:", error);
+            showAlert("Error: Could not change the member's role.", 'error');
+        }
+    };
+
+    const handleCreateInvite = async (email: string, inviteRole: ProjectRole, expiresInDays: number | null): Promise<string> => {
         if (!project || !isOwner) {
             throw new Error("You do not have permission to invite members.");
         }
         try {
-            const inviteCode = await createInvite(projectId, user.uid, email);
+            const inviteCode = await createInvite(projectId, user.uid, email, inviteRole, expiresInDays);
             return inviteCode;
         } catch (error) {
             console.error("Failed to create invite:", error);
@@ -934,6 +1330,7 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
     };
     
     const handleGenerateSvg = async (prompt: string, assetType: 'icon' | 'background'): Promise<string> => {
+        if (!permissions.canUseAi) throw new Error("Your role in this project doesn't allow using the AI.");
         if (!project) throw new Error("Project context is not available.");
         if (isAiLoading) throw new Error("Another AI task is already in progress.");
         
@@ -947,10 +1344,15 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
     };
     
     const handleSaveSvgToFile = async (svgCode: string) => {
+        if (!isAllowed('canEditFiles')) return;
         const filePath = prompt("Enter the full path for the new SVG file:", "src/assets/new-icon.svg");
         if (filePath) {
             try {
                 await addFileOrFolder(projectId, filePath, 'file', svgCode, dbInstance);
+                history.record(`Add ${filePath}`, 'file', {
+                    before: captureFileStates(files, [filePath]),
+                    after: { [filePath]: { type: 'file', content: svgCode } },
+                });
                 showAlert(`File saved to ${filePath}`, 'success');
                 setIsSvgDesignModalOpen(false);
             } catch (err) {
@@ -961,6 +1363,7 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
     };
     
     const handleApplySvgAsIcon = async (svgCode: string) => {
+        if (!isAllowed('canEditFiles')) return;
         if (!project) return;
         const iconPath = 'public/icon.svg';
         const existingIcon = files.find(f => f.path === iconPath);
@@ -973,7 +1376,9 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
         }
 
         try {
+            await snapshotBeforeAiChange('Apply AI-generated project icon');
             await applyAiChanges(projectId, files, changes, dbInstance);
+            recordAiChanges('Apply AI-generated project icon', files, changes);
             showAlert("Project icon updated successfully!", 'success');
             setIsSvgDesignModalOpen(false);
         } catch (err) {
@@ -1026,32 +1431,168 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
         };
     }, [handleMouseMove, handleMouseUp]);
 
-    const [history, setHistory] = useState<FileNode[][]>([]);
-    const [historyIndex, setHistoryIndex] = useState(-1);
-    const canUndo = false;
-    const canRedo = false;
-    const handleUndo = () => {};
-    const handleRedo = () => {};
+    const canUndo = !!history.undoEntry && !isApplyingHistory;
+    const canRedo = !!history.redoEntry && !isApplyingHistory;
+
+    const applyHistoryStep = async (direction: 'undo' | 'redo') => {
+        const entry = direction === 'undo' ? history.undoEntry : history.redoEntry;
+        if (!entry || isApplyingHistory) return;
+        const expected = direction === 'undo' ? entry.after : entry.before;
+        const target = direction === 'undo' ? entry.before : entry.after;
+
+        const current = captureFileStates(files, Object.keys(expected));
+        const hasDiverged = Object.keys(expected).some(path => !isStateEqual(current[path] ?? null, expected[path]));
+        if (hasDiverged && !window.confirm(`Some files affected by "${entry.label}" have changed since. ${direction === 'undo' ? 'Undo' : 'Redo'} anyway and overwrite them?`)) {
+            return;
+        }
+
+        setIsApplyingHistory(true);
+        try {
+            await applyFileStates(projectId, files, target, dbInstance);
+            Object.keys(target).forEach(path => savedContentRef.current.delete(path));
+            setDirtyFiles(prev => new Set([...prev].filter(path => !(path in target))));
+            if (direction === 'undo') {
+                history.markUndone();
+            } else {
+                history.markRedone();
+            }
+        } catch (error) {
+            console.error(`Failed to ${direction}:`, error);
+            showAlert(`Error: ${error instanceof Error ? error.message : `Could not ${direction} the last action.`}`, 'error');
+        } finally {
+            setIsApplyingHistory(false);
+        }
+    };
+    const handleUndo = () => { if (isAllowed('canEditFiles')) applyHistoryStep('undo'); };
+    const handleRedo = () => { if (isAllowed('canEditFiles')) applyHistoryStep('redo'); };
+
+    const historyShortcutRef = useRef(applyHistoryStep);
+    historyShortcutRef.current = applyHistoryStep;
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            // Text fields, including the code editor, keep their own native undo.
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                historyShortcutRef.current('undo');
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                historyShortcutRef.current('redo');
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
 
     const selectedFile = useMemo(() => files.find(f => f.path === selectedFilePath), [files, selectedFilePath]);
     
-     const handleFileContentChange = (newContent: string) => {
-        if (selectedFile) {
+     const handleFileContentChange = (filePath: string, newContent: string) => {
+        if (!permissions.canEditFiles) return;
+        const file = files.find(f => f.path === filePath);
+        if (file) {
+            if (!savedContentRef.current.has(filePath)) {
+                savedContentRef.current.set(filePath, { content: file.content || '', revision: file.revision || 0 });
+            }
             setFiles(prevFiles =>
                 prevFiles.map(f =>
-                    f.path === selectedFile.path ? { ...f, content: newContent } : f
+                    f.path === filePath ? { ...f, content: newContent } : f
                 )
             );
-            setDirtyFiles(prev => new Set(prev).add(selectedFile.path));
+            setDirtyFiles(prev => new Set(prev).add(filePath));
+        }
+    };
+
+    // Writes `content` if the file is still at `base.revision`. If it changed since, the three-way merge view opens
+    // (on phones the merge is written into the editor as conflict blocks) and nothing is saved.
+    const saveUnlessChanged = async (file: FileNode, content: string, base: { content: string; revision: number }): Promise<boolean> => {
+        const remote = await saveFileContent(projectId, file.id, content, base.revision, dbInstance);
+        return !remote || handleRemoteChange(file, content, base, remote);
+    };
+
+    // Follows up a compare-and-set write of `content` that found the file moved on to `remote`. Resolves to true
+    // if nothing is left to merge.
+    const handleRemoteChange = async (file: FileNode, content: string, base: { content: string; revision: number }, remote: FileNode): Promise<boolean> => {
+        const remoteContent = remote.content || '';
+        const remoteBase = { content: remoteContent, revision: remote.revision || 0 };
+        // The same edit made on both sides, or a save of ours the stream hasn't delivered yet, isn't a conflict.
+        if (remoteContent === content) return true;
+        if (remoteContent === base.content) return saveUnlessChanged(file, content, remoteBase);
+        if (!languageService.monaco) {
+            const merged = mergeThreeWay(base.content, content, remoteContent);
+            savedContentRef.current.set(file.path, remoteBase);
+            setFiles(prev => prev.map(f => f.path === file.path ? { ...f, content: merged.content } : f));
+            setDirtyFiles(prev => new Set(prev).add(file.path));
+            showAlert(merged.conflicts > 0
+                ? `${file.path} was changed by someone else. Resolve the ${merged.conflicts} marked conflict(s), then save again.`
+                : `${file.path} was changed by someone else. Their changes were merged in; review and save again.`, 'info');
+            return false;
+        }
+        const conflict: FileConflict = { path: file.path, fileId: file.id, base: base.content, local: content, remote: remoteContent, remoteRevision: remoteBase.revision };
+        // A fresh conflict for a file already waiting replaces it where it is.
+        setMergeConflicts(prev => prev.some(c => c.path === file.path)
+            ? prev.map(c => c.path === file.path ? conflict : c)
+            : [...prev, conflict]);
+        return false;
+    };
+
+    const closeMergeConflict = () => setMergeConflicts(prev => prev.slice(1));
+
+    const handleResolveConflict = async (content: string) => {
+        if (!mergeConflict) return;
+        const { path, remote, remoteRevision } = mergeConflict;
+        const file = files.find(f => f.path === path);
+        if (!file) {
+            closeMergeConflict();
+            showAlert(`${path} was deleted, so the merge could not be saved.`, 'error');
+            return;
+        }
+        setSavingFile(path);
+        try {
+            // A newer remote change replaces this conflict with a fresh one.
+            if (!(await saveUnlessChanged(file, content, { content: remote, revision: remoteRevision }))) return;
+            history.record(`Merge ${path}`, 'edit', {
+                before: { [path]: { type: 'file', content: remote } },
+                after: { [path]: { type: 'file', content } },
+            });
+            savedContentRef.current.delete(path);
+            setFiles(prev => prev.map(f => f.path === path ? { ...f, content } : f));
+            setDirtyFiles(prev => {
+                const newDirty = new Set(prev);
+                newDirty.delete(path);
+                return newDirty;
+            });
+            closeMergeConflict();
+            showAlert(`Saved the merged ${path}.`, 'success');
+        } catch (err) {
+            console.error("Failed to save the merge:", err);
+            showAlert(`Error saving the merge: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
+        } finally {
+            setSavingFile(null);
         }
     };
 
     const handleSaveFile = async (filePath: string) => {
+        if (!isAllowed('canEditFiles')) return;
         const fileToSave = files.find(f => f.path === filePath);
         if (fileToSave && dirtyFiles.has(filePath)) {
             setSavingFile(filePath);
             try {
-                await updateFileContent(projectId, fileToSave.id, fileToSave.content || '', dbInstance);
+                // Files being co-edited save the merged document; everything else is saved only if it hasn't changed
+                // remotely since the edits began.
+                let savedContent = await collaboration.saveFile(filePath);
+                if (savedContent === null) {
+                    savedContent = fileToSave.content || '';
+                    const base = savedContentRef.current.get(filePath) ?? { content: savedContent, revision: fileToSave.revision || 0 };
+                    if (!(await saveUnlessChanged(fileToSave, savedContent, base))) return;
+                }
+                history.record(`Edit ${filePath}`, 'edit', {
+                    before: { [filePath]: { type: 'file', content: savedContentRef.current.get(filePath)?.content ?? '' } },
+                    after: { [filePath]: { type: 'file', content: savedContent } },
+                });
+                savedContentRef.current.delete(filePath);
                 setDirtyFiles(prev => {
                     const newDirty = new Set(prev);
                     newDirty.delete(filePath);
@@ -1071,16 +1612,37 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
     };
 
     const handleRenameFile = async (path: string) => {
+        if (!isAllowed('canEditFiles')) return;
         const newName = prompt("Enter new name:", path.split('/').pop());
         if (newName) {
             const parentPath = path.substring(0, path.lastIndexOf('/'));
             const newPath = parentPath ? `${parentPath}/${newName}` : newName;
+            // Tabs follow the rename before it lands, so the file list update doesn't close them as deleted.
+            editorTabs.rename(path, newPath);
             try {
-                await renameOrMovePath(projectId, path, newPath, dbInstance);
-                if (selectedFilePath === path) {
-                    setSelectedFilePath(newPath);
+                // Relative imports of the moved files, and in them, are rewritten in the same transaction as the move.
+                // Files changed by someone else since keep their content and open in the merge view, at their new paths.
+                const importUpdates = rewriteImportsForMove(files, path, newPath);
+                const targets = files.filter(f => f.path in importUpdates);
+                const changed = await renameOrMovePath(projectId, path, newPath, targets.map(f => ({ id: f.id, content: importUpdates[f.path], baseRevision: getEditBase(f).revision })), dbInstance);
+                const movedPath = (p: string) => p === path || p.startsWith(`${path}/`) ? newPath + p.slice(path.length) : p;
+                const settled = await Promise.all(targets.map(f => {
+                    const remote = changed.find(c => c.id === f.id);
+                    return !remote || handleRemoteChange({ ...f, path: movedPath(f.path) }, importUpdates[f.path], getEditBase(f), remote);
+                }));
+                const updated = targets.filter((_, i) => settled[i]);
+                const updatedPaths = new Set(updated.map(f => f.path));
+                history.record(`Rename ${path} to ${newPath}`, 'file', renameFileStates(files, path, newPath, Object.fromEntries(updated.map(f => [f.path, importUpdates[f.path]]))));
+                if (targets.length > 0) {
+                    updatedPaths.forEach(p => savedContentRef.current.delete(p));
+                    setDirtyFiles(prev => new Set([...prev].filter(p => !updatedPaths.has(p))));
+                    const toMerge = targets.length - updatedPaths.size;
+                    showAlert(toMerge > 0
+                        ? `Updated imports in ${updatedPaths.size} file(s). ${toMerge} changed in the meantime and need merging.`
+                        : `Updated imports in ${updatedPaths.size} file(s).`, 'info');
                 }
             } catch(e) {
+                editorTabs.rename(newPath, path);
                 showAlert(`Error renaming: ${e instanceof Error ? e.message : 'Unknown error'}`, 'error');
             }
         }
@@ -1129,7 +1691,42 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
         }
     };
 
+    const handleOpenRestoreSnapshot = (snapshot: Snapshot) => {
+        if (!isOwner) {
+            showAlert("Only the project owner can restore snapshots.", 'info');
+            return;
+        }
+        try {
+            const decompressed = LZString.decompressFromUTF16(snapshot.fileData);
+            if (!decompressed) throw new Error("Snapshot data is empty or corrupted.");
+            const snapshotFiles = JSON.parse(decompressed) as FileNode[];
+            setSnapshotToRestore({ snapshot, files: snapshotFiles });
+        } catch (error) {
+            console.error("Failed to read snapshot:", error);
+            showAlert(`Error: ${error instanceof Error ? error.message : "Could not read snapshot."}`, 'error');
+        }
+    };
+
+    const handleRestoreSnapshot = async (diffs: FileDiff[], selectedPaths: Set<string>) => {
+        if (!snapshotToRestore) return;
+        setIsRestoringSnapshot(true);
+        try {
+            const changes = fileDiffsToChanges(diffs, selectedPaths);
+            await applyAiChanges(projectId, files, changes, dbInstance);
+            history.record(`Restore snapshot "${snapshotToRestore.snapshot.triggeringPrompt}"`, 'file', aiChangesFileStates(files, changes));
+            setDirtyFiles(prev => new Set([...prev].filter(path => !selectedPaths.has(path))));
+            setSnapshotToRestore(null);
+            showAlert(`Restored ${selectedPaths.size} file(s) from the snapshot.`, 'success');
+        } catch (error) {
+            console.error("Failed to restore snapshot:", error);
+            showAlert(`Error: ${error instanceof Error ? error.message : "Could not restore snapshot."}`, 'error');
+        } finally {
+            setIsRestoringSnapshot(false);
+        }
+    };
+
     const handleDuplicateFile = async (path: string) => {
+        if (!isAllowed('canEditFiles')) return;
         const originalFile = files.find(f => f.path === path);
         if (!originalFile || originalFile.type === 'folder') return;
 
@@ -1147,7 +1744,11 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
 
         try {
             await addFileOrFolder(projectId, newPath, 'file', originalFile.content || '', dbInstance);
-            setSelectedFilePath(newPath);
+            history.record(`Duplicate ${path}`, 'file', {
+                before: { [newPath]: null },
+                after: { [newPath]: { type: 'file', content: originalFile.content || '' } },
+            });
+            editorTabs.open(newPath);
         } catch(e) {
             showAlert(`Error duplicating file: ${e instanceof Error ? e.message : 'Unknown error'}`, 'error');
         }
@@ -1202,22 +1803,25 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                 <Header 
                     user={user} project={project} onDownload={handleDownload} onApiKeyClick={() => setIsApiKeyModalOpen(true)}
                     onSettingsClick={() => setIsSettingsModalOpen(true)} onUndo={handleUndo} onRedo={handleRedo}
-                    canUndo={canUndo} canRedo={canRedo} onAnalyzeClick={handleAnalyzeCode}
+                    canUndo={canUndo} canRedo={canRedo} undoLabel={history.undoEntry?.label} redoLabel={history.redoEntry?.label} onAnalyzeClick={handleAnalyzeCode}
                     onBuildClick={() => setIsBuildModalOpen(true)} onAutoDevClick={() => setIsAutoDevModalOpen(true)}
                     onGodModeClick={() => setIsGodModeModalOpen(true)}
                     onDebugRefactorClick={() => setIsDebugRefactorModalOpen(true)} onBackToDashboard={onBackToDashboard}
                     onTogglePreview={() => setMobileView('preview')} onToggleFullScreenPreview={() => setMobileView('preview')}
                     onToggleBottomPanel={() => {}} onProfileClick={() => setIsProfileModalOpen(true)} onShareClick={() => setIsShareModalOpen(true)}
                     onDeployClick={() => setIsDeploymentModalOpen(true)}
+                    onGitClick={() => setIsGitModalOpen(true)}
                     onDesignClick={() => setIsSvgDesignModalOpen(true)}
                     isAiLoading={isAiLoading} isMobile
+                    collaborators={collaboration.collaborators}
+                    permissions={permissions}
                 />
                 <main className="flex-grow overflow-hidden">
                     <div className="h-full" style={{ display: mobileView === 'files' ? 'block' : 'none' }}>
                         <FileExplorer files={files} selectedFilePath={selectedFilePath} onFileSelect={handleFileSelect} onFileDelete={handleFileDelete} onFileAdd={handleFileAdd} onFileUpload={handleFileUpload} onContextMenuRequest={handleContextMenuRequest} projectId={projectId} />
                     </div>
                     <div className="h-full" style={{ display: mobileView === 'chat' ? 'block' : 'none' }}>
-                        <ChatInterface messages={chatMessages} onSendMessage={handleSendMessage} isLoading={isAiLoading} onApprovePlan={handleApprovePlan} onRejectPlan={handleRejectPlan} projectMembers={projectMembers} currentUser={user} isOwner={isOwner} files={files} project={project} apiConfig={apiConfig} apiPoolConfig={apiPoolConfig} apiPoolKeys={apiPoolKeys} currentUserId={user.uid} onSendRichMessage={handleSendRichMessage} onDeleteMessage={(id) => deleteChatMessage(projectId, id, dbInstance)} onOpenFileFromPin={handleFileSelect} onUpdateTaskStatus={handleUpdateTaskStatus} chatMessageRefs={chatMessageRefs}/>
+                        <ChatInterface messages={chatMessages} onSendMessage={handleSendMessage} isLoading={isAiLoading} streamingReply={streamingReply} onApprovePlan={handleApprovePlan} onRejectPlan={handleRejectPlan} projectMembers={projectMembers} currentUser={user} isOwner={isOwner} permissions={permissions} files={files} project={project} apiConfig={apiConfig} apiPoolConfig={apiPoolConfig} apiPoolKeys={apiPoolKeys} currentUserId={user.uid} onSendRichMessage={handleSendRichMessage} onDeleteMessage={(id) => deleteChatMessage(projectId, id, dbInstance)} onOpenFileFromPin={handleFileSelect} onUpdateTaskStatus={handleUpdateTaskStatus} chatMessageRefs={chatMessageRefs}/>
                     </div>
                     <div className="h-full" style={{ display: mobileView === 'todo' ? 'block' : 'none' }}>
                         <TodoListPanel
@@ -1227,10 +1831,10 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                         />
                     </div>
                     <div className="h-full" style={{ display: mobileView === 'editor' ? 'block' : 'none' }}>
-                        {selectedFile ? <CodeEditor filePath={selectedFile.path} content={selectedFile.content || ''} onChange={handleFileContentChange} onSave={handleSaveFile} isDirty={dirtyFiles.has(selectedFile.path)} isSavingFile={savingFile === selectedFile.path} isMobile onBack={() => setMobileView('files')} /> : <div className="p-4 text-center text-neutral">Select a file to edit.</div>}
+                        {selectedFile ? <MobileCodeEditor filePath={selectedFile.path} content={selectedFile.content || ''} onChange={content => handleFileContentChange(selectedFile.path, content)} onSave={handleSaveFile} isDirty={dirtyFiles.has(selectedFile.path)} isSavingFile={savingFile === selectedFile.path} readOnly={!permissions.canEditFiles} onBack={() => setMobileView('files')} /> : <div className="p-4 text-center text-neutral">Select a file to edit.</div>}
                     </div>
                     <div className="h-full" style={{ display: mobileView === 'preview' ? 'block' : 'none' }}>
-                        <SandboxPreview files={files} projectType={project.type} isMobile />
+                        <SandboxPreview files={files} projectType={project.type} sandboxType={project.sandboxType} onConsoleMessage={handleConsoleMessage} isMobile />
                     </div>
                 </main>
                 <MobileNavBar activeView={mobileView} onViewChange={setMobileView} isEditorDisabled={!selectedFilePath} />
@@ -1243,6 +1847,7 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                     isSaving={isAiLoading}
                     members={projectMembers}
                     onRemoveMember={handleRemoveMember}
+                    onChangeMemberRole={handleChangeMemberRole}
                     onCreateInvite={handleCreateInvite}
                     onUpdateSuccess={refreshUserProfile}
                 />
@@ -1258,13 +1863,41 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                     projectId={projectId}
                     dbInstance={dbInstance}
                 />
-                <DebugRefactorModal isOpen={isDebugRefactorModalOpen} onClose={() => {setProposedFixes(null); setIsDebugRefactorModalOpen(false)}} onProposeFixes={handleProposeFixes} onApplyFixes={handleApplyFixes} isLoading={isFixing} proposedChanges={proposedFixes} selectedFile={selectedFile} />
+                <DebugRefactorModal isOpen={isDebugRefactorModalOpen} onClose={() => {setProposedFixes(null); setDebugPrefill(undefined); setIsDebugRefactorModalOpen(false)}} onProposeFixes={handleProposeFixes} onApplyFixes={handleApplyFixes} isLoading={isFixing} proposedChanges={proposedFixes} selectedFile={selectedFile} initialDescription={debugPrefill} />
                 <ProfileSettingsModal isOpen={isProfileModalOpen} onClose={() => setIsProfileModalOpen(false)} user={user} onUpdateSuccess={refreshUserProfile} />
                 <ShareProjectModal isOpen={isShareModalOpen} onClose={() => setIsShareModalOpen(false)} projectId={projectId} onGenerateKey={handleGenerateShareKey} isCollaborationEnabled={isCollaborationEnabled} ownerUid={project.ownerId} />
-                <DeploymentModal isOpen={isDeploymentModalOpen} onClose={() => setIsDeploymentModalOpen(false)} onDeployCodeSandbox={()=>{}} isDeploying={isDeploying} />
+                <DeploymentModal
+                    isOpen={isDeploymentModalOpen}
+                    onClose={() => setIsDeploymentModalOpen(false)}
+                    project={project}
+                    deployments={deployments}
+                    progress={deployProgress}
+                    isTargetConfigured={isDeployTargetConfigured}
+                    onDeploy={target => handleDeploy(target)}
+                    onRedeploy={record => handleDeploy(record.target, record)}
+                    onOpenApiKeys={() => setIsApiKeyModalOpen(true)}
+                />
+                <GitModal
+                    isOpen={isGitModalOpen}
+                    onClose={() => setIsGitModalOpen(false)}
+                    config={project.git}
+                    status={git.status}
+                    lastCommit={git.lastCommit}
+                    busyAction={git.busyAction}
+                    error={git.error}
+                    hasToken={!!apiConfig.git}
+                    hasUnsavedFiles={dirtyFiles.size > 0}
+                    onConnect={handleGitConnect}
+                    onRefresh={() => git.refresh().catch(() => {})}
+                    onCommit={handleGitCommit}
+                    onGenerateMessage={handleGenerateCommitMessage}
+                    onPush={handleGitPush}
+                    onPull={handleGitPull}
+                    onOpenApiKeys={() => setIsApiKeyModalOpen(true)}
+                />
                  <SvgDesignModal isOpen={isSvgDesignModalOpen} onClose={() => setIsSvgDesignModalOpen(false)} onGenerate={handleGenerateSvg} onSaveToFile={handleSaveSvgToFile} onApplyAsIcon={handleApplySvgAsIcon} isGenerating={isAiLoading} project={project}/>
                 <GodModeModal isOpen={isGodModeModalOpen} onClose={() => setIsGodModeModalOpen(false)} onStart={handleStartGodMode} isLoading={isAiLoading} apiConfig={apiConfig} />
-                {isFullScreenPreview && <SandboxPreview files={files} projectType={project.type} isFullScreen onCloseFullScreen={() => setIsFullScreenPreview(false)} />}
+                {isFullScreenPreview && <SandboxPreview files={files} projectType={project.type} sandboxType={project.sandboxType} onConsoleMessage={handleConsoleMessage} isFullScreen onCloseFullScreen={() => setIsFullScreenPreview(false)} />}
                 {contextMenu && <ContextMenu x={contextMenu.x} y={contextMenu.y} items={contextMenuItems} onClose={() => setContextMenu(null)} />}
             </div>
         )
@@ -1276,7 +1909,7 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
             <Header 
                 user={user} project={project} onDownload={handleDownload} onApiKeyClick={() => setIsApiKeyModalOpen(true)}
                 onSettingsClick={() => setIsSettingsModalOpen(true)} onUndo={handleUndo} onRedo={handleRedo}
-                canUndo={canUndo} canRedo={canRedo} onAnalyzeClick={handleAnalyzeCode}
+                canUndo={canUndo} canRedo={canRedo} undoLabel={history.undoEntry?.label} redoLabel={history.redoEntry?.label} onAnalyzeClick={handleAnalyzeCode}
                 onBuildClick={() => setIsBuildModalOpen(true)} onAutoDevClick={() => setIsAutoDevModalOpen(true)}
                 onGodModeClick={() => setIsGodModeModalOpen(true)}
                 onDebugRefactorClick={() => setIsDebugRefactorModalOpen(true)} onBackToDashboard={onBackToDashboard}
@@ -1284,8 +1917,11 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                 onToggleBottomPanel={() => setIsBottomPanelOpen(!isBottomPanelOpen)} onProfileClick={() => setIsProfileModalOpen(true)}
                 onShareClick={() => setIsShareModalOpen(true)}
                 onDeployClick={() => setIsDeploymentModalOpen(true)}
+                onGitClick={() => setIsGitModalOpen(true)}
                 onDesignClick={() => setIsSvgDesignModalOpen(true)}
                 isAiLoading={isAiLoading} isMobile={false}
+                collaborators={collaboration.collaborators}
+                permissions={permissions}
             />
             <main className="flex-grow flex overflow-hidden">
                 <div style={{ width: `${sidebarWidth}px` }} className="shrink-0 h-full">
@@ -1301,7 +1937,11 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                         onContextMenuRequest={handleContextMenuRequest}
                         isCollaborationEnabled={isCollaborationEnabled}
                         projectId={projectId}
+                        monaco={languageService.monaco}
+                        onOpenSearchMatch={handleOpenLocation}
+                        onReplaceInFiles={handleReplaceInFiles}
                         messages={chatMessages}
+                        streamingReply={streamingReply}
                         onSendMessage={handleSendMessage}
                         isLoading={isAiLoading}
                         onApprovePlan={handleApprovePlan}
@@ -1309,6 +1949,7 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                         projectMembers={projectMembers}
                         currentUser={user}
                         isOwner={isOwner}
+                        permissions={permissions}
                         project={project}
                         apiConfig={apiConfig}
                         apiPoolConfig={apiPoolConfig}
@@ -1320,6 +1961,7 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                         snapshots={snapshots}
                         onCreateSnapshot={handleCreateSnapshot}
                         onDeleteSnapshot={handleDeleteSnapshot}
+                        onRestoreSnapshot={handleOpenRestoreSnapshot}
                         onUpdateTaskStatus={handleUpdateTaskStatus}
                         chatMessageRefs={chatMessageRefs}
                         onJumpToMessage={handleJumpToMessage}
@@ -1330,8 +1972,35 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                 <div id="main-panel" className="flex-grow flex flex-col overflow-hidden">
                     <div className="flex-grow flex overflow-hidden">
                         <div style={{ width: `${editorWidthPercent}%`}} className="h-full flex flex-col">
-                            {selectedFile ? (
-                                <CodeEditor filePath={selectedFile.path} content={selectedFile.content || ''} onChange={handleFileContentChange} onSave={handleSaveFile} isDirty={dirtyFiles.has(selectedFile.path)} isSavingFile={savingFile === selectedFile.path} />
+                            {mergeConflict && languageService.monaco ? (
+                                <MergeConflictView
+                                    monaco={languageService.monaco}
+                                    conflict={mergeConflict}
+                                    isSaving={savingFile === mergeConflict.path}
+                                    onResolve={handleResolveConflict}
+                                    onCancel={closeMergeConflict}
+                                />
+                            ) : editorTabs.panes.some(pane => pane.tabs.length > 0) ? (
+                                <CodeEditor
+                                    monaco={languageService.monaco}
+                                    loadError={languageService.loadError}
+                                    files={files}
+                                    panes={editorTabs.panes}
+                                    focusedPane={editorTabs.focusedPane}
+                                    dirtyFiles={dirtyFiles}
+                                    savingFile={savingFile}
+                                    reveal={revealRequest}
+                                    collaborators={collaboration.collaborators}
+                                    readOnly={!permissions.canEditFiles}
+                                    onChange={handleFileContentChange}
+                                    onSelectionChange={collaboration.updateSelection}
+                                    onSave={handleSaveFile}
+                                    onSelectTab={(pane, path) => editorTabs.open(path, pane)}
+                                    onCloseTab={(pane, path) => editorTabs.close(path, pane)}
+                                    onFocusPane={editorTabs.focus}
+                                    onSplit={editorTabs.split}
+                                    onClosePane={editorTabs.closePane}
+                                />
                             ) : (
                                 <div className="h-full flex items-center justify-center text-center text-neutral p-4">
                                     <div className="flex flex-col items-center">
@@ -1344,14 +2013,42 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                         </div>
                         <div onMouseDown={() => {isResizingMain.current = true; document.body.style.cursor = 'col-resize';}} className="w-1.5 h-full cursor-col-resize bg-base-300 hover:bg-primary transition-colors"></div>
                         <div className="flex-grow h-full" style={{ display: isPreviewPaneOpen ? 'block' : 'none' }}>
-                             <SandboxPreview files={files} projectType={project.type} />
+                             <SandboxPreview files={files} projectType={project.type} sandboxType={project.sandboxType} onConsoleMessage={handleConsoleMessage} />
                         </div>
                     </div>
                      {isBottomPanelOpen && (
                         <>
                              <div onMouseDown={() => {isResizingVertical.current = true; document.body.style.cursor = 'row-resize';}} className="h-1.5 w-full cursor-row-resize bg-base-300 hover:bg-primary transition-colors"></div>
-                            <div style={{ height: `${bottomPanelHeight}px`}} className="w-full shrink-0">
-                                <Console messages={consoleMessages} onClear={() => setConsoleMessages([])} />
+                            <div style={{ height: `${bottomPanelHeight}px`}} className="w-full shrink-0 flex flex-col">
+                                <div className="flex items-center bg-base-200 border-t border-base-300 shrink-0 text-sm">
+                                    {(['console', 'problems', 'terminal'] as const).map(tab => (
+                                        <button
+                                            key={tab}
+                                            data-testid={`godmode-bottom-tab-${tab}`}
+                                            onClick={() => setActiveBottomTab(tab)}
+                                            className={`px-4 py-1.5 capitalize transition-colors ${activeBottomTab === tab ? 'text-base-content border-b-2 border-primary' : 'text-neutral hover:text-base-content'}`}
+                                        >
+                                            {tab}
+                                            {tab === 'problems' && languageService.problems.length > 0 && (
+                                                <span className="ml-1.5 px-1.5 rounded-full bg-base-300 text-xs text-neutral">{languageService.problems.length}</span>
+                                            )}
+                                        </button>
+                                    ))}
+                                    {activeBottomTab === 'terminal' && (
+                                        <button onClick={sandbox.restart} className="ml-auto mr-2 p-1 rounded-md hover:bg-base-300 transition-colors" title="Restart sandbox">
+                                            <RefreshIcon className="w-4 h-4 text-neutral" />
+                                        </button>
+                                    )}
+                                </div>
+                                <div className="flex-grow min-h-0">
+                                    {activeBottomTab === 'console' ? (
+                                        <Console messages={consoleMessages} onClear={() => setConsoleMessages([])} onSendErrorToAi={handleSendErrorToAi} />
+                                    ) : activeBottomTab === 'problems' ? (
+                                        <ProblemsPanel problems={languageService.problems} isReady={languageService.monaco !== null} isFixing={isFixing} onOpenProblem={handleOpenProblem} onFixAllWithAi={handleFixProblemsWithAi} />
+                                    ) : (
+                                        <Terminal output={sandbox.output} onCommand={sandbox.runCommand} isReady={sandbox.isReady} />
+                                    )}
+                                </div>
                             </div>
                         </>
                     )}
@@ -1367,6 +2064,7 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                 isSaving={isAiLoading}
                 members={projectMembers}
                 onRemoveMember={handleRemoveMember}
+                onChangeMemberRole={handleChangeMemberRole}
                 onCreateInvite={handleCreateInvite}
                 onUpdateSuccess={refreshUserProfile}
             />
@@ -1382,13 +2080,50 @@ const EditorPage: React.FC<EditorPageProps> = ({ projectId, onBackToDashboard, u
                 projectId={projectId}
                 dbInstance={dbInstance}
             />
-            <DebugRefactorModal isOpen={isDebugRefactorModalOpen} onClose={() => {setProposedFixes(null); setIsDebugRefactorModalOpen(false)}} onProposeFixes={handleProposeFixes} onApplyFixes={handleApplyFixes} isLoading={isFixing} proposedChanges={proposedFixes} selectedFile={selectedFile} />
+            <DebugRefactorModal isOpen={isDebugRefactorModalOpen} onClose={() => {setProposedFixes(null); setDebugPrefill(undefined); setIsDebugRefactorModalOpen(false)}} onProposeFixes={handleProposeFixes} onApplyFixes={handleApplyFixes} isLoading={isFixing} proposedChanges={proposedFixes} selectedFile={selectedFile} initialDescription={debugPrefill} />
             <ProfileSettingsModal isOpen={isProfileModalOpen} onClose={() => setIsProfileModalOpen(false)} user={user} onUpdateSuccess={refreshUserProfile} />
             <ShareProjectModal isOpen={isShareModalOpen} onClose={() => setIsShareModalOpen(false)} projectId={projectId} onGenerateKey={handleGenerateShareKey} isCollaborationEnabled={isCollaborationEnabled} ownerUid={project.ownerId} />
-            <DeploymentModal isOpen={isDeploymentModalOpen} onClose={() => setIsDeploymentModalOpen(false)} onDeployCodeSandbox={()=>{}} isDeploying={isDeploying} />
+            <DeploymentModal
+                isOpen={isDeploymentModalOpen}
+                onClose={() => setIsDeploymentModalOpen(false)}
+                project={project}
+                deployments={deployments}
+                progress={deployProgress}
+                isTargetConfigured={isDeployTargetConfigured}
+                onDeploy={target => handleDeploy(target)}
+                onRedeploy={record => handleDeploy(record.target, record)}
+                onOpenApiKeys={() => setIsApiKeyModalOpen(true)}
+            />
+            <GitModal
+                isOpen={isGitModalOpen}
+                onClose={() => setIsGitModalOpen(false)}
+                config={project.git}
+                status={git.status}
+                lastCommit={git.lastCommit}
+                busyAction={git.busyAction}
+                error={git.error}
+                hasToken={!!apiConfig.git}
+                hasUnsavedFiles={dirtyFiles.size > 0}
+                onConnect={handleGitConnect}
+                onRefresh={() => git.refresh().catch(() => {})}
+                onCommit={handleGitCommit}
+                onGenerateMessage={handleGenerateCommitMessage}
+                onPush={handleGitPush}
+                onPull={handleGitPull}
+                onOpenApiKeys={() => setIsApiKeyModalOpen(true)}
+            />
             <SvgDesignModal isOpen={isSvgDesignModalOpen} onClose={() => setIsSvgDesignModalOpen(false)} onGenerate={handleGenerateSvg} onSaveToFile={handleSaveSvgToFile} onApplyAsIcon={handleApplySvgAsIcon} isGenerating={isAiLoading} project={project} />
             <GodModeModal isOpen={isGodModeModalOpen} onClose={() => setIsGodModeModalOpen(false)} onStart={handleStartGodMode} isLoading={isAiLoading} apiConfig={apiConfig} />
-            {isFullScreenPreview && <SandboxPreview files={files} projectType={project.type} isFullScreen onCloseFullScreen={() => setIsFullScreenPreview(false)} />}
+            <SnapshotRestoreModal
+                isOpen={!!snapshotToRestore}
+                onClose={() => setSnapshotToRestore(null)}
+                snapshot={snapshotToRestore?.snapshot || null}
+                snapshotFiles={snapshotToRestore?.files || []}
+                currentFiles={files}
+                onRestore={handleRestoreSnapshot}
+                isRestoring={isRestoringSnapshot}
+            />
+            {isFullScreenPreview && <SandboxPreview files={files} projectType={project.type} sandboxType={project.sandboxType} onConsoleMessage={handleConsoleMessage} isFullScreen onCloseFullScreen={() => setIsFullScreenPreview(false)} />}
             {contextMenu && <ContextMenu x={contextMenu.x} y={contextMenu.y} items={contextMenuItems} onClose={() => setContextMenu(null)} />}
         </div>
     );
@@ -0,0 +1,373 @@
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { AiProvider, ApiPoolKey, TokenUsage, UsageLedgerEntry } from '../types';
+import { AI_PROVIDERS, AI_PROXY_HEADERS, DEFAULT_DAILY_TOKEN_REWARD, getProvider, getUsageCost, readReportedUsage, AiProviderDefinition, ReportedUsage } from '../services/aiProviders';
+import { estimateTokens } from '../utils/projectContext';
+import { createKeyPool } from '../utils/keyPool';
+import { createFirebaseAdmin, encodeValue, DocumentData } from './firebaseAdmin';
+
+// Forwards the app's AI requests to the providers so API keys never reach the browser. A request is the provider's
+// own request, sent to `/<provider>/<provider path>` with the user's Firebase ID token where the key would go. The
+// proxy checks the token, the user's balance and rate limit, swaps in the user's own key or a pooled one, passes the
+// response straight back (streams included) and charges the tokens used to the user's usage ledger. It also grants
+// the daily token reward, on a user's first request of the (UTC) day.
+//
+// The proxy only protects keys and balances if clients can't go around it. Deploy `firestore.rules` from the repo
+// root to the same project: it stops clients reading the pooled keys and writing their own balance or usage ledger.
+//
+// Run it with `npm run proxy`. Settings come from the environment:
+//   FIREBASE_PROJECT_ID            The Firebase project the app signs in to (required)
+//   GOOGLE_APPLICATION_CREDENTIALS A service account key file with access to that project's Firestore
+//   PORT                           Defaults to 8787
+//   AI_PROXY_ALLOWED_ORIGINS       Comma-separated origins allowed to call the proxy; defaults to any
+//   AI_PROXY_REQUESTS_PER_MINUTE   Per user; defaults to 30
+// Point the app at it by setting AI_PROXY_URL (e.g. http://localhost:8787) in .env.local.
+
+const PROJECT_ID = process.env.FIREBASE_PROJECT_ID;
+const PORT = Number(process.env.PORT || 8787);
+const ALLOWED_ORIGINS = (process.env.AI_PROXY_ALLOWED_ORIGINS || '*').split(',').map(origin => origin.trim());
+const REQUESTS_PER_MINUTE = Number(process.env.AI_PROXY_REQUESTS_PER_MINUTE || 30);
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const POOL_REFRESH_MS = 60_000;
+
+if (!PROJECT_ID) {
+    console.error('Set FIREBASE_PROJECT_ID to the Firebase project the app uses.');
+    process.exit(1);
+}
+
+const admin = createFirebaseAdmin(PROJECT_ID);
+
+const keyPool = createKeyPool({
+    recordSuccess: (keyId, latencyMs, tokensUsed) => admin.commit([{
+        path: `adminSettings/apiPoolConfig/keys/${keyId}`,
+        data: { consecutiveFailures: 0, authFailures: 0, cooldownUntil: null },
+        merge: true,
+        transforms: [
+            { fieldPath: 'successCount', increment: encodeValue(1) },
+            { fieldPath: 'totalLatencyMs', increment: encodeValue(latencyMs) },
+            { fieldPath: 'tokensUsed', increment: encodeValue(tokensUsed) },
+            { fieldPath: 'lastUsedAt', setToServerValue: 'REQUEST_TIME' },
+        ],
+    }]),
+    recordFailure: (keyId, latencyMs, failure) => admin.commit([{
+        path: `adminSettings/apiPoolConfig/keys/${keyId}`,
+        data: failure,
+        merge: true,
+        transforms: [
+            { fieldPath: 'failureCount', increment: encodeValue(1) },
+            { fieldPath: 'totalLatencyMs', increment: encodeValue(latencyMs) },
+            { fieldPath: 'lastUsedAt', setToServerValue: 'REQUEST_TIME' },
+        ],
+    }]),
+});
+
+class ProxyError extends Error {
+    constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+        super(message);
+    }
+}
+
+// --- Pooled keys ---
+
+let poolCache: { isEnabled: boolean; keys: ApiPoolKey[]; loadedAt: number } | null = null;
+
+const getPool = async () => {
+    if (poolCache && Date.now() - poolCache.loadedAt < POOL_REFRESH_MS) return poolCache;
+    const config = await admin.getDocument('adminSettings/apiPoolConfig');
+    const keys = config?.isEnabled ? await admin.listDocuments('adminSettings/apiPoolConfig/keys') : [];
+    poolCache = { isEnabled: !!config?.isEnabled, keys: keys as unknown as ApiPoolKey[], loadedAt: Date.now() };
+    // Picks up keys an admin turned on or off since the last load.
+    keyPool.reconcileKeyHealth(poolCache.keys);
+    return poolCache;
+};
+
+// The user's own key comes first, as in the app; otherwise a healthy key from the pool.
+const resolveKey = async (uid: string, provider: AiProviderDefinition): Promise<{ key: string; poolKey: ApiPoolKey | null }> => {
+    const settings = await admin.getDocument(`userSettings/${uid}`);
+    // Keys in a vault are encrypted in the browser, so only plain keys can be used here.
+    const ownKey = (settings?.apiKeys as Record<string, string | null> | undefined)?.[provider.id];
+    if (ownKey) return { key: ownKey, poolKey: null };
+
+    const pool = await getPool();
+    if (pool.isEnabled && provider.supportsKeyPool && pool.keys.some(k => k.provider === provider.id)) {
+        const poolKey = keyPool.pickPoolKey(provider.id, pool.keys);
+        if (!poolKey) throw new ProxyError(503, `All pooled ${provider.name} keys are cooling down or disabled. Please try again in a few minutes.`);
+        return { key: poolKey.key, poolKey };
+    }
+    throw new ProxyError(400, `No ${provider.name} API key is available. Add your own key in the API key settings.`);
+};
+
+// --- Rate limiting ---
+
+const rateWindows = new Map<string, { startedAt: number; count: number }>();
+
+const checkRateLimit = (uid: string) => {
+    const now = Date.now();
+    const window = rateWindows.get(uid);
+    if (!window || now - window.startedAt >= 60_000) {
+        rateWindows.set(uid, { startedAt: now, count: 1 });
+        return;
+    }
+    if (window.count >= REQUESTS_PER_MINUTE) {
+        const retryAfter = Math.ceil((window.startedAt + 60_000 - now) / 1000);
+        throw new ProxyError(429, `Too many AI requests. Please wait ${retryAfter}s and try again.`, { 'Retry-After': String(retryAfter) });
+    }
+    window.count++;
+};
+
+// --- Requests ---
+
+// Only the calls the app makes are forwarded, so the proxy can't be used to reach anything else with a pooled key.
+const ALLOWED_PATHS: Record<AiProviderDefinition['apiFormat'], RegExp> = {
+    gemini: /^\/v1beta\/models\/([\w.-]+):(generateContent|streamGenerateContent)$/,
+    openai: /^\/chat\/completions$/,
+    anthropic: /^\/messages$/,
+};
+
+const PROXIED_PROVIDERS = AI_PROVIDERS.filter(p => p.id !== 'custom').map(p => p.id);
+
+const readBody = (req: http.IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new ProxyError(413, 'The request is too large.'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+});
+
+// The ID token stands in for the key, so it arrives in whichever header the provider's client puts keys in.
+const getIdToken = (req: http.IncomingMessage): string | null => {
+    const bearer = /^Bearer (.+)$/.exec(req.headers.authorization || '')?.[1];
+    const header = bearer || req.headers['x-api-key'] || req.headers['x-goog-api-key'];
+    return typeof header === 'string' && header ? header : null;
+};
+
+const buildUpstreamHeaders = (provider: AiProviderDefinition, key: string, req: http.IncomingMessage): Record<string, string> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (provider.apiFormat === 'gemini') headers['x-goog-api-key'] = key;
+    else if (provider.apiFormat === 'anthropic') {
+        headers['x-api-key'] = key;
+        headers['anthropic-version'] = String(req.headers['anthropic-version'] || '2023-06-01');
+    } else headers['Authorization'] = `Bearer ${key}`;
+    return headers;
+};
+
+const setCorsHeaders = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const origin = req.headers.origin;
+    if (ALLOWED_ORIGINS.includes('*')) res.setHeader('Access-Control-Allow-Origin', '*');
+    else if (origin && ALLOWED_ORIGINS.includes(origin)) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Vary', 'Origin');
+    }
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', req.headers['access-control-request-headers'] || '*');
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+};
+
+const sendError = (res: http.ServerResponse, status: number, message: string, headers: Record<string, string> = {}) => {
+    if (res.headersSent) {
+        res.end();
+        return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify({ error: { message } }));
+};
+
+// Copies the provider's response to the client as it arrives, picking the usage out of it along the way.
+const relayResponse = async (upstream: Response, res: http.ServerResponse, format: AiProviderDefinition['apiFormat']) => {
+    const contentType = upstream.headers.get('content-type') || 'application/json';
+    res.writeHead(upstream.status, { 'Content-Type': contentType, 'Cache-Control': 'no-cache' });
+    const isStream = contentType.includes('text/event-stream');
+    const decoder = new TextDecoder();
+    let body = '';
+    let pending = '';
+    let usage: ReportedUsage = {};
+
+    if (upstream.body) {
+        const reader = upstream.body.getReader();
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            res.write(value);
+            const text = decoder.decode(value, { stream: true });
+            body += text;
+            if (!isStream) continue;
+            const lines = (pending + text).split('\n');
+            pending = lines.pop() || '';
+            for (const line of lines) {
+                const data = line.trim().startsWith('data:') ? line.trim().slice(5).trim() : '';
+                if (!data || data === '[DONE]') continue;
+                try {
+                    usage = { ...usage, ...readReportedUsage(format, JSON.parse(data)) };
+                } catch {
+                    // Not every event is JSON, and the ones that aren't have no usage in them.
+                }
+            }
+        }
+    }
+    res.end();
+    if (!isStream) {
+        try {
+            usage = readReportedUsage(format, JSON.parse(body)) || {};
+        } catch {
+            usage = {};
+        }
+    }
+    return { body, usage };
+};
+
+// Charges the call to the user and records it in their usage ledger, in one transaction, as the app does for
+// direct calls. Without reported usage, the raw request and response are estimated, which errs on the high side.
+const chargeUser = async (entry: Omit<UsageLedgerEntry, 'id' | 'balanceAfter' | 'createdAt'>) => {
+    await admin.runTransaction(async get => {
+        const user = await get(`users/${entry.userId}`);
+        const balanceAfter = Number(user?.tokenBalance ?? 0) - entry.cost;
+        return {
+            result: balanceAfter,
+            writes: [
+                { path: `users/${entry.userId}`, data: { tokenBalance: balanceAfter }, merge: true },
+                {
+                    path: `users/${entry.userId}/usageLedger/${randomUUID().replace(/-/g, '')}`,
+                    data: { ...entry, balanceAfter },
+                    mustNotExist: true,
+                    transforms: [{ fieldPath: 'createdAt', setToServerValue: 'REQUEST_TIME' }],
+                },
+            ],
+        };
+    });
+};
+
+// Adds the daily reward when the user hasn't had it yet today (`lastLogin` marks the last one, as in the app), and
+// returns their balance either way.
+const grantDailyReward = async (uid: string, user: DocumentData | null): Promise<number> => {
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+    const isDue = (lastLogin: unknown) => !(lastLogin instanceof Date) || lastLogin < startOfDay;
+    if (!user || !isDue(user.lastLogin)) return Number(user?.tokenBalance ?? 0);
+
+    const settings = await admin.getDocument('adminSettings/config');
+    const reward = Number(settings?.dailyTokenReward) || DEFAULT_DAILY_TOKEN_REWARD;
+    return admin.runTransaction(async get => {
+        const current = await get(`users/${uid}`);
+        const balance = Number(current?.tokenBalance ?? 0);
+        if (!isDue(current?.lastLogin)) return { result: balance, writes: [] };
+        return {
+            result: balance + reward,
+            writes: [{
+                path: `users/${uid}`,
+                data: { tokenBalance: balance + reward },
+                merge: true,
+                transforms: [{ fieldPath: 'lastLogin', setToServerValue: 'REQUEST_TIME' }],
+            }],
+        };
+    });
+};
+
+const handleAiRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const [, providerId, ...rest] = url.pathname.split('/');
+    if (!PROXIED_PROVIDERS.includes(providerId as AiProvider)) throw new ProxyError(404, `Unknown provider "${providerId}".`);
+    const provider = getProvider(providerId as AiProvider);
+    const upstreamPath = `/${rest.join('/')}`;
+    const pathMatch = ALLOWED_PATHS[provider.apiFormat].exec(upstreamPath);
+    if (!pathMatch) throw new ProxyError(404, `${upstreamPath} is not forwarded to ${provider.name}.`);
+
+    const idToken = getIdToken(req);
+    if (!idToken) throw new ProxyError(401, 'Missing the Firebase ID token.');
+    let uid: string;
+    try {
+        uid = await admin.verifyIdToken(idToken);
+    } catch (error) {
+        throw new ProxyError(401, `Invalid Firebase ID token: ${error instanceof Error ? error.message : error}`);
+    }
+    checkRateLimit(uid);
+
+    const body = await readBody(req);
+    const balance = await grantDailyReward(uid, await admin.getDocument(`users/${uid}`));
+    if (balance <= 0) throw new ProxyError(402, 'Insufficient tokens. Please contact an administrator to add more.');
+
+    let model: string;
+    if (provider.apiFormat === 'gemini') {
+        model = pathMatch[1];
+    } else {
+        try {
+            model = String(JSON.parse(body).model || '');
+        } catch {
+            throw new ProxyError(400, 'The request body is not valid JSON.');
+        }
+        if (!model) throw new ProxyError(400, 'The request does not name a model.');
+    }
+
+    const { key, poolKey } = await resolveKey(uid, provider);
+    const startedAt = Date.now();
+    const upstream = await fetch(`${provider.baseUrl}${upstreamPath}${url.search}`, {
+        method: 'POST',
+        headers: buildUpstreamHeaders(provider, key, req),
+        body,
+    });
+
+    if (!upstream.ok) {
+        const errorBody = await upstream.text();
+        if (poolKey) keyPool.reportKeyFailure(poolKey, new Error(`API Error from ${provider.name} (${upstream.status}): ${errorBody}`), Date.now() - startedAt);
+        res.writeHead(upstream.status, { 'Content-Type': upstream.headers.get('content-type') || 'text/plain' });
+        res.end(errorBody);
+        return;
+    }
+
+    const { body: responseBody, usage: reported } = await relayResponse(upstream, res, provider.apiFormat);
+    const usage: TokenUsage = {
+        inputTokens: reported.inputTokens ?? estimateTokens(body),
+        outputTokens: reported.outputTokens ?? estimateTokens(responseBody),
+        isEstimated: reported.inputTokens === undefined || reported.outputTokens === undefined,
+    };
+    if (poolKey) keyPool.reportKeySuccess(poolKey, Date.now() - startedAt, usage.inputTokens + usage.outputTokens);
+
+    const functionName = req.headers[AI_PROXY_HEADERS.functionName.toLowerCase()];
+    const projectId = req.headers[AI_PROXY_HEADERS.projectId.toLowerCase()];
+    await chargeUser({
+        userId: uid,
+        projectId: typeof projectId === 'string' ? projectId : null,
+        provider: provider.id,
+        model,
+        functionName: typeof functionName === 'string' ? functionName : 'unknown',
+        ...usage,
+        cost: getUsageCost(provider.id, model, usage),
+    });
+};
+
+const server = http.createServer((req, res) => {
+    setCorsHeaders(req, res);
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+    if (req.method === 'GET' && req.url === '/health') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ ok: true }));
+        return;
+    }
+    if (req.method !== 'POST') {
+        sendError(res, 405, 'Only POST requests are forwarded.');
+        return;
+    }
+    handleAiRequest(req, res).catch(error => {
+        if (error instanceof ProxyError) {
+            sendError(res, error.status, error.message, error.headers);
+            return;
+        }
+        console.error('AI proxy request failed:', error);
+        sendError(res, 502, error instanceof Error ? error.message : 'The AI proxy could not complete the request.');
+    });
+});
+
+server.listen(PORT, () => {
+    console.log(`AI proxy listening on http://localhost:${PORT}`);
+});
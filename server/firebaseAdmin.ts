@@ -0,0 +1,138 @@
+import { GoogleAuth, OAuth2Client } from 'google-auth-library';
+
+// Just enough of Firebase for the AI proxy: verifying the ID tokens the app sends, and reading and writing Firestore
+// through its REST API as a service account (set GOOGLE_APPLICATION_CREDENTIALS), which security rules don't apply to.
+
+const SECURE_TOKEN_CERTS_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+const MAX_COMMIT_ATTEMPTS = 3;
+
+type FirestoreValue = {
+    nullValue?: null;
+    booleanValue?: boolean;
+    integerValue?: string;
+    doubleValue?: number;
+    timestampValue?: string;
+    stringValue?: string;
+    arrayValue?: { values?: FirestoreValue[] };
+    mapValue?: { fields?: Record<string, FirestoreValue> };
+};
+
+type FirestoreDocument = { name: string; fields?: Record<string, FirestoreValue> };
+
+export type DocumentData = Record<string, unknown>;
+
+// A field set to the server's time or incremented in place, as with FieldValue.serverTimestamp and increment.
+export type FieldTransform = { fieldPath: string } & ({ setToServerValue: 'REQUEST_TIME' } | { increment: FirestoreValue });
+
+export type FirestoreWrite = {
+    path: string;
+    data: DocumentData;
+    merge?: boolean; // Only touches the fields in `data`, like set(..., { merge: true })
+    mustNotExist?: boolean;
+    transforms?: FieldTransform[];
+};
+
+const decodeValue = (value: FirestoreValue): unknown => {
+    if (value.stringValue !== undefined) return value.stringValue;
+    if (value.integerValue !== undefined) return Number(value.integerValue);
+    if (value.doubleValue !== undefined) return value.doubleValue;
+    if (value.booleanValue !== undefined) return value.booleanValue;
+    if (value.timestampValue !== undefined) return new Date(value.timestampValue);
+    if (value.mapValue) return decodeFields(value.mapValue.fields);
+    if (value.arrayValue) return (value.arrayValue.values || []).map(decodeValue);
+    return null;
+};
+
+const decodeFields = (fields: Record<string, FirestoreValue> = {}): DocumentData =>
+    Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, decodeValue(value)]));
+
+export const encodeValue = (value: unknown): FirestoreValue => {
+    if (value === null || value === undefined) return { nullValue: null };
+    if (value instanceof Date) return { timestampValue: value.toISOString() };
+    if (typeof value === 'string') return { stringValue: value };
+    if (typeof value === 'boolean') return { booleanValue: value };
+    if (typeof value === 'number') return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+    if (Array.isArray(value)) return { arrayValue: { values: value.map(encodeValue) } };
+    return { mapValue: { fields: encodeFields(value as DocumentData) } };
+};
+
+const encodeFields = (data: DocumentData): Record<string, FirestoreValue> =>
+    Object.fromEntries(Object.entries(data).map(([key, value]) => [key, encodeValue(value)]));
+
+const getStatus = (error: unknown) => (error as { response?: { status?: number } })?.response?.status;
+
+export const createFirebaseAdmin = (projectId: string) => {
+    const googleAuth = new GoogleAuth({ scopes: ['https://www.googleapis.com/auth/datastore'] });
+    const oauthClient = new OAuth2Client();
+    const databaseName = `projects/${projectId}/databases/(default)`;
+    const documentsUrl = `https://firestore.googleapis.com/v1/${databaseName}/documents`;
+    let certs: { value: Record<string, string>; expiresAt: number } | null = null;
+
+    const request = async <T>(url: string, method: 'GET' | 'POST' = 'GET', data?: unknown): Promise<T> =>
+        (await googleAuth.request<T>({ url, method, data })).data;
+
+    // Google rotates the signing certificates, and says how long each set can be cached for.
+    const getCerts = async () => {
+        if (certs && certs.expiresAt > Date.now()) return certs.value;
+        const response = await fetch(SECURE_TOKEN_CERTS_URL);
+        if (!response.ok) throw new Error(`Could not fetch the ID token certificates (${response.status}).`);
+        const maxAge = Number(/max-age=(\d+)/.exec(response.headers.get('cache-control') || '')?.[1] ?? 3600);
+        certs = { value: await response.json(), expiresAt: Date.now() + maxAge * 1000 };
+        return certs.value;
+    };
+
+    // Resolves to the user's uid, or throws if the token is invalid, expired or for another project.
+    const verifyIdToken = async (idToken: string): Promise<string> => {
+        const ticket = await oauthClient.verifySignedJwtWithCertsAsync(idToken, await getCerts(), projectId, [`https://securetoken.google.com/${projectId}`]);
+        const uid = ticket.getPayload()?.sub;
+        if (!uid) throw new Error('The ID token has no user.');
+        return uid;
+    };
+
+    const getDocument = async (path: string, transaction?: string): Promise<DocumentData | null> => {
+        try {
+            const query = transaction ? `?transaction=${encodeURIComponent(transaction)}` : '';
+            const doc = await request<FirestoreDocument>(`${documentsUrl}/${path}${query}`);
+            return decodeFields(doc.fields);
+        } catch (error) {
+            if (getStatus(error) === 404) return null;
+            throw error;
+        }
+    };
+
+    // The first page only, which is plenty for the collections the proxy reads.
+    const listDocuments = async (path: string): Promise<Array<DocumentData & { id: string }>> => {
+        const { documents = [] } = await request<{ documents?: FirestoreDocument[] }>(`${documentsUrl}/${path}?pageSize=300`);
+        return documents.map(doc => ({ id: doc.name.split('/').pop()!, ...decodeFields(doc.fields) }));
+    };
+
+    const toRestWrite = (write: FirestoreWrite) => ({
+        update: { name: `${databaseName}/documents/${write.path}`, fields: encodeFields(write.data) },
+        ...(write.merge && { updateMask: { fieldPaths: Object.keys(write.data) } }),
+        ...(write.mustNotExist && { currentDocument: { exists: false } }),
+        ...(write.transforms?.length && { updateTransforms: write.transforms }),
+    });
+
+    const commit = async (writes: FirestoreWrite[], transaction?: string): Promise<void> => {
+        await request(`${documentsUrl}:commit`, 'POST', { writes: writes.map(toRestWrite), ...(transaction && { transaction }) });
+    };
+
+    // Runs `update` against a consistent read of its documents and commits the writes it returns, retrying when
+    // another write got in first.
+    const runTransaction = async <T>(update: (get: (path: string) => Promise<DocumentData | null>) => Promise<{ writes: FirestoreWrite[]; result: T }>): Promise<T> => {
+        for (let attempt = 1; ; attempt++) {
+            const { transaction } = await request<{ transaction: string }>(`${documentsUrl}:beginTransaction`, 'POST', {});
+            const { writes, result } = await update(path => getDocument(path, transaction));
+            try {
+                await commit(writes, transaction);
+                return result;
+            } catch (error) {
+                if (getStatus(error) !== 409 || attempt >= MAX_COMMIT_ATTEMPTS) throw error;
+            }
+        }
+    };
+
+    return { verifyIdToken, getDocument, listDocuments, commit, runTransaction };
+};
+
+export type FirebaseAdmin = ReturnType<typeof createFirebaseAdmin>;
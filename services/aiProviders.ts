@@ -0,0 +1,220 @@
+import { AiProvider, AiModelChoice, ApiConfig, TokenUsage } from '../types';
+
+// How requests to a provider are shaped. 'gemini' goes through the @google/genai SDK.
+export type ProviderApiFormat = 'gemini' | 'openai' | 'anthropic';
+export type ProviderAuthStyle = 'sdk' | 'bearer' | 'x-api-key';
+
+export type AiModelOption = {
+    id: string;
+    name: string;
+    contextWindow: number; // In tokens
+    priceWeight: number; // Balance tokens charged per token used, relative to Gemini 2.5 Flash
+};
+
+export type AiProviderDefinition = {
+    id: AiProvider;
+    name: string;
+    apiFormat: ProviderApiFormat;
+    authStyle: ProviderAuthStyle;
+    baseUrl: string; // Empty for the custom provider, whose URL comes from ApiConfig.customBaseUrl
+    models: AiModelOption[]; // The first model is the default. Empty means the model id is typed in by the user.
+    contextWindow: number; // Used for models that aren't in the catalogue
+    priceWeight: number; // Also for models that aren't in the catalogue
+    supportsJsonMode: boolean;
+    supportsKeyPool: boolean; // Whether admins can add shared keys for this provider
+    requiresApiKey: boolean;
+    keyPlaceholder: string;
+    keyNote: string;
+};
+
+export const AI_PROVIDERS: AiProviderDefinition[] = [
+    {
+        id: 'gemini',
+        name: 'Gemini',
+        apiFormat: 'gemini',
+        authStyle: 'sdk',
+        baseUrl: 'https://generativelanguage.googleapis.com',
+        models: [
+            { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', contextWindow: 1_000_000, priceWeight: 1 },
+        ],
+        contextWindow: 1_000_000,
+        priceWeight: 1,
+        supportsJsonMode: true,
+        supportsKeyPool: true,
+        requiresApiKey: true,
+        keyPlaceholder: 'Enter your Gemini API Key',
+        keyNote: 'Get your key from Google AI Studio.',
+    },
+    {
+        id: 'openrouter',
+        name: 'OpenRouter',
+        apiFormat: 'openai',
+        authStyle: 'bearer',
+        baseUrl: 'https://openrouter.ai/api/v1',
+        models: [
+            { id: 'mistralai/mistral-7b-instruct', name: 'Mistral 7B Instruct (Free)', contextWindow: 32_768, priceWeight: 0.25 },
+            { id: 'google/gemma-7b-it', name: 'Gemma 7B (Free)', contextWindow: 8_192, priceWeight: 0.25 },
+            { id: 'huggingfaceh4/zephyr-7b-beta', name: 'Zephyr 7B (Free)', contextWindow: 4_096, priceWeight: 0.25 },
+            { id: 'openai/gpt-3.5-turbo', name: 'OpenAI GPT-3.5 Turbo', contextWindow: 16_385, priceWeight: 2 },
+        ],
+        // Kept conservative because free-tier models are often much smaller than their paid counterparts.
+        contextWindow: 8_192,
+        priceWeight: 1,
+        supportsJsonMode: false,
+        supportsKeyPool: true,
+        requiresApiKey: true,
+        keyPlaceholder: 'Enter your OpenRouter API Key',
+        keyNote: 'Get your key from openrouter.ai.',
+    },
+    {
+        id: 'groq',
+        name: 'Groq',
+        apiFormat: 'openai',
+        authStyle: 'bearer',
+        baseUrl: 'https://api.groq.com/openai/v1',
+        models: [
+            { id: 'llama-3.1-8b-instant', name: 'LLaMA 3.1 8B (Fastest)', contextWindow: 131_072, priceWeight: 0.25 },
+            { id: 'llama-3.1-70b-versatile', name: 'LLaMA 3.1 70B (Powerful)', contextWindow: 131_072, priceWeight: 2 },
+            { id: 'gemma2-9b-it', name: 'Gemma 2 9B', contextWindow: 8_192, priceWeight: 0.5 },
+            { id: 'mixtral-8x7b-32768', name: 'Mixtral 8x7B', contextWindow: 32_768, priceWeight: 0.75 },
+            { id: 'llama3-70b-8192', name: 'LLaMA 3 70B', contextWindow: 8_192, priceWeight: 2 },
+            { id: 'llama3-8b-8192', name: 'LLaMA 3 8B', contextWindow: 8_192, priceWeight: 0.25 },
+        ],
+        contextWindow: 8_192,
+        priceWeight: 1,
+        supportsJsonMode: true,
+        supportsKeyPool: true,
+        requiresApiKey: true,
+        keyPlaceholder: 'Enter your Groq API Key',
+        keyNote: 'Get your key from groq.com.',
+    },
+    {
+        id: 'anthropic',
+        name: 'Anthropic',
+        apiFormat: 'anthropic',
+        authStyle: 'x-api-key',
+        baseUrl: 'https://api.anthropic.com/v1',
+        models: [
+            { id: 'claude-3-5-haiku-latest', name: 'Claude 3.5 Haiku (Fastest)', contextWindow: 200_000, priceWeight: 3 },
+            { id: 'claude-3-5-sonnet-latest', name: 'Claude 3.5 Sonnet', contextWindow: 200_000, priceWeight: 10 },
+            { id: 'claude-3-7-sonnet-latest', name: 'Claude 3.7 Sonnet (Powerful)', contextWindow: 200_000, priceWeight: 10 },
+        ],
+        contextWindow: 200_000,
+        priceWeight: 10,
+        supportsJsonMode: false,
+        supportsKeyPool: true,
+        requiresApiKey: true,
+        keyPlaceholder: 'Enter your Anthropic API Key',
+        keyNote: 'Get your key from console.anthropic.com.',
+    },
+    {
+        id: 'custom',
+        name: 'Custom (OpenAI-compatible)',
+        apiFormat: 'openai',
+        authStyle: 'bearer',
+        baseUrl: '',
+        models: [],
+        contextWindow: 8_192,
+        priceWeight: 1,
+        supportsJsonMode: false,
+        supportsKeyPool: false,
+        requiresApiKey: false, // Local servers such as Ollama or llama.cpp usually run without a key
+        keyPlaceholder: 'API key (optional for local servers)',
+        keyNote: 'Any server exposing /chat/completions, e.g. Ollama at http://localhost:11434/v1.',
+    },
+];
+
+export const EMPTY_API_CONFIG: ApiConfig = {
+    gemini: null,
+    openrouter: null,
+    groq: null,
+    anthropic: null,
+    custom: null,
+    customBaseUrl: null,
+    customModel: null,
+    e2b: null,
+    git: null,
+    netlify: null,
+    vercel: null,
+};
+
+export const getProvider = (id: AiProvider): AiProviderDefinition => {
+    const provider = AI_PROVIDERS.find(p => p.id === id);
+    if (!provider) throw new Error(`Unknown AI provider "${id}".`);
+    return provider;
+};
+
+export const getDefaultModel = (id: AiProvider, apiConfig?: ApiConfig): string | undefined => {
+    if (id === 'custom') return apiConfig?.customModel || undefined;
+    return getProvider(id).models[0]?.id;
+};
+
+// e.g. "Groq · LLaMA 3.1 70B (Powerful)". Models that aren't in the catalogue show their id.
+export const getModelLabel = ({ provider, model }: AiModelChoice): string => {
+    const definition = getProvider(provider);
+    const modelName = definition.models.find(m => m.id === model)?.name ?? model;
+    return modelName && definition.models.length !== 1 ? `${definition.name} · ${modelName}` : definition.name;
+};
+
+export const getContextWindow = (id: AiProvider, model?: string): number => {
+    const provider = getProvider(id);
+    return provider.models.find(m => m.id === model)?.contextWindow ?? provider.contextWindow;
+};
+
+export const getProviderBaseUrl = (id: AiProvider, apiConfig: ApiConfig): string => {
+    const baseUrl = id === 'custom' ? apiConfig.customBaseUrl?.trim() : getProvider(id).baseUrl;
+    if (!baseUrl) throw new Error("The custom provider has no base URL. Please add one in your API key settings.");
+    return baseUrl.replace(/\/+$/, '');
+};
+
+// Output tokens are weighted above input tokens, as every provider prices them several times higher.
+const OUTPUT_TOKEN_WEIGHT = 4;
+
+export const getPriceWeight = (id: AiProvider, model?: string): number => {
+    const provider = getProvider(id);
+    return provider.models.find(m => m.id === model)?.priceWeight ?? provider.priceWeight;
+};
+
+// What a call is charged against the user's token balance.
+export const getUsageCost = (id: AiProvider, model: string | undefined, usage: TokenUsage): number =>
+    Math.ceil((usage.inputTokens + usage.outputTokens * OUTPUT_TOKEN_WEIGHT) * getPriceWeight(id, model));
+
+// Added to a user's balance once a day, unless an admin sets another amount. It covers a few builds.
+export const DEFAULT_DAILY_TOKEN_REWARD = 250_000;
+
+// Headers a call sent through the AI proxy uses to say what it is for, for the usage ledger.
+export const AI_PROXY_HEADERS = {
+    functionName: 'X-Asai-Function',
+    projectId: 'X-Asai-Project',
+};
+
+// Token counts as a provider reports them. Either may be missing, in which case it is estimated from the text.
+export type ReportedUsage = { inputTokens?: number; outputTokens?: number };
+
+// OpenAI-style `usage`; Groq puts it under `x_groq` in streamed chunks.
+const openAiUsage = (usage: any): ReportedUsage | null =>
+    usage ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } : null;
+
+// Streams report input tokens in `message_start` and the running output count in each `message_delta`.
+const anthropicUsage = (usage: any): ReportedUsage | null =>
+    usage ? { ...(usage.input_tokens !== undefined && { inputTokens: usage.input_tokens }), ...(usage.output_tokens !== undefined && { outputTokens: usage.output_tokens }) } : null;
+
+// Gemini's `usageMetadata`. 2.5 models also bill their thinking as output.
+const geminiUsage = (metadata: any): ReportedUsage | null => metadata ? {
+    inputTokens: metadata.promptTokenCount,
+    outputTokens: metadata.candidatesTokenCount !== undefined ? metadata.candidatesTokenCount + (metadata.thoughtsTokenCount || 0) : undefined,
+} : null;
+
+// The usage in a response body or in one event of a stream, if it has any.
+export const readReportedUsage = (format: ProviderApiFormat, payload: any): ReportedUsage | null => {
+    if (format === 'gemini') return geminiUsage(payload.usageMetadata);
+    if (format === 'anthropic') return anthropicUsage(payload.type === 'message_start' ? payload.message?.usage : payload.usage);
+    return openAiUsage(payload.usage || payload.x_groq?.usage);
+};
+
+// A provider can be used if it has a key of its own, a shared pooled key, or doesn't need one.
+export const isProviderConfigured = (id: AiProvider, apiConfig: ApiConfig, isPoolEnabled: boolean): boolean => {
+    const provider = getProvider(id);
+    if (id === 'custom') return !!apiConfig.customBaseUrl;
+    return !!apiConfig[id] || !provider.requiresApiKey || (isPoolEnabled && provider.supportsKeyPool);
+};
@@ -0,0 +1,202 @@
+import { FileNode, AiPlan, AiChanges, AiGodModeAction, SearchReplaceBlock } from '../types';
+import { Schema, ResponseSpec, ValidationIssue } from '../utils/schema';
+
+// Runtime schemas for every JSON reply the AI is asked for. They double as native response schemas
+// for providers that support them, and as the reference shown to the model when a reply fails validation.
+
+const filePathList: Schema = { type: 'array', items: { type: 'string' } };
+const fileContentMap: Schema = { type: 'object', properties: {}, additionalProperties: { type: 'string' } };
+const fileTransferList: Schema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: { from: { type: 'string' }, to: { type: 'string' } },
+        required: ['from', 'to'],
+    },
+};
+const searchReplaceBlocks: Schema = {
+    type: 'array',
+    minItems: 1,
+    items: {
+        type: 'object',
+        properties: { search: { type: 'string' }, replace: { type: 'string' } },
+        required: ['search', 'replace'],
+    },
+};
+
+const existingFilePaths = (files: FileNode[]): Set<string> =>
+    new Set(files.filter(f => f.type === 'file').map(f => f.path));
+
+export const projectPlanSpec: ResponseSpec<{ projectName: string; filesToCreate: string[] }> = {
+    name: 'project plan',
+    schema: {
+        type: 'object',
+        properties: {
+            projectName: { type: 'string' },
+            filesToCreate: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        },
+        required: ['projectName', 'filesToCreate'],
+    },
+    validate: plan => {
+        const issues: ValidationIssue[] = [];
+        if (!plan.projectName.trim()) issues.push({ path: '$.projectName', message: 'must not be empty' });
+        plan.filesToCreate.forEach((path, i) => {
+            if (!path.trim()) issues.push({ path: `$.filesToCreate[${i}]`, message: 'must be a file path, got an empty string' });
+        });
+        return issues;
+    },
+};
+
+export const aiPlanSpec = (files: FileNode[]): ResponseSpec<AiPlan> => ({
+    name: 'modification plan',
+    schema: {
+        type: 'object',
+        properties: {
+            thoughts: { type: 'string' },
+            reasoning: { type: 'string' },
+            plan: {
+                type: 'object',
+                properties: {
+                    create: filePathList,
+                    update: filePathList,
+                    delete: filePathList,
+                    move: fileTransferList,
+                    copy: fileTransferList,
+                    special_action: {
+                        type: 'object',
+                        properties: {
+                            action: { type: 'string', enum: ['DELETE_PROJECT', 'COPY_PROJECT', 'CLEAR_CHAT_HISTORY', 'RENAME_PROJECT', 'CHANGE_MODEL'] },
+                            payload: {
+                                type: 'object',
+                                properties: { newName: { type: 'string' }, provider: { type: 'string' }, model: { type: 'string' } },
+                            },
+                            confirmation_prompt: { type: 'string' },
+                        },
+                        required: ['action'],
+                    },
+                },
+            },
+        },
+        required: ['reasoning', 'plan'],
+    },
+    validate: ({ plan }) => {
+        const existing = existingFilePaths(files);
+        const issues: ValidationIssue[] = [];
+        (plan.create || []).forEach((path, i) => {
+            if (existing.has(path)) issues.push({ path: `$.plan.create[${i}]`, message: `"${path}" already exists; list it under "update" instead` });
+        });
+        (plan.update || []).forEach((path, i) => {
+            if (!existing.has(path)) issues.push({ path: `$.plan.update[${i}]`, message: `"${path}" does not exist in the project; list it under "create" instead` });
+        });
+        (plan.delete || []).forEach((path, i) => {
+            if (!existing.has(path)) issues.push({ path: `$.plan.delete[${i}]`, message: `"${path}" does not exist in the project` });
+        });
+        (['move', 'copy'] as const).forEach(key => {
+            (plan[key] || []).forEach((entry, i) => {
+                if (!existing.has(entry.from)) issues.push({ path: `$.plan.${key}[${i}].from`, message: `"${entry.from}" does not exist in the project` });
+                if (existing.has(entry.to)) issues.push({ path: `$.plan.${key}[${i}].to`, message: `"${entry.to}" already exists` });
+            });
+        });
+        return issues;
+    },
+});
+
+// `files` limits which paths the changes may touch, e.g. only the files that were sent for fixing.
+export const aiChangesSpec = (files: FileNode[]): ResponseSpec<AiChanges> => ({
+    name: 'file changes',
+    schema: {
+        type: 'object',
+        properties: {
+            create: fileContentMap,
+            update: fileContentMap,
+            delete: filePathList,
+            move: fileTransferList,
+            copy: fileTransferList,
+            patch: { type: 'object', properties: {}, additionalProperties: searchReplaceBlocks },
+        },
+    },
+    validate: changes => {
+        const existing = existingFilePaths(files);
+        const issues: ValidationIssue[] = [];
+        (['update', 'patch'] as const).forEach(key => {
+            Object.keys(changes[key] || {}).forEach(path => {
+                if (!existing.has(path)) issues.push({ path: `$.${key}[${JSON.stringify(path)}]`, message: `"${path}" is not one of the provided files` });
+            });
+        });
+        (changes.delete || []).forEach((path, i) => {
+            if (!existing.has(path)) issues.push({ path: `$.delete[${i}]`, message: `"${path}" is not one of the provided files` });
+        });
+        (['move', 'copy'] as const).forEach(key => {
+            (changes[key] || []).forEach((entry, i) => {
+                if (!existing.has(entry.from)) issues.push({ path: `$.${key}[${i}].from`, message: `"${entry.from}" is not one of the provided files` });
+            });
+        });
+        return issues;
+    },
+});
+
+// Keyed by path: full content for new files, or full content / a patch object for existing ones.
+export const generatedFilesSpec: ResponseSpec<Record<string, string | { patch: SearchReplaceBlock[] }>> = {
+    name: 'generated files',
+    schema: {
+        type: 'object',
+        properties: {},
+        additionalProperties: {
+            anyOf: [
+                { type: 'string' },
+                { type: 'object', properties: { patch: searchReplaceBlocks }, required: ['patch'] },
+            ],
+        },
+    },
+};
+
+export const fileContentsSpec: ResponseSpec<Record<string, string>> = {
+    name: 'file contents',
+    schema: fileContentMap,
+};
+
+export const taskListSpec: ResponseSpec<string[]> = {
+    name: 'task list',
+    schema: { type: 'array', items: { type: 'string' }, minItems: 1 },
+};
+
+export const godModePlanSpec: ResponseSpec<Array<Omit<AiGodModeAction, 'reasoning'>>> = {
+    name: 'God Mode plan',
+    schema: {
+        type: 'array',
+        minItems: 1,
+        items: {
+            type: 'object',
+            properties: {
+                type: {
+                    type: 'string',
+                    enum: ['CLICK_ELEMENT', 'TYPE_IN_INPUT', 'SELECT_OPTION', 'MODIFY_FILES', 'ASK_USER', 'FINISH'],
+                    description: "Action type: 'CLICK_ELEMENT', 'TYPE_IN_INPUT', 'MODIFY_FILES', 'ASK_USER', 'FINISH', 'SELECT_OPTION'.",
+                },
+                selector: { type: 'string', description: "The 'data-testid' selector for UI actions." },
+                payload: { type: 'string', description: "Text for TYPE_IN_INPUT, question for ASK_USER, a DETAILED PROMPT for a Coder AI for MODIFY_FILES, or the 'value' of the option for SELECT_OPTION." },
+            },
+            required: ['type'],
+        },
+    },
+    // The model can sometimes wrap the array in an object, or return a single action, even with a schema.
+    normalize: value => {
+        if (Array.isArray(value) || typeof value !== 'object' || value === null) return value;
+        const arrayValue = Object.values(value).find(Array.isArray);
+        if (arrayValue) return arrayValue;
+        return 'type' in value ? [value] : value;
+    },
+    validate: actions => {
+        const issues: ValidationIssue[] = [];
+        actions.forEach((action, i) => {
+            const needsSelector = action.type === 'CLICK_ELEMENT' || action.type === 'TYPE_IN_INPUT' || action.type === 'SELECT_OPTION';
+            if (needsSelector && !action.selector) issues.push({ path: `$[${i}].selector`, message: `is required for ${action.type}` });
+            const needsPayload = action.type !== 'CLICK_ELEMENT' && action.type !== 'FINISH';
+            if (needsPayload && action.payload === undefined) issues.push({ path: `$[${i}].payload`, message: `is required for ${action.type}` });
+        });
+        if (actions[actions.length - 1]?.type !== 'FINISH') {
+            issues.push({ path: `$[${actions.length}]`, message: 'the plan must end with a { "type": "FINISH" } action' });
+        }
+        return issues;
+    },
+};
@@ -1,7 +1,14 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
+import { GoogleGenAI, Modality } from "@google/genai";
 // FIX: Import ApiPoolConfig and ApiPoolKey to support the new admin key pool feature.
-import { FileNode, ApiConfig, AiProvider, AiPlan, AgentState, AiChatMessage, AiChanges, ApiPoolConfig, ApiPoolKey, Project, User, AiGodModeAction } from "../types";
-import { deductToken, getUserProfile, logPlatformError, applyAiChanges, saveAgentMemory } from "./firestoreService";
+import { FileNode, ApiConfig, AiProvider, AiPlan, AgentState, AiChatMessage, AiChanges, ApiPoolConfig, ApiPoolKey, Project, User, AiGodModeAction, ContextReport, TokenUsage, AiModelChoice, AiAnsweredBy } from "../types";
+import { recordTokenUsage, apiKeyPool, getUserProfile, logPlatformError, applyAiChanges, saveAgentMemory, createPreChangeSnapshot } from "./firestoreService";
+import { auth } from "./firebase";
+import { resolvePatches } from "../utils/patch";
+import { buildProjectContext, ProjectContext, estimateTokens } from "../utils/projectContext";
+import { getProvider, getDefaultModel, getProviderBaseUrl, getUsageCost, readReportedUsage, AiProviderDefinition, ReportedUsage, AI_PROXY_HEADERS } from "./aiProviders";
+import { classifyKeyError, readErrorStatus } from "../utils/keyPool";
+import { Schema, ResponseSpec, validateResponse, formatValidationIssues, toGeminiSchema } from "../utils/schema";
+import { projectPlanSpec, aiPlanSpec, aiChangesSpec, generatedFilesSpec, fileContentsSpec, taskListSpec, godModePlanSpec } from "./aiSchemas";
 
 const MEMORY_FILE_PATH = ".asai/memory.md";
 
@@ -15,19 +22,238 @@ const fileSystemToJSON = (nodes: FileNode[]): Record<string, string> => {
     return fs;
 };
 
+const buildContextForProject = (files: FileNode[], project: Project, query: string, pinnedPaths?: string[]): ProjectContext =>
+    buildProjectContext(files, { provider: project.provider, model: project.model, query, pinnedPaths });
+
 const baseInstruction = `You are an AI assistant for ASAI, a platform created by Muhammad Adhil. If the user asks who made you, who created you, or who built ASAI, you must answer with "ASAI was built by Muhammad Adhil."`;
 
 
+// How AI calls reach the providers. 'direct' calls them from the browser with the user's own or a pooled key.
+// 'proxy' sends them through the AI proxy (server/aiProxy.ts), which holds the keys, enforces the token balance and
+// rate limits, and meters usage, so no key is needed in the browser.
+export type AiTransport = { kind: 'direct' } | { kind: 'proxy'; url: string };
+
+let aiTransport: AiTransport = process.env.AI_PROXY_URL
+    ? { kind: 'proxy', url: process.env.AI_PROXY_URL.replace(/\/+$/, '') }
+    : { kind: 'direct' };
+
+export const getAiTransport = (): AiTransport => aiTransport;
+
+export const setAiTransport = (transport: AiTransport) => {
+    aiTransport = transport;
+};
+
+// A call going through the proxy carries the user's ID token where the provider's key would go, and says what it
+// is for so the proxy can record it in the usage ledger.
+type ProxyRoute = { url: string; idToken: string; headers: Record<string, string> };
+
+// Custom servers are always called directly: they usually run on the user's own machine, out of the proxy's reach.
+const getProxyRoute = async (provider: AiProvider, functionName: string, projectId: string | null | undefined): Promise<ProxyRoute | null> => {
+    if (aiTransport.kind !== 'proxy' || provider === 'custom') return null;
+    const idToken = await auth.currentUser?.getIdToken();
+    if (!idToken) throw new Error("You need to be signed in to use the AI proxy. Please sign in again.");
+    return {
+        url: aiTransport.url,
+        idToken,
+        headers: { [AI_PROXY_HEADERS.functionName]: functionName, ...(projectId && { [AI_PROXY_HEADERS.projectId]: projectId }) },
+    };
+};
+
+const createGeminiClient = (apiKey: string, route: ProxyRoute | null) => route
+    ? new GoogleGenAI({ apiKey: route.idToken, httpOptions: { baseUrl: `${route.url}/gemini`, headers: route.headers } })
+    : new GoogleGenAI({ apiKey });
+
+// Receives streamed output. `textSoFar` is everything generated in the current attempt; it starts over from '' when a failed attempt is retried or another provider takes over.
+export type AiTokenHandler = (delta: string, textSoFar: string) => void;
+
+// Told which provider and model gave a reply, once it's in.
+export type AiAnsweredByHandler = (answeredBy: AiAnsweredBy) => void;
+
+type AiCompletion = { text: string; usage: ReportedUsage };
+
+// Reads a server-sent event stream, forwarding the text that `extractDelta` finds in each event as it arrives.
+// Usage can come in pieces over several events, so later counts overwrite earlier ones.
+const readSseStream = async (
+    response: Response,
+    extractDelta: (event: any) => string,
+    extractUsage: (event: any) => ReportedUsage | null,
+    onToken: AiTokenHandler
+): Promise<AiCompletion> => {
+    if (!response.body) throw new Error("Streaming is not supported by this browser.");
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let usage: ReportedUsage = {};
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue; // Skips blank lines, `event:` lines and keep-alive comments
+            const data = trimmed.slice(5).trim();
+            if (data === '[DONE]') return { text, usage };
+            const event = JSON.parse(data);
+            if (event.error) throw new Error(event.error.message || JSON.stringify(event.error));
+            const reported = extractUsage(event);
+            if (reported) usage = { ...usage, ...reported };
+            const delta = extractDelta(event);
+            if (delta) {
+                text += delta;
+                onToken(delta, text);
+            }
+        }
+    }
+    return { text, usage };
+};
+
+const throwIfNotOk = async (response: Response, providerName: string) => {
+    if (!response.ok) {
+        const errorBody = await response.text();
+        throw new Error(`API Error from ${providerName} (${response.status}): ${errorBody}`);
+    }
+};
+
+// Groq, OpenRouter and custom servers all speak the OpenAI `/chat/completions` format.
+const requestChatCompletion = async (provider: AiProviderDefinition, baseUrl: string, apiKey: string | null, model: string, fullPrompt: string, onToken?: AiTokenHandler, jsonMode?: boolean, extraHeaders?: Record<string, string>): Promise<AiCompletion> => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+            ...extraHeaders,
+        },
+        body: JSON.stringify({
+            model,
+            messages: [{ role: 'user', content: fullPrompt }],
+            temperature: 0.7,
+            ...(onToken && { stream: true }),
+            ...(jsonMode && { response_format: { type: 'json_object' } }),
+        }),
+    });
+    await throwIfNotOk(response, provider.name);
+    if (onToken) {
+        return readSseStream(response, event => event.choices?.[0]?.delta?.content || '', event => readReportedUsage('openai', event), onToken);
+    }
+    const data = await response.json();
+    return { text: data.choices[0].message.content, usage: readReportedUsage('openai', data) || {} };
+};
+
+const ANTHROPIC_MAX_OUTPUT_TOKENS = 8192;
+
+const requestAnthropicMessages = async (provider: AiProviderDefinition, baseUrl: string, apiKey: string, model: string, fullPrompt: string, onToken?: AiTokenHandler, extraHeaders?: Record<string, string>): Promise<AiCompletion> => {
+    const response = await fetch(`${baseUrl}/messages`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': apiKey,
+            'anthropic-version': '2023-06-01',
+            'anthropic-dangerous-direct-browser-access': 'true', // Keys are the user's own, so calling from the browser is intended
+            ...extraHeaders,
+        },
+        body: JSON.stringify({
+            model,
+            max_tokens: ANTHROPIC_MAX_OUTPUT_TOKENS,
+            messages: [{ role: 'user', content: fullPrompt }],
+            temperature: 0.7,
+            ...(onToken && { stream: true }),
+        }),
+    });
+    await throwIfNotOk(response, provider.name);
+    if (onToken) {
+        return readSseStream(
+            response,
+            event => (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' ? event.delta.text : ''),
+            event => readReportedUsage('anthropic', event),
+            onToken
+        );
+    }
+    const data = await response.json();
+    return {
+        text: (data.content || []).filter((block: any) => block.type === 'text').map((block: any) => block.text).join(''),
+        usage: readReportedUsage('anthropic', data) || {},
+    };
+};
+
+// The tokens the provider reported or, failing that, an estimate.
+const resolveUsage = (prompt: string, completion: AiCompletion): TokenUsage => {
+    const { inputTokens, outputTokens } = completion.usage;
+    return {
+        inputTokens: inputTokens ?? estimateTokens(prompt),
+        outputTokens: outputTokens ?? estimateTokens(completion.text),
+        isEstimated: inputTokens === undefined || outputTokens === undefined,
+    };
+};
+
+// Charges a successful call to the user.
+const chargeAiCall = async (
+    userId: string,
+    projectId: string | null | undefined,
+    provider: AiProvider,
+    model: string,
+    functionName: string,
+    prompt: string,
+    completion: AiCompletion
+) => {
+    const usage = resolveUsage(prompt, completion);
+    await recordTokenUsage({ userId, projectId: projectId ?? null, provider, model, functionName, ...usage, cost: getUsageCost(provider, model, usage) });
+};
+
+// Each provider in a fallback chain gets a few attempts, spaced out by exponential backoff, before the next is tried.
+const MAX_ATTEMPTS_PER_PROVIDER = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 8000;
+
+// Half the backoff is fixed and half random, so clients that failed together don't all retry together.
+const getRetryDelay = (attempt: number) => {
+    const backoff = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+    return backoff / 2 + Math.random() * (backoff / 2);
+};
+
+// Whether trying the same provider again could help. Auth, quota and setup errors won't go away by waiting, and
+// neither will other client errors like an unknown model, so they move straight on to the next provider.
+const isRetryableAiError = (error: unknown): boolean => {
+    if (classifyKeyError(error) === 'auth') return false;
+    const message = error instanceof Error ? error.message : String(error);
+    const status = readErrorStatus(error);
+    if (status === 402 || /quota|insufficient credits|billing|not configured|no model is set|cooling down or disabled/i.test(message)) return false;
+    if (Number.isNaN(status)) return true; // Network errors and broken streams
+    return status === 408 || status === 429 || status >= 500;
+};
+
+// The project's own provider and model first, then its fallbacks, without repeats.
+const buildModelChain = (primary: AiModelChoice, fallbacks: AiModelChoice[] | undefined): AiModelChoice[] => {
+    const chain = [primary];
+    for (const choice of fallbacks || []) {
+        if (!chain.some(c => c.provider === choice.provider && (c.model || '') === (choice.model || ''))) chain.push(choice);
+    }
+    return chain;
+};
+
 // FIX: Refactored `callAiModel` to handle the new token system and to automatically retry failed requests.
+// Pass `onToken` to stream the response; the full text is still returned once the model finishes.
+// Pass `jsonSchema` to turn on the provider's native JSON mode, where it has one. `functionName` names the feature
+// the call is charged to in the user's usage history.
+// Pass a `fallbackChain` to move on to other providers when this one keeps failing; `onAnsweredBy` is told which
+// provider and model gave the reply.
 async function callAiModel(
     fullPrompt: string, 
     provider: AiProvider, 
     apiConfig: ApiConfig,
     model: string | undefined,
     userId: string,
-    apiPoolConfig?: ApiPoolConfig,
-    apiPoolKeys?: ApiPoolKey[],
-    projectId?: string | null
+    apiPoolConfig: ApiPoolConfig | undefined,
+    apiPoolKeys: ApiPoolKey[] | undefined,
+    projectId: string | null | undefined,
+    onToken: AiTokenHandler | undefined,
+    jsonSchema: Schema | undefined,
+    functionName: string,
+    fallbackChain?: AiModelChoice[],
+    onAnsweredBy?: AiAnsweredByHandler
 ): Promise<string> {
     
     // Token Check: Fail fast if the user has no tokens.
@@ -36,153 +262,214 @@ async function callAiModel(
         throw new Error("Insufficient tokens. Please contact an administrator to add more.");
     }
 
+    const chain = buildModelChain({ provider, model }, fallbackChain);
+    const failures: string[] = [];
     let lastError: Error | null = null;
-    const MAX_ATTEMPTS = 2; // Initial attempt + 1 retry
+    let attemptCount = 0;
+    // Set once a provider answers. Charging for it happens after the retry loop, so a failed charge never calls
+    // the provider again.
+    let answer: { completion: AiCompletion; usedModel: string; answeredBy: AiAnsweredBy; viaProxy: boolean } | null = null;
+
+    providers: for (const [chainIndex, choice] of chain.entries()) {
+        const definition = getProvider(choice.provider);
+        for (let attempt = 1; attempt <= MAX_ATTEMPTS_PER_PROVIDER; attempt++) {
+            attemptCount++;
+            // Set while a pooled key is in use, so a failure can be put down to it.
+            let poolKey: ApiPoolKey | null = null;
+            let startedAt = Date.now();
+            try {
+                const route = await getProxyRoute(choice.provider, functionName, projectId);
+                let apiKey = route ? route.idToken : apiConfig[choice.provider];
+                let completion: AiCompletion;
+                let usedModel: string;
+
+                if (!apiKey && apiPoolConfig?.isEnabled && apiPoolKeys?.some(k => k.provider === choice.provider)) {
+                    poolKey = apiKeyPool.pickPoolKey(choice.provider, apiPoolKeys);
+                    if (!poolKey) throw new Error(`All pooled ${definition.name} keys are cooling down or disabled. Please try again in a few minutes or add your own key.`);
+                    apiKey = poolKey.key;
+                    startedAt = Date.now();
+                    console.log(`Using a pooled API key for ${choice.provider}. (Attempt ${attempt})`);
+                }
 
-    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
-        try {
-            let apiKey = apiConfig[provider];
-            let resultText: string;
-
-            if (!apiKey && apiPoolConfig?.isEnabled) {
-                const availableKeys = apiPoolKeys?.filter(k => k.provider === provider);
-                if (availableKeys && availableKeys.length > 0) {
-                    apiKey = availableKeys[Math.floor(Math.random() * availableKeys.length)].key;
-                    console.log(`Using a pooled API key for ${provider}. (Attempt ${attempt})`);
+                if (definition.apiFormat === 'gemini') {
+                    if (!apiKey) throw new Error("Gemini API key is not configured. Please add your key or contact an admin to enable the key pool.");
+                    
+                    const ai = createGeminiClient(apiKey, route);
+                    const responseSchema = jsonSchema && toGeminiSchema(jsonSchema);
+                    const config = jsonSchema ? { responseMimeType: 'application/json', ...(responseSchema && { responseSchema }) } : undefined;
+                    usedModel = 'gemini-2.5-flash';
+                    if (onToken) {
+                        const stream = await ai.models.generateContentStream({
+                            model: usedModel,
+                            contents: fullPrompt,
+                            config,
+                        });
+                        let text = '';
+                        let usage: ReportedUsage = {};
+                        for await (const chunk of stream) {
+                            // Every chunk carries the counts so far.
+                            usage = readReportedUsage('gemini', chunk) || usage;
+                            const delta = chunk.text || '';
+                            if (delta) {
+                                text += delta;
+                                onToken(delta, text);
+                            }
+                        }
+                        completion = { text, usage };
+                    } else {
+                        const response = await ai.models.generateContent({
+                            model: usedModel,
+                            contents: fullPrompt,
+                            config,
+                        });
+                        completion = { text: response.text || '', usage: readReportedUsage('gemini', response) || {} };
+                    }
+                } else {
+                    if (!apiKey && definition.requiresApiKey) throw new Error(`API key for ${definition.name} is not configured. Please add your key or contact an admin to enable the key pool.`);
+
+                    const apiModel = choice.model || getDefaultModel(choice.provider, apiConfig);
+                    if (!apiModel) throw new Error(`No model is set for ${definition.name}. Choose one in the project settings or set a default model in your API key settings.`);
+                    const baseUrl = route ? `${route.url}/${choice.provider}` : getProviderBaseUrl(choice.provider, apiConfig);
+                    // OpenAI-style JSON mode only produces objects, so replies that are arrays rely on the prompt alone.
+                    const jsonMode = !!jsonSchema && definition.supportsJsonMode && 'type' in jsonSchema && jsonSchema.type === 'object';
+
+                    usedModel = apiModel;
+                    completion = definition.apiFormat === 'anthropic'
+                        ? await requestAnthropicMessages(definition, baseUrl, apiKey!, apiModel, fullPrompt, onToken, route?.headers)
+                        : await requestChatCompletion(definition, baseUrl, apiKey, apiModel, fullPrompt, onToken, jsonMode, route?.headers);
                 }
-            }
 
-            if (provider === 'gemini') {
-                if (!apiKey) throw new Error("Gemini API key is not configured. Please add your key or contact an admin to enable the key pool.");
-                
-                const ai = new GoogleGenAI({ apiKey });
-                const response = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash',
-                    contents: fullPrompt,
-                });
-                resultText = response.text;
-            } else {
-                if (!apiKey) throw new Error(`API key for ${provider} is not configured. Please add your key or contact an admin to enable the key pool.`);
-
-                const isGroq = provider === 'groq';
-                const endpoint = isGroq ? 'https://api.groq.com/openai/v1/chat/completions' : 'https://openrouter.ai/api/v1/chat/completions';
+                if (onToken && !completion.text) {
+                    throw new Error(`The ${definition.name} stream ended without returning any content.`);
+                }
                 
-                let apiModel = model;
-                if (!apiModel) {
-                  apiModel = isGroq ? 'llama-3.1-8b-instant' : 'mistralai/mistral-7b-instruct'; // Fallback
+                if (poolKey) {
+                    const usage = resolveUsage(fullPrompt, completion);
+                    apiKeyPool.reportKeySuccess(poolKey, Date.now() - startedAt, usage.inputTokens + usage.outputTokens);
                 }
 
-                const response = await fetch(endpoint, {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${apiKey}`,
-                    },
-                    body: JSON.stringify({
-                        model: apiModel,
-                        messages: [{ role: 'user', content: fullPrompt }],
-                        temperature: 0.7,
-                    }),
-                });
-
-                if (!response.ok) {
-                    const errorBody = await response.text();
-                    throw new Error(`API Error from ${provider} (${response.status}): ${errorBody}`);
-                }
-                const data = await response.json();
-                resultText = data.choices[0].message.content;
+                answer = { completion, usedModel, answeredBy: { provider: choice.provider, model: usedModel, isFallback: chainIndex > 0 }, viaProxy: !!route };
+                break providers;
+
+            } catch (error) {
+                lastError = error instanceof Error ? error : new Error('An unknown error occurred');
+                console.warn(`AI model call to ${definition.name} failed (attempt ${attempt}):`, lastError.message);
+                if (poolKey) apiKeyPool.reportKeyFailure(poolKey, error, Date.now() - startedAt);
+                if (attempt === MAX_ATTEMPTS_PER_PROVIDER || !isRetryableAiError(error)) break;
+                await new Promise(resolve => setTimeout(resolve, getRetryDelay(attempt)));
             }
-            
-            // Success! Deduct token, increment local counter, and return.
-            await deductToken(userId);
+        }
+        failures.push(`${definition.name}: ${lastError?.message}`);
+        if (chainIndex < chain.length - 1) {
+            console.warn(`Falling back from ${definition.name} to ${getProvider(chain[chainIndex + 1].provider).name}.`);
+        }
+    }
+
+    if (answer) {
+        // Success! Charge the tokens used, increment local counter, and return. Streamed calls are only charged once the stream completes.
+        // Calls through the proxy were already charged by it. With the proxy in use, clients can't write balances, so
+        // direct calls to the custom provider (usually the user's own machine) go uncharged.
+        const { completion, usedModel, answeredBy, viaProxy } = answer;
+        if (!viaProxy && aiTransport.kind === 'direct') {
             try {
-                const currentCount = parseInt(localStorage.getItem('asai_api_call_count') || '0', 10);
-                localStorage.setItem('asai_api_call_count', (currentCount + 1).toString());
-            } catch (e) {
-                console.warn("Could not update API call count in localStorage", e);
-            }
-            return resultText;
-
-        } catch (error) {
-            lastError = error instanceof Error ? error : new Error('An unknown error occurred');
-            console.warn(`AI model call attempt ${attempt} failed:`, lastError.message);
-
-            if (attempt === MAX_ATTEMPTS) {
-                // This is the final attempt, log the error to Firestore
-                try {
-                    await logPlatformError({
-                        userId,
-                        userEmail: userProfile?.email,
-                        projectId,
-                        functionName: 'callAiModel',
-                        errorMessage: lastError.message,
-                        provider: provider,
-                        attemptCount: MAX_ATTEMPTS,
-                    });
-                    console.log("Logged platform error to Firestore.");
-                } catch (logError) {
-                    console.error("Failed to log platform error:", logError);
-                }
-            } else {
-                 // Wait before retrying
-                await new Promise(resolve => setTimeout(resolve, 1500)); // 1.5 second delay
+                await chargeAiCall(userId, projectId, answeredBy.provider, usedModel, functionName, fullPrompt, completion);
+            } catch (chargeError) {
+                // The reply is already paid for, so it's still returned; the missed charge is logged for an admin.
+                console.error("Failed to charge for an AI call:", chargeError);
+                logPlatformError({
+                    userId,
+                    userEmail: userProfile?.email,
+                    projectId,
+                    functionName: 'chargeAiCall',
+                    errorMessage: `Could not charge for a ${functionName} call to ${answeredBy.provider}: ${chargeError instanceof Error ? chargeError.message : String(chargeError)}`,
+                    provider: answeredBy.provider,
+                    attemptCount: 1,
+                }).catch(logError => console.error("Failed to log platform error:", logError));
             }
         }
+        try {
+            const currentCount = parseInt(localStorage.getItem('asai_api_call_count') || '0', 10);
+            localStorage.setItem('asai_api_call_count', (currentCount + 1).toString());
+        } catch (e) {
+            console.warn("Could not update API call count in localStorage", e);
+        }
+        onAnsweredBy?.(answeredBy);
+        return completion.text;
+    }
+
+    // Every provider failed, log the error to Firestore
+    try {
+        await logPlatformError({
+            userId,
+            userEmail: userProfile?.email,
+            projectId,
+            functionName: 'callAiModel',
+            errorMessage: failures.join('\n'),
+            provider: provider,
+            attemptCount,
+        });
+        console.log("Logged platform error to Firestore.");
+    } catch (logError) {
+        console.error("Failed to log platform error:", logError);
     }
 
-    // If loop completes without success, throw the last captured error.
-    throw new Error(`AI model call failed after ${MAX_ATTEMPTS} attempts. Last error: ${lastError?.message}`);
+    throw new Error(chain.length > 1
+        ? `AI model call failed on every provider in the fallback chain after ${attemptCount} attempts. ${failures.join(' | ')}`
+        : `AI model call failed after ${attemptCount} attempts. Last error: ${lastError?.message}`);
 }
 
-// FIX: Implemented a self-correction mechanism to handle malformed JSON responses from the AI.
-const parseJsonResponse = async <T>(
-    text: string,
-    provider: AiProvider, 
-    apiConfig: ApiConfig,
-    model: string | undefined,
-    userId: string,
-    apiPoolConfig?: ApiPoolConfig,
-    apiPoolKeys?: ApiPoolKey[],
-    projectId?: string | null
-): Promise<T> => {
-    try {
-        // Strategy 1: Find JSON within markdown code blocks.
-        const markdownMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-        if (markdownMatch && markdownMatch[1]) {
-            try {
-                return JSON.parse(markdownMatch[1].trim()) as T;
-            } catch (e) {
-                console.warn("Found markdown block, but failed to parse JSON inside. Trying other methods.", e);
-            }
+// Pulls JSON out of a reply that may be wrapped in markdown or surrounded by prose. Throws if none parses.
+const extractJson = (text: string): unknown => {
+    // Strategy 1: Find JSON within markdown code blocks.
+    const markdownMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    if (markdownMatch && markdownMatch[1]) {
+        try {
+            return JSON.parse(markdownMatch[1].trim());
+        } catch (e) {
+            console.warn("Found markdown block, but failed to parse JSON inside. Trying other methods.", e);
         }
+    }
 
-        // Strategy 2: Find the largest valid JSON object or array within the text.
-        const jsonStart = text.indexOf('{');
-        const jsonEnd = text.lastIndexOf('}');
-        const arrayStart = text.indexOf('[');
-        const arrayEnd = text.lastIndexOf(']');
+    // Strategy 2: Find the largest valid JSON object or array within the text.
+    const jsonStart = text.indexOf('{');
+    const jsonEnd = text.lastIndexOf('}');
+    const arrayStart = text.indexOf('[');
+    const arrayEnd = text.lastIndexOf(']');
 
-        if (jsonStart !== -1 && jsonEnd !== -1 && jsonEnd > jsonStart) {
-             const jsonString = text.substring(jsonStart, jsonEnd + 1);
-            try {
-                return JSON.parse(jsonString) as T;
-            } catch (e) {
-                console.warn("Found text between '{' and '}', but failed to parse. Trying array.", e);
-            }
+    if (jsonStart !== -1 && jsonEnd !== -1 && jsonEnd > jsonStart) {
+         const jsonString = text.substring(jsonStart, jsonEnd + 1);
+        try {
+            return JSON.parse(jsonString);
+        } catch (e) {
+            console.warn("Found text between '{' and '}', but failed to parse. Trying array.", e);
         }
-        
-        if (arrayStart !== -1 && arrayEnd !== -1 && arrayEnd > arrayStart) {
-             const jsonString = text.substring(arrayStart, arrayEnd + 1);
-            try {
-                return JSON.parse(jsonString) as T;
-            } catch (e) {
-                console.warn("Found text between '[' and ']', but failed to parse. Trying final method.", e);
-            }
+    }
+    
+    if (arrayStart !== -1 && arrayEnd !== -1 && arrayEnd > arrayStart) {
+         const jsonString = text.substring(arrayStart, arrayEnd + 1);
+        try {
+            return JSON.parse(jsonString);
+        } catch (e) {
+            console.warn("Found text between '[' and ']', but failed to parse. Trying final method.", e);
         }
+    }
 
-        // Strategy 3: Try to parse the whole string as a fallback.
-        return JSON.parse(text.trim()) as T;
-        
+    // Strategy 3: Try to parse the whole string as a fallback.
+    return JSON.parse(text.trim());
+};
+
+// FIX: Implemented a self-correction mechanism to handle malformed JSON responses from the AI.
+const parseJsonText = async (
+    text: string,
+    apiConfig: ApiConfig,
+    userId: string,
+    apiPoolConfig: ApiPoolConfig | undefined,
+    apiPoolKeys: ApiPoolKey[] | undefined,
+    projectId: string | null | undefined,
+    functionName: string
+): Promise<unknown> => {
+    try {
+        return extractJson(text);
     } catch (initialError) {
        console.warn("Initial JSON parsing failed. Attempting self-correction.", { originalText: text });
 
@@ -204,11 +491,14 @@ Return only the corrected JSON.`;
                 userId,
                 apiPoolConfig,
                 apiPoolKeys,
-                projectId
+                projectId,
+                undefined,
+                undefined,
+                functionName
             );
 
             // Try parsing the corrected text. If this fails, we give up.
-            return JSON.parse(correctedText.trim()) as T;
+            return JSON.parse(correctedText.trim());
         } catch (correctionError) {
             console.error("Self-correction also failed. The AI response is unrecoverable.", { initialText: text, correctionError });
             throw new Error(`Failed to parse AI response, and self-correction also failed. The AI may have returned malformed text that could not be recovered.`);
@@ -216,6 +506,84 @@ Return only the corrected JSON.`;
     }
 };
 
+// How many times a reply that parses but doesn't match its schema is sent back to the model for fixing.
+const MAX_VALIDATION_ROUNDS = 2;
+
+// Parses a JSON reply and, when a `spec` is given, checks it against the spec. Replies that fail are sent back
+// to the same model along with the failing paths, so it can correct exactly what was wrong.
+const parseJsonResponse = async <T>(
+    text: string,
+    provider: AiProvider, 
+    apiConfig: ApiConfig,
+    model: string | undefined,
+    userId: string,
+    apiPoolConfig: ApiPoolConfig | undefined,
+    apiPoolKeys: ApiPoolKey[] | undefined,
+    projectId: string | null | undefined,
+    spec: ResponseSpec<T> | undefined,
+    functionName: string,
+    fallbackChain?: AiModelChoice[]
+): Promise<T> => {
+    let value = await parseJsonText(text, apiConfig, userId, apiPoolConfig, apiPoolKeys, projectId, functionName);
+    if (!spec) return value as T;
+
+    for (let round = 0; ; round++) {
+        if (spec.normalize) value = spec.normalize(value);
+        const issues = validateResponse(value, spec);
+        if (issues.length === 0) return value as T;
+
+        console.warn(`AI ${spec.name} failed validation (round ${round + 1}).`, issues);
+        if (round === MAX_VALIDATION_ROUNDS) {
+            throw new Error(`The AI returned an invalid ${spec.name}:\n${formatValidationIssues(issues)}`);
+        }
+
+        const correctionPrompt = `Your previous response was valid JSON, but it does not match the required ${spec.name} format. Fix ONLY the problems listed below and return the complete corrected JSON. Do not include any explanations or markdown.
+
+**Problems (by JSON path, where \`$\` is the root of your response):**
+${formatValidationIssues(issues)}
+
+**Required JSON Schema:**
+\`\`\`json
+${JSON.stringify(spec.schema, null, 2)}
+\`\`\`
+
+**Your Previous Response:**
+\`\`\`json
+${JSON.stringify(value, null, 2)}
+\`\`\`
+
+Return only the corrected JSON.`;
+
+        const correctedText = await callAiModel(correctionPrompt, provider, apiConfig, model, userId, apiPoolConfig, apiPoolKeys, projectId, undefined, spec.schema, functionName, fallbackChain);
+        value = await parseJsonText(correctedText, apiConfig, userId, apiPoolConfig, apiPoolKeys, projectId, functionName);
+    }
+};
+
+// Asks for a JSON reply matching `spec`, using the provider's native JSON mode where it has one.
+const requestJson = async <T>(
+    prompt: string,
+    spec: ResponseSpec<T>,
+    provider: AiProvider,
+    apiConfig: ApiConfig,
+    model: string | undefined,
+    userId: string,
+    apiPoolConfig: ApiPoolConfig | undefined,
+    apiPoolKeys: ApiPoolKey[] | undefined,
+    projectId: string | null | undefined,
+    functionName: string,
+    fallbackChain?: AiModelChoice[],
+    onAnsweredBy?: AiAnsweredByHandler
+): Promise<T> => {
+    let answeredBy: AiAnsweredBy | undefined;
+    const text = await callAiModel(prompt, provider, apiConfig, model, userId, apiPoolConfig, apiPoolKeys, projectId, undefined, spec.schema, functionName, fallbackChain, reply => {
+        answeredBy = reply;
+        onAnsweredBy?.(reply);
+    });
+    // Corrections go to whichever model answered, rather than starting over at a provider that just failed.
+    const answered = answeredBy ?? { provider, model };
+    return parseJsonResponse(text, answered.provider, apiConfig, answered.model, userId, apiPoolConfig, apiPoolKeys, projectId, spec, functionName, fallbackChain);
+};
+
 const getProjectPlanPrompt = (projectType: string) => {
     let languageDetails = `${baseInstruction} You are a world-class, silent, programmatic software architect. Your task is to generate a plan for a new project from a user's prompt.
 
@@ -275,19 +643,15 @@ export const runStreamingInitialProjectAgent = async (
     onAgentMessage: (message: Omit<AiChatMessage, 'id' | 'timestamp' | 'sender'>) => Promise<void>,
     userId: string,
     apiPoolConfig?: ApiPoolConfig,
-    apiPoolKeys?: ApiPoolKey[]
+    apiPoolKeys?: ApiPoolKey[],
+    onFileProgress?: (file: { path: string, content: string }) => void
 ): Promise<void> => {
     
     // 1. Generate Plan
     await onAgentMessage({ agentState: 'planning', text: "I'm thinking about the project structure based on your request.", thoughts: "First, I need to create a plan by defining the project name and the list of files to create." });
     
     const planPrompt = `${getProjectPlanPrompt(project.type)}\n\nThe user's request is: "${prompt}"`;
-    const planText = await callAiModel(planPrompt, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id);
-    const plan = await parseJsonResponse<{ projectName: string; filesToCreate: string[] }>(planText, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id);
-
-    if (!plan.projectName || !plan.filesToCreate || !Array.isArray(plan.filesToCreate) || plan.filesToCreate.length === 0) {
-        throw new Error("The AI failed to generate a valid project plan. Please try again with a more specific prompt.");
-    }
+    const plan = await requestJson(planPrompt, projectPlanSpec, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id, 'runStreamingInitialProjectAgent', project.fallbackChain);
     
     await onPlanReceived(plan);
 
@@ -299,7 +663,10 @@ export const runStreamingInitialProjectAgent = async (
         await onAgentMessage({ agentState: 'executing', currentTask: `Create ${filePath}`, text: `Creating file: \`${filePath}\``, thoughts: `Now generating the code for \`${filePath}\`. I need to make sure its content is correct and fits within the overall project structure.` });
         
         const contentPrompt = getFileContentPrompt(project.type, prompt, plan.filesToCreate, filePath);
-        const fileContent = await callAiModel(contentPrompt, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id);
+        const fileContent = await callAiModel(
+            contentPrompt, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id,
+            onFileProgress && ((_, textSoFar) => onFileProgress({ path: filePath, content: textSoFar })), undefined, 'runStreamingInitialProjectAgent', project.fallbackChain
+        );
         
         await onFileCreated({ path: filePath, content: fileContent });
     }
@@ -317,9 +684,13 @@ export const generateModificationPlan = async (
     apiConfig: ApiConfig,
     userId: string,
     apiPoolConfig?: ApiPoolConfig,
-    apiPoolKeys?: ApiPoolKey[]
+    apiPoolKeys?: ApiPoolKey[],
+    pinnedPaths?: string[],
+    onContextBuilt?: (report: ContextReport) => void,
+    onAnsweredBy?: AiAnsweredByHandler
 ): Promise<AiPlan> => {
-    const projectJsonString = JSON.stringify(fileSystemToJSON(currentFiles), null, 2);
+    const context = buildContextForProject(currentFiles, project, prompt, pinnedPaths);
+    onContextBuilt?.(context.report);
     const memoryFile = currentFiles.find(f => f.path === MEMORY_FILE_PATH);
     const projectMemory = memoryFile?.content ? `
 ---
@@ -364,9 +735,9 @@ ${projectMemory}
 
 **Current Project Files:**
 \`\`\`json
-${projectJsonString}
+${context.filesJson}
 \`\`\`
-
+${context.manifest}
 **User's Request & Context:**
 ${prompt}
 
@@ -394,8 +765,50 @@ If the user's request is to RENAME/DELETE/COPY the project OR CLEAR the chat his
   }
 }
 `;
-    const text = await callAiModel(fullPrompt, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id);
-    return await parseJsonResponse<AiPlan>(text, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id);
+    const plan = await requestJson(fullPrompt, aiPlanSpec(currentFiles), project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id, 'generateModificationPlan', project.fallbackChain, onAnsweredBy);
+    return { ...plan, id: crypto.randomUUID() };
+};
+
+// Regenerates whole files. Used for new files and as the fallback when a patch edit can't be applied.
+const generateFullFileContents = async (
+    prompt: string,
+    plan: AiPlan,
+    context: ProjectContext,
+    paths: string[],
+    project: Project,
+    apiConfig: ApiConfig,
+    userId: string,
+    apiPoolConfig?: ApiPoolConfig,
+    apiPoolKeys?: ApiPoolKey[],
+    onAnsweredBy?: AiAnsweredByHandler
+): Promise<Record<string, string>> => {
+    const fullPrompt = `${baseInstruction} You are an expert, silent, programmatic software developer. Your task is to generate the code for a set of files based on a user's request and an execution plan.
+
+**CRITICAL INSTRUCTIONS:**
+1.  Your response MUST be ONLY the raw JSON object. Do not include any text, explanations, or markdown formatting. Your entire response must start with \`{\` and end with \`}\`.
+2.  The JSON object keys MUST be the full file paths (e.g., "src/components/Button.tsx").
+3.  The JSON object values MUST be the complete, new string content for those files.
+4.  ONLY generate content for the files listed in the "Files to Generate" section below. Do NOT generate content for any other files.
+5.  If a file exists, you MUST provide its full new content. Do not provide diffs or partial code.
+6.  If you are updating the project icon at \`public/icon.svg\`, you must generate the complete XML content for a valid SVG file.
+
+**User's Request:** "${prompt}"
+
+**Execution Plan:**
+\`\`\`json
+${JSON.stringify(plan, null, 2)}
+\`\`\`
+
+**Current Project Files (for context):**
+\`\`\`json
+${context.filesJson}
+\`\`\`
+${context.manifest}
+**Files to Generate:**
+${paths.join('\n')}
+`;
+
+    return requestJson(fullPrompt, fileContentsSpec, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id, 'executeModificationPlan', project.fallbackChain, onAnsweredBy);
 };
 
 // FIX: Updated function signature to accept and pass userId and API pool parameters.
@@ -407,29 +820,42 @@ export const executeModificationPlan = async (
     apiConfig: ApiConfig,
     userId: string,
     apiPoolConfig?: ApiPoolConfig,
-    apiPoolKeys?: ApiPoolKey[]
+    apiPoolKeys?: ApiPoolKey[],
+    pinnedPaths?: string[],
+    onContextBuilt?: (report: ContextReport) => void,
+    onAnsweredBy?: AiAnsweredByHandler
 ): Promise<AiChanges> => {
     const changes: AiChanges = {
         create: {},
         update: {},
+        patch: {},
         delete: plan.plan.delete || [],
         move: plan.plan.move || [],
         copy: plan.plan.copy || [],
     };
     
-    const allFilesToCreate = [...(plan.plan.create || []), ...(plan.plan.update || [])];
+    const filesToCreate = plan.plan.create || [];
+    const filesToUpdate = plan.plan.update || [];
+    const allFilesToCreate = [...filesToCreate, ...filesToUpdate];
+    const existingPaths = new Set(currentFiles.filter(f => f.type === 'file').map(f => f.path));
 
     if (allFilesToCreate.length > 0) {
-        const currentFilesJsonString = JSON.stringify(fileSystemToJSON(currentFiles), null, 2);
+        // Files the plan touches must be sent in full, otherwise the model can't write patches against them.
+        const planPaths = [...filesToUpdate, ...(plan.plan.move || []).map(m => m.from), ...(plan.plan.copy || []).map(c => c.from)];
+        const context = buildContextForProject(currentFiles, project, `${prompt}\n${plan.reasoning}`, [...planPaths, ...(pinnedPaths || [])]);
+        onContextBuilt?.(context.report);
         
-        const fullPrompt = `${baseInstruction} You are an expert, silent, programmatic software developer. Your task is to generate the code for a set of files based on a user's request and an execution plan.
+        const fullPrompt = `${baseInstruction} You are an expert, silent, programmatic software developer. Your task is to generate the code changes for a set of files based on a user's request and an execution plan.
 
 **CRITICAL INSTRUCTIONS:**
 1.  Your response MUST be ONLY the raw JSON object. Do not include any text, explanations, or markdown formatting. Your entire response must start with \`{\` and end with \`}\`.
 2.  The JSON object keys MUST be the full file paths (e.g., "src/components/Button.tsx").
-3.  The JSON object values MUST be the complete, new string content for those files.
-4.  ONLY generate content for the files listed in the "Files to Generate" section below. Do NOT generate content for any other files.
-5.  If a file exists, you MUST provide its full new content. Do not provide diffs or partial code.
+3.  For a NEW file, the value MUST be the complete string content of the file.
+4.  For an EXISTING file, the value SHOULD be a patch object: \`{ "patch": [{ "search": "exact existing code", "replace": "new code" }] }\`.
+    - Each "search" MUST be copied character-for-character from the current file, including indentation, and MUST match exactly one place in the file.
+    - Include just enough surrounding lines in "search" to make it unique. Keep the edits in the order they appear in the file.
+    - If you are rewriting most of an existing file, you may provide its complete new content as a string instead.
+5.  ONLY generate changes for the files listed in the "Files to Generate" section below. Do NOT generate changes for any other files.
 6.  If you are updating the project icon at \`public/icon.svg\`, you must generate the complete XML content for a valid SVG file.
 
 **User's Request:** "${prompt}"
@@ -441,31 +867,55 @@ ${JSON.stringify(plan, null, 2)}
 
 **Current Project Files (for context):**
 \`\`\`json
-${currentFilesJsonString}
+${context.filesJson}
 \`\`\`
-
+${context.manifest}
 **Files to Generate:**
-${allFilesToCreate.join('\n')}
+${allFilesToCreate.map(path => `${path} (${existingPaths.has(path) ? 'existing' : 'new'})`).join('\n')}
 `;
         
-        const text = await callAiModel(fullPrompt, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id);
-        const generatedFiles = await parseJsonResponse<Record<string, string>>(
-            text, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id
+        const generatedFiles = await requestJson(
+            fullPrompt, generatedFilesSpec, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id, 'executeModificationPlan', project.fallbackChain, onAnsweredBy
         );
         
-        for(const path of (plan.plan.create || [])) {
-            if (generatedFiles[path] !== undefined) {
-                changes.create![path] = generatedFiles[path];
+        const needsFullContent: string[] = [];
+        for (const path of allFilesToCreate) {
+            const generated = generatedFiles[path];
+            if (typeof generated === 'string') {
+                if (filesToCreate.includes(path)) {
+                    changes.create![path] = generated;
+                } else {
+                    changes.update![path] = generated;
+                }
+            } else if (generated && Array.isArray(generated.patch) && existingPaths.has(path)) {
+                changes.patch![path] = generated.patch;
+            } else if (generated !== undefined) {
+                needsFullContent.push(path);
             }
         }
-        for(const path of (plan.plan.update || [])) {
-            if (generatedFiles[path] !== undefined) {
-                changes.update![path] = generatedFiles[path];
+
+        const { changes: resolved, failed } = resolvePatches(currentFiles, changes);
+        Object.entries(failed).forEach(([path, reason]) => {
+            console.warn(`Patch for ${path} was rejected, regenerating the full file: ${reason}`);
+            needsFullContent.push(path);
+        });
+
+        if (needsFullContent.length > 0) {
+            const fullContents = await generateFullFileContents(prompt, plan, context, needsFullContent, project, apiConfig, userId, apiPoolConfig, apiPoolKeys, onAnsweredBy);
+            for (const path of needsFullContent) {
+                if (fullContents[path] === undefined) continue;
+                if (filesToCreate.includes(path)) {
+                    resolved.create![path] = fullContents[path];
+                } else {
+                    resolved.update![path] = fullContents[path];
+                }
             }
         }
+
+        return resolved;
     }
     
-    return changes;
+    return resolvePatches(currentFiles, changes).changes;
 };
 
 // FIX: Updated function signature to accept and pass userId and API pool parameters.
@@ -499,7 +949,7 @@ ${changesSummary}
 
 Based on the information above, write a brief, one-paragraph summary for the project's memory log. Focus on the user's intent and the outcome.`;
 
-    const text = await callAiModel(fullPrompt, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id);
+    const text = await callAiModel(fullPrompt, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id, undefined, undefined, 'summarizeChangesForMemory', project.fallbackChain);
     return text.trim();
 };
 
@@ -510,7 +960,8 @@ export const analyzeCode = async (
     apiConfig: ApiConfig,
     userId: string,
     apiPoolConfig?: ApiPoolConfig,
-    apiPoolKeys?: ApiPoolKey[]
+    apiPoolKeys?: ApiPoolKey[],
+    onAnsweredBy?: AiAnsweredByHandler
 ): Promise<string> => {
     const projectJsonString = JSON.stringify(fileSystemToJSON(files), null, 2);
     const fullPrompt = `${baseInstruction} You are a world-class software architect and code reviewer. Analyze the following project files and provide a comprehensive summary of potential bugs, areas for improvement, and ways to adhere to best practices. Structure your response in clear markdown format.
@@ -520,7 +971,7 @@ export const analyzeCode = async (
 ${projectJsonString}
 \`\`\`
 `;
-    return callAiModel(fullPrompt, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id);
+    return callAiModel(fullPrompt, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id, undefined, undefined, 'analyzeCode', project.fallbackChain, onAnsweredBy);
 };
 
 // FIX: Updated function signature to accept and pass userId and API pool parameters.
@@ -550,8 +1001,8 @@ export const proposeFixes = async (
 ${filesJsonString}
 \`\`\`
 `;
-    const text = await callAiModel(fullPrompt, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id);
-    return await parseJsonResponse<AiChanges>(text, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id);
+    const fixableFiles: FileNode[] = filesToFix.map(f => ({ id: f.path, name: f.path.split('/').pop() || f.path, path: f.path, type: 'file', content: f.content }));
+    return await requestJson(fullPrompt, aiChangesSpec(fixableFiles), project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id, 'proposeFixes', project.fallbackChain);
 }
 
 // --- Autonomous Agent Functions ---
@@ -567,7 +1018,8 @@ export const runAutonomousAgent = async (
     db: any, // firebase.firestore.Firestore
     resumeFromState?: AgentState,
     apiPoolConfig?: ApiPoolConfig,
-    apiPoolKeys?: ApiPoolKey[]
+    apiPoolKeys?: ApiPoolKey[],
+    onChangesApplied?: (filesBefore: FileNode[], changes: AiChanges) => void
 ): Promise<void> => {
     let currentFiles = [...initialFiles];
     const AGENT_MEMORY_KEY = `asai_agent_memory_${projectId}`;
@@ -583,6 +1035,7 @@ export const runAutonomousAgent = async (
     
     try {
         if (!resumeFromState) {
+            const context = buildContextForProject(currentFiles, project, objective);
             const plannerPrompt = `${baseInstruction} You are a senior software architect. Based on the user's high-level objective and the current project files, create a concise, step-by-step plan of action. Each step should be a single, clear task.
 
 **CRITICAL INSTRUCTIONS:**
@@ -593,14 +1046,13 @@ export const runAutonomousAgent = async (
 
 **Current Project Files:**
 \`\`\`json
-${JSON.stringify(fileSystemToJSON(currentFiles), null, 2)}
+${context.filesJson}
 \`\`\`
-`;
+${context.manifest}`;
             onStateChange({ status: 'running' });
-            await onAgentMessage({ agentState: 'planning', text: "I'm formulating a plan to achieve the objective.", thoughts: "First, I need to break down the user's objective into a sequence of actionable steps." });
+            await onAgentMessage({ agentState: 'planning', text: "I'm formulating a plan to achieve the objective.", thoughts: "First, I need to break down the user's objective into a sequence of actionable steps.", contextReport: context.report });
             
-            const planText = await callAiModel(plannerPrompt, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id);
-            const plan = await parseJsonResponse<string[]>(planText, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id);
+            const plan = await requestJson(plannerPrompt, taskListSpec, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id, 'runAutonomousAgent', project.fallbackChain);
 
             agentMemory.plan = plan;
             agentMemory.logs.push("Plan generated.");
@@ -620,7 +1072,9 @@ ${JSON.stringify(fileSystemToJSON(currentFiles), null, 2)}
             const modificationPlan = await generateModificationPlan(task, currentFiles, project, apiConfig, userId, apiPoolConfig, apiPoolKeys);
             const changes = await executeModificationPlan(task, modificationPlan, currentFiles, project, apiConfig, userId, apiPoolConfig, apiPoolKeys);
             
+            await createPreChangeSnapshot(projectId, currentFiles, `Auto Dev: ${task}`, { planId: modificationPlan.id }, project.snapshotRetention, db);
             await applyAiChanges(projectId, currentFiles, changes, db);
+            onChangesApplied?.(currentFiles, changes);
             
             // Update local file state for the next loop iteration's context
             const deletePaths = changes.delete || [];
@@ -662,9 +1116,14 @@ export const answerProjectQuestion = async (
     apiConfig: ApiConfig,
     userId: string,
     apiPoolConfig?: ApiPoolConfig,
-    apiPoolKeys?: ApiPoolKey[]
+    apiPoolKeys?: ApiPoolKey[],
+    pinnedPaths?: string[],
+    onContextBuilt?: (report: ContextReport) => void,
+    onToken?: AiTokenHandler,
+    onAnsweredBy?: AiAnsweredByHandler
 ): Promise<string> => {
-     const projectJsonString = JSON.stringify(fileSystemToJSON(files), null, 2);
+    const context = buildContextForProject(files, project, prompt, pinnedPaths);
+    onContextBuilt?.(context.report);
     const fullPrompt = `${baseInstruction} You are a helpful AI assistant with expertise in software development. The user has a question about their project. Based on the files provided and any extra context, answer their question. If your answer contains any file paths, you MUST wrap them in backticks, for example: "You can find the relevant code in \`src/utils/api.ts\`.".
 
 **User's Question & Context:**
@@ -672,10 +1131,10 @@ ${prompt}
 
 **Project Files:**
 \`\`\`json
-${projectJsonString}
+${context.filesJson}
 \`\`\`
-`;
-    return callAiModel(fullPrompt, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id);
+${context.manifest}`;
+    return callAiModel(fullPrompt, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id, onToken, undefined, 'answerProjectQuestion', project.fallbackChain, onAnsweredBy);
 }
 
 // FIX: Updated function signature to accept and pass userId and API pool parameters.
@@ -686,11 +1145,14 @@ export const askGeneralQuestion = async (
     apiConfig: ApiConfig,
     userId: string,
     apiPoolConfig?: ApiPoolConfig,
-    apiPoolKeys?: ApiPoolKey[]
+    apiPoolKeys?: ApiPoolKey[],
+    onToken?: AiTokenHandler,
+    fallbackChain?: AiModelChoice[],
+    onAnsweredBy?: AiAnsweredByHandler
 ): Promise<string> => {
     const fullPrompt = `${baseInstruction} You are a helpful AI assistant. Answer the user's question.
 Question: "${prompt}"`;
-    return callAiModel(fullPrompt, provider, apiConfig, model, userId, apiPoolConfig, apiPoolKeys, null);
+    return callAiModel(fullPrompt, provider, apiConfig, model, userId, apiPoolConfig, apiPoolKeys, null, onToken, undefined, 'askGeneralQuestion', fallbackChain, onAnsweredBy);
 };
 
 // FIX: Updated function signature to accept and pass userId and API pool parameters.
@@ -704,7 +1166,7 @@ export const generateCodeSnippet = async (
 ): Promise<string> => {
     const fullPrompt = `${baseInstruction} You are an expert programmer. The user wants a code snippet. Based on their request, generate only the raw code for the snippet. Do not wrap it in markdown or add any explanations.
 Request: "${prompt}"`;
-    return callAiModel(fullPrompt, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id);
+    return callAiModel(fullPrompt, project.provider, apiConfig, project.model, userId, apiPoolConfig, apiPoolKeys, project.id, undefined, undefined, 'generateCodeSnippet', project.fallbackChain);
 };
 
 // --- New AI Asset Generation Functions ---
@@ -730,7 +1192,7 @@ export const generateSvgAsset = async (
     - The design should not be distracting.
     User prompt: "${prompt}"`;
     
-    return callAiModel(generationPrompt, 'gemini', apiConfig, 'gemini-2.5-flash', userId, apiPoolConfig, apiPoolKeys, project.id);
+    return callAiModel(generationPrompt, 'gemini', apiConfig, 'gemini-2.5-flash', userId, apiPoolConfig, apiPoolKeys, project.id, undefined, undefined, 'generateSvgAsset');
 }
 
 // --- AI GOD MODE ---
@@ -746,8 +1208,8 @@ export const godModePlanner = async (
 ): Promise<AiGodModeAction[]> => {
 
     // --- 1. PRE-FLIGHT CHECKS & SETUP ---
-    // God Mode requires all three providers for its specialized agent roles.
-    if (!apiConfig.gemini || !apiConfig.groq || !apiConfig.openrouter) {
+    // God Mode requires all three providers for its specialized agent roles. Through the proxy, the keys are its concern.
+    if (aiTransport.kind === 'direct' && (!apiConfig.gemini || !apiConfig.groq || !apiConfig.openrouter)) {
         const missing = [
             !apiConfig.gemini && 'Gemini',
             !apiConfig.groq && 'Groq',
@@ -758,28 +1220,15 @@ export const godModePlanner = async (
 
     const godModeMemory: string[] = [`Initial User Objective: "${objective}"`];
     const finalPlan: AiGodModeAction[] = [];
-    const currentFilesJson = JSON.stringify(fileSystemToJSON(files), null, 2);
+    const architectContext = buildProjectContext(files, { provider: 'gemini', query: objective });
 
     // --- 2. THE ARCHITECT (GEMINI) - Creates the high-level plan ---
-    const architectSchema = {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          type: { type: Type.STRING, description: "Action type: 'CLICK_ELEMENT', 'TYPE_IN_INPUT', 'MODIFY_FILES', 'ASK_USER', 'FINISH', 'SELECT_OPTION'." },
-          selector: { type: Type.STRING, description: "The 'data-testid' selector for UI actions." },
-          payload: { type: Type.STRING, description: "Text for TYPE_IN_INPUT, question for ASK_USER, a DETAILED PROMPT for a Coder AI for MODIFY_FILES, or the 'value' of the option for SELECT_OPTION." },
-        },
-        required: ['type']
-      }
-    };
-    
     const architectPrompt = `You are "The Architect," the master planner for an autonomous AI agent. Your goal is to break down a user's objective into a sequence of precise actions.
 
 **USER OBJECTIVE:** ${objective}
 **AVAILABLE UI ELEMENTS:** ${uiContext}
-**CURRENT PROJECT FILES:** ${currentFilesJson}
-**SHARED MEMORY LOG:**
+**CURRENT PROJECT FILES:** ${architectContext.filesJson}
+${architectContext.manifest}**SHARED MEMORY LOG:**
 - ${godModeMemory.join('\n- ')}
 
 **CRITICAL INSTRUCTIONS:**
@@ -792,49 +1241,22 @@ export const godModePlanner = async (
 
 Generate the JSON plan now.`;
     
-    const geminiAi = new GoogleGenAI({ apiKey: apiConfig.gemini! });
+    const geminiRoute = await getProxyRoute('gemini', 'godModePlanner', project.id);
+    const geminiAi = createGeminiClient(apiConfig.gemini!, geminiRoute);
     const architectResponse = await geminiAi.models.generateContent({
       model: "gemini-2.5-flash",
       contents: architectPrompt,
       config: {
         responseMimeType: "application/json",
-        responseSchema: architectSchema
+        responseSchema: toGeminiSchema(godModePlanSpec.schema)
       }
     });
+    if (!geminiRoute) await chargeAiCall(userId, project.id, 'gemini', 'gemini-2.5-flash', 'godModePlanner', architectPrompt, { text: architectResponse.text || '', usage: readReportedUsage('gemini', architectResponse) || {} });
 
-    let planArray = await parseJsonResponse<any>(
-        architectResponse.text, 'gemini', apiConfig, 'gemini-2.5-flash', userId, apiPoolConfig, apiPoolKeys, project.id
+    const rawPlan = await parseJsonResponse(
+        architectResponse.text, 'gemini', apiConfig, 'gemini-2.5-flash', userId, apiPoolConfig, apiPoolKeys, project.id, godModePlanSpec, 'godModePlanner'
     );
 
-    // The model can sometimes wrap the array in an object, even with a schema.
-    // This block robustly finds the array within the response.
-    if (!Array.isArray(planArray)) {
-        if (typeof planArray === 'object' && planArray !== null) {
-            const arrayKey = Object.keys(planArray).find(key => Array.isArray((planArray as any)[key]));
-            if (arrayKey) {
-                planArray = (planArray as any)[arrayKey];
-            } else {
-                // If no array is found as a value, but the object itself looks like a plan, try to use it.
-                // This is a defensive check against malformed but recoverable structures.
-                if (planArray.type && planArray.payload) {
-                    planArray = [planArray];
-                } else {
-                    throw new Error("God Mode planner did not return a valid plan array. The response was not iterable.");
-                }
-            }
-        } else {
-             throw new Error("God Mode planner did not return a valid plan array. The response was not an array or a container object.");
-        }
-    }
-    
-    // Additional validation to ensure all elements are objects with a 'type'
-    if (!planArray.every(item => typeof item === 'object' && item !== null && 'type' in item)) {
-        throw new Error("God Mode planner returned an array with invalid action objects.");
-    }
-    
-    const rawPlan: Array<Omit<AiGodModeAction, 'reasoning'>> = planArray;
-
-
     // --- 3. ORCHESTRATION LOOP - Augment the plan with Coder and Reviewer ---
     for (const rawAction of rawPlan) {
         let finalAction: AiGodModeAction = { ...rawAction, reasoning: '' };
@@ -846,38 +1268,17 @@ Generate the JSON plan now.`;
         - Action to explain: ${JSON.stringify(rawAction)}
         Your one-sentence explanation:`;
         
-        const reasoningText = await callAiModel(reviewerPrompt, 'openrouter', apiConfig, 'mistralai/mistral-7b-instruct', userId, apiPoolConfig, apiPoolKeys, project.id);
+        const reasoningText = await callAiModel(reviewerPrompt, 'openrouter', apiConfig, 'mistralai/mistral-7b-instruct', userId, apiPoolConfig, apiPoolKeys, project.id, undefined, undefined, 'godModePlanner');
         finalAction.reasoning = reasoningText.trim().replace(/^"|"$/g, ''); // Remove quotes
         godModeMemory.push(`Reviewer's justification for '${rawAction.type}': ${finalAction.reasoning}`);
 
         // --- 3b. THE CODER (GEMINI) - Generates file content if needed for reliability ---
         if (rawAction.type === 'MODIFY_FILES' && typeof rawAction.payload === 'string') {
-            const coderSchema = {
-                type: Type.OBJECT,
-                properties: {
-                    create: {
-                        type: Type.OBJECT,
-                        description: "Keys are file paths, values are file content.",
-                        properties: {},
-                        additionalProperties: { type: Type.STRING },
-                    },
-                    update: {
-                        type: Type.OBJECT,
-                        description: "Keys are file paths, values are new file content.",
-                        properties: {},
-                        additionalProperties: { type: Type.STRING },
-                    },
-                    delete: {
-                        type: Type.ARRAY,
-                        description: "An array of file paths to delete.",
-                        items: { type: Type.STRING }
-                    },
-                }
-            };
-
+            const coderContext = buildProjectContext(files, { provider: 'gemini', query: rawAction.payload });
             const coderPrompt = `You are "The Coder," an expert programmer. 
             Current project files for context:
-            ${currentFilesJson}
+            ${coderContext.filesJson}
+            ${coderContext.manifest}
             
             Your task based on The Architect's request is to generate the new file contents:
             ---
@@ -890,12 +1291,12 @@ Generate the JSON plan now.`;
                 contents: coderPrompt,
                 config: {
                     responseMimeType: "application/json",
-                    responseSchema: coderSchema,
                 },
             });
+            if (!geminiRoute) await chargeAiCall(userId, project.id, 'gemini', 'gemini-2.5-flash', 'godModePlanner', coderPrompt, { text: coderResponse.text || '', usage: readReportedUsage('gemini', coderResponse) || {} });
 
-            const changes = await parseJsonResponse<AiChanges>(
-                coderResponse.text, 'gemini', apiConfig, 'gemini-2.5-flash', userId, apiPoolConfig, apiPoolKeys, project.id
+            const changes = await parseJsonResponse(
+                coderResponse.text, 'gemini', apiConfig, 'gemini-2.5-flash', userId, apiPoolConfig, apiPoolKeys, project.id, aiChangesSpec(files), 'godModePlanner'
             );
             
             finalAction.payload = JSON.stringify(changes);
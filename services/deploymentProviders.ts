@@ -0,0 +1,205 @@
+import { ApiConfig, DeploymentTarget, FileNode } from '../types';
+import { buildStaticSite } from '../utils/previewEngine';
+
+declare const JSZip: any;
+
+// Every provider call goes through this, so the service can run against a local fake instead of the real APIs.
+export type HttpClient = (url: string, init?: RequestInit) => Promise<Response>;
+
+export const fetchHttpClient: HttpClient = (url, init) => fetch(url, init);
+
+export type DeploymentBuild = {
+    files: Record<string, string>; // Site path -> content
+};
+
+export type DeploymentContext = {
+    token: string | null;
+    projectName: string;
+    siteId?: string; // From the last deploy to the same provider, so redeploys update the same site
+    http: HttpClient;
+};
+
+export type DeploymentUpload = {
+    deployId?: string;
+    siteId?: string;
+    url?: string;
+    archive?: Blob; // Static exports produce a file instead of a hosted site
+};
+
+export type DeploymentStatus = {
+    state: 'pending' | 'ready' | 'error';
+    url?: string;
+    error?: string;
+};
+
+export interface DeploymentProviderDefinition {
+    id: DeploymentTarget;
+    name: string;
+    description: string;
+    logoUrl?: string;
+    tokenKey?: keyof ApiConfig; // The access token the provider needs, if any
+    build: (files: FileNode[]) => Promise<DeploymentBuild>;
+    upload: (build: DeploymentBuild, context: DeploymentContext) => Promise<DeploymentUpload>;
+    pollStatus: (upload: DeploymentUpload, context: DeploymentContext) => Promise<DeploymentStatus>;
+}
+
+const NETLIFY_API_URL = 'https://api.netlify.com/api/v1';
+const VERCEL_API_URL = 'https://api.vercel.com';
+const CODESANDBOX_DEFINE_URL = 'https://codesandbox.io/api/v1/sandboxes/define?json=1';
+
+// Turns a non-2xx response into an error carrying the provider's own message.
+const readJson = async (response: Response, action: string): Promise<any> => {
+    const text = await response.text();
+    let body: any = null;
+    try {
+        body = text ? JSON.parse(text) : null;
+    } catch {
+        // Some error pages are plain text; fall back to the raw body below.
+    }
+    if (!response.ok) {
+        const detail = body?.error?.message || body?.message || body?.error || text || response.statusText;
+        throw new Error(`${action} failed (${response.status}): ${typeof detail === 'string' ? detail : JSON.stringify(detail)}`);
+    }
+    return body;
+};
+
+const requireToken = (context: DeploymentContext, providerName: string): string => {
+    if (!context.token) throw new Error(`Add a ${providerName} access token in your API key settings to deploy.`);
+    return context.token;
+};
+
+export const zipFiles = async (files: Record<string, string>): Promise<Blob> => {
+    const zip = new JSZip();
+    Object.entries(files).forEach(([path, content]) => zip.file(path, content));
+    return zip.generateAsync({ type: 'blob' });
+};
+
+const sourceFiles = (files: FileNode[]): Record<string, string> =>
+    Object.fromEntries(files.filter(f => f.type === 'file' && f.content !== undefined).map(f => [f.path, f.content!]));
+
+// Client-side routes have to fall back to index.html, which each host configures differently.
+const buildWithFallback = (files: FileNode[], fallbackFile: string, fallbackContent: string): DeploymentBuild => {
+    const site = buildStaticSite(files);
+    if (!site[fallbackFile]) site[fallbackFile] = fallbackContent;
+    return { files: site };
+};
+
+// Vercel project names: lowercase letters, digits, ".", "_" and "-", up to 100 characters.
+const toProjectSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 100) || 'asai-project';
+
+const netlify: DeploymentProviderDefinition = {
+    id: 'netlify',
+    name: 'Netlify',
+    description: 'Builds the project and publishes it to a Netlify site.',
+    logoUrl: 'https://www.netlify.com/v3/img/components/logomark.png',
+    tokenKey: 'netlify',
+    build: async (files) => buildWithFallback(files, '_redirects', '/*    /index.html   200\n'),
+    upload: async (build, context) => {
+        const token = requireToken(context, 'Netlify');
+        const headers = { Authorization: `Bearer ${token}` };
+        const createSite = async () => {
+            const site = await readJson(await context.http(`${NETLIFY_API_URL}/sites`, {
+                method: 'POST',
+                headers: { ...headers, 'Content-Type': 'application/json' },
+                body: JSON.stringify({}),
+            }), 'Creating the Netlify site');
+            return site.id as string;
+        };
+        const archive = await zipFiles(build.files);
+        const deployTo = (siteId: string) => context.http(`${NETLIFY_API_URL}/sites/${siteId}/deploys`, {
+            method: 'POST',
+            headers: { ...headers, 'Content-Type': 'application/zip' },
+            body: archive,
+        });
+
+        let siteId = context.siteId || await createSite();
+        let response = await deployTo(siteId);
+        if (response.status === 404 && context.siteId) {
+            // The site was deleted on Netlify since the last deploy.
+            siteId = await createSite();
+            response = await deployTo(siteId);
+        }
+        const deploy = await readJson(response, 'Uploading to Netlify');
+        return { deployId: deploy.id, siteId };
+    },
+    pollStatus: async (upload, context) => {
+        const token = requireToken(context, 'Netlify');
+        const deploy = await readJson(await context.http(`${NETLIFY_API_URL}/deploys/${upload.deployId}`, {
+            headers: { Authorization: `Bearer ${token}` },
+        }), 'Checking the Netlify deploy');
+        if (deploy.state === 'ready') return { state: 'ready', url: deploy.ssl_url || deploy.url };
+        if (deploy.state === 'error') return { state: 'error', error: deploy.error_message || 'Netlify reported an error.' };
+        return { state: 'pending' };
+    },
+};
+
+const vercel: DeploymentProviderDefinition = {
+    id: 'vercel',
+    name: 'Vercel',
+    description: 'Builds the project and publishes it as a production Vercel deployment.',
+    logoUrl: 'https://vercel.com/favicon.ico',
+    tokenKey: 'vercel',
+    build: async (files) => buildWithFallback(files, 'vercel.json', JSON.stringify({ rewrites: [{ source: '/(.*)', destination: '/index.html' }] }, null, 2)),
+    upload: async (build, context) => {
+        const token = requireToken(context, 'Vercel');
+        const deployment = await readJson(await context.http(`${VERCEL_API_URL}/v13/deployments`, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                name: toProjectSlug(context.projectName),
+                ...(context.siteId && { project: context.siteId }),
+                target: 'production',
+                files: Object.entries(build.files).map(([file, data]) => ({ file, data })),
+                // The files are already built, so Vercel should serve them as they are.
+                projectSettings: { framework: null, buildCommand: null, installCommand: null, outputDirectory: null },
+            }),
+        }), 'Uploading to Vercel');
+        return { deployId: deployment.id, siteId: deployment.projectId };
+    },
+    pollStatus: async (upload, context) => {
+        const token = requireToken(context, 'Vercel');
+        const deployment = await readJson(await context.http(`${VERCEL_API_URL}/v13/deployments/${upload.deployId}`, {
+            headers: { Authorization: `Bearer ${token}` },
+        }), 'Checking the Vercel deployment');
+        if (deployment.readyState === 'READY') return { state: 'ready', url: `https://${deployment.alias?.[0] || deployment.url}` };
+        if (deployment.readyState === 'ERROR' || deployment.readyState === 'CANCELED') {
+            return { state: 'error', error: deployment.errorMessage || `Vercel deployment ${deployment.readyState.toLowerCase()}.` };
+        }
+        return { state: 'pending' };
+    },
+};
+
+const codesandbox: DeploymentProviderDefinition = {
+    id: 'codesandbox',
+    name: 'CodeSandbox',
+    description: 'Opens your project in a new CodeSandbox instance.',
+    logoUrl: 'https://codesandbox.io/favicon.ico',
+    // CodeSandbox runs the project's own dev server, so it gets the sources rather than a build.
+    build: async (files) => ({ files: sourceFiles(files) }),
+    upload: async (build, context) => {
+        const sandbox = await readJson(await context.http(CODESANDBOX_DEFINE_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+            body: JSON.stringify({ files: Object.fromEntries(Object.entries(build.files).map(([path, content]) => [path, { content }])) }),
+        }), 'Creating the sandbox');
+        return { deployId: sandbox.sandbox_id, url: `https://codesandbox.io/s/${sandbox.sandbox_id}` };
+    },
+    pollStatus: async (upload) => ({ state: 'ready', url: upload.url }),
+};
+
+const staticExport: DeploymentProviderDefinition = {
+    id: 'static',
+    name: 'Static export',
+    description: 'Downloads a ready-to-host build as a zip, for any static file host.',
+    build: async (files) => ({ files: buildStaticSite(files) }),
+    upload: async (build) => ({ archive: await zipFiles(build.files) }),
+    pollStatus: async () => ({ state: 'ready' }),
+};
+
+export const DEPLOYMENT_PROVIDERS: DeploymentProviderDefinition[] = [netlify, vercel, codesandbox, staticExport];
+
+export const getDeploymentProvider = (id: DeploymentTarget): DeploymentProviderDefinition => {
+    const provider = DEPLOYMENT_PROVIDERS.find(p => p.id === id);
+    if (!provider) throw new Error(`Unknown deployment target "${id}".`);
+    return provider;
+};
@@ -0,0 +1,71 @@
+import { ApiConfig, DeploymentRecord, DeploymentTarget, FileNode } from '../types';
+import { fetchHttpClient, getDeploymentProvider, HttpClient } from './deploymentProviders';
+
+declare const LZString: any;
+
+const POLL_INTERVAL_MS = 3000;
+const POLL_TIMEOUT_MS = 10 * 60 * 1000;
+
+export type DeploymentPhase = 'building' | 'uploading' | 'processing';
+
+export type DeploymentResult = {
+    url?: string;
+    archive?: Blob;
+    siteId?: string;
+    deployId?: string;
+};
+
+export type DeploymentOptions = {
+    projectName: string;
+    apiConfig: ApiConfig;
+    siteId?: string;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Build, upload, then poll the provider until the deploy is live. Throws with the provider's message on failure.
+export const runDeployment = async (
+    target: DeploymentTarget,
+    files: FileNode[],
+    options: DeploymentOptions,
+    onPhase?: (phase: DeploymentPhase) => void,
+    http: HttpClient = fetchHttpClient,
+    pollIntervalMs: number = POLL_INTERVAL_MS
+): Promise<DeploymentResult> => {
+    const provider = getDeploymentProvider(target);
+    const context = {
+        token: provider.tokenKey ? options.apiConfig[provider.tokenKey] : null,
+        projectName: options.projectName,
+        siteId: options.siteId,
+        http,
+    };
+
+    onPhase?.('building');
+    const build = await provider.build(files);
+    onPhase?.('uploading');
+    const upload = await provider.upload(build, context);
+
+    onPhase?.('processing');
+    const deadline = Date.now() + POLL_TIMEOUT_MS;
+    for (;;) {
+        const status = await provider.pollStatus(upload, context);
+        if (status.state === 'ready') {
+            return { url: status.url, archive: upload.archive, siteId: upload.siteId, deployId: upload.deployId };
+        }
+        if (status.state === 'error') throw new Error(status.error || `${provider.name} could not deploy the project.`);
+        if (Date.now() > deadline) throw new Error(`${provider.name} did not finish the deploy within ${POLL_TIMEOUT_MS / 60000} minutes.`);
+        await wait(pollIntervalMs);
+    }
+};
+
+// The site a new deploy should update: whatever the most recent successful deploy to that target used.
+export const findDeploymentSiteId = (history: DeploymentRecord[], target: DeploymentTarget): string | undefined =>
+    history.find(record => record.target === target && record.status === 'ready' && record.siteId)?.siteId;
+
+export const compressDeploymentFiles = (files: FileNode[]): string => LZString.compressToUTF16(JSON.stringify(files));
+
+export const readDeploymentFiles = (record: DeploymentRecord): FileNode[] => {
+    const decompressed = LZString.decompressFromUTF16(record.fileData);
+    if (!decompressed) throw new Error("The deployment's file snapshot is empty or corrupted.");
+    return JSON.parse(decompressed) as FileNode[];
+};
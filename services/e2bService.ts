@@ -0,0 +1,167 @@
+import { SandboxSession, SandboxFile, SandboxOutputHandlers, SandboxExecResult } from './sandboxService';
+
+// Talks to E2B directly over HTTP: the REST API manages the sandbox, and the envd daemon inside the sandbox
+// runs processes and removes files (Connect protocol, JSON codec) and handles file uploads.
+
+const E2B_API_URL = 'https://api.e2b.dev';
+const E2B_DEFAULT_DOMAIN = 'e2b.app';
+const ENVD_PORT = 49983;
+const SANDBOX_TEMPLATE = 'base';
+const SANDBOX_TIMEOUT_SECONDS = 15 * 60; // Extended every time a command runs
+const PROJECT_ROOT = '/home/user/project';
+const SANDBOX_USER = 'user';
+
+type E2bSandboxInfo = {
+    sandboxID: string;
+    envdAccessToken?: string;
+    domain?: string | null;
+};
+
+const throwIfNotOk = async (response: Response, action: string) => {
+    if (!response.ok) {
+        const errorBody = await response.text();
+        throw new Error(`E2B failed to ${action} (${response.status}): ${errorBody}`);
+    }
+};
+
+// Connect streams are framed as: 1 flag byte, 4-byte big-endian length, then the message.
+const CONNECT_END_STREAM_FLAG = 0x02;
+
+const encodeConnectEnvelope = (message: unknown): Uint8Array => {
+    const payload = new TextEncoder().encode(JSON.stringify(message));
+    const envelope = new Uint8Array(5 + payload.length);
+    new DataView(envelope.buffer).setUint32(1, payload.length);
+    envelope.set(payload, 5);
+    return envelope;
+};
+
+async function* readConnectEnvelopes(response: Response): AsyncGenerator<{ flags: number; message: any }> {
+    if (!response.body) throw new Error('Streaming is not supported by this browser.');
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = new Uint8Array(0);
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        const merged = new Uint8Array(buffer.length + value.length);
+        merged.set(buffer);
+        merged.set(value, buffer.length);
+        buffer = merged;
+
+        while (buffer.length >= 5) {
+            const length = new DataView(buffer.buffer, buffer.byteOffset).getUint32(1);
+            if (buffer.length < 5 + length) break;
+            const flags = buffer[0];
+            const message = JSON.parse(decoder.decode(buffer.subarray(5, 5 + length)));
+            buffer = buffer.slice(5 + length);
+            yield { flags, message };
+        }
+    }
+}
+
+const decodeBase64 = (data: string): Uint8Array => Uint8Array.from(atob(data), c => c.charCodeAt(0));
+
+export const startE2bSandbox = async (apiKey: string): Promise<SandboxSession> => {
+    const createResponse = await fetch(`${E2B_API_URL}/sandboxes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+        body: JSON.stringify({ templateID: SANDBOX_TEMPLATE, timeout: SANDBOX_TIMEOUT_SECONDS }),
+    });
+    await throwIfNotOk(createResponse, 'start a sandbox');
+    const info: E2bSandboxInfo = await createResponse.json();
+
+    const envdUrl = `https://${ENVD_PORT}-${info.sandboxID}.${info.domain || E2B_DEFAULT_DOMAIN}`;
+    const envdHeaders: Record<string, string> = {
+        'Authorization': `Basic ${btoa(`${SANDBOX_USER}:`)}`,
+        ...(info.envdAccessToken && { 'X-Access-Token': info.envdAccessToken }),
+    };
+    let stopped = false;
+
+    const extendTimeout = () =>
+        fetch(`${E2B_API_URL}/sandboxes/${info.sandboxID}/timeout`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-API-Key': apiKey },
+            body: JSON.stringify({ timeout: SANDBOX_TIMEOUT_SECONDS }),
+        }).catch(error => console.warn('Could not extend the E2B sandbox timeout.', error));
+
+    const writeFiles = async (files: SandboxFile[]) => {
+        if (stopped) throw new Error('The sandbox has been stopped.');
+        // envd creates missing parent directories, so each file is a single upload.
+        for (const file of files) {
+            const form = new FormData();
+            form.append('file', new Blob([file.content]), file.path.split('/').pop() || file.path);
+            const path = encodeURIComponent(`${PROJECT_ROOT}/${file.path}`);
+            const response = await fetch(`${envdUrl}/files?path=${path}&username=${SANDBOX_USER}`, {
+                method: 'POST',
+                headers: envdHeaders,
+                body: form,
+            });
+            await throwIfNotOk(response, `write ${file.path}`);
+        }
+    };
+
+    const removeFiles = async (paths: string[]) => {
+        if (stopped) throw new Error('The sandbox has been stopped.');
+        for (const path of paths) {
+            const response = await fetch(`${envdUrl}/filesystem.Filesystem/Remove`, {
+                method: 'POST',
+                headers: { ...envdHeaders, 'Content-Type': 'application/json', 'Connect-Protocol-Version': '1' },
+                body: JSON.stringify({ path: `${PROJECT_ROOT}/${path}` }),
+            });
+            // Already gone, which is what we want.
+            if (response.status !== 404) await throwIfNotOk(response, `remove ${path}`);
+        }
+    };
+
+    const exec = async (command: string, handlers: SandboxOutputHandlers): Promise<SandboxExecResult> => {
+        if (stopped) throw new Error('The sandbox has been stopped.');
+        extendTimeout();
+        const response = await fetch(`${envdUrl}/process.Process/Start`, {
+            method: 'POST',
+            headers: {
+                ...envdHeaders,
+                'Content-Type': 'application/connect+json',
+                'Connect-Protocol-Version': '1',
+            },
+            body: encodeConnectEnvelope({
+                process: { cmd: '/bin/bash', args: ['-l', '-c', command], envs: {}, cwd: PROJECT_ROOT },
+            }),
+        });
+        await throwIfNotOk(response, 'run the command');
+
+        const stdoutDecoder = new TextDecoder();
+        const stderrDecoder = new TextDecoder();
+        let exitCode: number | null = null;
+
+        for await (const { flags, message } of readConnectEnvelopes(response)) {
+            if (flags & CONNECT_END_STREAM_FLAG) {
+                if (message.error) throw new Error(`E2B command failed: ${message.error.message || message.error.code}`);
+                break;
+            }
+            const event = message.event || {};
+            if (event.data?.stdout) handlers.onStdout(stdoutDecoder.decode(decodeBase64(event.data.stdout), { stream: true }));
+            if (event.data?.stderr) handlers.onStderr(stderrDecoder.decode(decodeBase64(event.data.stderr), { stream: true }));
+            if (event.end) {
+                exitCode = event.end.exitCode ?? 0;
+                if (event.end.error) handlers.onStderr(`${event.end.error}\n`);
+            }
+        }
+
+        if (exitCode === null) throw new Error('The E2B sandbox closed the command stream before the command finished.');
+        return { exitCode };
+    };
+
+    const stop = async () => {
+        if (stopped) return;
+        stopped = true;
+        const response = await fetch(`${E2B_API_URL}/sandboxes/${info.sandboxID}`, {
+            method: 'DELETE',
+            headers: { 'X-API-Key': apiKey },
+        });
+        // The sandbox may already have timed out, which is fine.
+        if (response.status !== 404) await throwIfNotOk(response, 'stop the sandbox');
+    };
+
+    return { id: info.sandboxID, runtime: 'e2b', exec, writeFiles, removeFiles, stop };
+};
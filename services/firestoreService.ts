@@ -1,6 +1,12 @@
 import firebase, { firestore, serverTimestamp } from './firebase';
 // FIX: Import admin-related types to support the new feature.
-import { Project, FileNode, AiChanges, ApiConfig, AiChatMessage, AiProvider, ApiPoolConfig, ApiPoolKey, AdminUser, User, AdminSettings, PlatformError, CustomFirebaseConfig, ChatMessageSenderInfo, Invite, Snapshot, AgentState } from '../types';
+import { Project, FileNode, AiChanges, ApiConfig, AiChatMessage, AiProvider, ApiPoolConfig, ApiPoolKey, AdminUser, User, AdminSettings, PlatformError, CustomFirebaseConfig, ChatMessageSenderInfo, Invite, Snapshot, AgentState, SnapshotMetadata, SnapshotRetentionPolicy, FileState, DeploymentRecord, HostedDeploymentProvider, ProjectGitConfig, FileOperationRecord, CollaboratorPresence, ProjectRole, UsageLedgerEntry, ApiKeyVault, VaultSecret, AiModelChoice } from '../types';
+import { resolvePatchesStrict } from '../utils/patch';
+import { EMPTY_API_CONFIG, DEFAULT_DAILY_TOKEN_REWARD } from './aiProviders';
+import { createKeyPool, KeyFailureRecord } from '../utils/keyPool';
+import { createVault, unlockVault, openVault, sealVault } from '../utils/vault';
+
+declare const LZString: any;
 
 const projectsCollection = firestore.collection('projects');
 const userSettingsCollection = firestore.collection('userSettings');
@@ -13,6 +19,9 @@ const invitesCollection = firestore.collection('invites');
 
 // --- User Management ---
 
+// Balances are in model tokens weighted by price (see getUsageCost), so this covers a good number of builds.
+const SIGNUP_TOKEN_GRANT = 5_000_000;
+
 export const ensureUserDocument = async (uid: string, email: string | null, displayName: string | null) => {
     const userRef = usersCollection.doc(uid);
     const doc = await userRef.get();
@@ -22,7 +31,7 @@ export const ensureUserDocument = async (uid: string, email: string | null, disp
             email,
             displayName: displayName || email?.split('@')[0] || null,
             createdAt: serverTimestamp(),
-            tokenBalance: 1_000_000_000, // Grant 1 billion tokens on signup
+            tokenBalance: SIGNUP_TOKEN_GRANT,
             lastLogin: serverTimestamp(),
             customFirebaseConfig: { enabled: false }
         });
@@ -51,32 +60,103 @@ export const getUsersProfiles = async (uids: string[]): Promise<ChatMessageSende
 
 // --- User Settings (API Keys, Tokens & Custom Firebase) ---
 
+// The unlocked vault's data key. It lives only in memory, so the vault has to be unlocked again after a reload.
+let vaultSession: { userId: string; dataKey: CryptoKey } | null = null;
+
+const getVaultKey = (userId: string): CryptoKey => {
+    if (vaultSession?.userId !== userId) throw new Error("Your API key vault is locked. Unlock it with your passphrase first.");
+    return vaultSession.dataKey;
+};
+
+// Keys in a vault are sealed again under its data key, so they never reach the database in plain text.
 export const saveUserApiConfig = async (userId: string, config: ApiConfig) => {
+    const vault: ApiKeyVault | undefined = (await userSettingsCollection.doc(userId).get()).data()?.vault;
+    if (vault) {
+        await userSettingsCollection.doc(userId).update({ vault: await sealVault(vault, getVaultKey(userId), config) });
+        return;
+    }
     await userSettingsCollection.doc(userId).set({ apiKeys: config }, { merge: true });
 };
 
 export const getUserApiConfig = async (userId: string): Promise<ApiConfig> => {
     const doc = await userSettingsCollection.doc(userId).get();
-    const defaults: ApiConfig = { gemini: null, openrouter: null, groq: null, e2b: null };
+    const defaults: ApiConfig = EMPTY_API_CONFIG;
     if (!doc.exists) return defaults;
     const data = doc.data();
+    if (data?.vault) return { ...defaults, ...(await openVault(data.vault, getVaultKey(userId))) };
     return { ...defaults, ...(data?.apiKeys || {}) };
 };
 
+// --- API Key Vault ---
+
+export const getApiKeyVault = async (userId: string): Promise<ApiKeyVault | null> => {
+    const doc = await userSettingsCollection.doc(userId).get();
+    return doc.data()?.vault ?? null;
+};
+
+export const isApiKeyVaultUnlocked = (userId: string): boolean => vaultSession?.userId === userId;
+
+export const unlockApiKeyVault = async (userId: string, secret: VaultSecret): Promise<void> => {
+    const vault = await getApiKeyVault(userId);
+    if (!vault) throw new Error("You don't have an API key vault.");
+    vaultSession = { userId, dataKey: await unlockVault(vault, secret) };
+};
+
+export const lockApiKeyVault = () => {
+    vaultSession = null;
+};
+
+// Moves the saved keys into a new vault. Returns the recovery code, which is shown to the user once and not stored.
+export const enableApiKeyVault = async (userId: string, passphrase: string): Promise<string> => {
+    const config = await getUserApiConfig(userId);
+    const { vault, dataKey, recoveryCode } = await createVault(passphrase, config);
+    await userSettingsCollection.doc(userId).set({ vault, apiKeys: firebase.firestore.FieldValue.delete() }, { merge: true });
+    vaultSession = { userId, dataKey };
+    return recoveryCode;
+};
+
+// Re-encrypts the keys under a new data key, passphrase and recovery code. The old passphrase and recovery code
+// stop working. The vault must be unlocked.
+export const rotateApiKeyVault = async (userId: string, newPassphrase: string): Promise<string> => {
+    const config = await getUserApiConfig(userId);
+    const { vault, dataKey, recoveryCode } = await createVault(newPassphrase, config);
+    await userSettingsCollection.doc(userId).update({ vault });
+    vaultSession = { userId, dataKey };
+    return recoveryCode;
+};
+
+// Stores the keys in plain text again. The vault must be unlocked.
+export const disableApiKeyVault = async (userId: string): Promise<void> => {
+    const config = await getUserApiConfig(userId);
+    await userSettingsCollection.doc(userId).update({ apiKeys: config, vault: firebase.firestore.FieldValue.delete() });
+    vaultSession = null;
+};
+
 export const saveCustomFirebaseConfig = async (userId: string, config: CustomFirebaseConfig): Promise<void> => {
     await usersCollection.doc(userId).update({
         customFirebaseConfig: config,
     });
 };
 
-export const deductToken = async (userId: string): Promise<void> => {
-    const userRef = usersCollection.doc(userId);
-    // Use an atomic decrement operation to prevent race conditions
-    await userRef.update({
-        tokenBalance: firebase.firestore.FieldValue.increment(-1)
+// Charges an AI call to the user's balance and records it in their usage ledger, in one transaction so the
+// ledger always adds up to the balance changes.
+export const recordTokenUsage = async (entry: Omit<UsageLedgerEntry, 'id' | 'balanceAfter' | 'createdAt'>): Promise<number> => {
+    const userRef = usersCollection.doc(entry.userId);
+    const ledgerRef = userRef.collection('usageLedger').doc();
+    return firestore.runTransaction(async (transaction) => {
+        const userDoc = await transaction.get(userRef);
+        const balanceAfter = (userDoc.data()?.tokenBalance ?? 0) - entry.cost;
+        transaction.update(userRef, { tokenBalance: balanceAfter });
+        transaction.set(ledgerRef, { ...entry, balanceAfter, createdAt: serverTimestamp() });
+        return balanceAfter;
     });
 };
 
+export const getUsageLedger = async (userId: string, limit: number): Promise<UsageLedgerEntry[]> => {
+    const snapshot = await usersCollection.doc(userId).collection('usageLedger').orderBy('createdAt', 'desc').limit(limit).get();
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as UsageLedgerEntry));
+};
+
 export const updateUserTokenBalance = async (userId: string, newBalance: number, updateLogin: boolean = false): Promise<void> => {
     const updateData: { tokenBalance: number, lastLogin?: firebase.firestore.FieldValue } = {
         tokenBalance: newBalance,
@@ -200,6 +280,14 @@ export const updateProjectDetails = async (projectId: string, name: string, prom
     await db.collection('projects').doc(projectId).update(updateData);
 };
 
+export const updateProjectFallbackChain = async (projectId: string, chain: AiModelChoice[], db: firebase.firestore.Firestore = firestore): Promise<void> => {
+    await db.collection('projects').doc(projectId).update({ fallbackChain: chain });
+};
+
+export const updateProjectGitConfig = async (projectId: string, config: ProjectGitConfig | null, db: firebase.firestore.Firestore = firestore): Promise<void> => {
+    await db.collection('projects').doc(projectId).update({ git: config });
+};
+
 export const deleteProject = async (projectId: string): Promise<void> => {
     const projectRef = projectsCollection.doc(projectId);
 
@@ -246,10 +334,27 @@ export const copyProject = async (projectId: string, newName: string, userId: st
 
 // --- Project Sharing & Collaboration Invites ---
 
-export const createShareKey = async (projectId: string): Promise<string> => {
+// Share keys and invites can carry an expiry, given in days from when they are created.
+const expiryFromNow = (expiresInDays: number | null) =>
+    expiresInDays ? firebase.firestore.Timestamp.fromMillis(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null;
+
+const hasExpired = (data: firebase.firestore.DocumentData) => !!data.expiresAt && data.expiresAt.toMillis() < Date.now();
+
+// Adds the user with the given role. Someone who is already in the project keeps the role they have.
+const addProjectMember = async (projectRef: firebase.firestore.DocumentReference, project: Project, userId: string, role: ProjectRole) => {
+    if (project.ownerId === userId || project.members.includes(userId)) return;
+    await projectRef.update({
+        members: firebase.firestore.FieldValue.arrayUnion(userId),
+        [`roles.${userId}`]: role,
+    });
+};
+
+export const createShareKey = async (projectId: string, role: ProjectRole = 'editor', expiresInDays: number | null = null): Promise<string> => {
     const keyRef = await shareKeysCollection.add({
         projectId,
+        role,
         createdAt: serverTimestamp(),
+        expiresAt: expiryFromNow(expiresInDays),
     });
     return keyRef.id;
 };
@@ -259,8 +364,12 @@ export const joinProjectByShareKey = async (key: string, userId: string): Promis
     if (!keyDoc.exists) {
         throw new Error("Invalid or expired share key.");
     }
+    if (hasExpired(keyDoc.data()!)) {
+        await keyDoc.ref.delete();
+        throw new Error("This share key has expired.");
+    }
 
-    const { projectId } = keyDoc.data()!;
+    const { projectId, role } = keyDoc.data()!;
     const projectRef = projectsCollection.doc(projectId);
     const projectDoc = await projectRef.get();
 
@@ -268,23 +377,23 @@ export const joinProjectByShareKey = async (key: string, userId: string): Promis
         throw new Error("The project associated with this key no longer exists.");
     }
     
-    // Add user to project members if not already a member
-    await projectRef.update({
-        members: firebase.firestore.FieldValue.arrayUnion(userId)
-    });
+    const project = { id: projectDoc.id, ...projectDoc.data() } as Project;
+    await addProjectMember(projectRef, project, userId, role || 'editor');
 
     // Share keys are single-use, so delete it after it has been used.
     await keyDoc.ref.delete();
 
-    return { id: projectDoc.id, ...projectDoc.data() } as Project;
+    return project;
 };
 
-export const createInvite = async (projectId: string, ownerUid: string, inviteeEmail: string): Promise<string> => {
+export const createInvite = async (projectId: string, ownerUid: string, inviteeEmail: string, role: ProjectRole = 'editor', expiresInDays: number | null = null): Promise<string> => {
     const inviteRef = await invitesCollection.add({
         projectId,
         ownerUid,
         inviteeEmail: inviteeEmail.toLowerCase(),
+        role,
         createdAt: serverTimestamp(),
+        expiresAt: expiryFromNow(expiresInDays),
     });
     return inviteRef.id;
 };
@@ -297,10 +406,14 @@ export const acceptInvite = async (code: string, inviteeUid: string, inviteeEmai
     if (!inviteDoc.exists) {
         throw new Error("Invalid or expired invite code.");
     }
-    const inviteData = inviteDoc.data()!;
+    const inviteData = inviteDoc.data() as Omit<Invite, 'id'>;
     if (inviteData.inviteeEmail.toLowerCase() !== inviteeEmail.toLowerCase()) {
         throw new Error("This invite is for a different email address.");
     }
+    if (hasExpired(inviteData)) {
+        await inviteDoc.ref.delete();
+        throw new Error("This invite has expired.");
+    }
 
     const projectRef = projectsCollection.doc(inviteData.projectId);
     const projectDoc = await projectRef.get();
@@ -308,19 +421,27 @@ export const acceptInvite = async (code: string, inviteeUid: string, inviteeEmai
         throw new Error("The project for this invite no longer exists.");
     }
 
-    await projectRef.update({
-        members: firebase.firestore.FieldValue.arrayUnion(inviteeUid)
-    });
+    const project = { id: projectDoc.id, ...projectDoc.data() } as Project;
+    await addProjectMember(projectRef, project, inviteeUid, inviteData.role || 'editor');
 
     await inviteDoc.ref.delete();
 
-    return { id: projectDoc.id, ...projectDoc.data() } as Project;
+    return project;
 };
 
-export const removeProjectMember = async (projectId: string, memberUidToRemove: string): Promise<void> => {
-    const projectRef = projectsCollection.doc(projectId);
+// Membership is kept in the platform's database, and mirrored to a custom collaboration server by passing its `db`.
+export const setProjectMemberRole = async (projectId: string, memberUid: string, role: ProjectRole, db: firebase.firestore.Firestore = firestore): Promise<void> => {
+    if (role === 'owner') throw new Error("Ownership can not be granted to a member.");
+    await db.collection('projects').doc(projectId).update({
+        [`roles.${memberUid}`]: role,
+    });
+};
+
+export const removeProjectMember = async (projectId: string, memberUidToRemove: string, db: firebase.firestore.Firestore = firestore): Promise<void> => {
+    const projectRef = db.collection('projects').doc(projectId);
     await projectRef.update({
         members: firebase.firestore.FieldValue.arrayRemove(memberUidToRemove),
+        [`roles.${memberUidToRemove}`]: firebase.firestore.FieldValue.delete(),
     });
 };
 
@@ -345,8 +466,26 @@ export const streamProjectFiles = (projectId: string, callback: (files: FileNode
     );
 };
 
+// Content written outright bumps the revision and starts a new operation log, so open co-editing sessions reload
+// the file instead of replaying edits made against the old text.
+const replacedContent = (content: string) => ({ content, epoch: crypto.randomUUID(), revision: firebase.firestore.FieldValue.increment(1) });
+
 export const updateFileContent = async (projectId: string, fileId: string, newContent: string, db: firebase.firestore.Firestore = firestore) => {
-    await db.collection('projects').doc(projectId).collection('files').doc(fileId).update({ content: newContent });
+    await db.collection('projects').doc(projectId).collection('files').doc(fileId).update(replacedContent(newContent));
+};
+
+// Compare-and-set save: writes only if the file is still at `baseRevision`, the revision the edits were made on.
+// Otherwise nothing is written and the file as it is now is returned, so the caller can merge.
+export const saveFileContent = async (projectId: string, fileId: string, content: string, baseRevision: number, db: firebase.firestore.Firestore = firestore): Promise<FileNode | null> => {
+    const docRef = db.collection('projects').doc(projectId).collection('files').doc(fileId);
+    return db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(docRef);
+        if (!snapshot.exists) throw new Error("The file was deleted.");
+        const file = { id: snapshot.id, ...snapshot.data() } as FileNode;
+        if ((file.revision || 0) !== baseRevision) return file;
+        transaction.update(docRef, { ...replacedContent(content), revision: baseRevision + 1 });
+        return null;
+    });
 };
 
 export const addFileOrFolder = async (projectId: string, path: string, type: 'file' | 'folder', content: string = '', db: firebase.firestore.Firestore = firestore) => {
@@ -380,9 +519,31 @@ export const deleteFileByPath = async (projectId: string, path: string, db: fire
     await batch.commit();
 };
 
-export const renameOrMovePath = async (projectId: string, oldPath: string, newPath: string, db: firebase.firestore.Firestore = firestore) => {
+// `contentUpdates` are written in the same batch, e.g. the imports rewritten to follow the move.
+// A file's new content and the revision it was worked out from, for the compare-and-set saves below.
+export type FileContentSave = { id: string; content: string; baseRevision: number };
+
+// Reads every file in `saves` within the transaction, and writes those still at their base revision. The others
+// are returned as they are now (with their paths before any move in the same transaction), so the caller can merge.
+const saveFileContentsIn = async (transaction: firebase.firestore.Transaction, filesCollection: firebase.firestore.CollectionReference, saves: FileContentSave[]): Promise<FileNode[]> => {
+    const snapshots = await Promise.all(saves.map(save => transaction.get(filesCollection.doc(save.id))));
+    const changed: FileNode[] = [];
+    snapshots.forEach((snapshot, i) => {
+        if (!snapshot.exists) throw new Error("A file being updated was deleted.");
+        const file = { id: snapshot.id, ...snapshot.data() } as FileNode;
+        if ((file.revision || 0) !== saves[i].baseRevision) {
+            changed.push(file);
+            return;
+        }
+        transaction.update(snapshot.ref, { ...replacedContent(saves[i].content), revision: saves[i].baseRevision + 1 });
+    });
+    return changed;
+};
+
+// Moves the path, and everything under it for a folder. Content updates (such as rewritten imports) are saved in
+// the same transaction, each only if its file hasn't changed since; the files that have are returned.
+export const renameOrMovePath = async (projectId: string, oldPath: string, newPath: string, contentUpdates: FileContentSave[] = [], db: firebase.firestore.Firestore = firestore): Promise<FileNode[]> => {
     const filesCollection = db.collection('projects').doc(projectId).collection('files');
-    const batch = db.batch();
     
     // Find the main file/folder
     const mainDocSnapshot = await filesCollection.where('path', '==', oldPath).limit(1).get();
@@ -390,25 +551,37 @@ export const renameOrMovePath = async (projectId: string, oldPath: string, newPa
     
     const mainDoc = mainDocSnapshot.docs[0];
     const mainDocData = mainDoc.data() as FileNode;
+    const childrenSnapshot = mainDocData.type === 'folder'
+        ? await filesCollection.where('path', '>', oldPath + '/').where('path', '<', oldPath + '/~').get()
+        : null;
 
-    // Update the main doc
-    batch.update(mainDoc.ref, { path: newPath, name: newPath.split('/').pop() || '' });
-    
-    // If it's a folder, update all children paths
-    if (mainDocData.type === 'folder') {
-        const childrenSnapshot = await filesCollection.where('path', '>', oldPath + '/').where('path', '<', oldPath + '/~').get();
-        childrenSnapshot.docs.forEach(doc => {
+    return db.runTransaction(async (transaction) => {
+        const changed = await saveFileContentsIn(transaction, filesCollection, contentUpdates);
+
+        // Update the main doc
+        transaction.update(mainDoc.ref, { path: newPath, name: newPath.split('/').pop() || '' });
+
+        // If it's a folder, update all children paths
+        childrenSnapshot?.docs.forEach(doc => {
             const childPath = doc.data().path;
             const updatedChildPath = childPath.replace(oldPath, newPath);
-            batch.update(doc.ref, { path: updatedChildPath });
+            transaction.update(doc.ref, { path: updatedChildPath });
         });
-    }
+        return changed;
+    });
+};
 
-    await batch.commit();
+// Compare-and-set save of several files in one transaction: files still at their base revision are written, and
+// the ones that changed since are returned untouched.
+export const saveFileContents = async (projectId: string, saves: FileContentSave[], db: firebase.firestore.Firestore = firestore): Promise<FileNode[]> => {
+    const filesCollection = db.collection('projects').doc(projectId).collection('files');
+    return db.runTransaction(transaction => saveFileContentsIn(transaction, filesCollection, saves));
 };
 
 
-export const applyAiChanges = async (projectId: string, currentFiles: FileNode[], changes: AiChanges, db: firebase.firestore.Firestore = firestore): Promise<void> => {
+export const applyAiChanges = async (projectId: string, currentFiles: FileNode[], aiChanges: AiChanges, db: firebase.firestore.Firestore = firestore): Promise<void> => {
+    // Patch edits are resolved against the current content first; a hunk that doesn't match aborts the batch.
+    const changes = resolvePatchesStrict(currentFiles, aiChanges);
     const batch = db.batch();
     const filesCollection = db.collection('projects').doc(projectId).collection('files');
 
@@ -419,6 +592,12 @@ export const applyAiChanges = async (projectId: string, currentFiles: FileNode[]
             if (fileToMove) {
                 const newName = moveOp.to.split('/').pop() || '';
                 batch.update(filesCollection.doc(fileToMove.id), { path: moveOp.to, name: newName });
+                // A folder takes everything under it along, as renameOrMovePath does.
+                if (fileToMove.type === 'folder') {
+                    currentFiles.filter(f => f.path.startsWith(`${moveOp.from}/`)).forEach(child => {
+                        batch.update(filesCollection.doc(child.id), { path: moveOp.to + child.path.slice(moveOp.from.length) });
+                    });
+                }
             }
         }
     }
@@ -457,7 +636,7 @@ export const applyAiChanges = async (projectId: string, currentFiles: FileNode[]
             updatePaths.includes(f.path) && !deletePaths.includes(f.path)
         );
         filesToUpdate.forEach(file => {
-            batch.update(filesCollection.doc(file.id), { content: changes.update![file.path] });
+            batch.update(filesCollection.doc(file.id), replacedContent(changes.update![file.path]));
         });
     }
     
@@ -491,6 +670,43 @@ export const applyAiChanges = async (projectId: string, currentFiles: FileNode[]
 }
 
 
+// Writes the given per-path states in one batch. Used by undo/redo to move the project back or forward in history.
+export const applyFileStates = async (projectId: string, currentFiles: FileNode[], states: Record<string, FileState>, db: firebase.firestore.Firestore = firestore): Promise<void> => {
+    const batch = db.batch();
+    const filesCollection = db.collection('projects').doc(projectId).collection('files');
+
+    Object.entries(states).forEach(([path, state]) => {
+        const existing = currentFiles.find(f => f.path === path);
+        if (existing && (!state || state.type !== existing.type)) {
+            batch.delete(filesCollection.doc(existing.id));
+        }
+        if (!state) return;
+        if (existing && existing.type === state.type) {
+            if (state.type === 'file' && (existing.content || '') !== (state.content || '')) {
+                batch.update(filesCollection.doc(existing.id), replacedContent(state.content || ''));
+            }
+            return;
+        }
+        const newDoc: Omit<FileNode, 'id'> = {
+            name: path.split('/').pop() || '',
+            path,
+            type: state.type,
+            ...(state.type === 'file' && { content: state.content || '' }),
+        };
+        batch.set(filesCollection.doc(), newDoc);
+    });
+
+    await batch.commit();
+
+    const iconPath = 'public/icon.svg';
+    if (iconPath in states) {
+        const iconState = states[iconPath];
+        await db.collection('projects').doc(projectId).update({
+            iconSvg: iconState?.type === 'file' ? iconState.content || '' : firebase.firestore.FieldValue.delete(),
+        });
+    }
+};
+
 // --- Chat Management ---
 
 export const getChatHistory = async (projectId: string, db: firebase.firestore.Firestore = firestore): Promise<AiChatMessage[]> => {
@@ -546,20 +762,78 @@ export const clearChatHistory = async (projectId: string, db: firebase.firestore
 };
 
 // --- Snapshots ---
+export const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetentionPolicy = { maxCount: 20, maxAgeDays: 30 };
+
 export const createSnapshot = async (
   projectId: string,
   triggeringPrompt: string,
   fileData: string,
-  db: firebase.firestore.Firestore = firestore
+  db: firebase.firestore.Firestore = firestore,
+  metadata: SnapshotMetadata = { source: 'manual' }
 ): Promise<string> => {
   const docRef = await db.collection('projects').doc(projectId).collection('snapshots').add({
     createdAt: serverTimestamp(),
     triggeringPrompt,
     fileData,
+    // Firestore rejects undefined values, so only write the metadata fields that are set.
+    ...Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)),
   });
   return docRef.id;
 };
 
+// Deletes automatic snapshots that fall outside the retention policy. Manual snapshots are never pruned.
+export const pruneSnapshots = async (
+  projectId: string,
+  policy: SnapshotRetentionPolicy = DEFAULT_SNAPSHOT_RETENTION,
+  db: firebase.firestore.Firestore = firestore
+): Promise<number> => {
+  if (!policy.maxCount && !policy.maxAgeDays) return 0;
+
+  const snapshot = await db.collection('projects').doc(projectId).collection('snapshots').orderBy('createdAt', 'desc').get();
+  const autoDocs = snapshot.docs.filter(doc => doc.data().source === 'auto');
+  const cutoff = policy.maxAgeDays ? Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000 : null;
+
+  const docsToDelete = autoDocs.filter((doc, index) => {
+    if (policy.maxCount && index >= policy.maxCount) return true;
+    const createdAt = doc.data().createdAt as firebase.firestore.Timestamp | null;
+    return cutoff !== null && !!createdAt && createdAt.toMillis() < cutoff;
+  });
+  if (docsToDelete.length === 0) return 0;
+
+  const batch = db.batch();
+  docsToDelete.forEach(doc => batch.delete(doc.ref));
+  await batch.commit();
+  return docsToDelete.length;
+};
+
+// Takes an automatic snapshot of the given files before an AI change is applied, then enforces the retention policy.
+export const createPreChangeSnapshot = async (
+  projectId: string,
+  files: FileNode[],
+  triggeringPrompt: string,
+  metadata: Omit<SnapshotMetadata, 'source'>,
+  policy: SnapshotRetentionPolicy = DEFAULT_SNAPSHOT_RETENTION,
+  db: firebase.firestore.Firestore = firestore
+): Promise<string> => {
+  const compressedData = LZString.compressToUTF16(JSON.stringify(files));
+  const snapshotId = await createSnapshot(projectId, triggeringPrompt, compressedData, db, { ...metadata, source: 'auto' });
+  try {
+    await pruneSnapshots(projectId, policy, db);
+  } catch (error) {
+    // A failed cleanup should never block the AI change the snapshot is protecting.
+    console.warn(`Failed to prune snapshots for project ${projectId}:`, error);
+  }
+  return snapshotId;
+};
+
+export const updateSnapshotRetention = async (
+  projectId: string,
+  policy: SnapshotRetentionPolicy,
+  db: firebase.firestore.Firestore = firestore
+): Promise<void> => {
+  await db.collection('projects').doc(projectId).update({ snapshotRetention: policy });
+};
+
 export const streamSnapshots = (
   projectId: string,
   callback: (snapshots: Snapshot[]) => void,
@@ -587,6 +861,161 @@ export const deleteSnapshot = async (
 };
 
 
+// --- Deployments ---
+
+export const recordDeployment = async (
+  projectId: string,
+  record: Omit<DeploymentRecord, 'id' | 'createdAt'>,
+  db: firebase.firestore.Firestore = firestore
+): Promise<string> => {
+  const docRef = await db.collection('projects').doc(projectId).collection('deployments').add({
+    createdAt: serverTimestamp(),
+    // Firestore rejects undefined values, so only write the fields that are set.
+    ...Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)),
+  });
+  return docRef.id;
+};
+
+// The project's live deployment, shown in the header. Static exports never become one.
+export const setProjectDeployment = async (
+  projectId: string,
+  provider: HostedDeploymentProvider,
+  url: string,
+  db: firebase.firestore.Firestore = firestore
+): Promise<void> => {
+  await db.collection('projects').doc(projectId).update({
+    deployment: { provider, url, lastDeployed: serverTimestamp() },
+  });
+};
+
+export const streamDeployments = (
+  projectId: string,
+  callback: (deployments: DeploymentRecord[]) => void,
+  db: firebase.firestore.Firestore = firestore
+): (() => void) => {
+  return db.collection('projects').doc(projectId).collection('deployments').orderBy('createdAt', 'desc')
+    .onSnapshot(
+      (snapshot) => {
+        const deployments = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as DeploymentRecord));
+        callback(deployments);
+      },
+      (error) => {
+        console.error(`Error streaming deployments for project ${projectId}:`, error);
+        callback([]);
+      }
+    );
+};
+
+
+// --- Live Co-editing ---
+
+// Each file's edits are an ordered log of operations under its current epoch. A client claims the next
+// revision in a transaction, so two clients can never write the same revision and the loser transforms its
+// edit against the winner's and tries again.
+const fileOperationsCollection = (projectId: string, fileId: string, epoch: string, db: firebase.firestore.Firestore) =>
+    db.collection('projects').doc(projectId).collection('files').doc(fileId).collection('epochs').doc(epoch).collection('operations');
+
+// Files that were never replaced since they were created are still on their first log.
+export const INITIAL_EPOCH = 'initial';
+
+const revisionId = (revision: number) => String(revision).padStart(10, '0');
+
+// Resolves to false if another client already wrote this revision.
+export const submitFileOperation = async (
+  projectId: string,
+  fileId: string,
+  epoch: string,
+  record: FileOperationRecord,
+  db: firebase.firestore.Firestore = firestore
+): Promise<boolean> => {
+  const docRef = fileOperationsCollection(projectId, fileId, epoch, db).doc(revisionId(record.revision));
+  return db.runTransaction(async (transaction) => {
+    const existing = await transaction.get(docRef);
+    if (existing.exists) return false;
+    transaction.set(docRef, { ...record, createdAt: serverTimestamp() });
+    return true;
+  });
+};
+
+// Streams the operations after `afterRevision`, in order. Each callback gets only the newly added ones.
+export const streamFileOperations = (
+  projectId: string,
+  fileId: string,
+  epoch: string,
+  afterRevision: number,
+  callback: (operations: FileOperationRecord[]) => void,
+  db: firebase.firestore.Firestore = firestore
+): (() => void) => {
+  return fileOperationsCollection(projectId, fileId, epoch, db).where('revision', '>', afterRevision).orderBy('revision')
+    .onSnapshot(
+      (snapshot) => {
+        const added = snapshot.docChanges().filter(change => change.type === 'added').map(change => change.doc.data() as FileOperationRecord);
+        if (added.length > 0) callback(added);
+      },
+      (error) => console.error(`Error streaming edits for file ${fileId}:`, error)
+    );
+};
+
+// Saves the document at `revision` as the file's content. Concurrent saves merge rather than overwrite each
+// other: a save behind the stored revision is dropped, since the stored content already includes it. Resolves
+// to false if the save was dropped or the file's content was replaced meanwhile.
+export const saveFileCheckpoint = async (
+  projectId: string,
+  fileId: string,
+  epoch: string,
+  revision: number,
+  content: string,
+  db: firebase.firestore.Firestore = firestore
+): Promise<boolean> => {
+  const docRef = db.collection('projects').doc(projectId).collection('files').doc(fileId);
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(docRef);
+    const file = snapshot.data() as FileNode | undefined;
+    if (!file || (file.epoch || INITIAL_EPOCH) !== epoch || (file.revision || 0) >= revision) return false;
+    transaction.update(docRef, { content, revision });
+    return true;
+  });
+};
+
+const presenceCollection = (projectId: string, db: firebase.firestore.Firestore) => db.collection('projects').doc(projectId).collection('presence');
+
+export const updatePresence = async (
+  projectId: string,
+  presence: Omit<CollaboratorPresence, 'updatedAt'>,
+  db: firebase.firestore.Firestore = firestore
+): Promise<void> => {
+  await presenceCollection(projectId, db).doc(presence.clientId).set({ ...presence, updatedAt: serverTimestamp() });
+};
+
+export const removePresence = async (projectId: string, clientId: string, db: firebase.firestore.Firestore = firestore): Promise<void> => {
+  await presenceCollection(projectId, db).doc(clientId).delete();
+};
+
+// Sessions that stopped sending heartbeats (a closed laptop, a crashed tab) drop out after `staleAfterMs`.
+export const streamPresence = (
+  projectId: string,
+  staleAfterMs: number,
+  callback: (presence: CollaboratorPresence[]) => void,
+  db: firebase.firestore.Firestore = firestore
+): (() => void) => {
+  return presenceCollection(projectId, db).onSnapshot(
+    (snapshot) => {
+      const now = Date.now();
+      const presence = snapshot.docs.map(doc => {
+        const data = doc.data();
+        // A pending server timestamp reads as null until the write lands.
+        return { ...data, clientId: doc.id, updatedAt: data.updatedAt ? data.updatedAt.toMillis() : now } as CollaboratorPresence;
+      });
+      callback(presence.filter(p => now - p.updatedAt < staleAfterMs));
+    },
+    (error) => {
+      console.error(`Error streaming presence for project ${projectId}:`, error);
+      callback([]);
+    }
+  );
+};
+
+
 // --- Usage Statistics ---
 
 export const getUserFileStats = async (userId: string): Promise<{ fileCount: number; totalSize: number }> => {
@@ -662,7 +1091,7 @@ export const getAllUsers = async (): Promise<AdminUser[]> => {
 
 export const getAdminSettings = async (): Promise<AdminSettings> => {
     const doc = await adminSettingsCollection.doc('config').get();
-    if (!doc.exists) return { dailyTokenReward: 1000000 };
+    if (!doc.exists) return { dailyTokenReward: DEFAULT_DAILY_TOKEN_REWARD };
     return doc.data() as AdminSettings;
 }
 
@@ -685,7 +1114,9 @@ export const saveApiPoolConfig = async (config: ApiPoolConfig): Promise<void> =>
 
 export const getApiPoolKeys = async (): Promise<ApiPoolKey[]> => {
     const snapshot = await adminSettingsCollection.doc('apiPoolConfig').collection('keys').orderBy('addedAt', 'desc').get();
-    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ApiPoolKey));
+    const keys = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ApiPoolKey));
+    apiKeyPool.reconcileKeyHealth(keys);
+    return keys;
 };
 
 export const addApiPoolKey = async (provider: AiProvider, key: string): Promise<string> => {
@@ -701,6 +1132,41 @@ export const deleteApiPoolKey = async (keyId: string): Promise<void> => {
     await adminSettingsCollection.doc('apiPoolConfig').collection('keys').doc(keyId).delete();
 };
 
+export const recordApiPoolKeySuccess = async (keyId: string, latencyMs: number, tokensUsed: number): Promise<void> => {
+    await adminSettingsCollection.doc('apiPoolConfig').collection('keys').doc(keyId).update({
+        successCount: firebase.firestore.FieldValue.increment(1),
+        totalLatencyMs: firebase.firestore.FieldValue.increment(latencyMs),
+        tokensUsed: firebase.firestore.FieldValue.increment(tokensUsed),
+        consecutiveFailures: 0,
+        authFailures: 0,
+        cooldownUntil: null,
+        lastUsedAt: serverTimestamp(),
+    });
+};
+
+export const recordApiPoolKeyFailure = async (
+    keyId: string,
+    latencyMs: number,
+    failure: KeyFailureRecord
+): Promise<void> => {
+    await adminSettingsCollection.doc('apiPoolConfig').collection('keys').doc(keyId).update({
+        ...failure,
+        failureCount: firebase.firestore.FieldValue.increment(1),
+        totalLatencyMs: firebase.firestore.FieldValue.increment(latencyMs),
+        lastUsedAt: serverTimestamp(),
+    });
+};
+
+// The pool for calls this browser makes with pooled keys itself, rather than through the AI proxy.
+export const apiKeyPool = createKeyPool({ recordSuccess: recordApiPoolKeySuccess, recordFailure: recordApiPoolKeyFailure });
+
+// Turning a key back on also clears its failure streak, so it gets a fresh start.
+export const setApiPoolKeyDisabled = async (keyId: string, isDisabled: boolean): Promise<void> => {
+    await adminSettingsCollection.doc('apiPoolConfig').collection('keys').doc(keyId).update(
+        isDisabled ? { isDisabled } : { isDisabled, consecutiveFailures: 0, authFailures: 0, cooldownUntil: null }
+    );
+};
+
 // --- Platform Error Logging ---
 export const logPlatformError = async (errorData: Omit<PlatformError, 'id' | 'timestamp'>): Promise<void> => {
     await platformErrorsCollection.add({
@@ -0,0 +1,267 @@
+import { AiChanges, FileNode, GitCommitInfo, GitFileStatus, ProjectGitConfig } from '../types';
+
+// Git layer over the FileNode store, built on isomorphic-git. Each project has its own repository whose working
+// tree is rewritten from the project's files before every operation, so Git always sees what the editor sees.
+// Remotes are reached over smart HTTP; for local testing, a bare repo served by e.g. `npx git-http-mock-server`
+// works as a remote, and any Node `fs` can stand in for the browser file system.
+
+declare const git: any;
+declare const GitHttp: any;
+declare const LightningFS: any;
+
+// A repository's storage: a file system implementing the Node `fs` API and the directory the repo lives in.
+export type GitRepository = {
+    fs: any;
+    dir: string;
+};
+
+// isomorphic-git's HTTP plugin interface.
+export type GitHttpClient = {
+    request: (request: any) => Promise<any>;
+};
+
+export type GitAuth = {
+    token: string | null;
+};
+
+export type GitAuthor = {
+    name: string;
+    email: string;
+};
+
+const REPO_DIR = '/repo';
+const DEFAULT_BRANCH = 'main';
+const DEFAULT_USERNAME = 'x-access-token';
+
+const repositories = new Map<string, GitRepository>();
+
+// Repositories persist in IndexedDB, one database per project, so status survives a reload.
+export const openRepository = (projectId: string): GitRepository => {
+    let repo = repositories.get(projectId);
+    if (!repo) {
+        repo = { fs: new LightningFS(`asai-git-${projectId}`), dir: REPO_DIR };
+        repositories.set(projectId, repo);
+    }
+    return repo;
+};
+
+// Drops the local repository, e.g. when the remote changes. The next connect fetches it again.
+export const resetRepository = (projectId: string): GitRepository => {
+    const repo = { fs: new LightningFS(`asai-git-${projectId}`, { wipe: true }), dir: REPO_DIR };
+    repositories.set(projectId, repo);
+    return repo;
+};
+
+const remoteOptions = (config: Pick<ProjectGitConfig, 'remoteUrl' | 'username' | 'corsProxy'>, auth: GitAuth, http: GitHttpClient) => ({
+    http,
+    url: config.remoteUrl,
+    corsProxy: config.corsProxy || undefined,
+    onAuth: () => auth.token ? { username: config.username || DEFAULT_USERNAME, password: auth.token } : undefined,
+    onAuthFailure: () => ({ cancel: true }),
+});
+
+// Rewraps isomorphic-git errors with something a user can act on.
+const describeGitError = (error: any, action: string): Error => {
+    const code = error?.code || error?.name;
+    if (code === 'HttpError' && /40[13]/.test(String(error?.data?.statusCode ?? error?.message))) {
+        return new Error(`${action} failed: the remote rejected the credentials. Check your Git access token.`);
+    }
+    if (code === 'PushRejectedError') return new Error(`${action} failed: the remote has commits you don't have. Pull first, then push again.`);
+    if (code === 'MergeConflictError' || code === 'MergeNotSupportedError') {
+        return new Error(`${action} failed: the remote changes conflict with your commits. Resolve the conflict outside the editor and pull again.`);
+    }
+    return new Error(`${action} failed: ${error instanceof Error ? error.message : String(error)}`);
+};
+
+const exists = async (repo: GitRepository, path: string) => {
+    try {
+        await repo.fs.promises.stat(path);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const mkdirp = async (repo: GitRepository, dir: string) => {
+    const segments = dir.split('/').filter(Boolean);
+    for (let i = 1; i <= segments.length; i++) {
+        const path = `/${segments.slice(0, i).join('/')}`;
+        if (!(await exists(repo, path))) await repo.fs.promises.mkdir(path);
+    }
+};
+
+// Text heuristic Git itself uses: a NUL byte in the first 8000 bytes means binary.
+const isBinary = (bytes: Uint8Array) => bytes.subarray(0, 8000).includes(0);
+
+// Every file in the working tree, relative to the repo root, excluding .git.
+const listWorkdir = async (repo: GitRepository, dir: string = repo.dir): Promise<string[]> => {
+    const paths: string[] = [];
+    for (const name of await repo.fs.promises.readdir(dir)) {
+        if (dir === repo.dir && name === '.git') continue;
+        const fullPath = `${dir}/${name}`;
+        const stat = await repo.fs.promises.stat(fullPath);
+        if (stat.isDirectory()) paths.push(...await listWorkdir(repo, fullPath));
+        else paths.push(fullPath.slice(repo.dir.length + 1));
+    }
+    return paths;
+};
+
+// Text files in the working tree. Binary files can't be stored as FileNodes, so they are left out.
+const readWorkdir = async (repo: GitRepository): Promise<Record<string, string>> => {
+    const files: Record<string, string> = {};
+    const decoder = new TextDecoder();
+    for (const path of await listWorkdir(repo)) {
+        const bytes: Uint8Array = await repo.fs.promises.readFile(`${repo.dir}/${path}`);
+        if (!isBinary(bytes)) files[path] = decoder.decode(bytes);
+    }
+    return files;
+};
+
+// Makes the working tree match the project's files. Binary files from the repo are kept, since the project
+// never had them and removing them would show up as a deletion.
+const writeWorkdir = async (repo: GitRepository, files: FileNode[]) => {
+    const wanted = new Map(files.filter(f => f.type === 'file').map(f => [f.path, f.content || '']));
+    const current = await readWorkdir(repo);
+    for (const path of Object.keys(current)) {
+        if (!wanted.has(path)) await repo.fs.promises.unlink(`${repo.dir}/${path}`);
+    }
+    for (const [path, content] of wanted) {
+        if (current[path] === content) continue;
+        await mkdirp(repo, `${repo.dir}/${path.split('/').slice(0, -1).join('/')}`);
+        await repo.fs.promises.writeFile(`${repo.dir}/${path}`, content, 'utf8');
+    }
+};
+
+export const isRepositoryInitialized = (repo: GitRepository): Promise<boolean> => exists(repo, `${repo.dir}/.git`);
+
+// Sets the repository up against the remote: fetches the branch and checks it out if it exists, or starts an
+// empty branch if the remote doesn't have it yet. Returns the branch used, which is the remote's default
+// branch when none was given.
+export const connectRepository = async (
+    repo: GitRepository,
+    config: Omit<ProjectGitConfig, 'branch'> & { branch?: string },
+    auth: GitAuth,
+    http: GitHttpClient = GitHttp
+): Promise<string> => {
+    const { fs, dir } = repo;
+    try {
+        await mkdirp(repo, dir);
+        const info = await git.getRemoteInfo2({ ...remoteOptions(config, auth, http), protocolVersion: 1 });
+        const refs: Array<{ ref: string; oid: string; target?: string }> = info.refs || [];
+        const defaultBranch = refs.find(r => r.ref === 'HEAD')?.target?.replace('refs/heads/', '');
+        const branch = config.branch || defaultBranch || DEFAULT_BRANCH;
+        const options = remoteOptions(config, auth, http);
+
+        await git.init({ fs, dir, defaultBranch: branch });
+        await git.addRemote({ fs, dir, remote: 'origin', url: config.remoteUrl, force: true });
+        const remoteHead = refs.find(r => r.ref === `refs/heads/${branch}`);
+        if (remoteHead) {
+            await git.fetch({ fs, dir, ...options, remote: 'origin', ref: branch, singleBranch: true });
+            await git.writeRef({ fs, dir, ref: `refs/heads/${branch}`, value: remoteHead.oid, force: true });
+            await git.checkout({ fs, dir, ref: branch, force: true });
+        }
+        return branch;
+    } catch (error) {
+        throw describeGitError(error, 'Connecting to the remote');
+    }
+};
+
+// Clones a remote for a new project and returns its text files.
+export const cloneRepository = async (
+    repo: GitRepository,
+    config: Omit<ProjectGitConfig, 'branch'> & { branch?: string },
+    auth: GitAuth,
+    http: GitHttpClient = GitHttp
+): Promise<{ branch: string; files: Record<string, string> }> => {
+    const branch = await connectRepository(repo, config, auth, http);
+    return { branch, files: await readWorkdir(repo) };
+};
+
+export const getWorkingTreeStatus = async (repo: GitRepository, files: FileNode[]): Promise<GitFileStatus[]> => {
+    await writeWorkdir(repo, files);
+    // Rows are [path, head, workdir, stage]; head 1 = in the last commit, workdir 0 = absent, 1 = same as head, 2 = changed.
+    const matrix: Array<[string, number, number, number]> = await git.statusMatrix({ fs: repo.fs, dir: repo.dir });
+    const statuses: GitFileStatus[] = [];
+    matrix.forEach(([path, head, workdir]) => {
+        if (head === 0 && workdir === 2) statuses.push({ path, status: 'added' });
+        else if (head === 1 && workdir === 0) statuses.push({ path, status: 'deleted' });
+        else if (head === 1 && workdir === 2) statuses.push({ path, status: 'modified' });
+    });
+    return statuses;
+};
+
+export const getLastCommit = async (repo: GitRepository): Promise<GitCommitInfo | null> => {
+    try {
+        const [entry] = await git.log({ fs: repo.fs, dir: repo.dir, depth: 1 });
+        if (!entry) return null;
+        return {
+            oid: entry.oid,
+            message: entry.commit.message.trim(),
+            author: entry.commit.author.name,
+            timestamp: entry.commit.author.timestamp * 1000,
+        };
+    } catch {
+        // No commits yet on this branch.
+        return null;
+    }
+};
+
+export const commitChanges = async (repo: GitRepository, files: FileNode[], message: string, author: GitAuthor): Promise<string> => {
+    const statuses = await getWorkingTreeStatus(repo, files);
+    if (statuses.length === 0) throw new Error('There are no changes to commit.');
+    for (const { path, status } of statuses) {
+        if (status === 'deleted') await git.remove({ fs: repo.fs, dir: repo.dir, filepath: path });
+        else await git.add({ fs: repo.fs, dir: repo.dir, filepath: path });
+    }
+    return git.commit({ fs: repo.fs, dir: repo.dir, message, author });
+};
+
+export const pushToRemote = async (repo: GitRepository, config: ProjectGitConfig, auth: GitAuth, http: GitHttpClient = GitHttp): Promise<void> => {
+    let result: any;
+    try {
+        result = await git.push({ fs: repo.fs, dir: repo.dir, ...remoteOptions(config, auth, http), remote: 'origin', ref: config.branch });
+    } catch (error) {
+        throw describeGitError(error, 'Push');
+    }
+    const refError = result?.refs?.[`refs/heads/${config.branch}`]?.error;
+    if (!result?.ok || refError) throw new Error(`Push failed: ${refError || result?.error || 'the remote rejected the update.'}`);
+};
+
+// Fetches and merges the remote branch, then returns the file changes that bring the project up to date.
+// Requires a clean working tree, so a pull can never overwrite uncommitted work.
+export const pullFromRemote = async (
+    repo: GitRepository,
+    config: ProjectGitConfig,
+    files: FileNode[],
+    auth: GitAuth,
+    author: GitAuthor,
+    http: GitHttpClient = GitHttp
+): Promise<AiChanges> => {
+    if ((await getWorkingTreeStatus(repo, files)).length > 0) {
+        throw new Error('Commit your changes before pulling.');
+    }
+    const { fs, dir } = repo;
+    try {
+        await git.fetch({ fs, dir, ...remoteOptions(config, auth, http), remote: 'origin', ref: config.branch, singleBranch: true });
+        const hasLocalCommits = await getLastCommit(repo) !== null;
+        if (hasLocalCommits) {
+            await git.merge({ fs, dir, ours: config.branch, theirs: `remotes/origin/${config.branch}`, author });
+        } else {
+            const oid = await git.resolveRef({ fs, dir, ref: `refs/remotes/origin/${config.branch}` });
+            await git.writeRef({ fs, dir, ref: `refs/heads/${config.branch}`, value: oid, force: true });
+        }
+        await git.checkout({ fs, dir, ref: config.branch, force: true });
+    } catch (error) {
+        throw describeGitError(error, 'Pull');
+    }
+
+    const pulled = await readWorkdir(repo);
+    const current = new Map(files.filter(f => f.type === 'file').map(f => [f.path, f.content || '']));
+    const changes: AiChanges = { create: {}, update: {}, delete: [] };
+    Object.entries(pulled).forEach(([path, content]) => {
+        if (!current.has(path)) changes.create![path] = content;
+        else if (current.get(path) !== content) changes.update![path] = content;
+    });
+    current.forEach((_, path) => { if (!(path in pulled)) changes.delete!.push(path); });
+    return changes;
+};
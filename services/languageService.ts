@@ -0,0 +1,267 @@
+import { FileNode, ProjectProblem } from '../types';
+import { getOrCreateModel, modelPath, modelUri, syncModelContent } from '../utils/monaco';
+
+// TypeScript language features for the project, backed by the TypeScript worker that ships with Monaco. Every
+// script file in the project gets a model, so the worker type-checks the whole project rather than only the open
+// tabs, and diagnostics, hovers, completions and go-to-definition resolve imports between project files.
+
+const SCRIPT_FILE = /\.(tsx?|jsx?|mjs|cjs)$/i;
+
+export const isScriptPath = (path: string) => SCRIPT_FILE.test(path);
+
+// Type definitions for the packages nearly every generated project uses. They are mounted where Node module
+// resolution looks for them, so `import React from 'react'` type-checks like it would locally.
+const TYPE_LIBRARIES: Array<{ packageName: string; url: string; path: string }> = [
+    { packageName: 'react', url: 'https://cdn.jsdelivr.net/npm/@types/react@19.1.8/index.d.ts', path: 'node_modules/@types/react/index.d.ts' },
+    { packageName: 'react', url: 'https://cdn.jsdelivr.net/npm/@types/react@19.1.8/global.d.ts', path: 'node_modules/@types/react/global.d.ts' },
+    { packageName: 'react', url: 'https://cdn.jsdelivr.net/npm/@types/react@19.1.8/jsx-runtime.d.ts', path: 'node_modules/@types/react/jsx-runtime.d.ts' },
+    { packageName: 'react', url: 'https://cdn.jsdelivr.net/npm/csstype@3.1.3/index.d.ts', path: 'node_modules/csstype/index.d.ts' },
+    { packageName: 'react-dom', url: 'https://cdn.jsdelivr.net/npm/@types/react-dom@19.1.6/index.d.ts', path: 'node_modules/@types/react-dom/index.d.ts' },
+    { packageName: 'react-dom', url: 'https://cdn.jsdelivr.net/npm/@types/react-dom@19.1.6/client.d.ts', path: 'node_modules/@types/react-dom/client.d.ts' },
+];
+
+// Declarations a Vite project gets from `vite/client`: asset imports and `import.meta.env`.
+const ENVIRONMENT_DECLARATIONS = `
+declare module '*.css';
+declare module '*.scss';
+declare module '*.svg';
+declare module '*.png';
+declare module '*.jpg';
+declare module '*.jpeg';
+declare module '*.gif';
+declare module '*.webp';
+declare module '*.json';
+interface ImportMeta { readonly env: Record<string, any>; }
+`;
+
+const DIAGNOSTIC_OWNERS = ['typescript', 'javascript'];
+
+// Monaco's MarkerSeverity values.
+const SEVERITIES: Record<number, ProjectProblem['severity']> = { 8: 'error', 4: 'warning', 2: 'info' };
+
+let typedPackages: Promise<Set<string>> | null = null;
+let dependencyLib: { dispose: () => void } | null = null;
+let dependencyLibSource = '';
+
+// Each pattern matches a whole string first, so a `/*` or `//` inside one (as in `"@/*"` paths) is kept.
+const JSON_COMMENT = /("(?:\\.|[^"\\])*")|\/\*[\s\S]*?\*\/|\/\/.*/g;
+const JSON_TRAILING_COMMA = /("(?:\\.|[^"\\])*")|,(?=\s*[}\]])/g;
+
+const readJsonFile = (files: FileNode[], path: string): any => {
+    const file = files.find(f => f.path === path);
+    if (!file?.content) return null;
+    const keepStrings = (_match: string, string: string | undefined) => string ?? '';
+    try {
+        // tsconfig.json allows comments and trailing commas.
+        return JSON.parse(file.content.replace(JSON_COMMENT, keepStrings).replace(JSON_TRAILING_COMMA, keepStrings));
+    } catch {
+        return null;
+    }
+};
+
+const addTypeLibraries = async (monaco: any): Promise<Set<string>> => {
+    const loaded = new Set<string>();
+    const failed = new Set<string>();
+    await Promise.all(TYPE_LIBRARIES.map(async lib => {
+        try {
+            const response = await fetch(lib.url);
+            if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+            const source = await response.text();
+            monaco.languages.typescript.typescriptDefaults.addExtraLib(source, `file:///${lib.path}`);
+            monaco.languages.typescript.javascriptDefaults.addExtraLib(source, `file:///${lib.path}`);
+            loaded.add(lib.packageName);
+        } catch (error) {
+            console.warn(`Could not load type definitions from ${lib.url}`, error);
+            failed.add(lib.packageName);
+        }
+    }));
+    failed.forEach(name => loaded.delete(name));
+    return loaded;
+};
+
+// Sets the worker up once per page. Type definitions load in the background; until they arrive, imports of
+// those packages are typed as `any` rather than reported as missing.
+export const configureTypeScript = (monaco: any): Promise<Set<string>> => {
+    if (typedPackages) return typedPackages;
+    const { typescript } = monaco.languages;
+    [typescript.typescriptDefaults, typescript.javascriptDefaults].forEach(defaults => {
+        defaults.setEagerModelSync(true);
+        defaults.setDiagnosticsOptions({ noSemanticValidation: false, noSyntaxValidation: false });
+        defaults.addExtraLib(ENVIRONMENT_DECLARATIONS, 'file:///node_modules/@types/asai-environment/index.d.ts');
+    });
+    typedPackages = addTypeLibraries(monaco);
+    return typedPackages;
+};
+
+// Compiler options for the project, following its tsconfig.json where it has one.
+export const applyCompilerOptions = (monaco: any, files: FileNode[]) => {
+    const { typescript } = monaco.languages;
+    const projectOptions = readJsonFile(files, 'tsconfig.json')?.compilerOptions || {};
+    const options = {
+        target: typescript.ScriptTarget.ES2020,
+        module: typescript.ModuleKind.ESNext,
+        moduleResolution: typescript.ModuleResolutionKind.NodeJs,
+        jsx: typescript.JsxEmit.ReactJSX,
+        allowJs: true,
+        allowNonTsExtensions: true,
+        allowSyntheticDefaultImports: true,
+        esModuleInterop: true,
+        isolatedModules: true,
+        skipLibCheck: true,
+        noEmit: true,
+        strict: projectOptions.strict === true,
+        ...(projectOptions.baseUrl && { baseUrl: `file:///${String(projectOptions.baseUrl).replace(/^\.\/?/, '')}` }),
+        ...(projectOptions.paths && { paths: projectOptions.paths }),
+    };
+    typescript.typescriptDefaults.setCompilerOptions(options);
+    typescript.javascriptDefaults.setCompilerOptions({ ...options, checkJs: false });
+};
+
+// Packages the project depends on but that have no type definitions here are declared as untyped modules, so
+// importing them isn't an error while importing a package missing from package.json still is.
+export const applyDependencyDeclarations = (monaco: any, files: FileNode[], typed: Set<string>) => {
+    const pkg = readJsonFile(files, 'package.json') || {};
+    const names = Object.keys({ ...pkg.dependencies, ...pkg.devDependencies, ...pkg.peerDependencies });
+    const source = names
+        .filter(name => !typed.has(name) && !name.startsWith('@types/'))
+        .map(name => `declare module '${name}';\ndeclare module '${name}/*';`)
+        .join('\n');
+    if (source === dependencyLibSource) return;
+    dependencyLib?.dispose();
+    dependencyLibSource = source;
+    dependencyLib = monaco.languages.typescript.typescriptDefaults.addExtraLib(source, 'file:///node_modules/@types/asai-dependencies/index.d.ts');
+};
+
+// Brings the models in line with the project: every script file has one, other files only while a tab shows
+// them, and models of deleted files are dropped. `synced` remembers the content each model was last given,
+// so unchanged files are skipped without reading the model back.
+export const syncProjectModels = (monaco: any, files: FileNode[], openPaths: Set<string>, synced: Map<string, string>) => {
+    const contents = new Map(files.filter(f => f.type === 'file').map(f => [f.path, f.content || '']));
+    monaco.editor.getModels().forEach((model: any) => {
+        const path = modelPath(model);
+        if (path.startsWith('node_modules/')) return;
+        if (!contents.has(path) || (!isScriptPath(path) && !openPaths.has(path))) {
+            model.dispose();
+            synced.delete(path);
+        }
+    });
+    contents.forEach((content, path) => {
+        if (!isScriptPath(path) && !openPaths.has(path)) return;
+        if (synced.get(path) === content && monaco.editor.getModel(modelUri(monaco, path))) return;
+        syncModelContent(getOrCreateModel(monaco, path, content), content);
+        synced.set(path, content);
+    });
+};
+
+export const collectProblems = (monaco: any): ProjectProblem[] => {
+    const problems: ProjectProblem[] = [];
+    DIAGNOSTIC_OWNERS.forEach(owner => {
+        monaco.editor.getModelMarkers({ owner }).forEach((marker: any) => {
+            const severity = SEVERITIES[marker.severity];
+            const path = marker.resource.path.slice(1);
+            // Models outside the `file` scheme, like the merge view's, aren't project files.
+            if (!severity || marker.resource.scheme !== 'file' || path.startsWith('node_modules/')) return;
+            const code = typeof marker.code === 'object' ? marker.code?.value : marker.code;
+            problems.push({
+                path,
+                line: marker.startLineNumber,
+                column: marker.startColumn,
+                severity,
+                message: marker.message,
+                ...(code && { code: String(code) }),
+            });
+        });
+    });
+    const rank = { error: 0, warning: 1, info: 2 };
+    return problems.sort((a, b) => a.path.localeCompare(b.path) || rank[a.severity] - rank[b.severity] || a.line - b.line || a.column - b.column);
+};
+
+export type SymbolReference = {
+    path: string;
+    line: number; // 1-based
+    column: number; // 1-based
+    start: number; // Offset into the file's content.
+    length: number;
+    preview: string;
+    prefixText?: string; // Keeps shorthand properties and re-exports intact, e.g. `{ name }` -> `{ name: newName }`.
+    suffixText?: string;
+};
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const locate = (content: string, offset: number) => {
+    const before = content.slice(0, offset);
+    const lineStart = before.lastIndexOf('\n') + 1;
+    const lineEnd = content.indexOf('\n', offset);
+    return {
+        line: before.split('\n').length,
+        column: offset - lineStart + 1,
+        preview: content.slice(lineStart, lineEnd === -1 ? undefined : lineEnd),
+    };
+};
+
+// Finds every reference the TypeScript worker would rename together with the symbol called `name`. The symbol
+// is looked up from its declaration in the project's script files, or its first use if it has no declaration
+// there, e.g. an imported package export.
+export const findSymbolReferences = async (monaco: any, files: FileNode[], name: string): Promise<SymbolReference[]> => {
+    if (!IDENTIFIER.test(name)) throw new Error(`"${name}" is not a valid identifier.`);
+    const escaped = name.replace(/\$/g, '\\$');
+    const declaration = new RegExp(`\\b(?:const|let|var|function|class|interface|type|enum)\\s+(${escaped})(?![\\w$])`);
+    const use = new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`);
+    const scripts = files.filter(f => f.type === 'file' && f.content && isScriptPath(f.path));
+
+    let origin: { file: FileNode; offset: number } | null = null;
+    for (const file of scripts) {
+        const match = declaration.exec(file.content!);
+        if (match) {
+            origin = { file, offset: match.index + match[0].length - name.length };
+            break;
+        }
+    }
+    if (!origin) {
+        const file = scripts.find(f => use.test(f.content!));
+        if (file) origin = { file, offset: file.content!.search(use) };
+    }
+    if (!origin) throw new Error(`No script file mentions "${name}".`);
+
+    const uri = modelUri(monaco, origin.file.path);
+    const { typescript } = monaco.languages;
+    const isJavaScript = /\.(jsx?|mjs|cjs)$/i.test(origin.file.path);
+    const getWorker = await (isJavaScript ? typescript.getJavaScriptWorker() : typescript.getTypeScriptWorker());
+    const worker = await getWorker(uri);
+    const info = await worker.getRenameInfo(uri.toString(), origin.offset, { allowRenameOfImportPath: false });
+    if (!info.canRename) throw new Error(info.localizedErrorMessage || `"${name}" can't be renamed.`);
+    const locations: any[] = await worker.findRenameLocations(uri.toString(), origin.offset, false, false, true) || [];
+
+    const contents = new Map(scripts.map(f => [f.path, f.content!]));
+    return locations.flatMap(location => {
+        const path = monaco.Uri.parse(location.fileName).path.slice(1);
+        const content = contents.get(path);
+        if (content === undefined) return []; // Declarations in type libraries can't be renamed.
+        return [{
+            path,
+            start: location.textSpan.start,
+            length: location.textSpan.length,
+            ...locate(content, location.textSpan.start),
+            ...(location.prefixText && { prefixText: location.prefixText }),
+            ...(location.suffixText && { suffixText: location.suffixText }),
+        }];
+    });
+};
+
+// Returns the new content of each file with every reference renamed to `newName`.
+export const applySymbolRename = (files: FileNode[], references: SymbolReference[], newName: string): Record<string, string> => {
+    if (!IDENTIFIER.test(newName)) throw new Error(`"${newName}" is not a valid identifier.`);
+    const updates: Record<string, string> = {};
+    const byPath = new Map<string, SymbolReference[]>();
+    references.forEach(ref => byPath.set(ref.path, [...(byPath.get(ref.path) || []), ref]));
+    byPath.forEach((refs, path) => {
+        let content = files.find(f => f.path === path)?.content || '';
+        // Back to front, so earlier offsets stay valid.
+        [...refs].sort((a, b) => b.start - a.start).forEach(ref => {
+            content = `${content.slice(0, ref.start)}${ref.prefixText || ''}${newName}${ref.suffixText || ''}${content.slice(ref.start + ref.length)}`;
+        });
+        updates[path] = content;
+    });
+    return updates;
+};
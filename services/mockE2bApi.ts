@@ -0,0 +1,218 @@
+import { SandboxSession, SandboxFile, SandboxOutputHandlers, SandboxExecResult } from './sandboxService';
+
+// An in-memory stand-in for an E2B sandbox. It understands a handful of shell commands against a virtual
+// file system, so the terminal works without an E2B key and tests can run with no network access.
+
+const HELP_TEXT = `Local sandbox (no E2B key configured). Supported commands:
+  pwd, cd, ls, cat, echo (with > and >>), mkdir, touch, rm, node -v, npm -v, npm install, npm run <script>, help
+Add an E2B key in your API key settings for a full Linux sandbox.
+`;
+
+const tokenize = (command: string): string[] => {
+    const tokens: string[] = [];
+    const pattern = /"((?:\\.|[^"\\])*)"|'([^']*)'|(\S+)/g;
+    for (const match of command.matchAll(pattern)) {
+        tokens.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2] ?? match[3]);
+    }
+    return tokens;
+};
+
+const normalizePath = (cwd: string, target: string): string => {
+    const segments = target.startsWith('/') ? [] : cwd.split('/').filter(Boolean);
+    for (const part of target.split('/')) {
+        if (part === '..') segments.pop();
+        else if (part && part !== '.' && part !== '~') segments.push(part);
+    }
+    return segments.join('/');
+};
+
+export const startMockSandbox = (): SandboxSession => {
+    const files = new Map<string, string>();
+    const dirs = new Set<string>(['']);
+    let cwd = '';
+    let stopped = false;
+
+    const addParentDirs = (path: string) => {
+        const segments = path.split('/');
+        for (let i = 1; i < segments.length; i++) dirs.add(segments.slice(0, i).join('/'));
+    };
+
+    const writeFile = (path: string, content: string) => {
+        files.set(path, content);
+        addParentDirs(path);
+    };
+
+    const listDir = (dir: string): string[] => {
+        const prefix = dir ? `${dir}/` : '';
+        const names = new Set<string>();
+        [...files.keys(), ...dirs].forEach(path => {
+            if (path && path.startsWith(prefix)) {
+                const [name, ...rest] = path.slice(prefix.length).split('/');
+                names.add(rest.length > 0 || dirs.has(path) ? `${name}/` : name);
+            }
+        });
+        return [...names].sort();
+    };
+
+    const runOne = (args: string[], out: SandboxOutputHandlers): number => {
+        const [program, ...rest] = args;
+        const fail = (message: string, code = 1) => {
+            out.onStderr(`${message}\n`);
+            return code;
+        };
+
+        switch (program) {
+            case 'help':
+                out.onStdout(HELP_TEXT);
+                return 0;
+            case 'pwd':
+                out.onStdout(`/home/user/project${cwd ? `/${cwd}` : ''}\n`);
+                return 0;
+            case 'cd': {
+                const target = normalizePath(cwd, rest[0] || '/');
+                if (!dirs.has(target)) return fail(`cd: ${rest[0]}: No such file or directory`);
+                cwd = target;
+                return 0;
+            }
+            case 'ls': {
+                const showAll = rest.includes('-a') || rest.includes('-la');
+                const target = normalizePath(cwd, rest.find(a => !a.startsWith('-')) || '.');
+                if (files.has(target)) {
+                    out.onStdout(`${target.split('/').pop()}\n`);
+                    return 0;
+                }
+                if (!dirs.has(target)) return fail(`ls: cannot access '${target}': No such file or directory`, 2);
+                const entries = listDir(target).filter(name => showAll || !name.startsWith('.'));
+                if (entries.length > 0) out.onStdout(`${entries.join('  ')}\n`);
+                return 0;
+            }
+            case 'cat': {
+                let code = 0;
+                for (const arg of rest) {
+                    const path = normalizePath(cwd, arg);
+                    const content = files.get(path);
+                    if (content === undefined) code = fail(`cat: ${arg}: ${dirs.has(path) ? 'Is a directory' : 'No such file or directory'}`);
+                    else out.onStdout(content.endsWith('\n') ? content : `${content}\n`);
+                }
+                return code;
+            }
+            case 'echo': {
+                const redirectIndex = rest.findIndex(a => a === '>' || a === '>>');
+                const text = `${(redirectIndex === -1 ? rest : rest.slice(0, redirectIndex)).join(' ')}\n`;
+                if (redirectIndex === -1) {
+                    out.onStdout(text);
+                    return 0;
+                }
+                const target = rest[redirectIndex + 1];
+                if (!target) return fail('sh: syntax error near unexpected token `newline\'', 2);
+                const path = normalizePath(cwd, target);
+                writeFile(path, rest[redirectIndex] === '>>' ? (files.get(path) || '') + text : text);
+                return 0;
+            }
+            case 'mkdir':
+                rest.filter(a => !a.startsWith('-')).forEach(arg => {
+                    const path = normalizePath(cwd, arg);
+                    dirs.add(path);
+                    addParentDirs(path);
+                });
+                return 0;
+            case 'touch':
+                rest.forEach(arg => {
+                    const path = normalizePath(cwd, arg);
+                    if (!files.has(path)) writeFile(path, '');
+                });
+                return 0;
+            case 'rm': {
+                const recursive = rest.some(a => /^-\w*r/.test(a));
+                let code = 0;
+                for (const arg of rest.filter(a => !a.startsWith('-'))) {
+                    const path = normalizePath(cwd, arg);
+                    if (files.delete(path)) continue;
+                    if (!dirs.has(path) || !path) {
+                        code = fail(`rm: cannot remove '${arg}': No such file or directory`);
+                    } else if (!recursive) {
+                        code = fail(`rm: cannot remove '${arg}': Is a directory`);
+                    } else {
+                        [...files.keys()].filter(p => p.startsWith(`${path}/`)).forEach(p => files.delete(p));
+                        [...dirs].filter(d => d === path || d.startsWith(`${path}/`)).forEach(d => dirs.delete(d));
+                    }
+                }
+                return code;
+            }
+            case 'node':
+                if (rest[0] === '-v' || rest[0] === '--version') {
+                    out.onStdout('v20.11.1\n');
+                    return 0;
+                }
+                return fail('node: running scripts requires an E2B sandbox. Add an E2B key in your API key settings.');
+            case 'npm': {
+                const [subcommand, script] = rest;
+                if (subcommand === '-v' || subcommand === '--version') {
+                    out.onStdout('10.2.4\n');
+                    return 0;
+                }
+                const manifest = files.get('package.json');
+                if (subcommand === 'install' || subcommand === 'i' || subcommand === 'ci') {
+                    if (!manifest) return fail('npm error code ENOENT\nnpm error Could not read package.json');
+                    let count = 0;
+                    try {
+                        const pkg = JSON.parse(manifest);
+                        count = Object.keys({ ...pkg.dependencies, ...pkg.devDependencies }).length;
+                    } catch {
+                        return fail('npm error code EJSONPARSE\nnpm error package.json must be actual JSON');
+                    }
+                    out.onStdout(`\nadded ${count} packages in 0.1s (simulated)\n`);
+                    return 0;
+                }
+                if (subcommand === 'run' || subcommand === 'start' || subcommand === 'test') {
+                    const name = subcommand === 'run' ? script : subcommand;
+                    let scripts: Record<string, string> = {};
+                    try {
+                        scripts = manifest ? JSON.parse(manifest).scripts || {} : {};
+                    } catch {
+                        return fail('npm error code EJSONPARSE\nnpm error package.json must be actual JSON');
+                    }
+                    if (!name) {
+                        out.onStdout(Object.entries(scripts).map(([key, value]) => `  ${key}\n    ${value}`).join('\n') + '\n');
+                        return 0;
+                    }
+                    if (!scripts[name]) return fail(`npm error Missing script: "${name}"`);
+                    out.onStdout(`\n> ${name}\n> ${scripts[name]}\n\n`);
+                    return fail('Scripts can only be executed in an E2B sandbox. Add an E2B key in your API key settings.');
+                }
+                return fail(`npm: "${subcommand || ''}" is not supported by the local sandbox.`);
+            }
+            default:
+                return fail(`sh: ${program}: command not found`, 127);
+        }
+    };
+
+    return {
+        id: `mock-${crypto.randomUUID()}`,
+        runtime: 'mock',
+        exec: async (command: string, handlers: SandboxOutputHandlers): Promise<SandboxExecResult> => {
+            if (stopped) throw new Error('The sandbox has been stopped.');
+            let exitCode = 0;
+            // `&&` chains stop at the first failure, like a real shell.
+            for (const part of command.split('&&')) {
+                const args = tokenize(part.trim());
+                if (args.length === 0) continue;
+                exitCode = runOne(args, handlers);
+                if (exitCode !== 0) break;
+            }
+            return { exitCode };
+        },
+        writeFiles: async (sandboxFiles: SandboxFile[]) => {
+            if (stopped) throw new Error('The sandbox has been stopped.');
+            sandboxFiles.forEach(file => writeFile(file.path, file.content));
+        },
+        removeFiles: async (paths: string[]) => {
+            if (stopped) throw new Error('The sandbox has been stopped.');
+            paths.forEach(path => files.delete(path));
+        },
+        stop: async () => {
+            stopped = true;
+            files.clear();
+        },
+    };
+};
@@ -0,0 +1,44 @@
+import { ApiConfig, FileNode } from '../types';
+import { startE2bSandbox } from './e2bService';
+import { startMockSandbox } from './mockE2bApi';
+
+export type SandboxFile = {
+    path: string; // Relative to the project root
+    content: string;
+};
+
+export type SandboxOutputHandlers = {
+    onStdout: (data: string) => void;
+    onStderr: (data: string) => void;
+};
+
+export type SandboxExecResult = {
+    exitCode: number;
+};
+
+// A running sandbox. Commands run from the project root, which holds a copy of the project files.
+export interface SandboxSession {
+    id: string;
+    runtime: 'e2b' | 'mock';
+    exec: (command: string, handlers: SandboxOutputHandlers) => Promise<SandboxExecResult>;
+    writeFiles: (files: SandboxFile[]) => Promise<void>;
+    removeFiles: (paths: string[]) => Promise<void>; // Paths that are already gone are skipped
+    stop: () => Promise<void>;
+}
+
+export const projectFilesForSandbox = (files: FileNode[]): SandboxFile[] =>
+    files
+        .filter(f => f.type === 'file' && f.content !== undefined)
+        .map(f => ({ path: f.path, content: f.content! }));
+
+// Uses E2B when the user has added a key, otherwise the local mock, which needs no network.
+export const startSandbox = async (files: FileNode[], apiConfig: ApiConfig): Promise<SandboxSession> => {
+    const session = apiConfig.e2b ? await startE2bSandbox(apiConfig.e2b) : startMockSandbox();
+    try {
+        await session.writeFiles(projectFilesForSandbox(files));
+    } catch (error) {
+        await session.stop().catch(() => {});
+        throw error;
+    }
+    return session;
+};
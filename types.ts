@@ -16,6 +16,10 @@ export type User = firebase.User & {
     customFirebaseConfig?: CustomFirebaseConfig;
 };
 
+// What a member can do in a project. Owners also manage members and settings, editors change files and use the AI,
+// commenters can only chat, and viewers can only look.
+export type ProjectRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
 export interface Project {
   id: string;
   name: string;
@@ -26,13 +30,17 @@ export interface Project {
   ownerId: string;
   createdAt: firebase.firestore.Timestamp;
   members: string[]; // List of user UIDs who can access the project
+  roles?: Record<string, ProjectRole>; // By member UID. Members without an entry joined before roles and are editors.
   iconSvg?: string; // New field for project SVG icon
   sandboxType?: 'iframe' | 'stackblitz'; // Add sandbox type
   deployment?: {
-    provider: 'codesandbox' | 'netlify' | 'vercel';
+    provider: HostedDeploymentProvider;
     url: string;
     lastDeployed: firebase.firestore.Timestamp;
   } | null;
+  snapshotRetention?: SnapshotRetentionPolicy;
+  git?: ProjectGitConfig | null;
+  fallbackChain?: AiModelChoice[]; // Tried in order when the project's own provider fails
 }
 
 export interface FileNode {
@@ -41,6 +49,12 @@ export interface FileNode {
   path: string; // full path from root, e.g. "src/components/Button.tsx"
   type: 'file' | 'folder';
   content?: string;
+  // Goes up with every change to `content`, so a save can check that nobody else changed the file since its
+  // edits began. Missing on files that were never changed.
+  revision?: number;
+  // Live co-editing: `content` is the document at `revision` of the `epoch` operation log, which continues from
+  // the revision its epoch started at. Writes that replace the content outright start a new epoch.
+  epoch?: string;
   // Children are managed via path queries in Firestore, not stored directly in the object
 }
 
@@ -51,19 +65,54 @@ export type ChatMessage = {
   timestamp: firebase.firestore.Timestamp;
 };
 
-export type AiProvider = 'gemini' | 'openrouter' | 'groq';
+// Provider details (endpoints, models, auth) live in the registry in services/aiProviders.ts.
+export type AiProvider = 'gemini' | 'openrouter' | 'groq' | 'anthropic' | 'custom';
+
+// A provider and, where it has a choice, the model to use with it. No model means the provider's default.
+export type AiModelChoice = { provider: AiProvider; model?: string };
+
+// Which provider and model produced an AI reply, and whether that was a fallback after the project's own failed.
+export type AiAnsweredBy = AiModelChoice & { isFallback: boolean };
 
 export type ApiConfig = {
   gemini: string | null;
   openrouter: string | null;
   groq: string | null;
+  anthropic: string | null;
+  custom: string | null; // Optional key for the custom OpenAI-compatible endpoint
+  customBaseUrl: string | null; // e.g. http://localhost:11434/v1 for a local Ollama server
+  customModel: string | null; // Used when a project on the custom provider doesn't name a model
   // FIX: Add 'e2b' to support the cloud sandbox API key.
   e2b: string | null;
+  git: string | null; // Access token for pushing to and pulling from Git remotes over HTTPS
+  netlify: string | null; // Personal access token used for deploys
+  vercel: string | null; // Personal access token used for deploys
+};
+
+// AES-GCM ciphertext and its IV, both base64.
+export type EncryptedData = { iv: string; data: string };
+
+// A user's API keys encrypted in the browser, stored in userSettings in place of the plain `apiKeys`. The keys are
+// encrypted under a random data key, which is stored twice: wrapped under a key derived from the passphrase, and
+// wrapped under one derived from the recovery code.
+export type ApiKeyVault = {
+  version: 1;
+  iterations: number; // PBKDF2-SHA256 iterations for both derived keys
+  salt: string;
+  wrappedKey: EncryptedData;
+  recoverySalt: string;
+  recoveryWrappedKey: EncryptedData;
+  apiKeys: EncryptedData; // The ApiConfig as JSON
+  rotatedAt: string; // ISO date the data key was last replaced
 };
 
+// How to open a vault: with the passphrase, or with the recovery code when it's forgotten.
+export type VaultSecret = { passphrase: string } | { recoveryCode: string };
+
 // --- New Types for AI Planning ---
 
 export interface AiPlan {
+  id?: string; // Assigned client-side when the plan is generated, used to tag pre-change snapshots
   thoughts?: string;
   reasoning: string;
   plan: {
@@ -88,6 +137,13 @@ export type AiChanges = {
   delete?: string[];
   move?: Array<{ from: string; to: string }>;
   copy?: Array<{ from: string; to: string }>;
+  patch?: Record<string, SearchReplaceBlock[]>; // Partial edits to existing files, resolved into `update` before writing.
+};
+
+// One hunk of a patch edit: `search` must match exactly one region of the file, which is replaced by `replace`.
+export type SearchReplaceBlock = {
+  search: string;
+  replace: string;
 };
 
 export type ChatMessageSenderInfo = {
@@ -122,6 +178,22 @@ export type AiChatMessage = ChatMessage & {
   agentState?: 'planning' | 'executing' | 'analyzing' | 'self-correcting' | 'finished' | 'error';
   thoughts?: string; // AI's internal monologue
   currentTask?: string; // The specific task being worked on
+  contextReport?: ContextReport; // Which project files were sent to the model for this reply
+  answeredBy?: AiAnsweredBy;
+};
+
+// An AI reply that is still being streamed. It lives only in local state until the full message is saved to the chat.
+export type StreamingReply = {
+  text: string;
+  filePath?: string; // Set while a file is being generated, so the text is shown as that file's code
+};
+
+// Summary of the project context embedded in a prompt, shown alongside the AI's reply.
+export type ContextReport = {
+  includedFiles: string[]; // Sent with full content, most relevant first
+  omittedFiles: string[]; // Only listed by path
+  estimatedTokens: number;
+  tokenBudget: number;
 };
 
 export type AgentState = {
@@ -162,8 +234,22 @@ export type ApiPoolKey = {
   key: string; // The API key itself
   provider: AiProvider;
   addedAt: firebase.firestore.Timestamp | Date;
+  // Health and usage, kept up to date by the key pool (see utils/keyPool.ts). Keys added before it have none.
+  successCount?: number;
+  failureCount?: number;
+  totalLatencyMs?: number;
+  tokensUsed?: number;
+  consecutiveFailures?: number; // Auth and rate limit errors in a row; each one doubles the cooldown.
+  authFailures?: number; // Auth errors in a row; the key is disabled once there are too many.
+  cooldownUntil?: firebase.firestore.Timestamp | Date | null;
+  isDisabled?: boolean;
+  lastError?: string | null;
+  lastUsedAt?: firebase.firestore.Timestamp | Date;
 };
 
+// What happened to a pooled key on its last failed call.
+export type ApiKeyFailureKind = 'auth' | 'rate_limit' | 'other';
+
 export type ApiPoolConfig = {
   isEnabled: boolean;
 };
@@ -180,6 +266,26 @@ export type AdminUser = {
   tokenBalance: number;
 };
 
+// Tokens used by one AI call, as reported by the provider or estimated from the text when it doesn't report them.
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  isEstimated: boolean;
+};
+
+// One charged AI call. `cost` is what was taken from the balance: the tokens weighted by the model's price.
+export interface UsageLedgerEntry extends TokenUsage {
+  id: string;
+  userId: string;
+  projectId: string | null;
+  provider: AiProvider;
+  model: string;
+  functionName: string;
+  cost: number;
+  balanceAfter: number;
+  createdAt: firebase.firestore.Timestamp;
+}
+
 export type UserUsageStats = {
   projectCount: number;
   fileCount: number;
@@ -193,6 +299,53 @@ export type AdminStats = {
     totalDataStored: number;
 }
 
+// A diagnostic from the in-browser TypeScript language service. Lines and columns are 1-based.
+export type ProjectProblem = {
+  path: string;
+  line: number;
+  column: number;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  code?: string;
+};
+
+export type EditorRevealRequest = {
+  id: number; // Distinguishes repeated requests for the same spot.
+  path: string;
+  line: number;
+  column: number;
+};
+
+// One entry in a file's operation log. `revision` is its position in the log, starting at 1.
+export type FileOperationRecord = {
+  revision: number;
+  operation: Array<number | string>; // See utils/ot.ts.
+  clientId: string;
+  uid: string;
+};
+
+// An open editor session of a collaborative project. Selection offsets are into the file's content.
+export type CollaboratorPresence = {
+  clientId: string;
+  uid: string;
+  displayName: string | null;
+  photoURL: string | null;
+  colorIndex: number;
+  filePath: string | null;
+  selection: { anchor: number; head: number } | null;
+  updatedAt: number;
+};
+
+// A save that lost a race: the file changed remotely after the local edits began.
+export type FileConflict = {
+  path: string;
+  fileId: string;
+  base: string; // The content the local edits started from.
+  local: string;
+  remote: string;
+  remoteRevision: number;
+};
+
 export type ConsoleMessage = {
   id: string;
   method: 'log' | 'warn' | 'error' | 'info';
@@ -204,6 +357,7 @@ export type TerminalOutput = {
     id: string;
     timestamp: number;
     data: string;
+    stream?: 'stdout' | 'stderr' | 'command' | 'system'; // Defaults to stdout
 };
 
 export interface PlatformError {
@@ -224,20 +378,86 @@ export interface Snapshot {
     createdAt: firebase.firestore.Timestamp;
     triggeringPrompt: string;
     fileData: string; // Compressed JSON string of all files
+    source?: 'manual' | 'auto'; // 'auto' snapshots are taken before AI changes; older snapshots have no source and count as manual
+    planId?: string;
+    chatMessageId?: string;
+}
+
+export type SnapshotMetadata = Pick<Snapshot, 'source' | 'planId' | 'chatMessageId'>;
+
+// Retention only applies to automatic snapshots. A value of 0 disables that limit.
+export type SnapshotRetentionPolicy = {
+    maxCount: number;
+    maxAgeDays: number;
+};
+
+// --- Types for Deployments ---
+export type HostedDeploymentProvider = 'codesandbox' | 'netlify' | 'vercel';
+// 'static' builds a zip to host anywhere, so it has no URL and never becomes the project's live deployment.
+export type DeploymentTarget = HostedDeploymentProvider | 'static';
+
+export interface DeploymentRecord {
+    id: string;
+    createdAt: firebase.firestore.Timestamp;
+    target: DeploymentTarget;
+    status: 'ready' | 'error';
+    deployedBy: string; // uid
+    fileData: string; // Compressed JSON of the files that were deployed, so the deploy can be repeated or rolled back to
+    url?: string;
+    siteId?: string; // Provider-side site or project, reused by later deploys to the same target
+    providerDeployId?: string;
+    error?: string;
+    redeployOf?: string; // Id of the record whose files were deployed again
 }
 
+// --- Types for Git Integration ---
+export type ProjectGitConfig = {
+    remoteUrl: string;
+    branch: string;
+    username?: string; // Sent with the access token; most hosts accept any name, some (e.g. GitLab: "oauth2") need a specific one
+    corsProxy?: string; // Needed for hosts that don't send CORS headers, which includes GitHub
+};
+
+// Working-tree state of a path relative to the last commit.
+export type GitFileStatus = {
+    path: string;
+    status: 'added' | 'modified' | 'deleted';
+};
+
+export type GitCommitInfo = {
+    oid: string;
+    message: string;
+    author: string;
+    timestamp: number; // Milliseconds
+};
+
 export interface Invite {
     id: string;
     projectId: string;
     ownerUid: string;
     inviteeEmail: string;
+    role?: ProjectRole; // Invites from before roles make the invitee an editor.
     createdAt: firebase.firestore.Timestamp;
+    expiresAt?: firebase.firestore.Timestamp | null;
 }
 
+// --- Types for Undo/Redo History ---
+// The state of a single path at a point in time. null means the path did not exist.
+export type FileState = { type: 'file' | 'folder'; content?: string } | null;
+
+export type HistoryEntry = {
+    id: string;
+    label: string;
+    source: 'edit' | 'file' | 'ai';
+    timestamp: number;
+    before: Record<string, FileState>;
+    after: Record<string, FileState>;
+};
+
 // --- Types for AI God Mode ---
 export type AiGodModeAction = {
-    type: 'CLICK_ELEMENT' | 'TYPE_IN_INPUT' | 'MODIFY_FILES' | 'ASK_USER' | 'FINISH';
-    selector?: string; // For CLICK_ELEMENT and TYPE_IN_INPUT
-    payload?: string | AiChanges; // Text for TYPE_IN_INPUT, changes for MODIFY_FILES, question for ASK_USER
+    type: 'CLICK_ELEMENT' | 'TYPE_IN_INPUT' | 'SELECT_OPTION' | 'MODIFY_FILES' | 'ASK_USER' | 'FINISH';
+    selector?: string; // For CLICK_ELEMENT, TYPE_IN_INPUT and SELECT_OPTION
+    payload?: string | AiChanges; // Text for TYPE_IN_INPUT, option value for SELECT_OPTION, changes for MODIFY_FILES, question for ASK_USER
     reasoning: string; // AI's thought process for this specific action
 };
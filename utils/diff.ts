@@ -0,0 +1,143 @@
+import { FileNode, AiChanges } from '../types';
+
+export type DiffLine = {
+    type: 'context' | 'add' | 'remove';
+    text: string;
+    oldLine?: number;
+    newLine?: number;
+};
+
+export type FileDiffStatus = 'added' | 'removed' | 'changed';
+
+// A file-level difference between the current project and a target file set.
+// 'added' means the file only exists in the target, 'removed' means it only exists in the current files.
+export type FileDiff = {
+    path: string;
+    status: FileDiffStatus;
+    oldContent: string;
+    newContent: string;
+    lines: DiffLine[];
+    additions: number;
+    deletions: number;
+};
+
+// Above this many cells the LCS table gets too large for the browser, so we fall back to a whole-block replacement.
+const MAX_LCS_CELLS = 4_000_000;
+
+export const computeLineDiff = (oldText: string, newText: string): DiffLine[] => {
+    const oldLines = oldText === '' ? [] : oldText.split('\n');
+    const newLines = newText === '' ? [] : newText.split('\n');
+
+    // Trim the common prefix and suffix so the LCS only runs over the changed region.
+    let start = 0;
+    while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+        start++;
+    }
+    let oldEnd = oldLines.length;
+    let newEnd = newLines.length;
+    while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+        oldEnd--;
+        newEnd--;
+    }
+
+    const result: DiffLine[] = [];
+    for (let i = 0; i < start; i++) {
+        result.push({ type: 'context', text: oldLines[i], oldLine: i + 1, newLine: i + 1 });
+    }
+
+    const oldMid = oldLines.slice(start, oldEnd);
+    const newMid = newLines.slice(start, newEnd);
+    const n = oldMid.length;
+    const m = newMid.length;
+
+    if (n * m > MAX_LCS_CELLS) {
+        oldMid.forEach((text, i) => result.push({ type: 'remove', text, oldLine: start + i + 1 }));
+        newMid.forEach((text, j) => result.push({ type: 'add', text, newLine: start + j + 1 }));
+    } else {
+        // lcs[i][j] holds the LCS length of oldMid[i..] and newMid[j..].
+        const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i][j] = oldMid[i] === newMid[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && oldMid[i] === newMid[j]) {
+                result.push({ type: 'context', text: oldMid[i], oldLine: start + i + 1, newLine: start + j + 1 });
+                i++;
+                j++;
+            } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+                result.push({ type: 'remove', text: oldMid[i], oldLine: start + i + 1 });
+                i++;
+            } else {
+                result.push({ type: 'add', text: newMid[j], newLine: start + j + 1 });
+                j++;
+            }
+        }
+    }
+
+    const oldOffset = oldEnd - newEnd;
+    for (let j = newEnd; j < newLines.length; j++) {
+        result.push({ type: 'context', text: newLines[j], oldLine: j + oldOffset + 1, newLine: j + 1 });
+    }
+
+    return result;
+};
+
+const toDiff = (path: string, status: FileDiffStatus, oldContent: string, newContent: string): FileDiff => {
+    const lines = computeLineDiff(oldContent, newContent);
+    return {
+        path,
+        status,
+        oldContent,
+        newContent,
+        lines,
+        additions: lines.filter(l => l.type === 'add').length,
+        deletions: lines.filter(l => l.type === 'remove').length,
+    };
+};
+
+// Compares two file sets by path. Folders are ignored because they are implied by file paths.
+export const diffFileSets = (currentFiles: FileNode[], targetFiles: FileNode[]): FileDiff[] => {
+    const current = new Map(currentFiles.filter(f => f.type === 'file').map(f => [f.path, f.content || '']));
+    const target = new Map(targetFiles.filter(f => f.type === 'file').map(f => [f.path, f.content || '']));
+    const diffs: FileDiff[] = [];
+
+    target.forEach((content, path) => {
+        const existing = current.get(path);
+        if (existing === undefined) {
+            diffs.push(toDiff(path, 'added', '', content));
+        } else if (existing !== content) {
+            diffs.push(toDiff(path, 'changed', existing, content));
+        }
+    });
+    current.forEach((content, path) => {
+        if (!target.has(path)) {
+            diffs.push(toDiff(path, 'removed', content, ''));
+        }
+    });
+
+    return diffs.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+// Turns the selected file diffs into a single AiChanges batch that moves the current files to the target state.
+export const fileDiffsToChanges = (diffs: FileDiff[], selectedPaths: Set<string>): AiChanges => {
+    const changes: AiChanges = { create: {}, update: {}, delete: [] };
+    for (const diff of diffs) {
+        if (!selectedPaths.has(diff.path)) continue;
+        switch (diff.status) {
+            case 'added':
+                changes.create![diff.path] = diff.newContent;
+                break;
+            case 'changed':
+                changes.update![diff.path] = diff.newContent;
+                break;
+            case 'removed':
+                changes.delete!.push(diff.path);
+                break;
+        }
+    }
+    return changes;
+};
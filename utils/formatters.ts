@@ -1,3 +1,5 @@
+import { ProjectProblem } from '../types';
+
 export const formatTokens = (num: number, digits: number = 1): string => {
     const lookup = [
         { value: 1, symbol: "" },
@@ -14,3 +16,37 @@ export const formatTokens = (num: number, digits: number = 1): string => {
     });
     return item ? (num / item.value).toFixed(digits).replace(rx, "$1") + item.symbol : "0";
 };
+
+// Renders console arguments forwarded from the preview. Errors arrive as plain { name, message, stack } objects.
+export const formatConsoleArg = (arg: any): string => {
+    if (typeof arg === 'object' && arg !== null) {
+        try {
+            if (arg.message && arg.name) {
+                const heading = `${arg.name}: ${arg.message}`;
+                // V8 stacks already start with the heading.
+                if (typeof arg.stack === 'string' && arg.stack.startsWith(heading)) return arg.stack;
+                return `${heading}\n${arg.stack || ''}`;
+            }
+            return JSON.stringify(arg, null, 2);
+        } catch (e) {
+            return '[Unserializable Object]';
+        }
+    }
+    return String(arg);
+};
+
+export const formatConsoleArgs = (args: any[]): string => args.map(formatConsoleArg).join(' ');
+
+// Shapes a prose summary into a commit message: the first sentence as a subject line of at most 72 characters,
+// followed by the full text as the body.
+export const toCommitMessage = (summary: string): string => {
+    const text = summary.trim().replace(/\s+/g, ' ');
+    const firstSentence = text.match(/^.+?[.!?](\s|$)/)?.[0].trim().replace(/[.!?]$/, '') || text;
+    const subject = firstSentence.length > 72 ? `${firstSentence.slice(0, 69).trimEnd()}...` : firstSentence;
+    return subject === text ? subject : `${subject}\n\n${text}`;
+};
+
+// Lists problems the way `tsc` prints them, one per line: "src/App.tsx:12:5 - error TS2322: ...".
+export const formatProblems = (problems: ProjectProblem[]): string => problems
+    .map(p => `${p.path}:${p.line}:${p.column} - ${p.severity}${p.code ? ` TS${p.code}` : ''}: ${p.message.replace(/\s*\n\s*/g, ' ')}`)
+    .join('\n');
@@ -0,0 +1,100 @@
+import { FileNode, AiChanges, FileState, HistoryEntry } from '../types';
+import { resolvePatches } from './patch';
+
+const toState = (node: FileNode | undefined): FileState => {
+    if (!node) return null;
+    return node.type === 'file' ? { type: 'file', content: node.content || '' } : { type: 'folder' };
+};
+
+// Captures the current state of a path and, for folders, everything nested under it.
+export const captureFileStates = (files: FileNode[], paths: string[]): Record<string, FileState> => {
+    const states: Record<string, FileState> = {};
+    for (const path of paths) {
+        states[path] = toState(files.find(f => f.path === path));
+        files.filter(f => f.path.startsWith(`${path}/`)).forEach(child => {
+            states[child.path] = toState(child);
+        });
+    }
+    return states;
+};
+
+// Mirrors renameOrMovePath: the source path and its children move under the new path, and files whose imports
+// were rewritten (keyed by their path before the move) get their new content.
+export const renameFileStates = (files: FileNode[], oldPath: string, newPath: string, contentUpdates: Record<string, string> = {}): Pick<HistoryEntry, 'before' | 'after'> => {
+    const before: Record<string, FileState> = {};
+    const after: Record<string, FileState> = {};
+    const moved = files.filter(f => f.path === oldPath || f.path.startsWith(`${oldPath}/`));
+    for (const node of moved) {
+        const targetPath = newPath + node.path.slice(oldPath.length);
+        before[node.path] = toState(node);
+        before[targetPath] = before[targetPath] ?? toState(files.find(f => f.path === targetPath));
+        after[node.path] = null;
+        after[targetPath] = node.path in contentUpdates ? { type: 'file', content: contentUpdates[node.path] } : toState(node);
+    }
+    Object.entries(contentUpdates).forEach(([path, content]) => {
+        if (path in before) return;
+        before[path] = toState(files.find(f => f.path === path));
+        after[path] = { type: 'file', content };
+    });
+    return { before, after };
+};
+
+// Mirrors applyAiChanges so the batch can be undone as a single unit.
+export const aiChangesFileStates = (files: FileNode[], aiChanges: AiChanges): Pick<HistoryEntry, 'before' | 'after'> => {
+    const { changes } = resolvePatches(files, aiChanges);
+    const before: Record<string, FileState> = {};
+    const after: Record<string, FileState> = {};
+    const remember = (path: string) => {
+        if (!(path in before)) {
+            before[path] = toState(files.find(f => f.path === path));
+        }
+    };
+    const deletePaths = Array.isArray(changes.delete) ? changes.delete : [];
+
+    changes.move?.forEach(({ from, to }) => {
+        if (!files.some(f => f.path === from)) return;
+        files.filter(f => f.path === from || f.path.startsWith(`${from}/`)).forEach(node => {
+            const targetPath = to + node.path.slice(from.length);
+            remember(node.path);
+            remember(targetPath);
+            if (!(node.path in after)) after[node.path] = null;
+            after[targetPath] = toState(node);
+        });
+    });
+    changes.copy?.forEach(({ from, to }) => {
+        const source = files.find(f => f.path === from);
+        if (!source || source.type !== 'file') return;
+        remember(to);
+        after[to] = toState(source);
+    });
+    deletePaths.forEach(path => {
+        if (!files.some(f => f.path === path)) return;
+        remember(path);
+        after[path] = null;
+    });
+    Object.entries(changes.update || {}).forEach(([path, content]) => {
+        if (deletePaths.includes(path) || !files.some(f => f.path === path)) return;
+        remember(path);
+        after[path] = { type: 'file', content };
+    });
+    Object.entries(changes.create || {}).forEach(([path, content]) => {
+        remember(path);
+        after[path] = { type: 'file', content };
+    });
+
+    return { before, after };
+};
+
+// Folds a later entry into an earlier one: the earliest "before" and the latest "after" win for every path.
+export const mergeHistoryEntries = (base: HistoryEntry, next: Pick<HistoryEntry, 'before' | 'after'>): HistoryEntry => {
+    const before = { ...base.before };
+    Object.entries(next.before).forEach(([path, state]) => {
+        if (!(path in before)) before[path] = state;
+    });
+    return { ...base, before, after: { ...base.after, ...next.after } };
+};
+
+export const isStateEqual = (a: FileState, b: FileState): boolean => {
+    if (a === null || b === null) return a === b;
+    return a.type === b.type && (a.content || '') === (b.content || '');
+};
@@ -0,0 +1,82 @@
+import { FileNode } from '../types';
+
+// Keeps relative imports working when files move. Specifiers are resolved the way bundlers do (exact path, then
+// added extensions, then a folder's index file) and rewritten in the same style, so `./Button` stays
+// extensionless and `./components` keeps pointing at the folder.
+
+const SCRIPT_FILE = /\.(tsx?|jsx?|mjs|cjs)$/i;
+const RESOLVED_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.json', '.css'];
+
+// `import x from '…'`, `export … from '…'`, `import '…'`, `import('…')` and `require('…')` with a relative path.
+const RELATIVE_SPECIFIER = /(\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)(['"])(\.{1,2}\/[^'"\n]*)\2/g;
+
+const dirname = (path: string) => path.split('/').slice(0, -1).join('/');
+
+// Joins a relative specifier onto a folder, collapsing `.` and `..`. Returns null if it climbs above the root.
+const joinPath = (dir: string, specifier: string): string | null => {
+    const segments = dir ? dir.split('/') : [];
+    for (const part of specifier.split('/')) {
+        if (part === '.' || part === '') continue;
+        if (part === '..') {
+            if (segments.length === 0) return null;
+            segments.pop();
+        } else {
+            segments.push(part);
+        }
+    }
+    return segments.join('/');
+};
+
+const relativeSpecifier = (fromDir: string, toPath: string): string => {
+    const from = fromDir ? fromDir.split('/') : [];
+    const to = toPath.split('/');
+    let common = 0;
+    while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++;
+    const up = from.length - common;
+    const rest = to.slice(common).join('/');
+    return up === 0 ? `./${rest}` : `${'../'.repeat(up)}${rest}`;
+};
+
+type Resolution = { target: string; form: 'exact' | 'extension' | 'index'; suffix: string };
+
+const resolveSpecifier = (importerDir: string, specifier: string, paths: Set<string>): Resolution | null => {
+    const base = joinPath(importerDir, specifier);
+    if (base === null) return null;
+    if (paths.has(base)) return { target: base, form: 'exact', suffix: '' };
+    for (const ext of RESOLVED_EXTENSIONS) {
+        if (paths.has(`${base}${ext}`)) return { target: `${base}${ext}`, form: 'extension', suffix: ext };
+    }
+    for (const ext of RESOLVED_EXTENSIONS) {
+        const index = base ? `${base}/index${ext}` : `index${ext}`;
+        if (paths.has(index)) return { target: index, form: 'index', suffix: `/index${ext}` };
+    }
+    return null;
+};
+
+// Returns the new content of every script file whose relative imports change when `from` (a file or a folder)
+// moves to `to`, keyed by the file's current path. Files inside the moved folder are included too, since their
+// imports of files outside it change.
+export const rewriteImportsForMove = (files: FileNode[], from: string, to: string): Record<string, string> => {
+    const paths = new Set(files.filter(f => f.type === 'file').map(f => f.path));
+    const movedPath = (path: string) => path === from ? to : path.startsWith(`${from}/`) ? `${to}${path.slice(from.length)}` : path;
+    const updates: Record<string, string> = {};
+
+    files.forEach(file => {
+        if (file.type !== 'file' || !file.content || !SCRIPT_FILE.test(file.path)) return;
+        const oldDir = dirname(file.path);
+        const newDir = dirname(movedPath(file.path));
+        const content = file.content.replace(RELATIVE_SPECIFIER, (whole, prefix: string, quote: string, specifier: string) => {
+            const resolution = resolveSpecifier(oldDir, specifier, paths);
+            if (!resolution) return whole;
+            const newTarget = movedPath(resolution.target);
+            if (newTarget === resolution.target && newDir === oldDir) return whole;
+            const targetInStyle = newTarget.slice(0, newTarget.length - resolution.suffix.length);
+            // An import of the project root's index file has no path to rewrite.
+            if (!targetInStyle) return whole;
+            const rewritten = relativeSpecifier(newDir, targetInStyle);
+            return rewritten === specifier ? whole : `${prefix}${quote}${rewritten}${quote}`;
+        });
+        if (content !== file.content) updates[file.path] = content;
+    });
+    return updates;
+};
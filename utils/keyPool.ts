@@ -0,0 +1,134 @@
+import { ApiPoolKey, AiProvider, ApiKeyFailureKind } from '../types';
+
+// Hands out keys from the admin key pool in turn. Keys that hit an auth or rate limit error sit out a cooldown that
+// doubles with each failure in a row, and keys that keep failing auth are disabled until an admin turns them back on.
+// Health is tracked in memory, since the pool is only loaded now and then, and passed to a recorder that stores it
+// for the admin panel. The browser and the AI proxy each keep their own pool.
+
+const BASE_COOLDOWN_MS = 30_000;
+const MAX_COOLDOWN_MS = 30 * 60_000;
+const AUTH_FAILURES_BEFORE_DISABLE = 3;
+
+type KeyHealth = {
+    consecutiveFailures: number;
+    authFailures: number;
+    isDisabled: boolean;
+    cooldownUntil: number; // Epoch ms, 0 when the key isn't cooling down
+};
+
+export type ApiKeyStatus = 'healthy' | 'cooling' | 'disabled';
+
+// `isDisabled` is only there when this failure is the one that disabled the key, so a report never turns a key
+// back on that an admin (or another pool) turned off.
+export type KeyFailureRecord = Omit<KeyHealth, 'cooldownUntil' | 'isDisabled'> & { isDisabled?: true; cooldownUntil: Date | null; lastError: string };
+
+export type KeyStatsRecorder = {
+    recordSuccess: (keyId: string, latencyMs: number, tokensUsed: number) => Promise<void>;
+    recordFailure: (keyId: string, latencyMs: number, failure: KeyFailureRecord) => Promise<void>;
+};
+
+const toMillis = (value: ApiPoolKey['cooldownUntil']) => !value ? 0 : value instanceof Date ? value.getTime() : value.toMillis();
+
+// The HTTP status behind a failed AI call, or NaN when there wasn't one (e.g. a network error). The SDK's errors
+// carry a numeric `status`; the fetch-based providers put it in the message as "(429)".
+export const readErrorStatus = (error: unknown): number => {
+    const rawStatus = (error as { status?: unknown } | null)?.status;
+    if (typeof rawStatus === 'number') return rawStatus;
+    const message = error instanceof Error ? error.message : String(error);
+    return Number(/\((\d{3})\)/.exec(message)?.[1]);
+};
+
+export const classifyKeyError = (error: unknown): ApiKeyFailureKind => {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = readErrorStatus(error);
+    if (status === 401 || status === 403 || /api key not valid|invalid[ _]api[ _]key|unauthenticated|permission_denied/i.test(message)) return 'auth';
+    if (status === 402 || status === 429 || /quota|rate limit|resource_exhausted|insufficient credits/i.test(message)) return 'rate_limit';
+    return 'other';
+};
+
+export const createKeyPool = (recorder: KeyStatsRecorder) => {
+    const sessionHealth = new Map<string, KeyHealth>();
+    const nextIndexByProvider = new Map<AiProvider, number>();
+
+    const getKeyHealth = (key: ApiPoolKey): KeyHealth => sessionHealth.get(key.id) ?? {
+        consecutiveFailures: key.consecutiveFailures ?? 0,
+        authFailures: key.authFailures ?? 0,
+        isDisabled: key.isDisabled ?? false,
+        cooldownUntil: toMillis(key.cooldownUntil),
+    };
+
+    // A key disabled in the stored pool stays disabled, whatever this pool has seen of it.
+    const getKeyStatus = (key: ApiPoolKey, now: number = Date.now()): ApiKeyStatus => {
+        const health = getKeyHealth(key);
+        if (key.isDisabled || health.isDisabled) return 'disabled';
+        return health.cooldownUntil > now ? 'cooling' : 'healthy';
+    };
+
+    const getKeyCooldownUntil = (key: ApiPoolKey): Date | null => {
+        const { cooldownUntil } = getKeyHealth(key);
+        return cooldownUntil > Date.now() ? new Date(cooldownUntil) : null;
+    };
+
+    // The next healthy key for the provider, round-robin. Null when the provider has keys but none are usable.
+    const pickPoolKey = (provider: AiProvider, keys: ApiPoolKey[]): ApiPoolKey | null => {
+        const candidates = keys.filter(k => k.provider === provider);
+        const start = nextIndexByProvider.get(provider) ?? 0;
+        const now = Date.now();
+        for (let i = 0; i < candidates.length; i++) {
+            const index = (start + i) % candidates.length;
+            if (getKeyStatus(candidates[index], now) === 'healthy') {
+                nextIndexByProvider.set(provider, index + 1);
+                return candidates[index];
+            }
+        }
+        return null;
+    };
+
+    const reportKeySuccess = (key: ApiPoolKey, latencyMs: number, tokensUsed: number) => {
+        sessionHealth.set(key.id, { consecutiveFailures: 0, authFailures: 0, isDisabled: false, cooldownUntil: 0 });
+        recorder.recordSuccess(key.id, latencyMs, tokensUsed).catch(err => console.warn("Could not record pooled key usage:", err));
+    };
+
+    // Other errors (bad requests, outages) say nothing about the key, so they're counted but don't take it out of rotation.
+    const reportKeyFailure = (key: ApiPoolKey, error: unknown, latencyMs: number): ApiKeyFailureKind => {
+        const kind = classifyKeyError(error);
+        const health = { ...getKeyHealth(key) };
+        const wasDisabled = key.isDisabled || health.isDisabled;
+        if (kind !== 'other') {
+            health.consecutiveFailures++;
+            health.cooldownUntil = Date.now() + Math.min(BASE_COOLDOWN_MS * 2 ** (health.consecutiveFailures - 1), MAX_COOLDOWN_MS);
+            if (kind === 'auth') {
+                health.authFailures++;
+                health.isDisabled = health.authFailures >= AUTH_FAILURES_BEFORE_DISABLE;
+            }
+        }
+        sessionHealth.set(key.id, health);
+        const { isDisabled, ...counts } = health;
+        recorder.recordFailure(key.id, latencyMs, {
+            ...counts,
+            ...(isDisabled && !wasDisabled && { isDisabled: true as const }),
+            cooldownUntil: health.cooldownUntil ? new Date(health.cooldownUntil) : null,
+            lastError: (error instanceof Error ? error.message : String(error)).slice(0, 500),
+        }).catch(err => console.warn("Could not record pooled key failure:", err));
+        return kind;
+    };
+
+    // Drops what this pool has seen of a key, e.g. after an admin turns it on or off, so its stored health applies.
+    const resetKeyHealth = (keyId: string) => {
+        sessionHealth.delete(keyId);
+    };
+
+    // Brings what this pool has seen in line with freshly loaded keys. A key whose stored on/off state no longer
+    // matches was turned on or off elsewhere, by an admin or another pool, so its stored health applies again.
+    const reconcileKeyHealth = (keys: ApiPoolKey[]) => {
+        const storedById = new Map(keys.map(k => [k.id, k]));
+        sessionHealth.forEach((health, keyId) => {
+            const stored = storedById.get(keyId);
+            if (!stored || (stored.isDisabled ?? false) !== health.isDisabled) sessionHealth.delete(keyId);
+        });
+    };
+
+    return { getKeyStatus, getKeyCooldownUntil, pickPoolKey, reportKeySuccess, reportKeyFailure, resetKeyHealth, reconcileKeyHealth };
+};
+
+export type KeyPool = ReturnType<typeof createKeyPool>;
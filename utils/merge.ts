@@ -0,0 +1,90 @@
+import { computeLineDiff } from './diff';
+
+// Line-based three-way merge, in the style of diff3. Changes that only one side made are taken as they are; where
+// both sides changed the same lines differently, the result gets a conflict block with both versions.
+
+export const CONFLICT_START = '<<<<<<< Yours';
+export const CONFLICT_SEPARATOR = '=======';
+export const CONFLICT_END = '>>>>>>> Theirs';
+
+// A change relative to the base: base lines [start, end) replaced by `lines`. An insertion has start === end.
+type Hunk = { start: number; end: number; lines: string[]; side: 'local' | 'remote' };
+
+const splitLines = (text: string) => text === '' ? [] : text.split('\n');
+
+const toHunks = (base: string, changed: string, side: Hunk['side']): Hunk[] => {
+    const hunks: Hunk[] = [];
+    let baseIndex = 0;
+    let current: Hunk | null = null;
+    computeLineDiff(base, changed).forEach(line => {
+        if (line.type === 'context') {
+            if (current) hunks.push(current);
+            current = null;
+            baseIndex++;
+            return;
+        }
+        if (!current) current = { start: baseIndex, end: baseIndex, lines: [], side };
+        if (line.type === 'remove') {
+            current.end++;
+            baseIndex++;
+        } else {
+            current.lines.push(line.text);
+        }
+    });
+    if (current) hunks.push(current);
+    return hunks;
+};
+
+// Applies one side's hunks to the base lines [start, end).
+const applyHunks = (baseLines: string[], start: number, end: number, hunks: Hunk[]): string[] => {
+    const result: string[] = [];
+    let index = start;
+    hunks.forEach(hunk => {
+        result.push(...baseLines.slice(index, hunk.start), ...hunk.lines);
+        index = hunk.end;
+    });
+    result.push(...baseLines.slice(index, end));
+    return result;
+};
+
+export const mergeThreeWay = (base: string, local: string, remote: string): { content: string; conflicts: number } => {
+    const baseLines = splitLines(base);
+    const hunks = [...toHunks(base, local, 'local'), ...toHunks(base, remote, 'remote')].sort((a, b) => a.start - b.start || a.end - b.end);
+
+    // Hunks that overlap, or insert at the same line, have to be resolved together.
+    const groups: Hunk[][] = [];
+    let groupEnd = -1;
+    hunks.forEach(hunk => {
+        const group = groups[groups.length - 1];
+        if (group && (hunk.start < groupEnd || hunk.start === group[0].start)) {
+            group.push(hunk);
+            groupEnd = Math.max(groupEnd, hunk.end);
+        } else {
+            groups.push([hunk]);
+            groupEnd = hunk.end;
+        }
+    });
+
+    const result: string[] = [];
+    let conflicts = 0;
+    let index = 0;
+    groups.forEach(group => {
+        const start = group[0].start;
+        const end = Math.max(...group.map(h => h.end));
+        result.push(...baseLines.slice(index, start));
+        index = end;
+        const localLines = applyHunks(baseLines, start, end, group.filter(h => h.side === 'local'));
+        const remoteLines = applyHunks(baseLines, start, end, group.filter(h => h.side === 'remote'));
+        const sides = new Set(group.map(h => h.side));
+        if (sides.size === 1 || localLines.join('\n') === remoteLines.join('\n')) {
+            result.push(...(sides.has('local') ? localLines : remoteLines));
+            return;
+        }
+        conflicts++;
+        result.push(CONFLICT_START, ...localLines, CONFLICT_SEPARATOR, ...remoteLines, CONFLICT_END);
+    });
+    result.push(...baseLines.slice(index));
+    return { content: result.join('\n'), conflicts };
+};
+
+export const countConflicts = (content: string) => content.split('\n').filter(line => line.startsWith(CONFLICT_START)).length;
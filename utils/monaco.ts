@@ -0,0 +1,97 @@
+import { TextOperation, operationToEdits } from './ot';
+
+// Loads the Monaco editor from the CDN on first use. Monaco ships as AMD modules, so its loader is injected only
+// when an editor mounts, after the page's other CDN scripts have registered their globals.
+
+const MONACO_BASE_URL = 'https://cdn.jsdelivr.net/npm/monaco-editor@0.52.2/min';
+
+let monacoPromise: Promise<any> | null = null;
+
+const injectScript = (src: string) => new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = src;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error(`Could not load ${src}`));
+    document.head.appendChild(script);
+});
+
+export const loadMonaco = (): Promise<any> => {
+    if (monacoPromise) return monacoPromise;
+    monacoPromise = (async () => {
+        const win = window as any;
+        if (win.monaco) return win.monaco;
+        // Workers can't be started cross-origin, so each one is bootstrapped from a data: URL that imports the CDN copy.
+        win.MonacoEnvironment = {
+            getWorkerUrl: () => `data:text/javascript;charset=utf-8,${encodeURIComponent(
+                `self.MonacoEnvironment = { baseUrl: '${MONACO_BASE_URL}/' };importScripts('${MONACO_BASE_URL}/vs/base/worker/workerMain.js');`
+            )}`,
+        };
+        await injectScript(`${MONACO_BASE_URL}/vs/loader.js`);
+        win.require.config({ paths: { vs: `${MONACO_BASE_URL}/vs` } });
+        return new Promise<any>((resolve, reject) => win.require(['vs/editor/editor.main'], () => resolve(win.monaco), reject));
+    })();
+    monacoPromise.catch(() => { monacoPromise = null; });
+    return monacoPromise;
+};
+
+// One model per project file, shared by every pane that shows it, so a file split across both panes stays in sync.
+// Monaco picks the language from the path's extension.
+export const modelUri = (monaco: any, path: string) => monaco.Uri.file(`/${path}`);
+
+export const modelPath = (model: any): string => model.uri.path.slice(1);
+
+export const getOrCreateModel = (monaco: any, path: string, content: string) => {
+    const uri = modelUri(monaco, path);
+    return monaco.editor.getModel(uri) || monaco.editor.createModel(content, undefined, uri);
+};
+
+// Models being brought in line with the project's files. Every editor showing a model hears the edit, and none
+// of them may report it back as a user change.
+const syncingModels = new WeakSet<any>();
+
+export const isSyncingModel = (model: any) => syncingModels.has(model);
+
+// Applies content that changed outside the editor (AI edits, undo, collaborators). Edits from outside go around
+// the model's undo stack, so Ctrl+Z in the editor only ever reverts the local user's own typing.
+export const syncModelContent = (model: any, content: string) => {
+    if (model.getValue() === content) return;
+    syncingModels.add(model);
+    try {
+        model.applyEdits([{ range: model.getFullModelRange(), text: content }]);
+    } finally {
+        syncingModels.delete(model);
+    }
+};
+
+// Applies a collaborator's edit in place, so the local cursor and the rest of the document stay where they are.
+// Like any outside edit it skips the undo stack: undoing it here would revert their work and send that out as ours.
+export const applyModelOperation = (model: any, operation: TextOperation) => {
+    const edits = operationToEdits(operation).map(edit => {
+        const start = model.getPositionAt(edit.start);
+        const end = model.getPositionAt(edit.end);
+        return {
+            range: { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column },
+            text: edit.text,
+        };
+    });
+    if (edits.length === 0) return;
+    syncingModels.add(model);
+    try {
+        model.applyEdits(edits);
+    } finally {
+        syncingModels.delete(model);
+    }
+};
+
+// Collaborators' cursors and selections are decorations, styled with one class per collaborator color.
+let remoteCursorStyles: HTMLStyleElement | null = null;
+
+export const ensureRemoteCursorStyles = (colors: string[]) => {
+    if (remoteCursorStyles) return;
+    remoteCursorStyles = document.createElement('style');
+    remoteCursorStyles.textContent = colors.map((color, i) => [
+        `.asai-remote-selection-${i} { background-color: ${color}40; }`,
+        `.asai-remote-cursor-${i} { position: absolute; height: 100%; border-left: 2px solid ${color}; }`,
+    ].join('\n')).join('\n');
+    document.head.appendChild(remoteCursorStyles);
+};
@@ -0,0 +1,194 @@
+// Character-level operational transformation for live co-editing. An operation walks the whole document: a
+// positive number keeps that many characters, a string inserts it, and a negative number deletes that many
+// characters. Inserts are kept ahead of deletes at the same position, so equal edits always look the same.
+
+export type TextOperation = Array<number | string>;
+
+const isRetain = (c: number | string | undefined): c is number => typeof c === 'number' && c > 0;
+const isDelete = (c: number | string | undefined): c is number => typeof c === 'number' && c < 0;
+const isInsert = (c: number | string | undefined): c is string => typeof c === 'string';
+
+const retain = (op: TextOperation, n: number) => {
+    if (n <= 0) return;
+    const last = op[op.length - 1];
+    if (isRetain(last)) op[op.length - 1] = last + n;
+    else op.push(n);
+};
+
+const insert = (op: TextOperation, text: string) => {
+    if (!text) return;
+    const last = op[op.length - 1];
+    if (isInsert(last)) {
+        op[op.length - 1] = last + text;
+    } else if (isDelete(last)) {
+        const beforeDelete = op[op.length - 2];
+        if (isInsert(beforeDelete)) {
+            op[op.length - 2] = beforeDelete + text;
+        } else {
+            op[op.length - 1] = text;
+            op.push(last);
+        }
+    } else {
+        op.push(text);
+    }
+};
+
+const remove = (op: TextOperation, n: number) => {
+    if (n <= 0) return;
+    const last = op[op.length - 1];
+    if (isDelete(last)) op[op.length - 1] = last - n;
+    else op.push(-n);
+};
+
+export const baseLength = (op: TextOperation) => op.reduce<number>((sum, c) => sum + (typeof c === 'number' ? Math.abs(c) : 0), 0);
+
+export const targetLength = (op: TextOperation) => op.reduce<number>((sum, c) => sum + (isRetain(c) ? c : isInsert(c) ? c.length : 0), 0);
+
+export const isNoop = (op: TextOperation) => op.every(isRetain);
+
+export const applyOperation = (doc: string, op: TextOperation): string => {
+    if (baseLength(op) !== doc.length) throw new Error('The operation does not match the document length.');
+    let result = '';
+    let index = 0;
+    op.forEach(c => {
+        if (isRetain(c)) {
+            result += doc.slice(index, index + c);
+            index += c;
+        } else if (isInsert(c)) {
+            result += c;
+        } else {
+            index -= c;
+        }
+    });
+    return result;
+};
+
+// Builds an operation from editor changes. Every change is relative to the document before the edit, as in a
+// Monaco content change event, and changes never overlap.
+export const operationFromChanges = (docLength: number, changes: Array<{ rangeOffset: number; rangeLength: number; text: string }>): TextOperation => {
+    const op: TextOperation = [];
+    let index = 0;
+    [...changes].sort((a, b) => a.rangeOffset - b.rangeOffset).forEach(change => {
+        retain(op, change.rangeOffset - index);
+        insert(op, change.text);
+        remove(op, change.rangeLength);
+        index = change.rangeOffset + change.rangeLength;
+    });
+    retain(op, docLength - index);
+    return op;
+};
+
+// The edits that apply an operation, as offset ranges into the document before it. Adjacent inserts and
+// deletes become one replacement.
+export const operationToEdits = (op: TextOperation): Array<{ start: number; end: number; text: string }> => {
+    const edits: Array<{ start: number; end: number; text: string }> = [];
+    let index = 0;
+    op.forEach(c => {
+        if (isRetain(c)) {
+            index += c;
+            return;
+        }
+        const last = edits[edits.length - 1];
+        const edit = last && last.end === index ? last : { start: index, end: index, text: '' };
+        if (edit !== last) edits.push(edit);
+        if (isInsert(c)) {
+            edit.text += c;
+        } else {
+            edit.end -= c;
+            index -= c;
+        }
+    });
+    return edits;
+};
+
+// Returns one operation with the effect of `a` followed by `b`.
+export const composeOperations = (a: TextOperation, b: TextOperation): TextOperation => {
+    if (targetLength(a) !== baseLength(b)) throw new Error('The operations can not be composed.');
+    const result: TextOperation = [];
+    let i = 0, j = 0;
+    let op1 = a[i++], op2 = b[j++];
+    while (op1 !== undefined || op2 !== undefined) {
+        // Checked inline: the guard would narrow `op1` to a string for the rest of the loop.
+        if (typeof op1 === 'number' && op1 < 0) {
+            remove(result, -op1);
+            op1 = a[i++];
+            continue;
+        }
+        if (isInsert(op2)) {
+            insert(result, op2);
+            op2 = b[j++];
+            continue;
+        }
+        if (op1 === undefined || op2 === undefined) throw new Error('The operations can not be composed.');
+        if (isRetain(op1) && isRetain(op2)) {
+            retain(result, Math.min(op1, op2));
+            if (op1 > op2) { op1 -= op2; op2 = b[j++]; }
+            else if (op1 === op2) { op1 = a[i++]; op2 = b[j++]; }
+            else { op2 -= op1; op1 = a[i++]; }
+        } else if (isInsert(op1) && isDelete(op2)) {
+            if (op1.length > -op2) { op1 = op1.slice(-op2); op2 = b[j++]; }
+            else if (op1.length === -op2) { op1 = a[i++]; op2 = b[j++]; }
+            else { op2 += op1.length; op1 = a[i++]; }
+        } else if (isInsert(op1) && isRetain(op2)) {
+            if (op1.length > op2) { insert(result, op1.slice(0, op2)); op1 = op1.slice(op2); op2 = b[j++]; }
+            else if (op1.length === op2) { insert(result, op1); op1 = a[i++]; op2 = b[j++]; }
+            else { insert(result, op1); op2 -= op1.length; op1 = a[i++]; }
+        } else if (isRetain(op1) && isDelete(op2)) {
+            if (op1 > -op2) { remove(result, -op2); op1 += op2; op2 = b[j++]; }
+            else if (op1 === -op2) { remove(result, -op2); op1 = a[i++]; op2 = b[j++]; }
+            else { remove(result, op1); op2 += op1; op1 = a[i++]; }
+        }
+    }
+    return result;
+};
+
+// Transforms two operations made on the same document so each can follow the other: applying `a` then `b'`
+// gives the same text as `b` then `a'`. When both insert at the same position, `a`'s text comes first.
+export const transformOperations = (a: TextOperation, b: TextOperation): [TextOperation, TextOperation] => {
+    if (baseLength(a) !== baseLength(b)) throw new Error('The operations were not made on the same document.');
+    const aPrime: TextOperation = [];
+    const bPrime: TextOperation = [];
+    let i = 0, j = 0;
+    let op1 = a[i++], op2 = b[j++];
+    while (op1 !== undefined || op2 !== undefined) {
+        if (isInsert(op1)) {
+            insert(aPrime, op1);
+            retain(bPrime, op1.length);
+            op1 = a[i++];
+            continue;
+        }
+        if (isInsert(op2)) {
+            retain(aPrime, op2.length);
+            insert(bPrime, op2);
+            op2 = b[j++];
+            continue;
+        }
+        if (op1 === undefined || op2 === undefined) throw new Error('The operations were not made on the same document.');
+        if (isRetain(op1) && isRetain(op2)) {
+            const n = Math.min(op1, op2);
+            retain(aPrime, n);
+            retain(bPrime, n);
+            if (op1 > op2) { op1 -= op2; op2 = b[j++]; }
+            else if (op1 === op2) { op1 = a[i++]; op2 = b[j++]; }
+            else { op2 -= op1; op1 = a[i++]; }
+        } else if (isDelete(op1) && isDelete(op2)) {
+            // Both deleted the same text, so neither side has anything left to do.
+            if (-op1 > -op2) { op1 -= op2; op2 = b[j++]; }
+            else if (op1 === op2) { op1 = a[i++]; op2 = b[j++]; }
+            else { op2 -= op1; op1 = a[i++]; }
+        } else if (isDelete(op1) && isRetain(op2)) {
+            const n = Math.min(-op1, op2);
+            remove(aPrime, n);
+            if (-op1 > op2) { op1 += op2; op2 = b[j++]; }
+            else if (-op1 === op2) { op1 = a[i++]; op2 = b[j++]; }
+            else { op2 += op1; op1 = a[i++]; }
+        } else if (isRetain(op1) && isDelete(op2)) {
+            const n = Math.min(op1, -op2);
+            remove(bPrime, n);
+            if (op1 > -op2) { op1 += op2; op2 = b[j++]; }
+            else if (op1 === -op2) { op1 = a[i++]; op2 = b[j++]; }
+            else { op2 += op1; op1 = a[i++]; }
+        }
+    }
+    return [aPrime, bPrime];
+};
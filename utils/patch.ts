@@ -0,0 +1,75 @@
+import { FileNode, AiChanges, SearchReplaceBlock } from '../types';
+
+const countOccurrences = (text: string, search: string): number => {
+    let count = 0;
+    let index = text.indexOf(search);
+    while (index !== -1) {
+        count++;
+        index = text.indexOf(search, index + search.length);
+    }
+    return count;
+};
+
+// Applies the blocks in order. Each search text must match exactly once, otherwise the whole patch is rejected
+// rather than guessing where the edit was meant to go.
+export const applySearchReplaceBlocks = (original: string, blocks: SearchReplaceBlock[]): string => {
+    if (!Array.isArray(blocks) || blocks.length === 0) {
+        throw new Error("Patch contains no edits.");
+    }
+    let content = original;
+    blocks.forEach((block, i) => {
+        if (typeof block?.search !== 'string' || typeof block?.replace !== 'string') {
+            throw new Error(`Edit ${i + 1} is malformed.`);
+        }
+        if (block.search === '') {
+            throw new Error(`Edit ${i + 1} has an empty search text.`);
+        }
+        const matches = countOccurrences(content, block.search);
+        if (matches === 0) {
+            throw new Error(`Edit ${i + 1} does not match the file.`);
+        }
+        if (matches > 1) {
+            throw new Error(`Edit ${i + 1} matches ${matches} places in the file.`);
+        }
+        const index = content.indexOf(block.search);
+        content = content.slice(0, index) + block.replace + content.slice(index + block.search.length);
+    });
+    return content;
+};
+
+// Turns every patch in the batch into a full-content update. Patches that fail are left out and reported
+// by path, so the caller can decide whether to fall back to regenerating those files.
+export const resolvePatches = (files: FileNode[], changes: AiChanges): { changes: AiChanges; failed: Record<string, string> } => {
+    const { patch, ...rest } = changes;
+    const failed: Record<string, string> = {};
+    if (!patch || Object.keys(patch).length === 0) {
+        return { changes: rest, failed };
+    }
+
+    const update = { ...(rest.update || {}) };
+    Object.entries(patch).forEach(([path, blocks]) => {
+        const file = files.find(f => f.path === path && f.type === 'file');
+        const base = update[path] ?? file?.content;
+        if (base === undefined) {
+            failed[path] = "File does not exist.";
+            return;
+        }
+        try {
+            update[path] = applySearchReplaceBlocks(base, blocks);
+        } catch (error) {
+            failed[path] = error instanceof Error ? error.message : "Patch could not be applied.";
+        }
+    });
+
+    return { changes: { ...rest, update }, failed };
+};
+
+// For callers that have no fallback: any patch that does not apply cleanly aborts the whole batch.
+export const resolvePatchesStrict = (files: FileNode[], changes: AiChanges): AiChanges => {
+    const { changes: resolved, failed } = resolvePatches(files, changes);
+    const failures = Object.entries(failed);
+    if (failures.length > 0) {
+        throw new Error(`Could not apply edits to ${failures.map(([path, reason]) => `${path} (${reason})`).join(', ')}`);
+    }
+    return resolved;
+};
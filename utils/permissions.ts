@@ -0,0 +1,44 @@
+import { Project, ProjectRole } from '../types';
+
+export const PROJECT_ROLES: ProjectRole[] = ['owner', 'editor', 'commenter', 'viewer'];
+
+// The roles a share key or invite can grant. Ownership is never handed out.
+export const GRANTABLE_ROLES: ProjectRole[] = ['editor', 'commenter', 'viewer'];
+
+export const ROLE_LABELS: Record<ProjectRole, string> = {
+    owner: 'Owner',
+    editor: 'Editor',
+    commenter: 'Commenter',
+    viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<ProjectRole, string> = {
+    owner: 'Manages members and settings, and can do everything an editor can.',
+    editor: 'Edits files, runs builds and approves AI plans.',
+    commenter: 'Reads the project and takes part in the chat.',
+    viewer: 'Reads the project only.',
+};
+
+export type ProjectPermissions = {
+    canEditFiles: boolean;
+    canUseAi: boolean; // Sending prompts, approving plans, builds, God Mode and the other AI tools.
+    canChat: boolean;
+    canManageProject: boolean;
+};
+
+const PERMISSIONS: Record<ProjectRole, ProjectPermissions> = {
+    owner: { canEditFiles: true, canUseAi: true, canChat: true, canManageProject: true },
+    editor: { canEditFiles: true, canUseAi: true, canChat: true, canManageProject: false },
+    commenter: { canEditFiles: false, canUseAi: false, canChat: true, canManageProject: false },
+    viewer: { canEditFiles: false, canUseAi: false, canChat: false, canManageProject: false },
+};
+
+// The member's role, or null if they aren't a member. Members who joined before roles existed are editors.
+export const getProjectRole = (project: Project | null, uid: string | undefined): ProjectRole | null => {
+    if (!project || !uid) return null;
+    if (project.ownerId === uid) return 'owner';
+    if (!project.members.includes(uid)) return null;
+    return project.roles?.[uid] ?? 'editor';
+};
+
+export const getRolePermissions = (role: ProjectRole | null): ProjectPermissions => role ? PERMISSIONS[role] : PERMISSIONS.viewer;
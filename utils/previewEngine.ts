@@ -0,0 +1,273 @@
+import { FileNode } from '../types';
+import { debuggerScriptContent, consoleBridgeScriptContent, previewRuntimeScriptContent, staticBootScriptContent } from './previewScripts';
+
+// Builds what the offline iframe preview runs: every module reachable from the entry point, transpiled one file
+// at a time with Babel into a CommonJS-style function the runtime in the iframe can re-evaluate on its own.
+// Bare imports ("react", "lodash/debounce") are left to the browser and resolved through an import map.
+
+declare const Babel: any;
+
+export type PreviewModuleKind = 'js' | 'css' | 'json' | 'asset';
+
+export type PreviewModule = {
+    kind: PreviewModuleKind;
+    code: string;
+    deps: Record<string, string>; // Relative specifier -> resolved project path
+};
+
+export type PreviewBuildError = {
+    path: string;
+    message: string;
+};
+
+export type PreviewBuild = {
+    shellHtml: string; // Changes only when the page itself must reload, e.g. a new package or an edited index.html
+    entry: string | null;
+    modules: Record<string, PreviewModule>;
+    externals: string[]; // Bare specifiers, loaded by the runtime before the entry runs
+    errors: PreviewBuildError[];
+};
+
+// Transpiled modules keyed by path, reused while the source and the project's set of files are unchanged. Imports
+// are resolved against that set, so adding or removing a file can fix or change any module's resolution.
+export type PreviewTranspileCache = Map<string, { source: string; fileSet: string; module: PreviewModule | null; error?: string }>;
+
+const CDN_URL = 'https://esm.sh';
+const DEFAULT_VERSIONS: Record<string, string> = { 'react': '18.2.0', 'react-dom': '18.2.0' };
+const ENTRY_CANDIDATES = ['src/main.tsx', 'src/index.tsx', 'src/main.jsx', 'src/index.jsx', 'src/main.ts', 'src/index.ts', 'src/main.js', 'src/index.js', 'index.tsx', 'index.jsx', 'index.js'];
+const RESOLVE_EXTENSIONS = ['', '.tsx', '.ts', '.jsx', '.js', '.json', '.css', '/index.tsx', '/index.ts', '/index.jsx', '/index.js'];
+const SCRIPT_EXTENSIONS = /\.(tsx?|jsx?|mjs|cjs)$/;
+const REQUIRE_PATTERN = /\brequire\(\s*"([^"]+)"\s*\)/g;
+const STATIC_BUILD_FILE = 'asai-build.js';
+
+const isBareSpecifier = (specifier: string) => !specifier.startsWith('.') && !specifier.startsWith('/') && !specifier.startsWith('@/') && !/^[a-z]+:/i.test(specifier);
+
+// "@scope/pkg/sub/path" -> ["@scope/pkg", "/sub/path"]
+const splitPackageName = (specifier: string): [string, string] => {
+    const parts = specifier.split('/');
+    const length = specifier.startsWith('@') ? 2 : 1;
+    const subpath = parts.slice(length).join('/');
+    return [parts.slice(0, length).join('/'), subpath ? `/${subpath}` : ''];
+};
+
+const resolvePath = (fromPath: string, specifier: string, paths: Set<string>): string | null => {
+    let segments: string[];
+    let target = specifier;
+    if (specifier.startsWith('@/')) {
+        // The `@/` alias most Vite templates configure for `src/`.
+        segments = ['src'];
+        target = specifier.slice(2);
+    } else if (specifier.startsWith('/')) {
+        segments = [];
+    } else {
+        segments = fromPath.split('/').slice(0, -1);
+    }
+    for (const part of target.split('?')[0].split('/')) {
+        if (part === '..') segments.pop();
+        else if (part && part !== '.') segments.push(part);
+    }
+    const base = segments.join('/');
+    for (const ext of RESOLVE_EXTENSIONS) {
+        if (paths.has(base + ext)) return base + ext;
+    }
+    return null;
+};
+
+const IMPORT_META_ENV = `{ env: { MODE: 'development', DEV: true, PROD: false, SSR: false, BASE_URL: '/' }, hot: undefined }`;
+
+const transpileScript = (path: string, source: string): string => {
+    const isTypeScript = /\.tsx?$/.test(path);
+    const presets: any[] = [['react', { runtime: 'automatic' }]];
+    if (isTypeScript) presets.unshift(['typescript', { isTSX: path.endsWith('.tsx'), allExtensions: true }]);
+    // `import.meta` can't appear outside an ES module, and the runtime evaluates modules as plain functions.
+    const withoutImportMeta = source.replace(/\bimport\.meta\b/g, `(${IMPORT_META_ENV})`);
+    const result = Babel.transform(withoutImportMeta, {
+        filename: path,
+        presets,
+        plugins: ['transform-modules-commonjs'],
+        sourceType: 'module',
+    });
+    return result.code;
+};
+
+const usesTailwindDirectives = (css: string) => /@tailwind\s+\w+/.test(css);
+
+const transpileFile = (path: string, source: string, paths: Set<string>): PreviewModule => {
+    if (path.endsWith('.css')) {
+        // The Tailwind CDN script stands in for PostCSS, so its directives are dropped here.
+        return { kind: 'css', code: source.replace(/@tailwind\s+\w+\s*;?/g, ''), deps: {} };
+    }
+    if (path.endsWith('.json')) {
+        JSON.parse(source);
+        return { kind: 'json', code: source, deps: {} };
+    }
+    if (!SCRIPT_EXTENSIONS.test(path)) {
+        const url = path.endsWith('.svg') ? `data:image/svg+xml,${encodeURIComponent(source)}` : `/${path}`;
+        return { kind: 'asset', code: url, deps: {} };
+    }
+    const code = transpileScript(path, source);
+    const deps: Record<string, string> = {};
+    for (const match of code.matchAll(REQUIRE_PATTERN)) {
+        const specifier = match[1];
+        if (isBareSpecifier(specifier)) continue;
+        const resolved = resolvePath(path, specifier, paths);
+        if (!resolved) throw new Error(`Cannot resolve "${specifier}" from ${path}.`);
+        deps[specifier] = resolved;
+    }
+    return { kind: 'js', code, deps };
+};
+
+// Finds the entry from index.html's module script, falling back to the usual Vite entry files.
+const findEntry = (indexHtml: string | undefined, paths: Set<string>): string | null => {
+    const scriptMatch = indexHtml?.match(/<script[^>]*type=["']module["'][^>]*src=["']([^"']+)["'][^>]*>/i)
+        || indexHtml?.match(/<script[^>]*src=["']([^"']+)["'][^>]*type=["']module["'][^>]*>/i);
+    if (scriptMatch) {
+        const resolved = resolvePath('index.html', scriptMatch[1].replace(/^\//, './'), paths);
+        if (resolved) return resolved;
+    }
+    return ENTRY_CANDIDATES.find(p => paths.has(p)) || null;
+};
+
+const readPackageVersions = (packageJson: string | undefined): Record<string, string> => {
+    try {
+        const pkg = packageJson ? JSON.parse(packageJson) : {};
+        const versions: Record<string, string> = { ...DEFAULT_VERSIONS };
+        Object.entries({ ...pkg.dependencies, ...pkg.devDependencies }).forEach(([name, range]) => {
+            const version = String(range).replace(/^[\^~>=<\s]+/, '');
+            if (/^\d/.test(version)) versions[name] = version;
+        });
+        return versions;
+    } catch {
+        return { ...DEFAULT_VERSIONS };
+    }
+};
+
+// An import map in the project's index.html overrides the generated URLs, e.g. to pin a package to another CDN.
+const readUserImportMap = (indexHtml: string | undefined): Record<string, string> => {
+    const match = indexHtml?.match(/<script[^>]*type=["']importmap["'][^>]*>([\s\S]*?)<\/script>/i);
+    if (!match) return {};
+    try {
+        return JSON.parse(match[1]).imports || {};
+    } catch {
+        return {};
+    }
+};
+
+// React and React DOM are kept external in every package so the whole app shares one copy of each.
+export const buildImportMap = (specifiers: string[], versions: Record<string, string>, overrides: Record<string, string>): Record<string, string> => {
+    const imports: Record<string, string> = {};
+    const add = (specifier: string) => {
+        const [name, subpath] = splitPackageName(specifier);
+        const version = versions[name] ? `@${versions[name]}` : '';
+        const externals = ['react', 'react-dom'].filter(pkg => pkg !== name);
+        const query = name === 'react' ? '' : `?external=${externals.join(',')}`;
+        imports[specifier] = `${CDN_URL}/${name}${version}${subpath}${query}`;
+    };
+    ['react', 'react-dom', ...specifiers].forEach(add);
+    return { ...imports, ...overrides };
+};
+
+// The editor's preview gets the console bridge and God Mode debugger; a static export only gets the runtime.
+type ShellMode = 'preview' | 'static';
+
+const buildShellHtml = (indexHtml: string | undefined, importMap: Record<string, string>, useTailwind: boolean, mode: ShellMode = 'preview'): string => {
+    const headScripts = [
+        mode === 'preview' ? consoleBridgeScriptContent : '',
+        `<script type="importmap">${JSON.stringify({ imports: importMap }).replace(/</g, '\\u003c')}</script>`,
+        `<script>window.process = { env: { NODE_ENV: '${mode === 'preview' ? 'development' : 'production'}' } };</script>`,
+        useTailwind ? `<script src="https://cdn.tailwindcss.com"></script>` : '',
+    ].join('\n');
+    const bodyScripts = mode === 'preview'
+        ? `${debuggerScriptContent}\n${previewRuntimeScriptContent}`
+        : `${previewRuntimeScriptContent}\n<script src="/${STATIC_BUILD_FILE}"></script>\n${staticBootScriptContent}`;
+
+    let html = indexHtml || `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8" /><meta name="viewport" content="width=device-width, initial-scale=1.0" /><title>ASAI Live Preview</title></head><body><div id="root"></div></body></html>`;
+    // The runtime loads project modules itself, and only one import map is allowed per page.
+    html = html
+        .replace(/<script[^>]*type=["']module["'][^>]*>[\s\S]*?<\/script>/gi, '')
+        .replace(/<script[^>]*type=["']importmap["'][^>]*>[\s\S]*?<\/script>/gi, '')
+        .replace(/<link[^>]*rel=["']stylesheet["'][^>]*href=["']\/?src\/[^"']*["'][^>]*>/gi, '');
+
+    html = /<head[^>]*>/i.test(html) ? html.replace(/<head[^>]*>/i, match => `${match}\n${headScripts}`) : `${headScripts}\n${html}`;
+    html = html.includes('</body>') ? html.replace('</body>', () => `${bodyScripts}</body>`) : `${html}\n${bodyScripts}`;
+    return html;
+};
+
+export const buildPreview = (files: FileNode[], cache: PreviewTranspileCache, mode: ShellMode = 'preview'): PreviewBuild => {
+    const sources = new Map(files.filter(f => f.type === 'file' && f.content !== undefined).map(f => [f.path, f.content!]));
+    const paths = new Set(sources.keys());
+    const fileSet = [...paths].sort().join('\n');
+    const indexHtml = sources.get('index.html');
+    const entry = findEntry(indexHtml, paths);
+    const modules: Record<string, PreviewModule> = {};
+    const errors: PreviewBuildError[] = [];
+    const externals = new Set<string>();
+
+    const queue = entry ? [entry] : [];
+    const visited = new Set<string>();
+    while (queue.length > 0) {
+        const path = queue.shift()!;
+        if (visited.has(path)) continue;
+        visited.add(path);
+        const source = sources.get(path)!;
+
+        let cached = cache.get(path);
+        if (!cached || cached.source !== source || cached.fileSet !== fileSet) {
+            try {
+                cached = { source, fileSet, module: transpileFile(path, source, paths) };
+            } catch (error) {
+                cached = { source, fileSet, module: null, error: error instanceof Error ? error.message : String(error) };
+            }
+            cache.set(path, cached);
+        }
+        if (!cached.module) {
+            errors.push({ path, message: cached.error || 'Could not transpile this file.' });
+            continue;
+        }
+
+        modules[path] = cached.module;
+        Object.values(cached.module.deps).forEach(dep => queue.push(dep));
+        if (cached.module.kind === 'js') {
+            for (const match of cached.module.code.matchAll(REQUIRE_PATTERN)) {
+                if (isBareSpecifier(match[1])) externals.add(match[1]);
+            }
+        }
+    }
+    // Drop entries for files that are gone.
+    [...cache.keys()].forEach(path => { if (!paths.has(path)) cache.delete(path); });
+
+    if (!entry) errors.push({ path: 'index.html', message: 'No entry point found. Add src/main.tsx (or src/index.tsx), or a module script to index.html.' });
+
+    const useTailwind = Object.entries(modules).some(([path]) => path.endsWith('.css') && usesTailwindDirectives(sources.get(path) || ''))
+        || [...paths].some(p => /^tailwind\.config\.(js|cjs|mjs|ts)$/.test(p));
+    const sortedExternals = [...externals].sort();
+    const importMap = buildImportMap(sortedExternals, readPackageVersions(sources.get('package.json')), readUserImportMap(indexHtml));
+
+    return {
+        shellHtml: buildShellHtml(indexHtml, importMap, useTailwind, mode),
+        entry,
+        modules,
+        externals: sortedExternals,
+        errors,
+    };
+};
+
+// A ready-to-host site: the same modules the preview runs, loaded by the same runtime, with no editor attached.
+// Returns the site's files keyed by the path they should be served at.
+export const buildStaticSite = (files: FileNode[]): Record<string, string> => {
+    const build = buildPreview(files, new Map(), 'static');
+    if (build.errors.length > 0) {
+        throw new Error(`The project has build errors:\n${build.errors.map(e => `${e.path}: ${e.message}`).join('\n')}`);
+    }
+
+    const output: Record<string, string> = {};
+    // Assets are referenced at their project path, and Vite serves public/ from the site root.
+    files.forEach(file => {
+        if (file.type !== 'file' || file.content === undefined) return;
+        if (file.path.startsWith('public/')) output[file.path.slice('public/'.length)] = file.content;
+        else if (build.modules[file.path]?.kind === 'asset') output[file.path] = file.content;
+    });
+    output['index.html'] = build.shellHtml;
+    output[STATIC_BUILD_FILE] = `window.__ASAI_BUILD__ = ${JSON.stringify({ entry: build.entry, modules: build.modules, externals: build.externals })};`;
+    return output;
+};
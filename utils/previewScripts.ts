@@ -0,0 +1,361 @@
+// Scripts injected into every live preview, whichever engine runs it.
+
+// Highlights the element God Mode is about to act on.
+export const debuggerScriptContent = `
+<script>
+  (() => {
+    let highlightEl = null;
+    let styleSheet = null;
+
+    const actionStyles = {
+      CLICK_ELEMENT: {
+          borderColor: 'rgba(59, 130, 246, 0.9)', // blue-500
+          label: 'Clicking'
+      },
+      TYPE_IN_INPUT: {
+          borderColor: 'rgba(16, 185, 129, 0.9)', // emerald-500
+          label: 'Typing'
+      },
+    };
+
+    const injectStylesheet = (actionType) => {
+        if (styleSheet) styleSheet.remove();
+        const style = actionStyles[actionType] || actionStyles.CLICK_ELEMENT;
+        styleSheet = document.createElement("style");
+        styleSheet.type = "text/css";
+        styleSheet.innerText = \`
+            @keyframes asai-pulse {
+                0% { box-shadow: 0 0 0 0 \${style.borderColor}; }
+                70% { box-shadow: 0 0 0 10px rgba(129, 140, 248, 0); }
+                100% { box-shadow: 0 0 0 0 rgba(129, 140, 248, 0); }
+            }
+        \`;
+        document.head.appendChild(styleSheet);
+    }
+
+    const clearHighlight = () => {
+        if (highlightEl) {
+            highlightEl.remove();
+            highlightEl = null;
+        }
+    };
+
+    const showHighlight = ({ selector, actionType }) => {
+        clearHighlight();
+        const targetEl = document.querySelector(\`[data-testid="\${selector}"]\`);
+        if (!targetEl) {
+            console.warn(\`ASAI Debugger: Could not find element with selector [\${selector}]\`);
+            return;
+        }
+
+        injectStylesheet(actionType);
+        const rect = targetEl.getBoundingClientRect();
+        const style = actionStyles[actionType] || actionStyles.CLICK_ELEMENT;
+
+        highlightEl = document.createElement('div');
+        highlightEl.style.position = 'fixed';
+        highlightEl.style.top = \`\${rect.top}px\`;
+        highlightEl.style.left = \`\${rect.left}px\`;
+        highlightEl.style.width = \`\${rect.width}px\`;
+        highlightEl.style.height = \`\${rect.height}px\`;
+        highlightEl.style.border = \`3px solid \${style.borderColor}\`;
+        highlightEl.style.borderRadius = '4px';
+        highlightEl.style.backgroundColor = 'rgba(129, 140, 248, 0.2)';
+        highlightEl.style.zIndex = '99999';
+        highlightEl.style.pointerEvents = 'none';
+        highlightEl.style.transition = 'all 0.2s ease-out';
+        highlightEl.style.animation = 'asai-pulse 1.5s infinite';
+        
+        const labelEl = document.createElement('div');
+        labelEl.innerText = style.label;
+        labelEl.style.position = 'absolute';
+        labelEl.style.top = '-24px';
+        labelEl.style.left = '0';
+        labelEl.style.backgroundColor = style.borderColor;
+        labelEl.style.color = 'white';
+        labelEl.style.padding = '2px 6px';
+        labelEl.style.borderRadius = '4px';
+        labelEl.style.fontSize = '12px';
+        labelEl.style.fontWeight = 'bold';
+        
+        highlightEl.appendChild(labelEl);
+        document.body.appendChild(highlightEl);
+    };
+    
+    window.addEventListener('message', (event) => {
+        if (event.data?.source === 'asai-god-mode-debugger') {
+            if (event.data.type === 'HIGHLIGHT') {
+                showHighlight(event.data.payload);
+            } else if (event.data.type === 'CLEAR') {
+                clearHighlight();
+            }
+        }
+    });
+  })();
+</script>
+`;
+
+// Runs before the app's own scripts and forwards console calls and uncaught errors to the editor.
+// Messages go to the top window because StackBlitz nests the running app inside its own iframe.
+export const consoleBridgeScriptContent = `
+<script>
+  (() => {
+    if (window.__asaiConsoleBridge) return;
+    window.__asaiConsoleBridge = true;
+    const target = window.top || window.parent;
+
+    const serialize = (value, seen, depth) => {
+        if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack || '' };
+        if (value === undefined) return 'undefined';
+        if (typeof value === 'function') return \`[Function \${value.name || 'anonymous'}]\`;
+        if (typeof value === 'symbol' || typeof value === 'bigint') return String(value);
+        if (typeof value !== 'object' || value === null) return value;
+        if (typeof Element !== 'undefined' && value instanceof Element) return \`<\${value.tagName.toLowerCase()}\${value.id ? '#' + value.id : ''}>\`;
+        if (seen.has(value)) return '[Circular]';
+        if (depth > 4) return Array.isArray(value) ? '[Array]' : '[Object]';
+        seen.add(value);
+        if (Array.isArray(value)) return value.slice(0, 100).map(item => serialize(item, seen, depth + 1));
+        const result = {};
+        Object.keys(value).slice(0, 100).forEach(key => {
+            try {
+                result[key] = serialize(value[key], seen, depth + 1);
+            } catch (e) {
+                result[key] = '[Unreadable]';
+            }
+        });
+        return result;
+    };
+
+    const send = (method, args) => {
+        try {
+            target.postMessage({ source: 'asai-console-bridge', method, args: args.map(arg => serialize(arg, new WeakSet(), 0)) }, '*');
+        } catch (e) {
+            // Never let the bridge break the app it is observing.
+        }
+    };
+
+    ['log', 'info', 'warn', 'error'].forEach(method => {
+        const original = console[method];
+        console[method] = (...args) => {
+            send(method, args);
+            original.apply(console, args);
+        };
+    });
+
+    window.addEventListener('error', (event) => {
+        const error = event.error instanceof Error
+            ? event.error
+            : { name: 'Error', message: event.message, stack: \`    at \${event.filename}:\${event.lineno}:\${event.colno}\` };
+        send('error', ['Uncaught', error]);
+    });
+
+    window.addEventListener('unhandledrejection', (event) => {
+        send('error', ['Unhandled promise rejection:', event.reason]);
+    });
+  })();
+</script>
+`;
+
+// Vite falls back to a full page reload for edits HMR can't take (index.html, non-component modules).
+// The route survives a reload on its own; this puts the scroll position back too.
+export const scrollKeeperScriptContent = `
+<script>
+  (() => {
+    const key = 'asai-preview-scroll:' + location.pathname + location.search;
+    window.addEventListener('pagehide', () => {
+        try {
+            sessionStorage.setItem(key, JSON.stringify([window.scrollX, window.scrollY]));
+        } catch (e) {
+            // Storage can be unavailable in embedded frames; losing the position is harmless.
+        }
+    });
+    window.addEventListener('load', () => {
+        try {
+            const saved = JSON.parse(sessionStorage.getItem(key) || 'null');
+            sessionStorage.removeItem(key);
+            if (saved) requestAnimationFrame(() => window.scrollTo(saved[0], saved[1]));
+        } catch (e) {
+            // See above.
+        }
+    });
+  })();
+</script>
+`;
+
+// Module runtime for the offline iframe preview. The editor posts transpiled modules in; changed modules and
+// everything that imports them are re-evaluated and the app is remounted, without reloading the page.
+// A change that only touches stylesheets swaps the <style> tags and leaves the app running.
+export const previewRuntimeScriptContent = `
+<script>
+  (() => {
+    const modules = {};
+    const cache = {};
+    const importers = {};
+    const externals = {};
+    const styleTags = {};
+    const roots = [];
+    let entryPath = null;
+    let overlay = null;
+
+    const post = (message) => parent.postMessage(Object.assign({ source: 'asai-preview-runtime' }, message), '*');
+
+    const showErrors = (errors) => {
+        if (!overlay) {
+            overlay = document.createElement('div');
+            overlay.style.cssText = 'position:fixed;inset:0;z-index:2147483647;overflow:auto;padding:24px;background:rgba(24,24,27,0.95);color:#fca5a5;font:13px/1.5 ui-monospace,monospace;white-space:pre-wrap;';
+            document.body.appendChild(overlay);
+        }
+        overlay.textContent = errors.map(error => (error.path ? error.path + '\\n' : '') + error.message).join('\\n\\n');
+    };
+
+    const clearErrors = () => {
+        if (overlay) {
+            overlay.remove();
+            overlay = null;
+        }
+    };
+
+    // ES namespaces are flagged as transpiled modules so default imports of CommonJS packages work.
+    const wrapExternal = (specifier, namespace) => {
+        const wrapped = Object.assign({}, namespace, { __esModule: true });
+        if (specifier === 'react-dom/client') {
+            const track = (create) => function () {
+                const root = create.apply(this, arguments);
+                roots.push(root);
+                return root;
+            };
+            if (namespace.createRoot) wrapped.createRoot = track(namespace.createRoot);
+            if (namespace.hydrateRoot) wrapped.hydrateRoot = track(namespace.hydrateRoot);
+            wrapped.default = Object.assign({}, namespace.default || namespace, { createRoot: wrapped.createRoot, hydrateRoot: wrapped.hydrateRoot });
+        }
+        return wrapped;
+    };
+
+    const loadExternals = (specifiers) => Promise.all(specifiers
+        .filter(specifier => !(specifier in externals))
+        .map(specifier => import(specifier).then(namespace => {
+            externals[specifier] = wrapExternal(specifier, namespace);
+        }, error => {
+            throw new Error('Failed to load package "' + specifier + '": ' + error.message);
+        })));
+
+    const applyStyle = (path, css) => {
+        let tag = styleTags[path];
+        if (!tag) {
+            tag = document.createElement('style');
+            tag.setAttribute('data-asai-path', path);
+            document.head.appendChild(tag);
+            styleTags[path] = tag;
+        }
+        tag.textContent = css;
+    };
+
+    const removeModule = (path) => {
+        delete modules[path];
+        delete cache[path];
+        if (styleTags[path]) {
+            styleTags[path].remove();
+            delete styleTags[path];
+        }
+    };
+
+    const execute = (path) => {
+        if (cache[path]) return cache[path].exports;
+        const record = modules[path];
+        if (!record) throw new Error('Module not found: ' + path);
+        const module = { exports: {} };
+        cache[path] = module;
+
+        if (record.kind === 'css') {
+            applyStyle(path, record.code);
+        } else if (record.kind === 'json') {
+            module.exports = JSON.parse(record.code);
+        } else if (record.kind === 'asset') {
+            module.exports = { __esModule: true, default: record.code };
+        } else {
+            const require = (specifier) => {
+                const target = record.deps[specifier];
+                if (target) {
+                    (importers[target] = importers[target] || new Set()).add(path);
+                    return execute(target);
+                }
+                if (specifier in externals) return externals[specifier];
+                throw new Error('Cannot find module "' + specifier + '" from ' + path);
+            };
+            try {
+                new Function('require', 'module', 'exports', record.code + '\\n//# sourceURL=asai-preview:///' + path)(require, module, module.exports);
+            } catch (error) {
+                delete cache[path];
+                throw error;
+            }
+        }
+        return module.exports;
+    };
+
+    // Drops the given modules and everything that (transitively) imports them from the cache.
+    const invalidate = (paths) => {
+        const queue = paths.slice();
+        const seen = new Set();
+        while (queue.length > 0) {
+            const path = queue.shift();
+            if (seen.has(path)) continue;
+            seen.add(path);
+            delete cache[path];
+            (importers[path] || []).forEach(importer => queue.push(importer));
+        }
+    };
+
+    const remount = () => {
+        roots.splice(0).forEach(root => {
+            try {
+                root.unmount();
+            } catch (error) {
+                console.warn('Could not unmount the previous app root.', error);
+            }
+        });
+        execute(entryPath);
+    };
+
+    window.addEventListener('message', async (event) => {
+        const data = event.data;
+        if (event.source !== parent || !data || data.source !== 'asai-preview-host') return;
+        if (data.type !== 'load' && data.type !== 'update') return;
+
+        try {
+            const changed = Object.keys(data.modules);
+            const removed = data.removed || [];
+            const onlyStyles = data.type === 'update' && removed.length === 0 && data.errors.length === 0 && changed.length > 0
+                && changed.every(path => data.modules[path].kind === 'css' && cache[path]);
+            Object.assign(modules, data.modules);
+            entryPath = data.entry;
+
+            if (onlyStyles) {
+                changed.forEach(path => applyStyle(path, modules[path].code));
+            } else {
+                invalidate(changed.concat(removed));
+                removed.forEach(removeModule);
+                if (data.errors.length > 0) {
+                    showErrors(data.errors);
+                    return;
+                }
+                await loadExternals(data.externals);
+                clearErrors();
+                if (!cache[entryPath]) remount();
+            }
+        } catch (error) {
+            console.error(error);
+            showErrors([{ message: (error && error.stack) || String(error) }]);
+        }
+    });
+
+    post({ type: 'ready' });
+  })();
+</script>
+`;
+
+// Starts a static export: hands the bundled modules to the runtime the same way the editor would.
+export const staticBootScriptContent = `
+<script>
+  window.postMessage(Object.assign({ source: 'asai-preview-host', type: 'load', removed: [], errors: [] }, window.__ASAI_BUILD__), '*');
+</script>
+`;
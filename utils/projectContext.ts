@@ -0,0 +1,148 @@
+import { FileNode, AiProvider, ContextReport } from '../types';
+import { getContextWindow } from '../services/aiProviders';
+
+const MEMORY_FILE_PATH = ".asai/memory.md";
+
+// Share of the context window given to file contents. The rest covers instructions, the request and the reply.
+const FILE_CONTEXT_SHARE = 0.5;
+
+// Code tokenizes denser than prose, so this errs on the side of overestimating.
+const CHARS_PER_TOKEN = 3.5;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export type ProjectContextOptions = {
+    provider: AiProvider;
+    model?: string;
+    query: string; // The request the files are ranked against
+    pinnedPaths?: string[]; // Always included, in this order, even past the budget
+};
+
+export type ProjectContext = {
+    filesJson: string; // JSON object of path -> content for the included files
+    manifest: string; // Markdown section listing omitted files by path, or '' when nothing was left out
+    report: ContextReport;
+};
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'make', 'add', 'use', 'should', 'please', 'file', 'files', 'code', 'can', 'you', 'all', 'new']);
+
+const extractKeywords = (query: string): string[] => {
+    const words = query.toLowerCase().split(/[^a-z0-9_]+/).filter(w => w.length >= 3 && !STOP_WORDS.has(w));
+    return [...new Set(words)];
+};
+
+const IMPORT_PATTERN = /(?:import\s[^'"]*?from\s*|import\s*\(?\s*|require\s*\(\s*|export\s[^'"]*?from\s*)['"](\.{1,2}\/[^'"]+)['"]/g;
+const RESOLVE_EXTENSIONS = ['', '.ts', '.tsx', '.js', '.jsx', '.css', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
+
+const resolveImport = (fromPath: string, specifier: string, paths: Set<string>): string | null => {
+    const segments = fromPath.split('/').slice(0, -1);
+    for (const part of specifier.split('/')) {
+        if (part === '..') segments.pop();
+        else if (part !== '.') segments.push(part);
+    }
+    const base = segments.join('/');
+    for (const ext of RESOLVE_EXTENSIONS) {
+        if (paths.has(base + ext)) return base + ext;
+    }
+    return null;
+};
+
+// Edges in both directions: a file is related to what it imports and to what imports it.
+const buildImportGraph = (files: FileNode[]): Map<string, Set<string>> => {
+    const paths = new Set(files.map(f => f.path));
+    const graph = new Map<string, Set<string>>();
+    const link = (a: string, b: string) => {
+        if (!graph.has(a)) graph.set(a, new Set());
+        graph.get(a)!.add(b);
+    };
+    for (const file of files) {
+        for (const match of (file.content || '').matchAll(IMPORT_PATTERN)) {
+            const target = resolveImport(file.path, match[1], paths);
+            if (target && target !== file.path) {
+                link(file.path, target);
+                link(target, file.path);
+            }
+        }
+    }
+    return graph;
+};
+
+const ENTRY_POINT_PATTERN = /(^|\/)(package\.json|index\.html|(index|main|App)\.(t|j)sx?)$/;
+
+const scoreFiles = (files: FileNode[], query: string, pinnedPaths: string[]): Map<string, number> => {
+    const keywords = extractKeywords(query);
+    const lowerQuery = query.toLowerCase();
+    const scores = new Map<string, number>();
+
+    for (const file of files) {
+        const lowerPath = file.path.toLowerCase();
+        const fileName = lowerPath.split('/').pop() || '';
+        const baseName = fileName.replace(/\.[^.]+$/, '');
+        let score = 0;
+        if (lowerQuery.includes(lowerPath) || (baseName.length >= 3 && lowerQuery.includes(baseName))) score += 50;
+        const lowerContent = (file.content || '').toLowerCase();
+        for (const keyword of keywords) {
+            if (lowerPath.includes(keyword)) score += 10;
+            if (lowerContent.includes(keyword)) score += 2;
+        }
+        if (ENTRY_POINT_PATTERN.test(file.path)) score += 5;
+        if (file.path === MEMORY_FILE_PATH) score += 100;
+        scores.set(file.path, score);
+    }
+
+    // Neighbours of strong matches inherit part of their score, so the components a change touches come along.
+    const graph = buildImportGraph(files);
+    const boosted = new Map(scores);
+    const seeds = new Set([...pinnedPaths, ...files.filter(f => (scores.get(f.path) || 0) >= 10).map(f => f.path)]);
+    seeds.forEach(path => {
+        const seedScore = pinnedPaths.includes(path) ? 40 : scores.get(path) || 0;
+        graph.get(path)?.forEach(neighbour => {
+            boosted.set(neighbour, (boosted.get(neighbour) || 0) + Math.round(seedScore / 2));
+        });
+    });
+    return boosted;
+};
+
+// Picks which files go into a prompt with full content. Pinned files come first, then files are taken by
+// relevance until the token budget is used up; everything else is listed by path so the model still knows it exists.
+export const buildProjectContext = (files: FileNode[], options: ProjectContextOptions): ProjectContext => {
+    const { provider, model, query } = options;
+    const textFiles = files.filter(f => f.type === 'file' && f.content !== undefined);
+    const pinnedPaths = [...new Set(options.pinnedPaths || [])].filter(p => textFiles.some(f => f.path === p));
+    const tokenBudget = Math.floor(getContextWindow(provider, model) * FILE_CONTEXT_SHARE);
+
+    const scores = scoreFiles(textFiles, query, pinnedPaths);
+    const ranked = textFiles
+        .filter(f => !pinnedPaths.includes(f.path))
+        .sort((a, b) => (scores.get(b.path) || 0) - (scores.get(a.path) || 0) || (a.content || '').length - (b.content || '').length);
+
+    const included: Record<string, string> = {};
+    const omittedFiles: string[] = [];
+    let estimatedTokens = 0;
+    const fileCost = (file: FileNode) => estimateTokens(JSON.stringify({ [file.path]: file.content || '' }));
+
+    for (const path of pinnedPaths) {
+        const file = textFiles.find(f => f.path === path)!;
+        included[path] = file.content || '';
+        estimatedTokens += fileCost(file);
+    }
+    for (const file of ranked) {
+        const cost = fileCost(file);
+        if (estimatedTokens + cost <= tokenBudget) {
+            included[file.path] = file.content || '';
+            estimatedTokens += cost;
+        } else {
+            omittedFiles.push(file.path);
+        }
+    }
+
+    const manifest = omittedFiles.length > 0
+        ? `**Other Project Files (content omitted to fit the context window):**\n${[...omittedFiles].sort().map(p => `- ${p}`).join('\n')}\n`
+        : '';
+
+    return {
+        filesJson: JSON.stringify(included, null, 2),
+        manifest,
+        report: { includedFiles: Object.keys(included), omittedFiles, estimatedTokens, tokenBudget },
+    };
+};
@@ -0,0 +1,126 @@
+import { Type } from "@google/genai";
+
+// A small JSON Schema subset, enough to describe the shapes the AI is asked to return.
+export type Schema =
+    | { type: 'string'; enum?: readonly string[]; description?: string }
+    | { type: 'number'; description?: string }
+    | { type: 'boolean'; description?: string }
+    | { type: 'array'; items: Schema; minItems?: number; description?: string }
+    | { type: 'object'; properties: Record<string, Schema>; required?: string[]; additionalProperties?: Schema; description?: string }
+    | { anyOf: Schema[]; description?: string };
+
+// `path` is a JSONPath such as `$.plan.move[0].to`, so the model can be told exactly what to fix.
+export type ValidationIssue = {
+    path: string;
+    message: string;
+};
+
+const describeType = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+const childPath = (path: string, key: string | number): string =>
+    typeof key === 'number' ? `${path}[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+
+export const validateSchema = (value: unknown, schema: Schema, path: string = '$'): ValidationIssue[] => {
+    if ('anyOf' in schema) {
+        const results = schema.anyOf.map(option => validateSchema(value, option, path));
+        if (results.some(issues => issues.length === 0)) return [];
+        // Report the closest match rather than every alternative.
+        return results.reduce((best, issues) => (issues.length < best.length ? issues : best));
+    }
+
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') return [{ path, message: `expected a string, got ${describeType(value)}` }];
+            if (schema.enum && !schema.enum.includes(value)) return [{ path, message: `must be one of ${schema.enum.map(v => `"${v}"`).join(', ')}, got "${value}"` }];
+            return [];
+        case 'number':
+            return typeof value === 'number' ? [] : [{ path, message: `expected a number, got ${describeType(value)}` }];
+        case 'boolean':
+            return typeof value === 'boolean' ? [] : [{ path, message: `expected a boolean, got ${describeType(value)}` }];
+        case 'array': {
+            if (!Array.isArray(value)) return [{ path, message: `expected an array, got ${describeType(value)}` }];
+            const issues: ValidationIssue[] = [];
+            if (schema.minItems !== undefined && value.length < schema.minItems) {
+                issues.push({ path, message: `must contain at least ${schema.minItems} item(s)` });
+            }
+            value.forEach((item, i) => issues.push(...validateSchema(item, schema.items, childPath(path, i))));
+            return issues;
+        }
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [{ path, message: `expected an object, got ${describeType(value)}` }];
+            }
+            const record = value as Record<string, unknown>;
+            const issues: ValidationIssue[] = [];
+            for (const key of schema.required || []) {
+                if (record[key] === undefined) issues.push({ path: childPath(path, key), message: 'is required' });
+            }
+            for (const [key, item] of Object.entries(record)) {
+                if (item === undefined) continue;
+                const propertySchema = schema.properties[key] ?? schema.additionalProperties;
+                // Unknown keys are tolerated; models often add harmless extras such as "notes".
+                if (propertySchema) issues.push(...validateSchema(item, propertySchema, childPath(path, key)));
+            }
+            return issues;
+        }
+    }
+};
+
+export const formatValidationIssues = (issues: ValidationIssue[]): string =>
+    issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n');
+
+const hasUnsupportedGeminiFeatures = (schema: Schema): boolean => {
+    if ('anyOf' in schema) return true;
+    if (schema.type === 'array') return hasUnsupportedGeminiFeatures(schema.items);
+    if (schema.type === 'object') {
+        return !!schema.additionalProperties || Object.values(schema.properties).some(hasUnsupportedGeminiFeatures);
+    }
+    return false;
+};
+
+// Converts to Gemini's `responseSchema` format. Returns undefined for schemas Gemini can't express
+// (maps keyed by file path, unions), in which case callers fall back to plain JSON mode.
+export const toGeminiSchema = (schema: Schema): any | undefined => {
+    if (hasUnsupportedGeminiFeatures(schema)) return undefined;
+    const convert = (s: Schema): any => {
+        if ('anyOf' in s) return undefined;
+        switch (s.type) {
+            case 'string':
+                return { type: Type.STRING, ...(s.enum && { enum: [...s.enum] }), ...(s.description && { description: s.description }) };
+            case 'number':
+                return { type: Type.NUMBER, ...(s.description && { description: s.description }) };
+            case 'boolean':
+                return { type: Type.BOOLEAN, ...(s.description && { description: s.description }) };
+            case 'array':
+                return { type: Type.ARRAY, items: convert(s.items), ...(s.description && { description: s.description }) };
+            case 'object':
+                return {
+                    type: Type.OBJECT,
+                    properties: Object.fromEntries(Object.entries(s.properties).map(([key, value]) => [key, convert(value)])),
+                    ...(s.required && { required: s.required }),
+                    ...(s.description && { description: s.description }),
+                };
+        }
+    };
+    return convert(schema);
+};
+
+// Describes a JSON reply expected from the AI. `schema` checks the shape; `validate` adds checks a schema can't
+// express, such as whether a path exists in the project. `normalize` repairs harmless deviations before validation.
+export type ResponseSpec<T> = {
+    name: string;
+    schema: Schema;
+    normalize?: (value: unknown) => unknown;
+    validate?: (value: T) => ValidationIssue[];
+};
+
+export const validateResponse = <T>(value: unknown, spec: ResponseSpec<T>): ValidationIssue[] => {
+    const issues = validateSchema(value, spec.schema);
+    // Semantic checks assume the shape is right, so they only run once it is.
+    if (issues.length > 0 || !spec.validate) return issues;
+    return spec.validate(value as T);
+};
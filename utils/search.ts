@@ -0,0 +1,122 @@
+import { FileNode } from '../types';
+
+export type SearchOptions = {
+    query: string;
+    isRegex: boolean;
+    isCaseSensitive: boolean;
+    isWholeWord: boolean;
+    include: string; // Comma-separated globs; empty matches every file.
+    exclude: string;
+};
+
+export type SearchMatch = {
+    line: number; // 1-based
+    column: number; // 1-based
+    length: number;
+    preview: string; // The whole line the match is on.
+};
+
+export type FileSearchResult = {
+    path: string;
+    matches: SearchMatch[];
+};
+
+export const MAX_SEARCH_MATCHES = 2000;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Throws a SyntaxError for an invalid regular expression, which the search panel shows as is.
+export const buildSearchRegExp = (options: SearchOptions): RegExp => {
+    const source = options.isRegex ? options.query : escapeRegExp(options.query);
+    const bounded = options.isWholeWord ? `\\b(?:${source})\\b` : source;
+    return new RegExp(bounded, options.isCaseSensitive ? 'g' : 'gi');
+};
+
+// Globs follow the editor conventions: `*` stays within a folder, `**` crosses folders, and a pattern without a
+// slash, like `*.test.ts` or `node_modules`, matches at any depth. A pattern naming a folder covers its contents.
+const globToRegExp = (glob: string): RegExp => {
+    const pattern = glob.replace(/^\.?\//, '');
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            i++;
+            if (pattern[i + 1] === '/') {
+                source += '(?:.*/)?';
+                i++;
+            } else {
+                source += '.*';
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    const anchored = pattern.includes('/') ? source : `(?:.*/)?${source}`;
+    return new RegExp(`^${anchored}(?:/.*)?$`);
+};
+
+const parseGlobs = (globs: string) => globs.split(',').map(g => g.trim()).filter(Boolean).map(globToRegExp);
+
+export const createPathFilter = (include: string, exclude: string) => {
+    const includes = parseGlobs(include);
+    const excludes = parseGlobs(exclude);
+    return (path: string) => (includes.length === 0 || includes.some(re => re.test(path))) && !excludes.some(re => re.test(path));
+};
+
+// Runs `regex` over each line of `content`, skipping empty matches so patterns like `a*` can't loop forever.
+const forEachMatch = (content: string, regex: RegExp, onMatch: (line: number, match: RegExpExecArray, text: string) => boolean) => {
+    const lines = content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        regex.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = regex.exec(lines[i])) !== null) {
+            if (match[0].length === 0) {
+                regex.lastIndex++;
+                continue;
+            }
+            if (!onMatch(i + 1, match, lines[i])) return;
+        }
+    }
+};
+
+// Searches file contents line by line. Stops after MAX_SEARCH_MATCHES, in which case `isTruncated` is set.
+export const searchFiles = (files: FileNode[], options: SearchOptions): { results: FileSearchResult[]; isTruncated: boolean } => {
+    const results: FileSearchResult[] = [];
+    if (!options.query) return { results, isTruncated: false };
+    const regex = buildSearchRegExp(options);
+    const isIncluded = createPathFilter(options.include, options.exclude);
+    let total = 0;
+    for (const file of files) {
+        if (file.type !== 'file' || !file.content || !isIncluded(file.path)) continue;
+        const matches: SearchMatch[] = [];
+        forEachMatch(file.content, regex, (line, match, text) => {
+            matches.push({ line, column: match.index + 1, length: match[0].length, preview: text });
+            return ++total < MAX_SEARCH_MATCHES;
+        });
+        if (matches.length > 0) results.push({ path: file.path, matches });
+        if (total >= MAX_SEARCH_MATCHES) return { results, isTruncated: true };
+    }
+    return { results, isTruncated: false };
+};
+
+// Replaces every match in the given files, line by line so exactly the matches the search showed are replaced.
+// In regex mode the replacement can refer to groups ($1, $<name>); otherwise it is inserted literally.
+// Returns the new content of each file that changed.
+export const replaceInFiles = (files: FileNode[], paths: string[], options: SearchOptions, replacement: string): Record<string, string> => {
+    const regex = buildSearchRegExp(options);
+    const wanted = new Set(paths);
+    const updates: Record<string, string> = {};
+    files.forEach(file => {
+        if (file.type !== 'file' || !file.content || !wanted.has(file.path)) return;
+        const content = file.content.split('\n').map(line => {
+            regex.lastIndex = 0;
+            return options.isRegex ? line.replace(regex, replacement) : line.replace(regex, () => replacement);
+        }).join('\n');
+        if (content !== file.content) updates[file.path] = content;
+    });
+    return updates;
+};
@@ -0,0 +1,114 @@
+import { ApiConfig, ApiKeyVault, EncryptedData, VaultSecret } from '../types';
+
+// WebCrypto helpers for the API key vault. Nothing here leaves the browser unencrypted: the data key only exists
+// in memory once unwrapped, and is never extractable after that.
+
+const PBKDF2_ITERATIONS = 600_000;
+const RECOVERY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I, so codes survive being written down
+const RECOVERY_GROUPS = 5;
+const RECOVERY_GROUP_LENGTH = 5;
+
+export const MIN_PASSPHRASE_LENGTH = 10;
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+// 32 letters, so each random byte maps to one without bias.
+const generateRecoveryCode = () => {
+    const chars = Array.from(randomBytes(RECOVERY_GROUPS * RECOVERY_GROUP_LENGTH), b => RECOVERY_ALPHABET[b % RECOVERY_ALPHABET.length]);
+    return Array.from({ length: RECOVERY_GROUPS }, (_, i) => chars.slice(i * RECOVERY_GROUP_LENGTH, (i + 1) * RECOVERY_GROUP_LENGTH).join('')).join('-');
+};
+
+// Codes are accepted with any case, spacing or dashes.
+const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const deriveWrappingKey = async (secret: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['wrapKey', 'unwrapKey']
+    );
+};
+
+const wrapDataKey = async (dataKey: CryptoKey, wrappingKey: CryptoKey): Promise<EncryptedData> => {
+    const iv = randomBytes(12);
+    const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(wrapped)) };
+};
+
+const unwrapDataKey = (wrapped: EncryptedData, wrappingKey: CryptoKey): Promise<CryptoKey> => crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(wrapped.data),
+    wrappingKey,
+    { name: 'AES-GCM', iv: fromBase64(wrapped.iv) },
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+);
+
+const encryptJson = async (dataKey: CryptoKey, value: unknown): Promise<EncryptedData> => {
+    const iv = randomBytes(12);
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, dataKey, new TextEncoder().encode(JSON.stringify(value)));
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decryptJson = async <T>(dataKey: CryptoKey, encrypted: EncryptedData): Promise<T> => {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encrypted.iv) }, dataKey, fromBase64(encrypted.data));
+    return JSON.parse(new TextDecoder().decode(data));
+};
+
+// A new vault for the keys, with a fresh data key and recovery code. Rotating a vault is creating a new one.
+export const createVault = async (passphrase: string, apiConfig: ApiConfig): Promise<{ vault: ApiKeyVault; dataKey: CryptoKey; recoveryCode: string }> => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    const extractableKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const recoveryCode = generateRecoveryCode();
+    const salt = randomBytes(16);
+    const recoverySalt = randomBytes(16);
+    const [wrappedKey, recoveryWrappedKey, apiKeys] = await Promise.all([
+        deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS).then(key => wrapDataKey(extractableKey, key)),
+        deriveWrappingKey(normalizeRecoveryCode(recoveryCode), recoverySalt, PBKDF2_ITERATIONS).then(key => wrapDataKey(extractableKey, key)),
+        encryptJson(extractableKey, apiConfig),
+    ]);
+    const vault: ApiKeyVault = {
+        version: 1,
+        iterations: PBKDF2_ITERATIONS,
+        salt: toBase64(salt),
+        wrappedKey,
+        recoverySalt: toBase64(recoverySalt),
+        recoveryWrappedKey,
+        apiKeys,
+        rotatedAt: new Date().toISOString(),
+    };
+    // Keep a non-extractable copy for the session, as unlocking would give.
+    const dataKey = await unwrapDataKey(wrappedKey, await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS));
+    return { vault, dataKey, recoveryCode };
+};
+
+// AES-GCM won't unwrap under the wrong key, so a failure here means the secret was wrong.
+export const unlockVault = async (vault: ApiKeyVault, secret: VaultSecret): Promise<CryptoKey> => {
+    const isPassphrase = 'passphrase' in secret;
+    const wrappingKey = isPassphrase
+        ? await deriveWrappingKey(secret.passphrase, fromBase64(vault.salt), vault.iterations)
+        : await deriveWrappingKey(normalizeRecoveryCode(secret.recoveryCode), fromBase64(vault.recoverySalt), vault.iterations);
+    try {
+        return await unwrapDataKey(isPassphrase ? vault.wrappedKey : vault.recoveryWrappedKey, wrappingKey);
+    } catch {
+        throw new Error(isPassphrase ? 'That passphrase is not correct.' : 'That recovery code is not correct.');
+    }
+};
+
+export const openVault = (vault: ApiKeyVault, dataKey: CryptoKey): Promise<Partial<ApiConfig>> => decryptJson(dataKey, vault.apiKeys);
+
+// The same vault holding new keys.
+export const sealVault = async (vault: ApiKeyVault, dataKey: CryptoKey, apiConfig: ApiConfig): Promise<ApiKeyVault> =>
+    ({ ...vault, apiKeys: await encryptJson(dataKey, apiConfig) });